@@ -1,5 +1,4 @@
 import { BigNumberish } from "ethers"
-import { ethers } from "hardhat"
 
 export interface CrocOnePoolParams {
     jitThresh: number,
@@ -17,23 +16,3 @@ export interface CrocPoolParams {
     stdPoolIdx: number
     stdPoolParams: CrocOnePoolParams
 }
-
-const mainnetParams: CrocPoolParams = {
-    universal: {
-        initLiq: 10000
-    },
-    stdPoolIdx: 420,
-    stdPoolParams: {
-        jitThresh: 30,
-        tickSize: 16,
-        feeBps: 27,
-        knockoutOn: true
-    }
-}
-
-const goerliDryRunParams = mainnetParams
-
-export const CROC_POOL_PARAMS = {
-    '0x1': mainnetParams,
-    '0x5': goerliDryRunParams,
-}
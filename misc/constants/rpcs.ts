@@ -1,7 +0,0 @@
-
-
-export const RPC_URLS = {
-    'mock': "http://127.0.0.1:8545/",
-    '0x5': 'https://goerli.infura.io/v3/cf3bc905d88d4f248c6be347adc8a1d8',
-    '0x1': 'https://mainnet.infura.io/v3/360ea5fda45b4a22883de8522ebd639e'
-}
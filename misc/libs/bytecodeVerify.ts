@@ -0,0 +1,215 @@
+import { Contract, ethers } from "ethers"
+import { Provider } from "@ethersproject/providers"
+import { artifacts } from 'hardhat';
+import { CrocAddrs } from "../constants/addrs"
+import { BOOT_PROXY_IDX, COLD_PROXY_IDX, FLAG_CROSS_PROXY_IDX, KNOCKOUT_LP_PROXY_IDX, LONG_PROXY_IDX,
+    LP_PROXY_IDX, MICRO_PROXY_IDX, SWAP_PROXY_IDX } from "../sdk/commands"
+import { proxyPathName } from "../sdk/protocolDecoder"
+import { PROXY_PATHS_SLOT, slotAddress } from "../sdk/storageSlots"
+
+/* Verifies the runtime bytecode of every contract in a CrocAddrs entry against the local
+ * build. Immutables are copied over from the chain before comparing, since the artifact
+ * has zeros in their place, and are then checked against their expected values. The
+ * solc metadata hash at the end of the code is compared separately, because it changes
+ * with comments and source paths even when the executable code is identical. The dex's
+ * proxy slots are checked to point at the addresses in the entry. */
+
+type CrocAddrKey = Exclude<keyof CrocAddrs, "govern" | "shell" | "policyShell" | "deployer">
+
+interface VerifiedContract {
+    contract: string
+    // The dex proxy slot the contract is installed at, for callpaths
+    proxyIdx?: number
+    // Immutables that must hold the dex address
+    dexImmutables?: boolean
+}
+
+export const VERIFIED_CONTRACTS: Record<CrocAddrKey, VerifiedContract> = {
+    dex: { contract: "CrocSwapDex" },
+    cold: { contract: "ColdPath", proxyIdx: COLD_PROXY_IDX },
+    warm: { contract: "WarmPath", proxyIdx: LP_PROXY_IDX },
+    long: { contract: "LongPath", proxyIdx: LONG_PROXY_IDX },
+    micro: { contract: "MicroPaths", proxyIdx: MICRO_PROXY_IDX },
+    hot: { contract: "HotProxy", proxyIdx: SWAP_PROXY_IDX },
+    knockout: { contract: "KnockoutLiqPath", proxyIdx: KNOCKOUT_LP_PROXY_IDX },
+    koCross: { contract: "KnockoutFlagPath", proxyIdx: FLAG_CROSS_PROXY_IDX },
+    policy: { contract: "CrocPolicy", dexImmutables: true },
+    query: { contract: "CrocQuery", dexImmutables: true },
+    impact: { contract: "CrocImpact", dexImmutables: true },
+}
+
+export interface ImmutableRef {
+    start: number
+    length: number
+}
+
+export interface ImmutableValue extends ImmutableRef {
+    value: string
+}
+
+// Byte range [start, end) of the runtime code, metadata excluded
+export interface ByteRange {
+    start: number
+    end: number
+}
+
+export interface BytecodeDiff {
+    localLength: number
+    chainLength: number
+    ranges: ByteRange[]
+    immutables: ImmutableValue[]
+    metadataMatch: boolean
+}
+
+export interface BytecodeCheck {
+    check: string
+    ok: boolean
+    detail: string
+    diff?: BytecodeDiff
+}
+
+/* @notice Byte-exact diff of local runtime code against the chain. Offsets are in bytes
+ *         from the start of the code. */
+export function diffBytecode (local: string, chain: string, immutableRefs: ImmutableRef[] = []):
+    BytecodeDiff {
+    let localBytes = ethers.utils.arrayify(local)
+    const chainBytes = ethers.utils.arrayify(chain)
+
+    const immutables = immutableRefs
+        .filter(ref => ref.start + ref.length <= Math.min(localBytes.length, chainBytes.length))
+        .map(ref => {
+            const value = chainBytes.slice(ref.start, ref.start + ref.length)
+            localBytes.set(value, ref.start)
+            return { ...ref, value: ethers.utils.hexlify(value) }
+        })
+
+    const [localBody, localMeta] = splitMetadata(localBytes)
+    const [chainBody, chainMeta] = splitMetadata(chainBytes)
+    let ranges: ByteRange[] = []
+    const shared = Math.min(localBody.length, chainBody.length)
+    for (let i = 0; i < shared; ++i) {
+        if (localBody[i] === chainBody[i]) { continue }
+        const last = ranges[ranges.length - 1]
+        if (last && last.end === i) {
+            last.end = i + 1
+        } else {
+            ranges.push({ start: i, end: i + 1 })
+        }
+    }
+    if (localBody.length !== chainBody.length) {
+        ranges.push({ start: shared, end: Math.max(localBody.length, chainBody.length) })
+    }
+
+    return { localLength: localBytes.length, chainLength: chainBytes.length, ranges, immutables,
+        metadataMatch: ethers.utils.hexlify(localMeta) === ethers.utils.hexlify(chainMeta) }
+}
+
+/* @notice Checks the code at one address against a contract in the local build. */
+export async function verifyBytecode (contract: string, addr: string, provider: Provider,
+    expectImmutables?: string): Promise<BytecodeCheck> {
+    const check = `${contract} code`
+    const chain = await provider.getCode(addr)
+    if (chain === "0x") {
+        return { check, ok: false, detail: `no code at ${addr}` }
+    }
+
+    const { deployedBytecode, immutableRefs } = await localRuntime(contract)
+    const diff = diffBytecode(deployedBytecode, chain, immutableRefs)
+    if (diff.ranges.length > 0) {
+        return { check, ok: false, diff, detail: `${addr} differs from source at bytes ` +
+            formatRanges(diff.ranges) + ` (source ${diff.localLength} bytes, ` +
+            `chain ${diff.chainLength} bytes)` }
+    }
+
+    if (expectImmutables) {
+        const expected = ethers.utils.hexZeroPad(expectImmutables, 32).toLowerCase()
+        const wrong = diff.immutables.filter(imm => imm.value.toLowerCase() !== expected)
+        if (wrong.length > 0) {
+            return { check, ok: false, diff, detail: `${addr} immutable at byte ${wrong[0].start} ` +
+                `holds ${wrong[0].value}, expected ${expectImmutables}` }
+        }
+    }
+    return { check, ok: true, diff, detail: `${addr} matches source` +
+        (diff.immutables.length > 0 ? ` with ${diff.immutables.length} immutable references` : "") +
+        (diff.metadataMatch ? "" : ", metadata hash differs") }
+}
+
+/* @notice Checks every deployed contract in the entry against the local build, and every
+ *         callpath in the entry against the dex's proxy slots. Empty addresses are
+ *         skipped. Never throws on a failed check, so the caller can print the full
+ *         report. */
+export async function verifyCrocAddrs (addrs: CrocAddrs, provider: Provider):
+    Promise<BytecodeCheck[]> {
+    let checks: BytecodeCheck[] = []
+    const keys = Object.keys(VERIFIED_CONTRACTS) as CrocAddrKey[]
+
+    for (const key of keys) {
+        const spec = VERIFIED_CONTRACTS[key]
+        if (!addrs[key]) { continue }
+        const expectImmutables = spec.dexImmutables ? addrs.dex : undefined
+        const result = await verifyBytecode(spec.contract, addrs[key], provider, expectImmutables)
+        checks.push({ ...result, check: `${key} ${result.check}` })
+    }
+
+    if (!addrs.dex || await provider.getCode(addrs.dex) === "0x") {
+        return checks
+    }
+    const dex = new Contract(addrs.dex, ["function readSlot(uint256 slot) view returns (uint256)"],
+        provider)
+    const proxyAt = async (idx: number) => slotAddress(await dex.readSlot(PROXY_PATHS_SLOT + idx))
+
+    const boot = await proxyAt(BOOT_PROXY_IDX)
+    const bootCheck = await verifyBytecode("BootPath", boot, provider)
+    checks.push({ ...bootCheck, check: `boot ${bootCheck.check}` })
+
+    for (const key of keys) {
+        const idx = VERIFIED_CONTRACTS[key].proxyIdx
+        if (idx === undefined || !addrs[key]) { continue }
+        const installed = await proxyAt(idx)
+        const ok = installed.toLowerCase() === addrs[key].toLowerCase()
+        checks.push({ check: `${proxyPathName(idx)} slot ${idx}`, ok, detail: ok ?
+            `points at ${key} ${installed}` : `points at ${installed}, expected ${key} ${addrs[key]}` })
+    }
+    return checks
+}
+
+export function printBytecodeChecks (checks: BytecodeCheck[]): boolean {
+    checks.forEach(c => console.log(`${c.ok ? "PASS" : "FAIL"}  ${c.check}: ${c.detail}`))
+    return checks.every(c => c.ok)
+}
+
+async function localRuntime (contract: string):
+    Promise<{ deployedBytecode: string, immutableRefs: ImmutableRef[] }> {
+    const artifact = await artifacts.readArtifact(contract)
+    const buildInfo = await artifacts.getBuildInfo(`${artifact.sourceName}:${artifact.contractName}`)
+    const refs = (buildInfo?.output.contracts[artifact.sourceName][artifact.contractName] as any)
+        ?.evm?.deployedBytecode?.immutableReferences || {}
+
+    let immutableRefs: ImmutableRef[] = []
+    Object.keys(refs).forEach(id => refs[id].forEach((ref: ImmutableRef) =>
+        immutableRefs.push({ start: ref.start, length: ref.length })))
+    immutableRefs.sort((a, b) => a.start - b.start)
+    return { deployedBytecode: artifact.deployedBytecode, immutableRefs }
+}
+
+// Solc appends CBOR encoded metadata to the runtime code, followed by its length as a
+// two byte big-endian integer
+function splitMetadata (code: Uint8Array): [Uint8Array, Uint8Array] {
+    if (code.length < 2) { return [code, new Uint8Array(0)] }
+    const metaLen = code[code.length - 2] * 256 + code[code.length - 1]
+    const metaStart = code.length - 2 - metaLen
+    const isCborMap = metaStart >= 0 && code[metaStart] >= 0xa1 && code[metaStart] <= 0xb7
+    if (!isCborMap) { return [code, new Uint8Array(0)] }
+    return [code.slice(0, metaStart), code.slice(metaStart)]
+}
+
+/* @notice Lists the differing byte ranges, e.g. "12, 40-43", up to the first few. The
+ *         full list is in the diff. */
+export function formatRanges (ranges: ByteRange[]): string {
+    const shown = ranges.slice(0, MAX_SHOWN_RANGES).map(r =>
+        r.end - r.start === 1 ? `${r.start}` : `${r.start}-${r.end - 1}`).join(", ")
+    return ranges.length > MAX_SHOWN_RANGES ?
+        `${shown} and ${ranges.length - MAX_SHOWN_RANGES} more ranges` : shown
+}
+
+const MAX_SHOWN_RANGES = 10
@@ -1,9 +1,11 @@
-import { JsonRpcProvider, Provider, TransactionReceipt, TransactionResponse } from "@ethersproject/providers";
-import { Contract, ContractTransaction, Signer, Wallet } from "ethers";
+import { Provider, TransactionReceipt, TransactionResponse } from "@ethersproject/providers";
+import { Contract, ContractTransaction, Signer } from "ethers";
 import { ethers } from "hardhat"
-import { CrocAddrs, CROC_ADDRS } from "../constants/addrs";
-import { CrocPoolParams, CROC_POOL_PARAMS } from "../constants/poolParams";
-import { RPC_URLS } from "../constants/rpcs";
+import { CrocAddrs } from "../constants/addrs";
+import { CrocPoolParams } from "../constants/poolParams";
+import { ChainAddrField, ChainConfig, chainProvider, lookupChain, requireAddr } from "./chainRegistry";
+import { diffBytecode, formatRanges } from "./bytecodeVerify";
+import { openSigner } from "./signers";
 
 export async function traceContractDeploy 
     (deployTx: Promise<Contract>, tag: string): Promise<Contract> {
@@ -56,32 +58,27 @@ export async function refContract (contractName: string, addr: string,
     return contract
 }
 
-export function initChain (chainId?: string): 
-    { wallet: Wallet, addrs: CrocAddrs, chainId: string, poolParams: CrocPoolParams } {
+// Chains are looked up in the chain registry by name or hex chain id. The signer is picked
+// by the CROC_SIGNER env var, see misc/libs/signers.ts
+export function initChain (chainId?: string, required: ChainAddrField[] = ["dex"]): 
+    { wallet: Signer, addrs: CrocAddrs, chainId: string, poolParams: CrocPoolParams, chain: ChainConfig } {
 
-    chainId = chainId || process.env.CHAIN_ID || 'mock';
-    const addrs = CROC_ADDRS[chainId as keyof typeof CROC_ADDRS]
-    const rpcUrl = RPC_URLS[chainId as keyof typeof RPC_URLS]
-    const poolParams = CROC_POOL_PARAMS[chainId as keyof typeof CROC_POOL_PARAMS]
+    const { addrs, provider, poolParams, chain } = initProvider(chainId, required)
+    const wallet = openSigner({}, provider)
 
-    const provider = new JsonRpcProvider(rpcUrl)
-    const key = process.env.WALLET_KEY as string
-    const wallet = new Wallet(key.toLowerCase()).connect(provider)
-
-    return { addrs, wallet, chainId, poolParams }
+    return { addrs, wallet, chainId: chain.chainId, poolParams, chain }
 }
 
-export function initProvider (chainId?: string): 
-    { addrs: CrocAddrs, provider: Provider, chainId: string, poolParams: CrocPoolParams } {
-
-    chainId = chainId || process.env.CHAIN_ID || 'mock';
-    const addrs = CROC_ADDRS[chainId as keyof typeof CROC_ADDRS]
-    const rpcUrl = RPC_URLS[chainId as keyof typeof RPC_URLS]
-    const poolParams = CROC_POOL_PARAMS[chainId as keyof typeof CROC_POOL_PARAMS]
+// Throws if the chain has no address for any of the required fields. Deploy scripts pass an
+// empty list, since they run against chains with no dex yet
+export function initProvider (chainId?: string, required: ChainAddrField[] = ["dex"]): 
+    { addrs: CrocAddrs, provider: Provider, chainId: string, poolParams: CrocPoolParams, chain: ChainConfig } {
 
-    const provider = new JsonRpcProvider(rpcUrl)
+    const chain = lookupChain(chainId || process.env.CHAIN_ID || 'mock')
+    required.forEach(field => requireAddr(chain, field))
+    const provider = chainProvider(chain)
 
-    return { addrs, provider, chainId, poolParams }
+    return { addrs: chain.addrs, provider, chainId: chain.chainId, poolParams: chain.poolParams, chain }
 }
 
 export async function validateDeploy (addr: string, contractName: string, provider: Provider,
@@ -104,19 +101,16 @@ export async function validateDeploy (addr: string, contractName: string, provid
 }
 
 function explainMismatch (contractName: string, addr: string, sourceBytecode: string, chainBytecode: string) {
-    if (sourceBytecode.length - chainBytecode.length !== 0) {
-        const lengthClause = `source: ${sourceBytecode.length} vs chain: ${chainBytecode.length}`
+    const diff = diffBytecode(sourceBytecode, chainBytecode)
+    if (diff.localLength !== diff.chainLength) {
+        const lengthClause = `source: ${diff.localLength} vs chain: ${diff.chainLength} bytes`
         console.log(`Failure: Contract ${contractName} deployed at ${addr} differs from source in length (${lengthClause})`)
-        return;
     }
-    let byteMismatch;
-    for (let i = 0; i < sourceBytecode.length; i += 64) {
-        if (sourceBytecode.slice(i, i + 1) !== chainBytecode.slice(i, i + 1)) {
-            byteMismatch = i
-            break
-        }
+    if (diff.ranges.length > 0) {
+        console.log(`Failure: Contract ${contractName} deployed at ${addr} differs from source at bytes ${formatRanges(diff.ranges)}`)
+    } else {
+        console.log(`Failure: Contract ${contractName} deployed at ${addr} differs from source only in its metadata hash`)
     }
-    console.log(`Failure: Contract ${contractName} deployed at ${addr} differs from source at byte ${byteMismatch} of ${sourceBytecode.length}`)
 }
 
 async function setupContractDependencies (args: any[], provider: Provider) {
@@ -0,0 +1,271 @@
+import { ethers } from "ethers"
+import { FallbackProvider, JsonRpcProvider, Provider } from "@ethersproject/providers"
+import fs from "fs"
+import path from "path"
+import { CrocAddrs, CrocGovAddrs } from "../constants/addrs"
+import { CrocPoolParams } from "../constants/poolParams"
+
+/* Per-chain configuration: RPC endpoints, deployed contract addresses, token lists and
+ * pool parameters. Every chain is a JSON file in misc/chains/, named after the chain.
+ * More chain files can be loaded from the directory in CROC_CHAINS_DIR, and override the
+ * bundled file of the same name.
+ *
+ * Environment variables override the files, with the chain name upper cased and dashes
+ * replaced by underscores:
+ *
+ *   CROC_<CHAIN>_RPC        comma separated RPC URLs, tried before the file's
+ *   CROC_<CHAIN>_<FIELD>    any CrocAddrs address, e.g. CROC_ALTHEA_DEX or
+ *                           CROC_MAINNET_TIMELOCK_OPS
+ *
+ * RPC URLs can embed ${VAR} references to keep API keys out of the files. URLs whose
+ * variables aren't set are skipped. Contracts that aren't deployed on a chain are left out
+ * of its file and read as empty strings, per the CrocAddrs convention. */
+
+export interface ChainConfig {
+    name: string
+    // Hex chain id, e.g. "0x1"
+    chainId: string
+    // Tried in order
+    rpcs: string[]
+    addrs: CrocAddrs
+    // Token addresses by lower case symbol. The zero address is the native token
+    tokens: Record<string, string>
+    // Pool indices in use on the chain, the standard pool index first
+    poolIdxs: number[]
+    poolParams: CrocPoolParams
+}
+
+export type ChainRegistry = Record<string, ChainConfig>
+
+export type Env = Record<string, string | undefined>
+
+// Any address in CrocAddrs, governance addresses included
+export type ChainAddrField = Exclude<keyof CrocAddrs, "govern"> | keyof CrocGovAddrs
+
+type ContractAddrField = Exclude<keyof CrocAddrs, "govern">
+
+export const CHAINS_DIR = path.join(__dirname, "../chains")
+
+const ADDR_FIELDS: ContractAddrField[] = ["dex", "cold", "warm", "long", "micro", "hot", "knockout",
+    "koCross", "policy", "query", "impact", "shell", "policyShell", "deployer"]
+
+const GOV_FIELDS: (keyof CrocGovAddrs)[] = ["multisigTreasury", "multisigOps", "multisigEmergency",
+    "timelockTreasury", "timelockOps", "timelockEmergency"]
+
+/* @notice Loads and validates every chain file in misc/chains/ and CROC_CHAINS_DIR, with
+ *         the environment overrides applied. */
+export function loadChainRegistry (env: Env = process.env, dirs?: string[]): ChainRegistry {
+    dirs = dirs || [CHAINS_DIR].concat(env.CROC_CHAINS_DIR ? [env.CROC_CHAINS_DIR] : [])
+    let registry: ChainRegistry = {}
+
+    dirs.forEach(dir => fs.readdirSync(dir).filter(f => f.endsWith(".json")).sort().forEach(f => {
+        const file = path.join(dir, f)
+        const chain = parseChainConfig(JSON.parse(fs.readFileSync(file, "utf8")), file)
+        if (chain.name !== path.basename(f, ".json")) {
+            throw new Error(`Chain file ${file} must be named ${chain.name}.json`)
+        }
+        registry[chain.name] = applyEnv(chain, env)
+    }))
+
+    const ids = Object.keys(registry).map(name => registry[name].chainId)
+    ids.forEach((id, i) => {
+        if (ids.indexOf(id) !== i) {
+            throw new Error(`Chain id ${id} is configured twice`)
+        }
+    })
+    return registry
+}
+
+/* @notice Validates a parsed chain file and fills in the addresses it leaves out. */
+export function parseChainConfig (raw: unknown, source: string): ChainConfig {
+    const fail = (msg: string): never => { throw new Error(`Invalid chain config ${source}: ${msg}`) }
+    if (!isRecord(raw)) { return fail("not a JSON object") }
+    checkKeys(raw, ["name", "chainId", "rpcs", "addrs", "tokens", "poolIdxs", "poolParams"], fail)
+
+    const { name, chainId } = raw
+    if (typeof name !== "string" || !/^[a-z0-9-]+$/.test(name)) {
+        return fail("name must be lower case letters, digits and dashes")
+    }
+    if (typeof chainId !== "string" || !/^0x[0-9a-f]+$/.test(chainId)) {
+        return fail(`chainId ${chainId} must be a lower case hex string`)
+    }
+    const rpcs = listOf(raw.rpcs, (r): r is string => typeof r === "string")
+    if (!rpcs || rpcs.length === 0) {
+        return fail("rpcs must be a non-empty list of URLs")
+    }
+    const poolIdxs = listOf(raw.poolIdxs, (i): i is number => Number.isInteger(i) && Number(i) > 0)
+    if (!poolIdxs || poolIdxs.length === 0 || poolIdxs.some((idx, i) => poolIdxs.indexOf(idx) !== i)) {
+        return fail("poolIdxs must be a non-empty list of distinct positive integers")
+    }
+
+    const rawAddrs = raw.addrs === undefined ? {} : raw.addrs
+    const rawGovern = isRecord(rawAddrs) && rawAddrs.govern !== undefined ? rawAddrs.govern : {}
+    if (!isRecord(rawAddrs) || !isRecord(rawGovern)) {
+        return fail("addrs must be an object of addresses")
+    }
+    const addrs = parseAddrs(rawAddrs, ADDR_FIELDS, ["govern"], fail)
+    const govern = parseAddrs(rawGovern, GOV_FIELDS, [], fail)
+
+    const tokens = raw.tokens === undefined ? {} : raw.tokens
+    if (!isRecord(tokens)) {
+        return fail("tokens must be an object of addresses")
+    }
+    let tokenAddrs: Record<string, string> = {}
+    Object.keys(tokens).forEach(symbol => {
+        const addr = tokens[symbol]
+        if (symbol !== symbol.toLowerCase() || typeof addr !== "string" || !ethers.utils.isAddress(addr)) {
+            return fail(`token ${symbol} must be a lower case symbol with an address`)
+        }
+        tokenAddrs[symbol] = addr
+    })
+
+    const poolParams = parsePoolParams(raw.poolParams)
+    if (!poolParams) {
+        return fail("poolParams must have universal.initLiq, stdPoolIdx and stdPoolParams " +
+            "{jitThresh, tickSize, feeBps, knockoutOn}")
+    }
+    if (poolIdxs[0] !== poolParams.stdPoolIdx) {
+        return fail(`poolIdxs must start with the standard pool index ${poolParams.stdPoolIdx}`)
+    }
+
+    return { name, chainId, rpcs, tokens: tokenAddrs, poolIdxs, poolParams,
+        addrs: { ...addrs, govern } }
+}
+
+/* @notice Looks up a chain by name or hex chain id. */
+export function lookupChain (chain: string, registry: ChainRegistry = loadChainRegistry()):
+    ChainConfig {
+    const found = registry[chain] || Object.keys(registry).map(name => registry[name])
+        .filter(c => c.chainId === chain.toLowerCase())[0]
+    if (!found) {
+        throw new Error(`Unknown chain ${chain}. Configured chains: ` + Object.keys(registry)
+            .map(name => `${name} (${registry[name].chainId})`).join(", "))
+    }
+    return found
+}
+
+/* @notice The chain's RPC URLs with ${VAR} references resolved. Throws if none are usable. */
+export function chainRpcUrls (chain: ChainConfig, env: Env = process.env): string[] {
+    const urls = chain.rpcs.map(url => resolveEnvRefs(url, env))
+        .filter((url): url is string => url !== undefined)
+    if (urls.length === 0) {
+        throw new Error(`No usable RPC URL for chain ${chain.name}. Set the variables in ` +
+            `${chain.rpcs.join(", ")} or ${envName(chain, "RPC")}`)
+    }
+    return urls
+}
+
+/* @notice Provider over the chain's RPC URLs, falling back to the later URLs if the
+ *         first one stalls or fails. */
+export function chainProvider (chain: ChainConfig, env: Env = process.env): Provider {
+    const urls = chainRpcUrls(chain, env)
+    if (urls.length === 1) {
+        return new JsonRpcProvider(urls[0])
+    }
+    return new FallbackProvider(urls.map((url, i) => ({ provider: new JsonRpcProvider(url),
+        priority: i + 1, stallTimeout: RPC_STALL_MS, weight: 1 })), 1)
+}
+
+/* @notice The address of a contract on the chain. Throws if it isn't deployed there. */
+export function requireAddr (chain: ChainConfig, field: ChainAddrField): string {
+    const addr = isGovField(field) ? chain.addrs.govern[field] : chain.addrs[field]
+    if (!addr) {
+        throw new Error(`No ${field} address for chain ${chain.name}. Set it in ` +
+            `misc/chains/${chain.name}.json or ${envName(chain, field)}`)
+    }
+    return addr
+}
+
+export function chainToken (chain: ChainConfig, symbol: string): string {
+    const addr = chain.tokens[symbol.toLowerCase()]
+    if (addr === undefined) {
+        throw new Error(`No token ${symbol} on chain ${chain.name}. Known tokens: ` +
+            Object.keys(chain.tokens).join(", "))
+    }
+    return addr
+}
+
+function applyEnv (chain: ChainConfig, env: Env): ChainConfig {
+    const override = (field: string, current: string) => {
+        const val = env[envName(chain, field)]
+        if (val !== undefined && !ethers.utils.isAddress(val)) {
+            throw new Error(`${envName(chain, field)} isn't an address: ${val}`)
+        }
+        return val !== undefined ? val : current
+    }
+
+    let addrs = { ...chain.addrs, govern: { ...chain.addrs.govern } }
+    ADDR_FIELDS.forEach(f => { addrs[f] = override(f, addrs[f]) })
+    GOV_FIELDS.forEach(f => { addrs.govern[f] = override(f, addrs.govern[f]) })
+
+    const rpcEnv = env[envName(chain, "RPC")]
+    const rpcs = (rpcEnv ? rpcEnv.split(",").map(r => r.trim()).filter(r => r) : []).concat(chain.rpcs)
+    return { ...chain, addrs, rpcs }
+}
+
+// Fills in an empty string for every address field that's left out
+function parseAddrs<K extends string> (raw: Record<string, unknown>, fields: K[], nested: string[],
+    fail: (msg: string) => never): Record<K, string> {
+    checkKeys(raw, nested.concat(fields), fail)
+    let addrs = {} as Record<K, string>
+    fields.forEach(f => {
+        const val = raw[f] === undefined ? "" : raw[f]
+        if (typeof val !== "string" || (val !== "" && !ethers.utils.isAddress(val))) {
+            return fail(`${f} address ${val} isn't an address`)
+        }
+        addrs[f] = val
+    })
+    return addrs
+}
+
+function parsePoolParams (raw: unknown): CrocPoolParams | undefined {
+    if (!isRecord(raw) || !isRecord(raw.universal) || !isRecord(raw.stdPoolParams)) {
+        return undefined
+    }
+    const { initLiq } = raw.universal
+    const { jitThresh, tickSize, feeBps, knockoutOn } = raw.stdPoolParams
+    const isNum = (v: unknown): v is number => typeof v === "number" && v >= 0
+    if (!(isNum(initLiq) || typeof initLiq === "string") || !isNum(raw.stdPoolIdx) ||
+        !isNum(jitThresh) || !isNum(tickSize) || !isNum(feeBps) || typeof knockoutOn !== "boolean") {
+        return undefined
+    }
+    return { universal: { initLiq }, stdPoolIdx: raw.stdPoolIdx,
+        stdPoolParams: { jitThresh, tickSize, feeBps, knockoutOn } }
+}
+
+function checkKeys (raw: Record<string, unknown>, allowed: string[], fail: (msg: string) => never) {
+    Object.keys(raw).forEach(k => {
+        if (allowed.indexOf(k) < 0) { fail(`unknown field ${k}`) }
+    })
+}
+
+function isRecord (raw: unknown): raw is Record<string, unknown> {
+    return typeof raw === "object" && raw !== null && !Array.isArray(raw)
+}
+
+// The list if every element passes the check, otherwise undefined
+function listOf<T> (raw: unknown, check: (v: unknown) => v is T): T[] | undefined {
+    return Array.isArray(raw) && raw.every(check) ? raw : undefined
+}
+
+function isGovField (field: ChainAddrField): field is keyof CrocGovAddrs {
+    return (GOV_FIELDS as string[]).indexOf(field) >= 0
+}
+
+// Returns undefined if any referenced variable isn't set
+function resolveEnvRefs (url: string, env: Env): string | undefined {
+    let missing = false
+    const resolved = url.replace(/\$\{([A-Za-z0-9_]+)\}/g, (_, name) => {
+        const val = env[name]
+        if (!val) { missing = true }
+        return val || ""
+    })
+    return missing ? undefined : resolved
+}
+
+function envName (chain: ChainConfig, field: string): string {
+    const snake = field.replace(/([a-z])([A-Z])/g, "$1_$2").toUpperCase()
+    return `CROC_${chain.name.replace(/-/g, "_").toUpperCase()}_${snake}`
+}
+
+const RPC_STALL_MS = 2000
@@ -0,0 +1,251 @@
+import { BigNumber, BigNumberish, Contract, ethers, Overrides, Signer } from "ethers"
+import { Provider } from "@ethersproject/providers"
+import fs from "fs"
+import { DeployManifest, DeployState, manifestDexName, pendingDexSteps, readManifestArtifact,
+    resolveManifestArg, unconfiguredDex, validateManifest } from "./deployManifest"
+import { EXPORT_GAS_LIMIT, isUnsignedExport } from "./signers"
+import { SlotReader } from "../sdk/swapSimulator"
+import { AUTHORITY_SLOT, slotAddress } from "../sdk/storageSlots"
+import { withRevertDecoding } from "../sdk/revertDecoder"
+
+/* Deterministic deployments through CrocDeployer (contracts/periphery/CrocDeployer.sol).
+ * Every contract in a deployment manifest (see deployManifest.ts) is deployed with CREATE2
+ * from the same CrocDeployer, so its address depends only on the deployer address, the
+ * salt and the init code. With the CrocDeployer at the same address, the whole deployment
+ * lands at the same addresses on every chain.
+ *
+ * A plan is made offline: it fixes the salt of every contract, optionally searching for
+ * vanity addresses, and predicts every address before anything is broadcast. It's then
+ * written to disk, executed and verified against the chain. The CrocDeployer is the dex's
+ * authority until the plan hands it off, so the proxies, init liquidity and templates are
+ * set through CrocDeployer.protocolCmd(). "$deployer" in the manifest refers to the
+ * CrocDeployer. */
+
+export interface PlannedContract {
+    name: string
+    artifact: string
+    salt: string
+    // Constructor args with every reference resolved
+    args: (string | number)[]
+    initCodeHash: string
+    address: string
+}
+
+export interface Create2Plan {
+    deployer: string
+    manifest: DeployManifest
+    contracts: PlannedContract[]
+}
+
+export interface Create2PlanOpts {
+    artifactsRoot: string
+    // Salt for every contract without a vanity target
+    salt?: BigNumberish
+    // Hex prefixes that the named contracts' addresses must start with
+    vanity?: Record<string, string>
+    maxTries?: number
+    log?: (msg: string) => void
+}
+
+export interface VanitySalt {
+    salt: string
+    address: string
+    tries: number
+}
+
+export interface PlanCheck {
+    check: string
+    ok: boolean
+    detail: string
+}
+
+export const CROC_DEPLOYER_ABI = [
+    "function getAddress(bytes bytecode, uint256 salt) view returns (address)",
+    "function deploy(bytes bytecode, uint256 salt) returns (address)",
+    "function protocolCmd(address dex, uint16 proxyPath, bytes cmd, bool sudo)",
+]
+
+/* @notice Fixes the salts and predicts the address of every contract in the manifest. */
+export function planCreate2Deploy (manifest: DeployManifest, deployer: string,
+    opts: Create2PlanOpts): Create2Plan {
+    validateManifest(manifest)
+    deployer = ethers.utils.getAddress(deployer)
+    const log = opts.log || console.log
+    const vanity = opts.vanity || {}
+    Object.keys(vanity).forEach(name => {
+        if (!manifest.contracts.some(c => c.name === name)) {
+            throw new Error(`Vanity target ${name} isn't in the manifest`)
+        }
+    })
+
+    let state: DeployState = { contracts: {} }
+    const contracts = manifest.contracts.map(c => {
+        if (c.address) {
+            throw new Error(`Contract ${c.name} is pinned to ${c.address} and can't be planned`)
+        }
+        const args = (c.args || []).map(a => resolveManifestArg(manifest, state, deployer, a))
+        const initCodeHash = ethers.utils.keccak256(initCode(opts.artifactsRoot, c.artifact, args))
+
+        let salt = ethers.utils.hexZeroPad(BigNumber.from(opts.salt || 0).toHexString(), 32)
+        if (vanity[c.name]) {
+            const found = findVanitySalt(deployer, initCodeHash, vanity[c.name], { maxTries: opts.maxTries })
+            log(`Found vanity salt for ${c.name} after ${found.tries} tries`)
+            salt = found.salt
+        }
+
+        const address = ethers.utils.getCreate2Address(deployer, salt, initCodeHash)
+        state.contracts[c.name] = address
+        return { name: c.name, artifact: c.artifact, salt, args, initCodeHash, address }
+    })
+    return { deployer, manifest, contracts }
+}
+
+/* @notice Searches salts upwards from start until the CREATE2 address starts with the hex
+ *         prefix. The prefix is matched case insensitively. */
+export function findVanitySalt (deployer: string, initCodeHash: string, prefix: string,
+    opts: { start?: BigNumberish, maxTries?: number } = {}): VanitySalt {
+    const target = prefix.toLowerCase().replace(/^0x/, "")
+    if (!/^[0-9a-f]*$/.test(target) || target.length > 40) {
+        throw new Error(`Vanity prefix ${prefix} isn't a hex address prefix`)
+    }
+
+    const maxTries = opts.maxTries || DEFAULT_VANITY_TRIES
+    let salt = BigNumber.from(opts.start || 0)
+    for (let tries = 1; tries <= maxTries; ++tries) {
+        const saltHex = ethers.utils.hexZeroPad(salt.toHexString(), 32)
+        const address = ethers.utils.getCreate2Address(deployer, saltHex, initCodeHash)
+        if (address.toLowerCase().startsWith("0x" + target)) {
+            return { salt: saltHex, address, tries }
+        }
+        salt = salt.add(1)
+    }
+    throw new Error(`No salt gives an address starting with ${prefix} in ${maxTries} tries`)
+}
+
+export function readCreate2Plan (file: string): Create2Plan {
+    return JSON.parse(fs.readFileSync(file, "utf8")) as Create2Plan
+}
+
+export function writeCreate2Plan (file: string, plan: Create2Plan) {
+    fs.writeFileSync(file, JSON.stringify(plan, null, 2))
+}
+
+/* @notice Deploys every planned contract that isn't on chain yet, then configures the dex
+ *         through the CrocDeployer. Safe to re-run after a failure. The signer has to be
+ *         the CrocDeployer's owner. */
+export async function executeCreate2Plan (plan: Create2Plan, owner: Signer,
+    opts: { artifactsRoot: string, log?: (msg: string) => void, overrides?: Overrides }) {
+    const log = opts.log || console.log
+    // Exported transactions depend on earlier ones that aren't on chain, so can't be estimated
+    const exporting = isUnsignedExport(owner)
+    const overrides = exporting ? { gasLimit: EXPORT_GAS_LIMIT, ...opts.overrides } : opts.overrides || {}
+    const provider = owner.provider as Provider
+    const deployer = new Contract(plan.deployer, CROC_DEPLOYER_ABI, owner)
+    if (await provider.getCode(plan.deployer) === "0x") {
+        throw new Error(`No CrocDeployer at ${plan.deployer}`)
+    }
+
+    for (const c of plan.contracts) {
+        if (await provider.getCode(c.address) !== "0x") {
+            log(`Found existing ${c.name}`)
+        } else {
+            const code = initCode(opts.artifactsRoot, c.artifact, c.args)
+            if (ethers.utils.keccak256(code) !== c.initCodeHash) {
+                throw new Error(`Init code of ${c.name} changed since the plan was made`)
+            }
+            const predicted = await deployer.callStatic.getAddress(code, c.salt)
+            if (predicted !== c.address) {
+                throw new Error(`CrocDeployer puts ${c.name} at ${predicted}, not the planned ${c.address}`)
+            }
+            await (await deployer.deploy(code, c.salt, overrides)).wait()
+            if (!exporting && await provider.getCode(c.address) === "0x") {
+                throw new Error(`Deploying ${c.name} left no code at ${c.address}`)
+            }
+        }
+        // Same format as the dex-deployer output
+        log(`${c.name} deployed at Address -  ${c.address}`)
+    }
+
+    const dex = planDex(plan, provider)
+    // An exported dex isn't on chain yet, so its configuration starts from scratch
+    const slots = exporting && await provider.getCode(dex.address) === "0x" ?
+        unconfiguredDex(plan.deployer) : dex
+    const steps = await pendingDexSteps(plan.manifest, planState(plan), plan.deployer, slots)
+    if (steps.length === 0) {
+        log("Dex configuration already up to date")
+        return
+    }
+    const authority = slotAddress(await slots.readSlot(AUTHORITY_SLOT))
+    if (authority !== plan.deployer) {
+        throw new Error(`Dex authority is ${authority}, not the CrocDeployer. Can't apply: ` +
+            steps.map(s => s.label).join(", "))
+    }
+    for (const step of steps) {
+        log(step.label)
+        const ctx = { method: "protocolCmd", callpath: step.cmd.callpath, cmd: step.cmd.protocolCmd }
+        await withRevertDecoding(ctx, async () => (await deployer.protocolCmd(dex.address,
+            step.cmd.callpath, step.cmd.protocolCmd, step.cmd.sudo as boolean, overrides)).wait())
+    }
+}
+
+/* @notice Checks the plan against the chain, and against the local artifacts if a root
+ *         is given. Never throws on a failed check, so the caller can print the full
+ *         report. */
+export async function verifyCreate2Plan (plan: Create2Plan, provider: Provider,
+    artifactsRoot?: string): Promise<PlanCheck[]> {
+    let checks: PlanCheck[] = []
+    const report = (check: string, ok: boolean, detail: string) => checks.push({ check, ok, detail })
+
+    const deployerCode = await provider.getCode(plan.deployer)
+    report("CrocDeployer", deployerCode !== "0x", `${plan.deployer} ${deployerCode !== "0x" ?
+        "has code" : "has no code"}`)
+
+    for (const c of plan.contracts) {
+        const derived = ethers.utils.getCreate2Address(plan.deployer, c.salt, c.initCodeHash)
+        if (derived !== c.address) {
+            report(c.name, false, `salt and init code give ${derived}, not the planned ${c.address}`)
+            continue
+        }
+        if (artifactsRoot) {
+            const hash = ethers.utils.keccak256(initCode(artifactsRoot, c.artifact, c.args))
+            if (hash !== c.initCodeHash) {
+                report(c.name, false, `local artifact init code hash ${hash} differs from the plan`)
+                continue
+            }
+        }
+        const deployed = await provider.getCode(c.address) !== "0x"
+        report(c.name, deployed, `${c.address} ${deployed ? "deployed" : "has no code"}`)
+    }
+
+    const dex = planDex(plan, provider)
+    if (await provider.getCode(dex.address) !== "0x") {
+        const steps = await pendingDexSteps(plan.manifest, planState(plan), plan.deployer, dex)
+        report("Dex configuration", steps.length === 0, steps.length === 0 ? "matches the manifest" :
+            `pending: ${steps.map(s => s.label).join(", ")}`)
+    }
+    return checks
+}
+
+export function printPlanChecks (checks: PlanCheck[]): boolean {
+    checks.forEach(c => console.log(`${c.ok ? "PASS" : "FAIL"}  ${c.check}: ${c.detail}`))
+    return checks.every(c => c.ok)
+}
+
+function initCode (artifactsRoot: string, artifact: string, args: (string | number)[]): string {
+    const { abi, bytecode } = readManifestArtifact(artifactsRoot, artifact)
+    return ethers.utils.hexConcat([bytecode, new ethers.utils.Interface(abi).encodeDeploy(args)])
+}
+
+function planState (plan: Create2Plan): DeployState {
+    let contracts: Record<string, string> = {}
+    plan.contracts.forEach(c => { contracts[c.name] = c.address })
+    return { contracts }
+}
+
+function planDex (plan: Create2Plan, provider: Provider): Contract & SlotReader {
+    const dex = plan.contracts.filter(c => c.name === manifestDexName(plan.manifest))[0]
+    return new Contract(dex.address, ["function readSlot(uint256 slot) view returns (uint256)"],
+        provider) as Contract & SlotReader
+}
+
+const DEFAULT_VANITY_TRIES = 10000000
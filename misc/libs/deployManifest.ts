@@ -0,0 +1,338 @@
+import { JsonFragment } from "@ethersproject/abi"
+import { BigNumber, BigNumberish, Contract, ContractFactory, ethers, Overrides, Signer } from "ethers"
+import fs from "fs"
+import path from "path"
+import { authTransferCmd, COLD_PROXY_IDX, CrocProtocolCmd, FLAG_CROSS_PROXY_IDX,
+    initPoolLiqCmd, KNOCKOUT_LP_PROXY_IDX, knockoutBits, KnockoutSpec, LONG_PROXY_IDX, LP_PROXY_IDX,
+    MICRO_PROXY_IDX, MULTICALL_PROXY_IDX, poolTemplateCmd, SAFE_MODE_PROXY_PATH, SWAP_PROXY_IDX,
+    TemplateArgs, unpackKnockoutBits, upgradeProxyCmd } from "../sdk/commands"
+import { translateCrocErrors } from "../sdk/revertDecoder"
+import { SlotReader } from "../sdk/swapSimulator"
+import { EXPORT_GAS_LIMIT, isUnsignedExport } from "./signers"
+import { AUTHORITY_SLOT, POOL_REGISTRY_SLOT, PROXY_PATHS_SLOT, readTemplates,
+    slotAddress } from "../sdk/storageSlots"
+
+/* Declarative dex deployments. A manifest (see misc/manifests/) lists the contracts to
+ * deploy, the proxy slots to install them in, the init pool liquidity, the pool templates
+ * and the final dex authority. runDeployManifest() brings a chain to that state.
+ *
+ * Every step checks the chain first and is skipped if it's already done. Deployed
+ * addresses are recorded in a state file as they land, so a failed run can be re-run
+ * with the same manifest and state file and picks up where it stopped. */
+
+export interface DeployManifest {
+    // Named addresses that contract args and the authority can refer to as "$name"
+    addresses?: Record<string, string>
+    // Deployed in order. Later contracts can refer to earlier ones as "$name"
+    contracts: ManifestContract[]
+    // The contract that's the dex. Defaults to CrocSwapDex
+    dex?: string
+    proxies: ManifestProxy[]
+    initLiq?: BigNumberish
+    templates?: ManifestTemplate[]
+    // Hands the dex authority to this address once everything else is installed
+    authority?: string
+}
+
+export interface ManifestContract {
+    name: string
+    // Artifact JSON path, relative to the artifacts root
+    artifact: string
+    args?: (string | number)[]
+    // Use an already deployed instance instead of deploying
+    address?: string
+}
+
+export interface ManifestProxy {
+    contract: string
+    slot: number | ProxySlotName
+}
+
+export interface ManifestTemplate {
+    poolIdx: BigNumberish
+    // In hundredths of a basis point
+    feeRate: number
+    tickSize: number
+    // In units of 10 seconds
+    jitThresh: number
+    // Either the named knockout parameters, or the raw knockoutBits field
+    knockout: KnockoutSpec | number
+    oracleFlags?: number
+}
+
+export type ProxySlotName = keyof typeof PROXY_SLOTS
+
+// Addresses deployed so far, keyed by manifest contract name
+export interface DeployState {
+    contracts: Record<string, string>
+}
+
+export interface DeployOpts {
+    artifactsRoot: string
+    state?: DeployState
+    // Called with the updated state after every deployed contract
+    onState?: (state: DeployState) => void
+    log?: (msg: string) => void
+    overrides?: Overrides
+}
+
+export const PROXY_SLOTS = {
+    hot: SWAP_PROXY_IDX,
+    warm: LP_PROXY_IDX,
+    cold: COLD_PROXY_IDX,
+    long: LONG_PROXY_IDX,
+    micro: MICRO_PROXY_IDX,
+    multicall: MULTICALL_PROXY_IDX,
+    knockoutLiq: KNOCKOUT_LP_PROXY_IDX,
+    knockoutFlag: FLAG_CROSS_PROXY_IDX,
+    safeMode: SAFE_MODE_PROXY_PATH
+}
+
+export function readDeployManifest (file: string): DeployManifest {
+    const manifest = JSON.parse(fs.readFileSync(file, "utf8")) as DeployManifest
+    validateManifest(manifest)
+    return manifest
+}
+
+export function readDeployState (file: string): DeployState {
+    if (!fs.existsSync(file)) {
+        return { contracts: {} }
+    }
+    return JSON.parse(fs.readFileSync(file, "utf8")) as DeployState
+}
+
+export function writeDeployState (file: string, state: DeployState) {
+    fs.writeFileSync(file, JSON.stringify(state, null, 2))
+}
+
+/* @notice Checks the manifest is self-consistent before anything is sent on chain. */
+export function validateManifest (manifest: DeployManifest) {
+    const names = manifest.contracts.map(c => c.name)
+    names.forEach((n, i) => {
+        if (names.indexOf(n) !== i) {
+            throw new Error(`Contract ${n} is listed twice in the manifest`)
+        }
+        if (manifest.addresses && manifest.addresses[n] !== undefined) {
+            throw new Error(`Contract ${n} shadows the named address of the same name`)
+        }
+    })
+    if (names.indexOf(manifestDexName(manifest)) < 0) {
+        throw new Error(`Dex contract ${manifestDexName(manifest)} isn't in the manifest`)
+    }
+
+    manifest.contracts.forEach((c, i) => (c.args || []).forEach(arg => {
+        const ref = argRef(arg)
+        if (ref !== undefined && ref !== "deployer" && names.slice(0, i).indexOf(ref) < 0 &&
+            !(manifest.addresses && manifest.addresses[ref])) {
+            throw new Error(`Contract ${c.name} argument ${arg} isn't a named address or an ` +
+                "earlier contract")
+        }
+    }))
+
+    const authRef = manifest.authority ? argRef(manifest.authority) : undefined
+    if (authRef !== undefined && authRef !== "deployer" && names.indexOf(authRef) < 0 &&
+        !(manifest.addresses && manifest.addresses[authRef])) {
+        throw new Error(`Authority ${manifest.authority} isn't a named address or a contract`)
+    }
+
+    manifest.proxies.forEach(p => {
+        if (names.indexOf(p.contract) < 0) {
+            throw new Error(`Proxy ${p.contract} isn't in the manifest contracts`)
+        }
+        upgradeProxyCmd(ethers.constants.AddressZero, proxySlot(p.slot))
+    })
+    const slots = manifest.proxies.map(p => proxySlot(p.slot))
+    slots.forEach((s, i) => {
+        if (slots.indexOf(s) !== i) {
+            throw new Error(`Proxy slot ${s} is installed twice`)
+        }
+    })
+
+    if (manifest.initLiq !== undefined) {
+        initPoolLiqCmd(manifest.initLiq)
+    }
+    (manifest.templates || []).forEach(t => poolTemplateCmd(templateArgs(t)))
+}
+
+/* @notice Deploys and configures everything in the manifest that isn't already on chain.
+ *         Returns the addresses of every manifest contract. */
+export async function runDeployManifest (manifest: DeployManifest, signer: Signer,
+    opts: DeployOpts): Promise<DeployState> {
+    validateManifest(manifest)
+    const log = opts.log || console.log
+    // Exported transactions depend on earlier ones that aren't on chain, so can't be estimated
+    const overrides = isUnsignedExport(signer) ? { gasLimit: EXPORT_GAS_LIMIT, ...opts.overrides } :
+        opts.overrides || {}
+    const provider = signer.provider as ethers.providers.Provider
+    const deployer = await signer.getAddress()
+    let state: DeployState = { contracts: { ...(opts.state ? opts.state.contracts : {}) } }
+
+    for (const c of manifest.contracts) {
+        if (c.address && await provider.getCode(c.address) === "0x") {
+            throw new Error(`Pinned ${c.name} address ${c.address} has no code`)
+        }
+        const known = c.address || state.contracts[c.name]
+        if (known && await provider.getCode(known) !== "0x") {
+            log(`Found existing ${c.name}`)
+            state.contracts[c.name] = ethers.utils.getAddress(known)
+        } else {
+            const { abi, bytecode } = readManifestArtifact(opts.artifactsRoot, c.artifact)
+            const args = (c.args || []).map(a => resolveManifestArg(manifest, state, deployer, a))
+            const contract = await new ContractFactory(abi, bytecode, signer).deploy(...args, overrides)
+            await contract.deployed()
+            state.contracts[c.name] = contract.address
+            if (opts.onState) {
+                opts.onState(state)
+            }
+        }
+        // Parsed by the bootstrapping tests for contract addresses, don't change the format
+        log(`${c.name} deployed at Address -  ${state.contracts[c.name]}`)
+    }
+
+    const dexDef = manifest.contracts.filter(c => c.name === manifestDexName(manifest))[0]
+    // Failed steps throw with the decoded protocol command and revert reason
+    const dex = translateCrocErrors(new Contract(state.contracts[dexDef.name],
+        readManifestArtifact(opts.artifactsRoot, dexDef.artifact).abi, signer)) as Contract & SlotReader
+    // An exported dex isn't on chain yet, so its configuration starts from scratch
+    const slots = isUnsignedExport(signer) && await provider.getCode(dex.address) === "0x" ?
+        unconfiguredDex(deployer) : dex
+    const steps = await pendingDexSteps(manifest, state, deployer, slots)
+    if (steps.length === 0) {
+        log("Dex configuration already up to date")
+        return state
+    }
+
+    const authority = slotAddress(await slots.readSlot(AUTHORITY_SLOT))
+    if (authority !== deployer) {
+        throw new Error(`Dex authority is ${authority}, not the deployer ${deployer}. Can't ` +
+            `apply: ${steps.map(s => s.label).join(", ")}`)
+    }
+
+    for (const step of steps) {
+        log(step.label)
+        const tx = await dex.protocolCmd(step.cmd.callpath, step.cmd.protocolCmd,
+            step.cmd.sudo as boolean, overrides)
+        await tx.wait()
+    }
+    return state
+}
+
+export interface DeployStep {
+    label: string
+    cmd: CrocProtocolCmd
+}
+
+/* @notice The protocol commands still needed to bring the dex's proxies, init liquidity,
+ *         templates and authority in line with the manifest, given the deployed contract
+ *         addresses. The deployer resolves "$deployer" references. */
+export async function pendingDexSteps (manifest: DeployManifest, state: DeployState,
+    deployer: string, dex: SlotReader): Promise<DeployStep[]> {
+    let steps: DeployStep[] = []
+
+    for (const p of manifest.proxies) {
+        const slot = proxySlot(p.slot)
+        const addr = state.contracts[p.contract]
+        if (slotAddress(await dex.readSlot(PROXY_PATHS_SLOT + slot)) !== addr) {
+            steps.push({ label: `Installing ${p.contract} in callpath ${slot}`,
+                cmd: upgradeProxyCmd(addr, slot) })
+        }
+    }
+
+    if (manifest.initLiq !== undefined) {
+        const current = (await dex.readSlot(POOL_REGISTRY_SLOT)).mask(128)
+        if (!current.eq(manifest.initLiq)) {
+            steps.push({ label: `Setting initial pool liquidity to ${manifest.initLiq.toString()}`,
+                cmd: initPoolLiqCmd(manifest.initLiq) })
+        }
+    }
+
+    const templates = manifest.templates || []
+    const onChain = await readTemplates(dex, templates.map(t => t.poolIdx))
+    templates.forEach((t, i) => {
+        const args = templateArgs(t)
+        const cur = onChain[i]
+        if (cur.schema === 0 || cur.feeRate !== args.feeRate || cur.tickSize !== args.tickSize ||
+            cur.jitThresh !== args.jitThresh || !sameKnockout(cur.knockoutBits, args.knockoutBits) ||
+            cur.oracleFlags !== (args.oracleFlags || 0)) {
+            steps.push({ label: `Setting pool template ${BigNumber.from(t.poolIdx).toString()}`,
+                cmd: poolTemplateCmd(args) })
+        }
+    })
+
+    if (manifest.authority) {
+        const target = ethers.utils.getAddress(
+            resolveManifestArg(manifest, state, deployer, manifest.authority).toString())
+        if (slotAddress(await dex.readSlot(AUTHORITY_SLOT)) !== target) {
+            steps.push({ label: `Transferring dex authority to ${target}`, cmd: authTransferCmd(target) })
+        }
+    }
+    return steps
+}
+
+/* @notice Storage of a newly deployed dex, owned by the authority with nothing configured.
+ *         Stands in for a dex whose deploy was exported but isn't on chain yet. */
+export function unconfiguredDex (authority: string): SlotReader {
+    return { readSlot: async (slot: BigNumberish) =>
+        BigNumber.from(slot).eq(AUTHORITY_SLOT) ? BigNumber.from(authority) : BigNumber.from(0) }
+}
+
+// Bits that differ in encoding but not in meaning (e.g. both placement bits set, which the dex
+// reads as inside) don't need the template re-issued
+function sameKnockout (cur: number, want: number): boolean {
+    const [a, b] = [unpackKnockoutBits(cur), unpackKnockoutBits(want)]
+    return a.placement === b.placement && a.width === b.width && a.onGrid === b.onGrid
+}
+
+function templateArgs (t: ManifestTemplate): TemplateArgs {
+    return {
+        poolIdx: t.poolIdx,
+        feeRate: t.feeRate,
+        tickSize: t.tickSize,
+        jitThresh: t.jitThresh,
+        knockoutBits: typeof t.knockout === "number" ? t.knockout : knockoutBits(t.knockout),
+        oracleFlags: t.oracleFlags
+    }
+}
+
+function proxySlot (slot: number | ProxySlotName): number {
+    if (typeof slot === "number") {
+        return slot
+    }
+    if (PROXY_SLOTS[slot] === undefined) {
+        throw new Error(`Unknown proxy slot ${slot}. Use a number or one of ` +
+            Object.keys(PROXY_SLOTS).join(", "))
+    }
+    return PROXY_SLOTS[slot]
+}
+
+export function manifestDexName (manifest: DeployManifest): string {
+    return manifest.dex || "CrocSwapDex"
+}
+
+function argRef (arg: string | number): string | undefined {
+    return typeof arg === "string" && arg.startsWith("$") ? arg.slice(1) : undefined
+}
+
+/* @notice Resolves a contract argument, replacing "$name" references with the named or
+ *         deployed address. */
+export function resolveManifestArg (manifest: DeployManifest, state: DeployState, deployer: string,
+    arg: string | number): string | number {
+    const ref = argRef(arg)
+    if (ref === undefined) {
+        return arg
+    }
+    if (ref === "deployer") {
+        return deployer
+    }
+    const addr = state.contracts[ref] || (manifest.addresses && manifest.addresses[ref])
+    if (!addr) {
+        throw new Error(`Unresolved manifest reference ${arg}`)
+    }
+    return ethers.utils.getAddress(addr)
+}
+
+export function readManifestArtifact (root: string, artifact: string):
+    { abi: JsonFragment[], bytecode: string } {
+    const { abi, bytecode } = JSON.parse(fs.readFileSync(path.join(root, artifact), "utf8"))
+    return { abi, bytecode }
+}
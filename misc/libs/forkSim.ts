@@ -0,0 +1,273 @@
+import { BigNumber, BigNumberish, ethers } from "ethers"
+import { Log } from "@ethersproject/providers"
+import { ethers as hreEthers, network } from 'hardhat';
+import { CrocPolicy, CrocSwapDex } from "../../typechain"
+import { refContract } from "./chain"
+import { forkChain, ResolutionFile } from "./resolution"
+import { CrocEventLog, decodeCrocLog } from "../sdk/events"
+import { proxyPathName } from "../sdk/protocolDecoder"
+import { describeError } from "../sdk/revertDecoder"
+import { BOOT_PROXY_IDX, COLD_PROXY_IDX, FLAG_CROSS_PROXY_IDX, KNOCKOUT_LP_PROXY_IDX,
+    LONG_PROXY_IDX, LP_PROXY_IDX, MICRO_PROXY_IDX, MULTICALL_PROXY_IDX, SAFE_MODE_PROXY_PATH,
+    SWAP_PROXY_IDX } from "../sdk/commands"
+import { encodePoolKey, SlotReader } from "../sdk/swapSimulator"
+import { AUTHORITY_SLOT, decodePoolSpecs, FLAGS_SLOT, HOT_PATH_OPEN_BYTE, mapSlot, POOL_PARAM_SLOT,
+    POOL_REGISTRY_SLOT, POOL_TEMPL_SLOT, PoolSpecsState, PROXY_PATHS_SLOT, RELAYER_TAKE_BYTE,
+    SAFE_MODE_BYTE, slotAddress, templateKey } from "../sdk/storageSlots"
+
+/* Pre-flight simulation of a governance resolution on a hardhat fork. The timelock in
+ * the resolution file is impersonated and calls CrocPolicy directly after fast-forwarding
+ * past the timelock delay, so the resolution runs through the same policy authority
+ * checks and dex code path it would on chain. The governance relevant dex state is read
+ * with readSlot() before and after, and reported as a diff. */
+
+export interface WatchedPool {
+    base: string
+    quote: string
+    poolIdx: BigNumberish
+}
+
+export interface GovernanceState {
+    authority: string
+    hotPathOpen: boolean
+    safeMode: boolean
+    relayerTakeRate: number
+    protocolTakeRate: number
+    newPoolLiq: string
+    // Keyed by proxy sidecar name
+    proxyPaths: Record<string, string>
+    // Keyed by pool index
+    templates: Record<string, PoolSpecsState>
+    // Keyed by base/quote/poolIdx
+    pools: Record<string, PoolSpecsState>
+}
+
+export interface StateChange {
+    path: string
+    before: string
+    after: string
+}
+
+export interface SimulationEvent {
+    contract: "dex" | "policy"
+    name: string
+    args: ethers.utils.Result
+}
+
+export interface SimulationReport {
+    description: string
+    forkBlock: number
+    executedAt: number
+    success: boolean
+    revertReason?: string
+    gasUsed?: string
+    changes: StateChange[]
+    events: SimulationEvent[]
+}
+
+export interface SimulationOpts {
+    // Fork from this RPC before simulating. Otherwise runs on the current hardhat network.
+    rpcUrl?: string
+    blockNumber?: number
+    // Extra templates and pools to include in the state diff. The ones named in the
+    // resolution's protocol command are always included.
+    poolIdxs?: BigNumberish[]
+    pools?: WatchedPool[]
+}
+
+/* @notice Reads the governance controlled parts of the dex state through readSlot(). */
+export async function readGovernanceState (dex: SlotReader, poolIdxs: BigNumberish[],
+    pools: WatchedPool[]): Promise<GovernanceState> {
+    const flags = await dex.readSlot(FLAGS_SLOT)
+    const registry = await dex.readSlot(POOL_REGISTRY_SLOT)
+    const authority = await dex.readSlot(AUTHORITY_SLOT)
+
+    let proxyPaths: Record<string, string> = {}
+    for (const idx of WATCHED_PROXIES) {
+        proxyPaths[proxyPathName(idx)] = slotAddress(await dex.readSlot(PROXY_PATHS_SLOT + idx))
+    }
+
+    let templates: Record<string, PoolSpecsState> = {}
+    for (const poolIdx of poolIdxs) {
+        const slot = mapSlot(templateKey(poolIdx), POOL_TEMPL_SLOT)
+        templates[BigNumber.from(poolIdx).toString()] = decodePoolSpecs(await dex.readSlot(slot))
+    }
+
+    let poolSpecs: Record<string, PoolSpecsState> = {}
+    for (const pool of pools) {
+        const slot = mapSlot(encodePoolKey(pool.base, pool.quote, pool.poolIdx), POOL_PARAM_SLOT)
+        poolSpecs[watchedPoolKey(pool)] = decodePoolSpecs(await dex.readSlot(slot))
+    }
+
+    return {
+        authority: slotAddress(authority),
+        hotPathOpen: byteAt(flags, HOT_PATH_OPEN_BYTE) > 0,
+        safeMode: byteAt(flags, SAFE_MODE_BYTE) > 0,
+        relayerTakeRate: byteAt(flags, RELAYER_TAKE_BYTE),
+        protocolTakeRate: byteAt(registry, 16),
+        newPoolLiq: registry.mask(128).toString(),
+        proxyPaths,
+        templates,
+        pools: poolSpecs
+    }
+}
+
+/* @notice Lists every leaf field that differs between two governance states. */
+export function diffGovernanceState (before: GovernanceState, after: GovernanceState):
+    StateChange[] {
+    const flatBefore = flatten(before, "")
+    const flatAfter = flatten(after, "")
+    const paths = Object.keys(flatBefore).concat(Object.keys(flatAfter)
+        .filter(p => flatBefore[p] === undefined))
+    return paths
+        .filter(p => flatBefore[p] !== flatAfter[p])
+        .map(p => ({ path: p, before: orMissing(flatBefore[p]), after: orMissing(flatAfter[p]) }))
+}
+
+/* @notice Runs the resolution from the impersonated timelock on a hardhat fork and
+ *         reports the state diff and emitted events. A reverting resolution is reported
+ *         rather than thrown. */
+export async function simulateResolution (file: ResolutionFile, opts: SimulationOpts = {}):
+    Promise<SimulationReport> {
+    if (opts.rpcUrl) {
+        await forkChain(opts.rpcUrl, opts.blockNumber)
+    } else if (network.name !== "hardhat") {
+        throw new Error(`Resolutions can only be simulated on a hardhat fork, not ${network.name}`)
+    }
+
+    const provider = hreEthers.provider
+    const dex = (await refContract("CrocSwapDex", file.dexContract) as CrocSwapDex).connect(provider)
+    const policy = await refContract("CrocPolicy", file.policyContract) as CrocPolicy
+    const poolIdxs = dedupe((opts.poolIdxs || []).concat(cmdPoolIdxs(file)).map(
+        idx => BigNumber.from(idx).toString()))
+    const pools = (opts.pools || []).concat(cmdPools(file))
+
+    const forkBlock = await provider.getBlockNumber()
+    const before = await readGovernanceState(dex, poolIdxs, pools)
+
+    const timelock = file.timelock.timelockAddr
+    await provider.send("hardhat_impersonateAccount", [timelock])
+    await provider.send("hardhat_setBalance", [timelock,
+        ethers.utils.hexValue(ethers.utils.parseEther("10"))])
+    await provider.send("evm_increaseTime", [file.timelock.delay + 1])
+    await provider.send("evm_mine", [])
+
+    let report: SimulationReport = { description: file.description, forkBlock,
+        executedAt: 0, success: false, changes: [], events: [] }
+    try {
+        const tx = await provider.getSigner(timelock).sendTransaction({
+            to: file.policyContract, data: file.policyCalldata, gasLimit: SIM_GAS_LIMIT })
+        const receipt = await tx.wait()
+        report.success = true
+        report.executedAt = receipt.blockNumber
+        report.gasUsed = receipt.gasUsed.toString()
+        report.events = receipt.logs.map(l => decodeSimEvent(l, file, policy))
+            .filter((e): e is SimulationEvent => e !== undefined)
+    } catch (err) {
+        report.revertReason = describeError(err, file.protocolCmd.callpath)
+    } finally {
+        await provider.send("hardhat_stopImpersonatingAccount", [timelock])
+    }
+
+    const after = await readGovernanceState(dex, poolIdxs, pools)
+    report.changes = diffGovernanceState(before, after)
+    return report
+}
+
+export function printSimulationReport (report: SimulationReport) {
+    console.log("-----")
+    console.log(`Simulated resolution: ${report.description}`)
+    console.log(`Forked at block ${report.forkBlock}`)
+    if (!report.success) {
+        console.log(`REVERTED: ${report.revertReason}`)
+        console.log("-----")
+        return
+    }
+    console.log(`Executed in block ${report.executedAt} using ${report.gasUsed} gas`)
+    console.log()
+    console.log("State changes:")
+    if (report.changes.length === 0) {
+        console.log("  (none)")
+    }
+    report.changes.forEach(c => console.log(`  ${c.path}: ${c.before} -> ${c.after}`))
+    console.log()
+    console.log("Events:")
+    report.events.forEach(e => console.log(`  ${e.contract} ${e.name}(${formatArgs(e.args)})`))
+    console.log("-----")
+}
+
+function decodeSimEvent (log: Log, file: ResolutionFile, policy: CrocPolicy):
+    SimulationEvent | undefined {
+    const addr = log.address.toLowerCase()
+    if (addr === file.dexContract.toLowerCase()) {
+        const ev: CrocEventLog | undefined = decodeCrocLog(log)
+        return ev ? { contract: "dex", name: ev.name, args: ev.args } : undefined
+    }
+    if (addr === file.policyContract.toLowerCase()) {
+        try {
+            const ev = policy.interface.parseLog(log)
+            return { contract: "policy", name: ev.name, args: ev.args }
+        } catch {
+            return undefined
+        }
+    }
+    return undefined
+}
+
+// Templates and pools named by the resolution's protocol command
+function cmdPoolIdxs (file: ResolutionFile): string[] {
+    const pool = file.decoded.fields.filter(f => f.name === "poolIdx")
+    const hasPair = file.decoded.fields.some(f => f.name === "base")
+    return pool.length > 0 && !hasPair ? [pool[0].value] : []
+}
+
+function cmdPools (file: ResolutionFile): WatchedPool[] {
+    const field = (name: string) => file.decoded.fields.filter(f => f.name === name)[0]
+    const base = field("base"), quote = field("quote"), poolIdx = field("poolIdx")
+    return base && quote && poolIdx ?
+        [{ base: base.value, quote: quote.value, poolIdx: poolIdx.value }] : []
+}
+
+function watchedPoolKey (pool: WatchedPool): string {
+    return `${pool.base}/${pool.quote}/${BigNumber.from(pool.poolIdx).toString()}`
+}
+
+function byteAt (val: BigNumber, byteIdx: number): number {
+    return val.shr(byteIdx * 8).mask(8).toNumber()
+}
+
+function flatten (obj: object, prefix: string): Record<string, string> {
+    let out: Record<string, string> = {}
+    const fields = obj as Record<string, unknown>
+    Object.keys(fields).forEach(k => {
+        const path = prefix ? `${prefix}.${k}` : k
+        const val = fields[k]
+        if (val !== null && typeof val === "object") {
+            Object.assign(out, flatten(val, path))
+        } else {
+            out[path] = String(val)
+        }
+    })
+    return out
+}
+
+function orMissing (val: string | undefined): string {
+    return val === undefined ? "(missing)" : val
+}
+
+function dedupe (vals: string[]): string[] {
+    return vals.filter((v, i) => vals.indexOf(v) === i)
+}
+
+function formatArgs (args: ethers.utils.Result): string {
+    return Object.keys(args).filter(k => isNaN(Number(k)))
+        .map(k => `${k}=${BigNumber.isBigNumber(args[k]) ? args[k].toString() : args[k]}`).join(", ")
+}
+
+// Generous fixed limit, so a reverting resolution surfaces its revert reason instead of
+// failing gas estimation
+const SIM_GAS_LIMIT = 10000000
+
+const WATCHED_PROXIES = [BOOT_PROXY_IDX, SWAP_PROXY_IDX, LP_PROXY_IDX, COLD_PROXY_IDX,
+    LONG_PROXY_IDX, MICRO_PROXY_IDX, MULTICALL_PROXY_IDX, KNOCKOUT_LP_PROXY_IDX,
+    FLAG_CROSS_PROXY_IDX, SAFE_MODE_PROXY_PATH]
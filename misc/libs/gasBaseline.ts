@@ -0,0 +1,164 @@
+import { ethers } from "ethers"
+import fs from "fs"
+import { proxyPathName } from "../sdk/protocolDecoder"
+
+/* Gas regression baseline. Every gas benchmark is a named scenario whose gasUsed is
+ * recorded in a committed JSON file, and each run is compared against it. A scenario
+ * fails if it uses more gas than its baseline by more than the tolerance. Using less
+ * passes, but is reported so the baseline can be tightened. Scenarios are grouped by the
+ * dex callpath their transaction went through, for the per-callpath delta report. */
+
+export interface GasBaselineEntry {
+    gas: number
+    // The callpath the scenario ran through when it was recorded
+    callpath?: string
+    // Overrides the file's tolerance for noisy scenarios
+    tolerancePct?: number
+}
+
+export interface GasBaseline {
+    // Allowed increase over the baseline, in percent of the baseline
+    tolerancePct: number
+    scenarios: Record<string, GasBaselineEntry>
+}
+
+export interface GasMeasurement {
+    scenario: string
+    gas: number
+    callpath: string
+}
+
+export interface GasCheck {
+    check: string
+    ok: boolean
+    detail: string
+    callpath: string
+    measured: number
+    baseline?: number
+}
+
+export interface CallpathDelta {
+    callpath: string
+    scenarios: number
+    baseline: number
+    measured: number
+    // The scenario with the largest increase, if any went up
+    worst?: GasCheck
+}
+
+export const DEFAULT_GAS_TOLERANCE_PCT = 1
+
+export function readGasBaseline (file: string): GasBaseline {
+    if (!fs.existsSync(file)) {
+        return { tolerancePct: DEFAULT_GAS_TOLERANCE_PCT, scenarios: {} }
+    }
+    const raw = JSON.parse(fs.readFileSync(file, "utf8"))
+    if (typeof raw.tolerancePct !== "number" || typeof raw.scenarios !== "object") {
+        throw new Error(`Gas baseline ${file} needs tolerancePct and scenarios`)
+    }
+    Object.keys(raw.scenarios).forEach(name => {
+        if (!Number.isInteger(raw.scenarios[name].gas)) {
+            throw new Error(`Gas baseline ${file} has no gas for ${name}`)
+        }
+    })
+    return raw
+}
+
+/* @notice Writes the baseline with sorted scenarios, so updates diff cleanly. */
+export function writeGasBaseline (file: string, baseline: GasBaseline) {
+    let scenarios: Record<string, GasBaselineEntry> = {}
+    Object.keys(baseline.scenarios).sort().forEach(name => { scenarios[name] = baseline.scenarios[name] })
+    fs.writeFileSync(file, JSON.stringify({ ...baseline, scenarios }, null, 2) + "\n")
+}
+
+/* @notice Compares one measurement against the baseline. */
+export function checkGas (baseline: GasBaseline, m: GasMeasurement, tolerancePct?: number): GasCheck {
+    const entry = baseline.scenarios[m.scenario]
+    const result = { check: m.scenario, callpath: m.callpath, measured: m.gas }
+    if (!entry) {
+        return { ...result, ok: false, detail: `used ${m.gas} gas, but isn't in the baseline` }
+    }
+
+    const tolerance = tolerancePct !== undefined ? tolerancePct :
+        entry.tolerancePct !== undefined ? entry.tolerancePct : baseline.tolerancePct
+    const deltaPct = (m.gas - entry.gas) * 100 / entry.gas
+    const summary = `${m.gas} gas vs baseline ${entry.gas} (${formatDelta(m.gas - entry.gas)}, ` +
+        `${formatDelta(deltaPct, 2)}%)`
+
+    if (deltaPct > tolerance) {
+        return { ...result, baseline: entry.gas, ok: false,
+            detail: `${summary} exceeds the ${tolerance}% tolerance` }
+    } else if (deltaPct < -tolerance) {
+        return { ...result, baseline: entry.gas, ok: true, detail: `${summary}, baseline can be lowered` }
+    }
+    return { ...result, baseline: entry.gas, ok: true, detail: summary }
+}
+
+/* @notice Copy of the baseline with the measured scenarios re-recorded. Scenarios that
+ *         weren't measured are kept, so a partial run doesn't drop them. */
+export function updateGasBaseline (baseline: GasBaseline, measured: GasMeasurement[]): GasBaseline {
+    let scenarios = { ...baseline.scenarios }
+    measured.forEach(m => {
+        scenarios[m.scenario] = { ...scenarios[m.scenario], gas: m.gas, callpath: m.callpath }
+    })
+    return { ...baseline, scenarios }
+}
+
+/* @notice Names the dex entry point and callpath a transaction went through, e.g.
+ *         "userCmd WarmPath" or "swap". Calls to anything but the dex are "other". */
+export function txCallpath (tx: { data: string }): string {
+    try {
+        const call = DEX_ENTRY_POINTS.parseTransaction({ data: tx.data })
+        return call.name === "swap" ? "swap" : `${call.name} ${proxyPathName(call.args.callpath)}`
+    } catch {
+        return "other"
+    }
+}
+
+/* @notice Sums the baseline and measured gas of the checked scenarios per callpath.
+ *         Scenarios missing from the baseline are left out of the sums. */
+export function callpathDeltas (checks: GasCheck[]): CallpathDelta[] {
+    let deltas: Record<string, CallpathDelta> = {}
+    checks.filter(c => c.baseline !== undefined).forEach(c => {
+        const d = deltas[c.callpath] = deltas[c.callpath] ||
+            { callpath: c.callpath, scenarios: 0, baseline: 0, measured: 0 }
+        d.scenarios += 1
+        d.baseline += c.baseline as number
+        d.measured += c.measured
+        if (c.measured > (c.baseline as number) && (!d.worst ||
+            c.measured - (c.baseline as number) > d.worst.measured - (d.worst.baseline as number))) {
+            d.worst = c
+        }
+    })
+    return Object.keys(deltas).sort().map(k => deltas[k])
+}
+
+/* @notice Prints the per-callpath delta report followed by every failed or changed
+ *         scenario. Returns whether every scenario passed. */
+export function printGasReport (checks: GasCheck[]): boolean {
+    console.log("Gas by callpath:")
+    callpathDeltas(checks).forEach(d => {
+        const delta = d.measured - d.baseline
+        console.log(`  ${d.callpath.padEnd(28)} ${String(d.scenarios).padStart(4)} scenarios ` +
+            `${String(d.measured).padStart(10)} gas ${formatDelta(delta).padStart(8)} ` +
+            `(${formatDelta(delta * 100 / d.baseline, 2)}%)` +
+            (d.worst ? `, worst ${d.worst.check} ${formatDelta(d.worst.measured -
+                (d.worst.baseline as number))}` : ""))
+    })
+    checks.filter(c => !c.ok || c.measured !== c.baseline).forEach(c =>
+        console.log(`${c.ok ? "PASS" : "FAIL"}  ${c.check}: ${c.detail}`))
+    return checks.every(c => c.ok)
+}
+
+function formatDelta (delta: number, digits: number = 0): string {
+    return (delta > 0 ? "+" : "") + delta.toFixed(digits)
+}
+
+const DEX_ENTRY_POINTS = new ethers.utils.Interface([
+    "function swap(address base, address quote, uint256 poolIdx, bool isBuy, bool inBaseQty, " +
+        "uint128 qty, uint16 tip, uint128 limitPrice, uint128 minOut, uint8 reserveFlags)",
+    "function userCmd(uint16 callpath, bytes cmd)",
+    "function protocolCmd(uint16 callpath, bytes cmd, bool sudo)",
+    "function userCmdRelayer(uint16 callpath, bytes cmd, bytes conds, bytes tip, bytes signature)",
+    "function userCmdRouter(uint16 callpath, bytes cmd, address client)",
+])
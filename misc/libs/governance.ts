@@ -1,7 +1,11 @@
 import { BigNumber, BytesLike, ContractFactory, ethers, VoidSigner } from "ethers"
 import { TimelockAccepts, CrocPolicy, CrocSwapDex } from "../../typechain"
-import { BOOT_PROXY_IDX, COLD_PROXY_IDX, CrocAddrs, CrocGovAddrs, FLAG_CROSS_PROXY_IDX, KNOCKOUT_LP_PROXY_IDX, LONG_PROXY_IDX, LP_PROXY_IDX, MICRO_PROXY_IDX, SAFE_MODE_PROXY_PATH, SWAP_PROXY_IDX } from "../constants/addrs"
+import { CrocAddrs, CrocGovAddrs } from "../constants/addrs"
 import { refContract } from "./chain"
+import { CrocProtocolCmd } from "../sdk/commands"
+import { decodePolicyCall, formatPolicyCall } from "../sdk/protocolDecoder"
+import { buildResolutionFile, writeResolutionFile } from "./resolution"
+import { requireUpgradeLayout, UpgradeLayoutSources } from "./storageLayout"
 import { ethers as hreEthers } from 'hardhat';
 
 interface TimelockCalls {
@@ -12,9 +16,10 @@ interface TimelockCalls {
     salt: BytesLike
 }
 
-export async function populateTimelockCalls (timelock: TimelockAccepts, target: string, 
-    calldata: string, delay: number): Promise<TimelockCalls> {
-    const salt = ethers.utils.hexZeroPad(BigNumber.from(Date.now()).toHexString(), 32)
+// Pass the salt from a saved resolution file to regenerate the same timelock operation
+export async function populateTimelockCalls (timelock: TimelockAccepts, target: string,
+    calldata: string, delay: number, salt?: BytesLike): Promise<TimelockCalls> {
+    salt = salt || ethers.utils.hexZeroPad(BigNumber.from(Date.now()).toHexString(), 32)
 
     let sched = await timelock.populateTransaction.schedule(target, 0, calldata as BytesLike, 
         ethers.constants.HashZero, salt, delay)
@@ -30,11 +35,7 @@ export async function populateTimelockCalls (timelock: TimelockAccepts, target:
     }
 }
 
-export interface CrocProtocolCmd {
-    callpath: number,
-    protocolCmd: BytesLike,
-    sudo?: boolean
-}
+export { CrocProtocolCmd }
 
 export interface GovernanceResolution {
     resolutionType: "ops" | "treasury"
@@ -45,8 +46,12 @@ export interface GovernanceResolution {
     timelockCall: TimelockCalls
 }
 
+// Proxy upgrade commands also need the layout sources of the installed and proposed
+// callpaths, and are refused if the upgrade would move or retype any storage variable
 export async function opsResolution (addrs: CrocAddrs, cmd: CrocProtocolCmd, 
-    delay: number, tag:string): Promise<GovernanceResolution> {
+    delay: number, tag:string, outFile?: string,
+    layout?: UpgradeLayoutSources): Promise<GovernanceResolution> {
+    await requireUpgradeLayout(cmd, layout)
     const timelock = await refContract("TimelockAccepts", addrs.govern.timelockOps) as TimelockAccepts
     const policy = await refContract("CrocPolicy", addrs.policy) as CrocPolicy
 
@@ -55,18 +60,20 @@ export async function opsResolution (addrs: CrocAddrs, cmd: CrocProtocolCmd,
     let timelockCalls = await populateTimelockCalls(timelock, addrs.policy, 
         policyCall.data as string, delay)
 
-    return printResolution({
+    return saveResolution(printResolution({
         resolutionType: "ops",
         protocolCmd: cmd,
         policyContract: addrs.policy,
         dexContract: addrs.dex,
         multisigOrigin: addrs.govern.multisigOps,
         timelockCall: await timelockCalls,
-    }, tag)
+    }, tag), tag, outFile)
 }
 
 export async function treasuryResolution (addrs: CrocAddrs, cmd: CrocProtocolCmd, 
-    delay: number, tag: string): Promise<GovernanceResolution> {
+    delay: number, tag: string, outFile?: string,
+    layout?: UpgradeLayoutSources): Promise<GovernanceResolution> {
+    await requireUpgradeLayout(cmd, layout)
     const timelock = await refContract("TimelockAccepts", addrs.govern.timelockTreasury) as TimelockAccepts
     const policy = await refContract("CrocPolicy", addrs.policy) as CrocPolicy
 
@@ -75,14 +82,25 @@ export async function treasuryResolution (addrs: CrocAddrs, cmd: CrocProtocolCmd
     let timelockCalls = await populateTimelockCalls(timelock, addrs.policy, 
         policyCall.data as string, delay)
 
-    return printResolution({
+    return saveResolution(printResolution({
         resolutionType: "treasury",
         protocolCmd: cmd,
         policyContract: addrs.policy,
         dexContract: addrs.dex,
         multisigOrigin: addrs.govern.multisigTreasury,
         timelockCall: await timelockCalls,
-    }, tag)
+    }, tag), tag, outFile)
+}
+
+// Writes the resolution to a versioned JSON file for the sign-off, verify and replay
+// stages in resolution.ts
+async function saveResolution (res: GovernanceResolution, tag: string,
+    outFile?: string): Promise<GovernanceResolution> {
+    if (outFile) {
+        writeResolutionFile(outFile, await buildResolutionFile(res, tag))
+        console.log(`Resolution file written to ${outFile}`)
+    }
+    return res
 }
 
 export async function opsTimelockSet (addrs: CrocAddrs, newDelay: number, oldDelay: number) {
@@ -170,113 +188,19 @@ export async function decodePolicySched (timelock: TimelockAccepts, policy: Croc
         throw new Error("Target of schedule call is not CrocPolicy contract")
     }
 
-    let policyFn
     let payload = schedCall.data || schedCall.payload
-    let sigHash = payload.slice(0, 10)
-    if (sigHash === policy.interface.getSighash("opsResolution")) {
-        policyFn = "opsResolution"
-    } else if (sigHash === policy.interface.getSighash("treasuryResolution")) {
-        policyFn = "treasuryResolution"
-    } else {
-        throw new Error("Schedule call is not to a known policy function")
-    }
-    let policyCall = policy.interface.decodeFunctionData(policyFn, payload)
-
-    console.log()
-    console.log(`Decoded ${policyFn} call: `, policyCall)
-    if (policyCall.minion.toLowerCase() !== dex.address.toLowerCase()) {
+    let policyCall = decodePolicyCall(payload)
+    let minion = policyCall.fields.find(f => f.name === "minion")
+    if (minion && minion.value.toLowerCase() !== dex.address.toLowerCase()) {
         throw new Error("Target of CrocPolicy call is not CrocSwapDex contract")
     }
 
-    let proxyName
-    if (policyCall.proxyPath === COLD_PROXY_IDX) {
-        proxyName = "ColdPath"
-    } else if (policyCall.proxyPath === BOOT_PROXY_IDX) {
-        proxyName = "BootPath"
-    } else {
-        throw new Error("Unknown proxyPath")
-    }
-
-    let chunks = splitAbiHex(policyCall.cmd)
-    let callCode = BigNumber.from("0x" + chunks[0]).toNumber()
-    
     console.log()
-    console.log(`ProxyPath: ${proxyName}`)
-    console.log(`cmdCode: ` + callCode)
-    console.log("-------")
-
-    chunks.slice(1).forEach((chunk: string, idx: number) => {
-        let number = BigNumber.from("0x" + chunk)
-        console.log(`Arg ${idx}: 0x` + chunk)
-        if (number.lt(BigNumber.from(2).pow(64))) {
-            console.log("Numeric Val: " + number.toString())
-        } else if (number.lt(BigNumber.from(2).pow(161))) {
-            console.log("Address Val: " + "0x" + chunk.slice(24, 64))
-        }
-        console.log("-------")
+    formatPolicyCall(policyCall).forEach(line => console.log(line))
+    policyCall.protocolCmds.filter(c => !c.known).forEach(c => {
+        console.log()
+        console.log(`Warning: ${c.command} on ${c.proxyPath} is not a known protocolCmd. ` +
+            `Check ProtocolCmd.sol for command codes`)
     })
-
-    console.log()
-    if (callCode === PROTOCOL_AUTH_TRANSFER_CMD && policyCall.proxyPath === COLD_PROXY_IDX) {
-        console.log(`Decoded protocolCmd as AuthTransfer to new CrocPolicy`)
-        console.log(`New authority: ` + "0x" + chunks[1].slice(24, 64))
-
-    } else if (callCode === PROTOCOL_UPGRADE_CMD && policyCall.proxyPath === BOOT_PROXY_IDX) {
-        let proxySlot = BigNumber.from("0x" + chunks[2]).toNumber()
-        let proxyLabel = "Unknown"
-
-        if (proxySlot == SWAP_PROXY_IDX) {
-            proxyLabel = "HotPath"
-        } else if (proxySlot == LP_PROXY_IDX) {
-            proxyLabel = "WarmPath"
-        } else if (proxySlot == COLD_PROXY_IDX) {
-            proxyLabel = "ColdPath"
-        } else if (proxySlot == LONG_PROXY_IDX) {
-            proxyLabel = "LongPath"
-        } else if (proxySlot == MICRO_PROXY_IDX) {
-            proxyLabel = "MicroPaths"
-        } else if (proxySlot == KNOCKOUT_LP_PROXY_IDX) {
-            proxyLabel = "KnockoutLPPath"
-        } else if (proxySlot == FLAG_CROSS_PROXY_IDX) {
-            proxyLabel = "KnockoutCrossPath"
-        } else if (proxySlot == SAFE_MODE_PROXY_PATH) {
-            proxyLabel = "SafeModePath"
-        }
-
-        console.log(`Decoded protocolCmd as Proxy Contract Upgrade`)
-        console.log(`Proxy Slot: ${proxyLabel} (slot ${proxySlot})`)
-        console.log(`New contract: ` + "0x" + chunks[1].slice(24, 64))
-
-    } else if (callCode === PROTOCOL_HOT_OPEN_CMD && policyCall.proxyPath === COLD_PROXY_IDX) {
-        let isOpen = BigNumber.from("0x" + chunks[1]).toNumber() > 0
-        console.log(`Decoded protocolCmd as HotPath ${isOpen ? "Open" : "Close"}`)
-
-    } else {
-        console.log(`Unknown protocolCmd code: ` + callCode)
-        console.log(`Check ProtocolCmd.sol for command codes`)
-    }
     console.log()
 }
-
-function splitAbiHex(hexString: string): string[] {
-    // Check if the string starts with '0x' and remove it
-    const cleanedHexString = hexString.startsWith('0x') ? hexString.slice(2) : hexString;
-
-    // Define the size of a chunk in characters (32 bytes = 64 characters in hex)
-    const chunkSize = 64;
-
-    // Prepare an array to hold the chunks
-    let chunks: string[] = [];
-
-    // Loop through the string and extract chunks of 64 characters
-    for (let i = 0; i < cleanedHexString.length; i += chunkSize) {
-        const chunk = cleanedHexString.substring(i, i + chunkSize);
-        chunks.push(chunk);
-    }
-
-    return chunks;
-}
-
-const PROTOCOL_AUTH_TRANSFER_CMD = 20
-const PROTOCOL_UPGRADE_CMD = 21
-const PROTOCOL_HOT_OPEN_CMD = 22
@@ -1,21 +1,11 @@
-import { AbiCoder } from "@ethersproject/abi";
-import { COLD_PROXY_IDX } from "../constants/addrs";
 import { CrocPoolParams } from "../constants/poolParams";
-import { CrocProtocolCmd } from "./governance";
+import { CrocProtocolCmd, initPoolLiqCmd, poolTemplateCmd } from "../sdk/commands";
 
 export function initLiqCmd (params: CrocPoolParams): CrocProtocolCmd {
-    const abi = new AbiCoder()
-    let setPoolLiqCmd = abi.encode(["uint8", "uint128"], [112, params.universal.initLiq])
-    return {
-        protocolCmd: setPoolLiqCmd,
-        callpath: COLD_PROXY_IDX,
-        sudo: false
-    }
+    return initPoolLiqCmd(params.universal.initLiq)
 }
 
 export function poolStdTemplCmd (params: CrocPoolParams): CrocProtocolCmd {
-    const abi = new AbiCoder()
-
     const feeArgs = params.stdPoolParams.feeBps * 100
     const jitThresh = params.stdPoolParams.jitThresh / 10
 
@@ -37,14 +27,12 @@ export function poolStdTemplCmd (params: CrocPoolParams): CrocProtocolCmd {
 
     const NO_ORACLE_FLAG = 0;
 
-    const templCmd = abi.encode(
-        ["uint8", "uint256", "uint16", "uint16", "uint8", "uint8", "uint8"],
-        [110, params.stdPoolIdx, feeArgs, params.stdPoolParams.tickSize, 
-            jitThresh, knockoutFlag, NO_ORACLE_FLAG])
-
-    return {
-        protocolCmd: templCmd,
-        callpath: COLD_PROXY_IDX,
-        sudo: false
-    }
-}
\ No newline at end of file
+    return poolTemplateCmd({
+        poolIdx: params.stdPoolIdx,
+        feeRate: feeArgs,
+        tickSize: params.stdPoolParams.tickSize,
+        jitThresh: jitThresh,
+        knockoutBits: knockoutFlag,
+        oracleFlags: NO_ORACLE_FLAG
+    })
+}
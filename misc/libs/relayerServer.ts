@@ -0,0 +1,138 @@
+import http from "http"
+import { AddressInfo } from "net"
+import { MempoolEntry, MempoolResult, RelayerMempool } from "../sdk/relayerMempool"
+import { SignedRelayerCall } from "../sdk/relayer"
+
+/* HTTP front end for a RelayerMempool. Serves:
+ *
+ *   POST /calls   Queue a signed relayer call, posted as SignedRelayerCall JSON. Responds
+ *                 with the queued entry, or a 400 with the rejection reason. Bodies over
+ *                 64KB get a 413 and the connection is closed.
+ *   GET  /calls   List the pending calls, highest tip first.
+ *
+ * If pollMs is set, the mempool is processed on that interval and the results are passed
+ * to onResult. */
+
+export interface RelayerServerOpts {
+    port: number
+    host?: string
+    pollMs?: number
+    onResult?: (result: MempoolResult) => void
+    onError?: (err: unknown) => void
+}
+
+export interface RelayerServer {
+    server: http.Server
+    port: number
+    stop(): Promise<void>
+}
+
+export async function startRelayerServer (mempool: RelayerMempool, opts: RelayerServerOpts):
+    Promise<RelayerServer> {
+    const onError = opts.onError || console.error
+    const server = http.createServer((req, res) => {
+        route(mempool, req).then(([status, body]) => {
+            // The rest of an oversized body isn't read, so the connection can't be reused
+            const close = status === 413
+            res.writeHead(status, { "Content-Type": "application/json",
+                ...(close ? { "Connection": "close" } : {}) })
+            res.end(JSON.stringify(body), () => close && req.destroy())
+        }).catch(err => {
+            onError(err)
+            res.writeHead(500, { "Content-Type": "application/json" })
+            res.end(JSON.stringify({ error: "Internal error" }))
+        })
+    })
+
+    await new Promise<void>(resolve => server.listen(opts.port, opts.host, resolve))
+
+    let timer: ReturnType<typeof setTimeout> | undefined
+    let stopped = false
+    const loop = async () => {
+        try {
+            (await mempool.process()).forEach(r => opts.onResult && opts.onResult(r))
+        } catch (err) {
+            onError(err)
+        }
+        if (!stopped) {
+            timer = setTimeout(loop, opts.pollMs)
+        }
+    }
+    if (opts.pollMs !== undefined) {
+        timer = setTimeout(loop, opts.pollMs)
+    }
+
+    return {
+        server,
+        port: (server.address() as AddressInfo).port,
+        stop: async () => {
+            stopped = true
+            if (timer) {
+                clearTimeout(timer)
+            }
+            await new Promise<void>((resolve, reject) => server.close(err => err ? reject(err) : resolve()))
+        }
+    }
+}
+
+type RouteBody = ReturnType<typeof formatEntry> | ReturnType<typeof formatEntry>[] | { error: string }
+
+async function route (mempool: RelayerMempool, req: http.IncomingMessage): Promise<[number, RouteBody]> {
+    if (req.url === "/calls" && req.method === "GET") {
+        return [200, mempool.entries.map(formatEntry)]
+    }
+    if (req.url === "/calls" && req.method === "POST") {
+        const body = await readBody(req)
+        if (body === undefined) {
+            return [413, { error: `Request body is over ${MAX_BODY_BYTES} bytes` }]
+        }
+        let call: SignedRelayerCall
+        try {
+            call = JSON.parse(body)
+        } catch (err) {
+            return [400, { error: `Invalid JSON: ${errorMessage(err)}` }]
+        }
+        try {
+            return [200, formatEntry(await mempool.add(call))]
+        } catch (err) {
+            return [400, { error: errorMessage(err) }]
+        }
+    }
+    return [404, { error: `No route for ${req.method} ${req.url}` }]
+}
+
+function formatEntry (entry: MempoolEntry) {
+    return {
+        id: entry.id,
+        signer: entry.call.signer,
+        callpath: entry.call.callpath,
+        salt: entry.conds.salt,
+        nonce: entry.conds.nonce,
+        alive: entry.conds.alive,
+        deadline: entry.conds.deadline,
+        tipValue: entry.tipValue.toString()
+    }
+}
+
+function errorMessage (err: unknown): string {
+    return err instanceof Error ? err.message : String(err)
+}
+
+// Resolves undefined once the body goes over MAX_BODY_BYTES, and stops reading it
+function readBody (req: http.IncomingMessage): Promise<string | undefined> {
+    return new Promise((resolve, reject) => {
+        let body = ""
+        req.on("data", chunk => {
+            body += chunk
+            if (body.length > MAX_BODY_BYTES) {
+                req.removeAllListeners("data")
+                req.pause()
+                resolve(undefined)
+            }
+        })
+        req.on("end", () => resolve(body))
+        req.on("error", reject)
+    })
+}
+
+const MAX_BODY_BYTES = 64 * 1024
@@ -0,0 +1,315 @@
+import { ethers, Signer } from "ethers"
+import { Provider, TransactionReceipt } from "@ethersproject/providers"
+import fs from "fs"
+import { ethers as hreEthers, network } from 'hardhat';
+import { CrocPolicy, TimelockAccepts } from "../../typechain"
+import { refContract } from "./chain"
+import { GovernanceResolution } from "./governance"
+import { decodeProtocolCmd, DecodedProtocolCmd } from "../sdk/protocolDecoder"
+import { CrocEventLog, decodeCrocLog } from "../sdk/events"
+
+/* Governance resolutions are persisted as versioned JSON files that move through three
+ * stages:
+ *
+ *   1. Sign-off: reviewers check the decoded command and sign the file's digest with
+ *      signOffResolution(). The digest covers every field except the sign-offs.
+ *   2. Verify: verifyResolution() re-derives all calldata from the protocol command and
+ *      salt, and checks the addresses, roles and delay against the live chain.
+ *   3. Execute: replayResolution() runs the schedule and execute calls on a (forked)
+ *      hardhat network by impersonating the multisig, before anyone signs the real
+ *      Gnosis Safe transactions. */
+
+// Version 2 changed the decoded command to labelled, typed fields (see protocolDecoder.ts)
+export const RESOLUTION_FILE_VERSION = 2
+
+export interface ResolutionSignoff {
+    signer: string
+    signature: string
+    signedAt: string
+}
+
+export interface ResolutionFile {
+    version: number
+    description: string
+    createdAt: string
+    chainId: number
+    resolutionType: "ops" | "treasury"
+    multisigOrigin: string
+    policyContract: string
+    dexContract: string
+    protocolCmd: {
+        callpath: number
+        protocolCmd: string
+        sudo: boolean
+    }
+    decoded: DecodedProtocolCmd
+    policyCalldata: string
+    timelock: {
+        timelockAddr: string
+        predecessor: string
+        salt: string
+        delay: number
+        operationId: string
+        scheduleCalldata: string
+        execCalldata: string
+    }
+    signoffs: ResolutionSignoff[]
+}
+
+export async function buildResolutionFile (res: GovernanceResolution, tag: string):
+    Promise<ResolutionFile> {
+    const policy = await refContract("CrocPolicy", res.policyContract) as CrocPolicy
+    const timelock = await refContract("TimelockAccepts", res.timelockCall.timelockAddr) as TimelockAccepts
+    const protocolCmd = ethers.utils.hexlify(res.protocolCmd.protocolCmd)
+    const sudo = res.protocolCmd.sudo ? true : false
+    const salt = ethers.utils.hexlify(res.timelockCall.salt)
+    const policyCalldata = encodePolicyCall(policy, res.resolutionType, res.dexContract,
+        res.protocolCmd.callpath, protocolCmd, sudo)
+
+    return {
+        version: RESOLUTION_FILE_VERSION,
+        description: tag,
+        createdAt: new Date().toISOString(),
+        chainId: (await hreEthers.provider.getNetwork()).chainId,
+        resolutionType: res.resolutionType,
+        multisigOrigin: res.multisigOrigin,
+        policyContract: res.policyContract,
+        dexContract: res.dexContract,
+        protocolCmd: { callpath: res.protocolCmd.callpath, protocolCmd, sudo },
+        decoded: decodeProtocolCmd(res.protocolCmd.callpath, protocolCmd),
+        policyCalldata,
+        timelock: {
+            timelockAddr: res.timelockCall.timelockAddr,
+            predecessor: ethers.constants.HashZero,
+            salt: salt,
+            delay: res.timelockCall.delay,
+            operationId: await timelock.hashOperation(res.policyContract, 0, policyCalldata,
+                ethers.constants.HashZero, salt),
+            scheduleCalldata: res.timelockCall.scheduleCalldata,
+            execCalldata: res.timelockCall.execCalldata
+        },
+        signoffs: []
+    }
+}
+
+export function writeResolutionFile (path: string, file: ResolutionFile) {
+    fs.writeFileSync(path, JSON.stringify(file, null, 2) + "\n")
+}
+
+export function readResolutionFile (path: string): ResolutionFile {
+    const file = JSON.parse(fs.readFileSync(path, "utf8")) as ResolutionFile
+    // The decoded command is covered by the sign-off digest, so v1 files can't be
+    // upgraded in place without invalidating their sign-offs
+    if (file.version === 1) {
+        throw new Error(`Resolution file ${path} is version 1, which predates the current ` +
+            `decoded command format. Rebuild it from the protocol command and collect the ` +
+            `sign-offs again`)
+    }
+    if (file.version !== RESOLUTION_FILE_VERSION) {
+        throw new Error(`Unsupported resolution file version ${file.version} in ${path}`)
+    }
+    if (file.resolutionType !== "ops" && file.resolutionType !== "treasury") {
+        throw new Error(`Unknown resolution type ${file.resolutionType} in ${path}`)
+    }
+    if (!file.protocolCmd || !file.timelock || !Array.isArray(file.signoffs)) {
+        throw new Error(`Resolution file ${path} is missing required fields`)
+    }
+    return file
+}
+
+/* @notice The hash that reviewers sign. Covers every field except the sign-offs
+ *         themselves, so adding a sign-off never invalidates the previous ones. */
+export function resolutionDigest (file: ResolutionFile): string {
+    const { signoffs, ...body } = file
+    return ethers.utils.keccak256(ethers.utils.toUtf8Bytes(canonicalJson(body)))
+}
+
+export async function signOffResolution (file: ResolutionFile, signer: Signer):
+    Promise<ResolutionFile> {
+    const address = await signer.getAddress()
+    if (file.signoffs.some(s => s.signer.toLowerCase() === address.toLowerCase())) {
+        throw new Error(`Resolution already signed off by ${address}`)
+    }
+    const signature = await signer.signMessage(ethers.utils.arrayify(resolutionDigest(file)))
+    return { ...file, signoffs: file.signoffs.concat([{ signer: address, signature,
+        signedAt: new Date().toISOString() }]) }
+}
+
+export interface ResolutionCheck {
+    check: string
+    ok: boolean
+    detail: string
+}
+
+/* @notice Checks a resolution file for internal consistency and against chain state.
+ *         Never throws on a failed check, so the caller can print the full report. */
+export async function verifyResolution (file: ResolutionFile, provider: Provider):
+    Promise<ResolutionCheck[]> {
+    let checks: ResolutionCheck[] = []
+    const report = (check: string, ok: boolean, detail: string) =>
+        checks.push({ check, ok, detail })
+
+    const policy = await refContract("CrocPolicy", file.policyContract) as CrocPolicy
+    const timelock = await refContract("TimelockAccepts", file.timelock.timelockAddr) as TimelockAccepts
+    const cmd = file.protocolCmd
+    const tl = file.timelock
+
+    // Offline checks: every piece of calldata must be derivable from the command
+    const policyCalldata = encodePolicyCall(policy, file.resolutionType, file.dexContract,
+        cmd.callpath, cmd.protocolCmd, cmd.sudo)
+    report("policy calldata", policyCalldata === file.policyCalldata,
+        `${file.resolutionType}Resolution() on ${file.policyContract}`)
+
+    const schedCalldata = timelock.interface.encodeFunctionData("schedule",
+        [file.policyContract, 0, policyCalldata, tl.predecessor, tl.salt, tl.delay])
+    report("schedule calldata", schedCalldata === tl.scheduleCalldata,
+        `salt ${tl.salt}, delay ${tl.delay}`)
+
+    const execCalldata = timelock.interface.encodeFunctionData("execute",
+        [file.policyContract, 0, policyCalldata, tl.predecessor, tl.salt])
+    report("execute calldata", execCalldata === tl.execCalldata, `salt ${tl.salt}`)
+
+    const decoded = decodeProtocolCmd(cmd.callpath, cmd.protocolCmd)
+    report("decoded command", canonicalJson(decoded) === canonicalJson(file.decoded),
+        `${decoded.command} on ${decoded.proxyPath}`)
+    report("known command", decoded.known, `code ${decoded.code} on ${decoded.proxyPath}`)
+    report("sudo privilege", cmd.sudo || !decoded.sudo,
+        decoded.sudo ? "command requires a sudo treasury resolution" : "not required")
+
+    const digest = resolutionDigest(file)
+    file.signoffs.forEach(s => {
+        let recovered = ""
+        try {
+            recovered = ethers.utils.verifyMessage(ethers.utils.arrayify(digest), s.signature)
+        } catch {
+            // Malformed signature, reported as a failed check below
+        }
+        report(`sign-off ${s.signer}`, recovered.toLowerCase() === s.signer.toLowerCase(),
+            `signed ${s.signedAt}`)
+    })
+
+    // Chain checks
+    const chainId = (await provider.getNetwork()).chainId
+    report("chain id", chainId === file.chainId, `file ${file.chainId}, provider ${chainId}`)
+    if (chainId !== file.chainId) { return checks }
+
+    for (const [name, addr] of [["dex", file.dexContract], ["policy", file.policyContract],
+        ["timelock", tl.timelockAddr]]) {
+        const code = await provider.getCode(addr)
+        report(`${name} code`, code !== "0x", `${addr} (${(code.length - 2) / 2} bytes)`)
+    }
+
+    const liveTimelock = timelock.connect(provider)
+    const livePolicy = policy.connect(provider)
+    const authority = file.resolutionType === "ops" ?
+        await livePolicy.opsAuthority_() : await livePolicy.treasuryAuthority_()
+    report("policy authority", authority.toLowerCase() === tl.timelockAddr.toLowerCase(),
+        `${file.resolutionType} authority is ${authority}`)
+
+    const minDelay = await liveTimelock.getMinDelay()
+    report("timelock delay", minDelay.lte(tl.delay), `min delay ${minDelay.toString()}`)
+
+    const isProposer = await liveTimelock.hasRole(await liveTimelock.PROPOSER_ROLE(),
+        file.multisigOrigin)
+    report("multisig proposer", isProposer, `${file.multisigOrigin}`)
+
+    const operationId = await liveTimelock.hashOperation(file.policyContract, 0,
+        policyCalldata, tl.predecessor, tl.salt)
+    report("operation id", operationId === tl.operationId, operationId)
+    report("operation status", true, await operationStatus(liveTimelock, operationId))
+    return checks
+}
+
+export interface ResolutionReplay {
+    scheduleReceipt?: TransactionReceipt
+    execReceipt: TransactionReceipt
+    events: CrocEventLog[]
+}
+
+/* @notice Schedules and executes the resolution on the hardhat network by impersonating
+ *         the multisig. Meant to be run against a fork of the resolution's chain. If the
+ *         operation's already been scheduled on chain, only the execute step runs. */
+export async function replayResolution (file: ResolutionFile): Promise<ResolutionReplay> {
+    if (network.name !== "hardhat") {
+        throw new Error(`Resolutions can only be replayed on a hardhat fork, not ${network.name}`)
+    }
+    const provider = hreEthers.provider
+    await provider.send("hardhat_impersonateAccount", [file.multisigOrigin])
+    await provider.send("hardhat_setBalance", [file.multisigOrigin,
+        ethers.utils.hexValue(ethers.utils.parseEther("10"))])
+    const multisig = provider.getSigner(file.multisigOrigin)
+
+    const timelock = (await refContract("TimelockAccepts", file.timelock.timelockAddr) as TimelockAccepts)
+        .connect(provider)
+    const status = await operationStatus(timelock, file.timelock.operationId)
+    if (status === "done") {
+        throw new Error(`Operation ${file.timelock.operationId} has already been executed`)
+    }
+
+    let scheduleReceipt: TransactionReceipt | undefined
+    if (status === "unscheduled") {
+        const tx = await multisig.sendTransaction({ to: file.timelock.timelockAddr,
+            data: file.timelock.scheduleCalldata })
+        scheduleReceipt = await tx.wait()
+    }
+
+    const readyAt = await timelock.getTimestamp(file.timelock.operationId)
+    const now = (await provider.getBlock("latest")).timestamp
+    if (readyAt.gt(now)) {
+        await provider.send("evm_increaseTime", [readyAt.sub(now).toNumber()])
+        await provider.send("evm_mine", [])
+    }
+
+    const tx = await multisig.sendTransaction({ to: file.timelock.timelockAddr,
+        data: file.timelock.execCalldata })
+    const execReceipt = await tx.wait()
+    await provider.send("hardhat_stopImpersonatingAccount", [file.multisigOrigin])
+
+    const events = execReceipt.logs
+        .filter(l => l.address.toLowerCase() === file.dexContract.toLowerCase())
+        .map(l => decodeCrocLog(l))
+        .filter((e): e is CrocEventLog => e !== undefined)
+    return { scheduleReceipt, execReceipt, events }
+}
+
+/* @notice Resets the in-process hardhat network to a fork of the chain at rpcUrl. */
+export async function forkChain (rpcUrl: string, blockNumber?: number) {
+    if (network.name !== "hardhat") {
+        throw new Error(`Can only fork into the hardhat network, not ${network.name}`)
+    }
+    await network.provider.request({ method: "hardhat_reset", params: [{
+        forking: { jsonRpcUrl: rpcUrl, blockNumber } }] })
+}
+
+export function printResolutionChecks (checks: ResolutionCheck[]): boolean {
+    checks.forEach(c => console.log(`${c.ok ? "PASS" : "FAIL"}  ${c.check}: ${c.detail}`))
+    return checks.every(c => c.ok)
+}
+
+function encodePolicyCall (policy: CrocPolicy, resolutionType: "ops" | "treasury",
+    dex: string, callpath: number, protocolCmd: string, sudo: boolean): string {
+    return resolutionType === "ops" ?
+        policy.interface.encodeFunctionData("opsResolution", [dex, callpath, protocolCmd]) :
+        policy.interface.encodeFunctionData("treasuryResolution", [dex, callpath, protocolCmd, sudo])
+}
+
+async function operationStatus (timelock: TimelockAccepts, operationId: string): Promise<string> {
+    if (await timelock.isOperationDone(operationId)) { return "done" }
+    if (await timelock.isOperationReady(operationId)) { return "ready" }
+    if (await timelock.isOperationPending(operationId)) {
+        const readyAt = await timelock.getTimestamp(operationId)
+        return `pending until ${new Date(readyAt.toNumber() * 1000).toISOString()}`
+    }
+    return "unscheduled"
+}
+
+// JSON with object keys sorted, so the digest doesn't depend on field order in the file
+function canonicalJson (val: any): string {
+    if (Array.isArray(val)) {
+        return "[" + val.map(canonicalJson).join(",") + "]"
+    } else if (val !== null && typeof val === "object") {
+        return "{" + Object.keys(val).sort()
+            .map(k => JSON.stringify(k) + ":" + canonicalJson(val[k])).join(",") + "}"
+    }
+    return JSON.stringify(val)
+}
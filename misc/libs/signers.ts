@@ -0,0 +1,254 @@
+import { BigNumber, ethers, Signer } from "ethers"
+import { JsonRpcProvider, Provider, TransactionReceipt, TransactionRequest,
+    TransactionResponse } from "@ethersproject/providers"
+import fs from "fs"
+
+/* Pluggable transaction signers for the scripts. Private keys are never taken on the
+ * command line. The signer is picked with --signer (or the CROC_SIGNER env var):
+ *
+ *   env                 the private key in the WALLET_KEY env var, the default
+ *   keystore:<file>     encrypted JSON keystore, with the password in the file given by
+ *                       --keystore-password-file or the KEYSTORE_PASSWORD env var
+ *   ledger[:<path>]     Ledger over USB, at the HD path (defaults to m/44'/60'/0'/0/0)
+ *   rpc:<url>           remote signer (e.g. Clef or Web3Signer) that signs with
+ *                       eth_signTransaction. The signed transaction is broadcast through
+ *                       the chain's provider
+ *   unsigned:<file>     doesn't sign. Every transaction is populated and appended to the
+ *                       file as a JSON line with its unsigned serialization, to be signed
+ *                       offline. Needs --signer-address. Nothing lands on chain, so scripts
+ *                       that read back what they sent check isUnsignedExport()
+ *
+ * --signer-address (or CROC_SIGNER_ADDRESS) picks the account on remote signers. */
+
+export const SIGNER_ARGS = [
+  // env, keystore:<file>, ledger[:<hd path>], rpc:<url> or unsigned:<file>
+  { name: "signer", type: String },
+  // account to use with the rpc and unsigned signers
+  { name: "signer-address", type: String },
+  // file holding the keystore password, defaults to the KEYSTORE_PASSWORD env var
+  { name: "keystore-password-file", type: String },
+]
+
+export interface SignerOpts {
+    signer?: string
+    address?: string
+    passwordFile?: string
+}
+
+type Env = Record<string, string | undefined>
+
+/* @notice Opens the signer described by the --signer options, falling back to the
+ *         CROC_SIGNER and CROC_SIGNER_ADDRESS env vars. */
+export function signerFromArgs (args: Record<string, any>, provider?: Provider,
+    env: Env = process.env): Signer {
+    return openSigner({ signer: args["signer"], address: args["signer-address"],
+        passwordFile: args["keystore-password-file"] }, provider, env)
+}
+
+export function openSigner (opts: SignerOpts, provider?: Provider, env: Env = process.env): Signer {
+    const spec = opts.signer || env.CROC_SIGNER || "env"
+    const address = opts.address || env.CROC_SIGNER_ADDRESS
+    if (/^(0x)?[0-9a-fA-F]{64}$/.test(spec)) {
+        throw new Error("Raw private keys aren't accepted as a signer. Use an encrypted keystore, " +
+            "a Ledger or a remote signer, or WALLET_KEY for local test chains")
+    }
+
+    const sep = spec.indexOf(":")
+    const kind = sep < 0 ? spec : spec.slice(0, sep)
+    const target = sep < 0 ? "" : spec.slice(sep + 1)
+
+    if (kind === "env") {
+        if (!env.WALLET_KEY) {
+            throw new Error("Set the WALLET_KEY env var, or pick another --signer")
+        }
+        return new ethers.Wallet(env.WALLET_KEY.toLowerCase(), provider)
+
+    } else if (kind === "keystore") {
+        if (!target) { throw new Error("Use keystore:<file> for a keystore signer") }
+        const password = opts.passwordFile ? fs.readFileSync(opts.passwordFile, "utf8").trim() :
+            env.KEYSTORE_PASSWORD
+        if (password === undefined) {
+            throw new Error("Set --keystore-password-file or the KEYSTORE_PASSWORD env var " +
+                `to unlock ${target}`)
+        }
+        return ethers.Wallet.fromEncryptedJsonSync(fs.readFileSync(target, "utf8"), password)
+            .connect(provider as Provider)
+
+    } else if (kind === "ledger") {
+        // Loaded on demand, so the USB transport is only needed by Ledger users
+        const { LedgerSigner } = require("@ethersproject/hardware-wallets")
+        return new LedgerSigner(provider, "hid", target || DEFAULT_LEDGER_PATH) as Signer
+
+    } else if (kind === "rpc") {
+        if (!target) { throw new Error("Use rpc:<url> for a remote signer") }
+        return new RemoteRpcSigner(target, address, provider)
+
+    } else if (kind === "unsigned") {
+        if (!target || !address) {
+            throw new Error("Use unsigned:<file> with --signer-address for unsigned export")
+        }
+        return new UnsignedTxSigner(target, address, provider)
+    }
+    throw new Error(`Unknown signer ${kind}. Use env, keystore, ledger, rpc or unsigned`)
+}
+
+/* @notice Signs through a remote JSON-RPC signer and broadcasts through the provider. */
+export class RemoteRpcSigner extends Signer {
+    readonly remote: JsonRpcProvider
+    readonly address?: string
+    readonly provider?: Provider
+
+    constructor (url: string, address?: string, provider?: Provider) {
+        super()
+        this.remote = new JsonRpcProvider(url)
+        this.address = address ? ethers.utils.getAddress(address) : undefined
+        ethers.utils.defineReadOnly(this, "provider", provider)
+    }
+
+    async getAddress(): Promise<string> {
+        if (this.address) { return this.address }
+        const accounts: string[] = await this.remote.send("eth_accounts", [])
+        if (accounts.length === 0) {
+            throw new Error(`Remote signer ${this.remote.connection.url} has no accounts`)
+        }
+        return ethers.utils.getAddress(accounts[0])
+    }
+
+    async signTransaction (tx: TransactionRequest): Promise<string> {
+        const from = await this.getAddress()
+        const resolved = await ethers.utils.resolveProperties({ ...tx, from })
+        const result = await this.remote.send("eth_signTransaction",
+            [JsonRpcProvider.hexlifyTransaction(resolved, { from: true })])
+        const raw: string = typeof result === "string" ? result : result.raw
+
+        // Don't broadcast anything but what was asked for
+        const mismatch = signedMismatch(resolved, ethers.utils.parseTransaction(raw), from)
+        if (mismatch !== undefined) {
+            throw new Error(`Remote signer returned a different transaction than requested: ` +
+                `${mismatch} differs`)
+        }
+        return raw
+    }
+
+    async signMessage (message: ethers.utils.Bytes | string): Promise<string> {
+        const data = typeof message === "string" ? ethers.utils.toUtf8Bytes(message) : message
+        return this.remote.send("personal_sign", [ethers.utils.hexlify(data),
+            (await this.getAddress()).toLowerCase()])
+    }
+
+    connect (provider: Provider): RemoteRpcSigner {
+        return new RemoteRpcSigner(this.remote.connection.url, this.address, provider)
+    }
+}
+
+/* @notice Writes transactions out for offline signing instead of sending them. Nonces
+ *         are assigned in order from the account's pending nonce, so a sequence of
+ *         transactions can be exported in one run. Waiting on a returned response gives a
+ *         stub receipt with no block, logs or status, since nothing's broadcast. */
+export class UnsignedTxSigner extends Signer {
+    readonly file: string
+    readonly address: string
+    readonly provider?: Provider
+    private nextNonce?: number
+
+    constructor (file: string, address: string, provider?: Provider) {
+        super()
+        this.file = file
+        this.address = ethers.utils.getAddress(address)
+        ethers.utils.defineReadOnly(this, "provider", provider)
+    }
+
+    async getAddress(): Promise<string> {
+        return this.address
+    }
+
+    async signTransaction (_: TransactionRequest): Promise<string> {
+        throw new Error("Unsigned export can't sign transactions")
+    }
+
+    async signMessage (_: ethers.utils.Bytes | string): Promise<string> {
+        throw new Error("Unsigned export can't sign messages")
+    }
+
+    connect (provider: Provider): UnsignedTxSigner {
+        return new UnsignedTxSigner(this.file, this.address, provider)
+    }
+
+    async sendTransaction (tx: TransactionRequest): Promise<TransactionResponse> {
+        if (this.nextNonce === undefined) {
+            this.nextNonce = await this.getTransactionCount("pending")
+        }
+        const populated = await this.populateTransaction({ ...tx,
+            nonce: tx.nonce !== undefined ? tx.nonce : this.nextNonce })
+        const nonce = BigNumber.from(populated.nonce).toNumber()
+        this.nextNonce = nonce + 1
+
+        const { from, ...unsigned } = populated
+        const unsignedTx = ethers.utils.serializeTransaction(unsigned as ethers.UnsignedTransaction)
+        fs.appendFileSync(this.file, JSON.stringify({ ...JsonRpcProvider.hexlifyTransaction(
+            populated, { from: true }), unsignedTx }) + "\n")
+
+        const hash = ethers.utils.keccak256(unsignedTx)
+        const receipt: TransactionReceipt = { to: populated.to || "", from: this.address,
+            contractAddress: populated.to ? "" : ethers.utils.getContractAddress({ from: this.address, nonce }),
+            transactionIndex: 0, gasUsed: BigNumber.from(0), logsBloom: "0x", blockHash: "",
+            transactionHash: hash, logs: [], blockNumber: 0, confirmations: 0,
+            cumulativeGasUsed: BigNumber.from(0), effectiveGasPrice: BigNumber.from(0), byzantium: true,
+            type: populated.type || 0 }
+        return { ...populated, from: this.address, nonce, hash, confirmations: 0,
+            gasLimit: BigNumber.from(populated.gasLimit),
+            value: BigNumber.from(populated.value || 0), data: ethers.utils.hexlify(populated.data || "0x"),
+            chainId: populated.chainId as number, wait: () => Promise.resolve(receipt) } as TransactionResponse
+    }
+}
+
+/* @notice True if the signer exports transactions instead of sending them. Nothing it
+ *         sends is on chain, so callers can't read back state it set up, or estimate gas
+ *         against contracts it deployed. */
+export function isUnsignedExport (signer: Signer): boolean {
+    return signer instanceof UnsignedTxSigner
+}
+
+// Gas limit for exported transactions whose gas can't be estimated because they depend on
+// earlier exported transactions. Unused gas is refunded
+export const EXPORT_GAS_LIMIT = 10000000
+
+/* @notice Reads the transactions written by an unsigned export, ready to sign. */
+export function readUnsignedTxs (file: string): TransactionRequest[] {
+    return fs.readFileSync(file, "utf8").split("\n").filter(l => l.trim()).map(l => {
+        const tx = ethers.utils.parseTransaction(JSON.parse(l).unsignedTx)
+        // Fields the transaction type doesn't have are parsed as null, which signing rejects
+        const defined = <T>(val: T | null | undefined) => val === null ? undefined : val
+        return { to: tx.to, nonce: tx.nonce, gasLimit: tx.gasLimit, data: tx.data, value: tx.value,
+            chainId: tx.chainId, type: defined(tx.type), gasPrice: defined(tx.gasPrice),
+            maxFeePerGas: defined(tx.maxFeePerGas), maxPriorityFeePerGas: defined(tx.maxPriorityFeePerGas),
+            accessList: defined(tx.accessList) }
+    })
+}
+
+// Numeric fields a signer fills in when it populates a transaction
+const SIGNED_NUMERIC_FIELDS: ("nonce" | "chainId" | "gasLimit" | "gasPrice" | "maxFeePerGas" |
+    "maxPriorityFeePerGas")[] = ["nonce", "chainId", "gasLimit", "gasPrice", "maxFeePerGas",
+    "maxPriorityFeePerGas"]
+
+// The first field of the signed transaction that differs from the request. Fields left out
+// of the request are free, except value, which defaults to zero
+function signedMismatch (req: TransactionRequest, signed: ethers.Transaction, from: string):
+    string | undefined {
+    if (signed.from !== from) { return "from" }
+    if ((signed.to || "") !== (req.to ? ethers.utils.getAddress(req.to) : "")) { return "to" }
+    if (signed.data !== ethers.utils.hexlify(req.data || "0x")) { return "data" }
+    if (!signed.value.eq(req.value || 0)) { return "value" }
+    for (const field of SIGNED_NUMERIC_FIELDS) {
+        const want = req[field]
+        const got = signed[field]
+        if (want !== undefined && want !== null && (got === undefined || got === null ||
+            !BigNumber.from(want).eq(got))) {
+            return field
+        }
+    }
+    if (req.type !== undefined && req.type !== null && signed.type !== req.type) { return "type" }
+    return undefined
+}
+
+const DEFAULT_LEDGER_PATH = "m/44'/60'/0'/0/0"
@@ -0,0 +1,268 @@
+import fs from "fs"
+import { artifacts } from 'hardhat';
+import { BOOT_PROXY_IDX, CrocProtocolCmd } from "../sdk/commands"
+import { decodeProtocolCmd, proxyPathName } from "../sdk/protocolDecoder"
+
+/* Storage layout checks for proxy upgrades. Every callpath runs against CrocSwapDex's
+ * storage, so an upgraded callpath has to keep every variable of the StorageLayout mixin
+ * at the same slot, offset and type as the callpath it replaces (see
+ * docs/UpgradeGuidelines.md). Layouts are read from the solc storageLayout output in the
+ * hardhat build info, either from the current build or from an archived build-info JSON of
+ * the release that's installed on chain. */
+
+export interface LayoutSource {
+    // Contract name, or fully qualified name if the name is ambiguous
+    contract: string
+    // Archived hardhat build-info JSON to read the layout from instead of the current build
+    buildInfo?: string
+}
+
+export interface UpgradeLayoutSources {
+    // The callpath contract that's currently installed at the upgraded proxy slot
+    current: LayoutSource
+    // The contract deployed at the address in the upgrade command
+    proposed: LayoutSource
+}
+
+export interface StorageVar {
+    label: string
+    // Fully qualified name of the contract that declares the variable
+    contract: string
+    slot: number
+    offset: number
+    numberOfBytes: number
+    // Type description with AST ids stripped, so it's comparable across builds
+    type: string
+}
+
+export interface LayoutConflict {
+    label: string
+    kind: "removed" | "shifted" | "retyped" | "overlap" | "outside"
+    detail: string
+}
+
+export interface LayoutComparison {
+    conflicts: LayoutConflict[]
+    // Variables in the proposed layout that aren't in the current one
+    appended: string[]
+}
+
+export interface UpgradeLayoutCheck extends LayoutComparison {
+    proxy: string
+    proxyIdx: number
+    proxyPath: string
+    current: string
+    proposed: string
+}
+
+// The parts of the solc output the layout is read from
+interface SolcOutput {
+    contracts: Record<string, Record<string, { storageLayout?: SolcStorageLayout }>>
+    sources?: Record<string, { ast?: SolcAstNode }>
+}
+
+interface SolcStorageLayout {
+    storage: SolcStorageEntry[]
+    types: Record<string, SolcStorageType> | null
+}
+
+interface SolcStorageEntry {
+    astId: number
+    contract: string
+    label: string
+    offset: number
+    slot: string
+    type: string
+}
+
+interface SolcStorageType {
+    encoding: string
+    label: string
+    numberOfBytes: string
+    key?: string
+    value?: string
+    base?: string
+    members?: SolcStorageEntry[]
+}
+
+interface SolcAstNode {
+    id: number
+    nodeType: string
+    name?: string
+    nodes?: SolcAstNode[]
+}
+
+/* @notice Reads the storage layout of a contract from the hardhat build info. */
+export async function readStorageLayout (src: LayoutSource): Promise<StorageVar[]> {
+    const { sourceName, contractName, output } = await layoutOutput(src)
+    const contracts = output.contracts[sourceName]
+    const layout = contracts && contracts[contractName] ? contracts[contractName].storageLayout : undefined
+    if (!layout) {
+        throw new Error(`No storage layout for ${sourceName}:${contractName} in the build info. ` +
+            `Check storageLayout is in the solc outputSelection`)
+    }
+    const types = layout.types || {}
+    const declared = declaringContracts(output)
+    return layout.storage.map(v => ({
+        label: v.label,
+        contract: declared[v.astId] || v.contract,
+        slot: parseInt(v.slot),
+        offset: v.offset,
+        numberOfBytes: parseInt(types[v.type].numberOfBytes),
+        type: typeSignature(types, v.type)
+    }))
+}
+
+/* @notice Compares a proposed layout against the current one. Every current variable
+ *         must keep its slot, offset and type. New variables may only be appended in
+ *         unused space, and only by the StorageLayout mixin. */
+export function compareStorageLayouts (current: StorageVar[], proposed: StorageVar[]):
+    LayoutComparison {
+    let conflicts: LayoutConflict[] = []
+    const report = (label: string, kind: LayoutConflict["kind"], detail: string) =>
+        conflicts.push({ label, kind, detail })
+
+    current.forEach(prev => {
+        const next = proposed.filter(v => v.label === prev.label)[0]
+        if (!next) {
+            report(prev.label, "removed", `was at ${position(prev)}`)
+        } else if (next.slot !== prev.slot || next.offset !== prev.offset) {
+            report(prev.label, "shifted", `moved from ${position(prev)} to ${position(next)}`)
+        } else if (next.type !== prev.type || next.numberOfBytes !== prev.numberOfBytes) {
+            report(prev.label, "retyped", `changed from ${prev.type} to ${next.type}`)
+        }
+    })
+
+    const appended = proposed.filter(v => !current.some(prev => prev.label === v.label))
+    appended.forEach(v => {
+        current.filter(prev => overlaps(v, prev)).forEach(prev =>
+            report(v.label, "overlap", `at ${position(v)} overlaps ${prev.label} at ${position(prev)}`))
+        if (!v.contract.endsWith(":StorageLayout")) {
+            report(v.label, "outside", `declared in ${v.contract}, not the StorageLayout mixin`)
+        }
+    })
+    return { conflicts, appended: appended.map(v => v.label) }
+}
+
+/* @notice Checks the storage layout of an UPGRADE_DEX_CODE command's proxy against the
+ *         callpath it replaces. */
+export async function checkUpgradeLayout (cmd: CrocProtocolCmd, sources: UpgradeLayoutSources):
+    Promise<UpgradeLayoutCheck> {
+    const decoded = decodeProtocolCmd(cmd.callpath, cmd.protocolCmd)
+    if (decoded.command !== "UpgradeProxy" || !decoded.known) {
+        throw new Error(`${decoded.command} on ${decoded.proxyPath} isn't a proxy upgrade command`)
+    }
+    const field = (name: string) => decoded.fields.filter(f => f.name === name)[0].value
+    const proxyIdx = parseInt(field("proxyIdx"))
+    const current = await readStorageLayout(sources.current)
+    const proposed = await readStorageLayout(sources.proposed)
+
+    return {
+        proxy: field("proxy"),
+        proxyIdx,
+        proxyPath: proxyPathName(proxyIdx),
+        current: sources.current.contract,
+        proposed: sources.proposed.contract,
+        ...compareStorageLayouts(current, proposed)
+    }
+}
+
+/* @notice Refuses proxy upgrade commands that haven't passed a storage layout check.
+ *         Any other command passes through. */
+export async function requireUpgradeLayout (cmd: CrocProtocolCmd, sources?: UpgradeLayoutSources) {
+    if (cmd.callpath !== BOOT_PROXY_IDX) { return }
+    if (decodeProtocolCmd(cmd.callpath, cmd.protocolCmd).command !== "UpgradeProxy") { return }
+
+    if (!sources) {
+        throw new Error("Proxy upgrades need the current and proposed callpath contracts " +
+            "to check the storage layout")
+    }
+    const check = await checkUpgradeLayout(cmd, sources)
+    if (check.conflicts.length > 0) {
+        throw new Error(`Storage layout of ${check.proposed} conflicts with ${check.current}:\n` +
+            formatLayoutCheck(check).join("\n"))
+    }
+}
+
+export function formatLayoutCheck (check: UpgradeLayoutCheck): string[] {
+    let lines = [`Upgrade ${check.proxyPath} (${check.proxyIdx}) to ${check.proxy}: ` +
+        `${check.current} -> ${check.proposed}`]
+    check.conflicts.forEach(c => lines.push(`  ${c.kind} ${c.label}: ${c.detail}`))
+    check.appended.forEach(label => lines.push(`  appended ${label}`))
+    if (check.conflicts.length === 0) {
+        lines.push("  storage layout compatible")
+    }
+    return lines
+}
+
+async function layoutOutput (src: LayoutSource):
+    Promise<{ sourceName: string, contractName: string, output: SolcOutput }> {
+    if (src.buildInfo) {
+        const output: SolcOutput = JSON.parse(fs.readFileSync(src.buildInfo, "utf8")).output
+        const [sourceName, contractName] = splitName(src.contract)
+        const matches = Object.keys(output.contracts).filter(source =>
+            (!sourceName || source === sourceName) && output.contracts[source][contractName])
+        if (matches.length !== 1) {
+            throw new Error(`${matches.length === 0 ? "No" : "Ambiguous"} contract ${src.contract} ` +
+                `in build info ${src.buildInfo}`)
+        }
+        return { sourceName: matches[0], contractName, output }
+    }
+
+    const { sourceName, contractName } = await artifacts.readArtifact(src.contract)
+    const buildInfo = await artifacts.getBuildInfo(`${sourceName}:${contractName}`)
+    if (!buildInfo) {
+        throw new Error(`No build info for ${src.contract}, compile first`)
+    }
+    // Hardhat's CompilerOutput type leaves out the storageLayout selection
+    return { sourceName, contractName, output: buildInfo.output as SolcOutput }
+}
+
+// Solc reports every variable under the contract the layout is for, so the declaring
+// contract is looked up from the variable's AST node instead
+function declaringContracts (output: SolcOutput): Record<number, string> {
+    let declared: Record<number, string> = {}
+    const sources = output.sources || {}
+    Object.keys(sources).forEach(sourceName => {
+        const ast = sources[sourceName].ast
+        const nodes = ast && ast.nodes ? ast.nodes : []
+        nodes.filter(n => n.nodeType === "ContractDefinition").forEach(c => {
+            (c.nodes || []).filter(n => n.nodeType === "VariableDeclaration").forEach(n => {
+                declared[n.id] = `${sourceName}:${c.name}`
+            })
+        })
+    })
+    return declared
+}
+
+function splitName (name: string): [string | undefined, string] {
+    const idx = name.lastIndexOf(":")
+    return idx < 0 ? [undefined, name] : [name.slice(0, idx), name.slice(idx + 1)]
+}
+
+// Solc type ids embed AST ids (e.g. t_struct(CurveState)1234_storage), which change
+// between builds. Describe the type by its labels and struct member layout instead.
+function typeSignature (types: Record<string, SolcStorageType>, id: string): string {
+    const t = types[id]
+    if (!t) { return id }
+    if (t.encoding === "mapping" && t.key !== undefined && t.value !== undefined) {
+        return `mapping(${typeSignature(types, t.key)} => ${typeSignature(types, t.value)})`
+    }
+    if (t.members) {
+        return `${t.label} {` + t.members.map(m =>
+            `${m.label}: ${typeSignature(types, m.type)} @${m.slot}+${m.offset}`).join(", ") + "}"
+    }
+    if (t.base) {
+        return `${t.label} of ${typeSignature(types, t.base)}`
+    }
+    return t.label
+}
+
+function position (v: StorageVar): string {
+    return `slot ${v.slot} offset ${v.offset}`
+}
+
+function overlaps (x: StorageVar, y: StorageVar): boolean {
+    const start = (v: StorageVar) => v.slot * 32 + v.offset
+    return start(x) < start(y) + y.numberOfBytes && start(y) < start(x) + x.numberOfBytes
+}
@@ -0,0 +1,111 @@
+import { BigNumber, ethers } from "ethers";
+import path from "path";
+import commandLineArgs from "command-line-args";
+import { exit } from "process";
+import { readDeployManifest } from "../libs/deployManifest";
+import { executeCreate2Plan, planCreate2Deploy, printPlanChecks, readCreate2Plan, verifyCreate2Plan,
+  writeCreate2Plan } from "../libs/create2Plan";
+import { mapSalt } from "../constants/salts";
+import { SIGNER_ARGS, signerFromArgs } from "../libs/signers";
+
+// Plans, executes and verifies a CREATE2 deployment through CrocDeployer (see
+// misc/libs/create2Plan.ts), e.g.
+//
+//   npx ts-node misc/scripts/create2-plan.ts plan --deployer 0x... --artifacts-root artifacts/contracts/ \
+//     --vanity CrocSwapDex:0xaaaa --plan plan.json
+//   npx ts-node misc/scripts/create2-plan.ts execute --plan plan.json --signer ledger \
+//     --artifacts-root artifacts/contracts/ --eth-node http://localhost:8545
+//   npx ts-node misc/scripts/create2-plan.ts verify --plan plan.json --eth-node http://localhost:8545
+//
+// plan:    predict every address of the manifest's deployment offline and write the plan
+// execute: deploy whatever isn't on chain yet and configure the dex, from the CrocDeployer owner
+// verify:  check every planned address has code and the dex matches the manifest
+const args = commandLineArgs([
+  { name: "command", type: String, defaultOption: true },
+  // the plan JSON file, written by plan and read by execute and verify
+  { name: "plan", type: String },
+  // the deployment manifest to plan
+  { name: "manifest", type: String, defaultValue: path.join(__dirname, "../manifests/althea-nativedex.json") },
+  // The root path of the artifacts
+  { name: "artifacts-root", type: String },
+  // the CrocDeployer contract address
+  { name: "deployer", type: String },
+  // CREATE2 salt for contracts without a vanity target, defaults to the deployer's salt in salts.ts
+  { name: "salt", type: String },
+  // vanity address prefixes, as ContractName:0xprefix
+  { name: "vanity", type: String, multiple: true },
+  { name: "max-tries", type: Number },
+  { name: "eth-node", type: String },
+  // the CrocDeployer owner executing the plan, see misc/libs/signers.ts
+  ...SIGNER_ARGS,
+]);
+
+function defaultSalt(deployer: string): BigNumber {
+  try {
+    return mapSalt(deployer);
+  } catch {
+    return BigNumber.from(0);
+  }
+}
+
+function plan(file: string) {
+  if (!args["deployer"] || !args["artifacts-root"]) {
+    throw new Error("Set --deployer and --artifacts-root to plan");
+  }
+  let vanity: Record<string, string> = {};
+  (args["vanity"] || []).forEach((v: string) => {
+    const [name, prefix] = v.split(":");
+    vanity[name] = prefix;
+  });
+
+  const result = planCreate2Deploy(readDeployManifest(args["manifest"]), args["deployer"], {
+    artifactsRoot: args["artifacts-root"],
+    salt: args["salt"] !== undefined ? BigNumber.from(args["salt"]) : defaultSalt(args["deployer"]),
+    vanity,
+    maxTries: args["max-tries"],
+  });
+  writeCreate2Plan(file, result);
+  result.contracts.forEach((c) => console.log(`${c.name.padEnd(20)} ${c.address}  salt ${c.salt}`));
+  console.log(`Wrote plan to ${file}`);
+}
+
+async function execute(file: string) {
+  if (!args["eth-node"] || !args["artifacts-root"]) {
+    throw new Error("Set --eth-node and --artifacts-root to execute");
+  }
+  const provider = new ethers.providers.JsonRpcProvider(args["eth-node"]);
+  const wallet = signerFromArgs(args, provider);
+  await executeCreate2Plan(readCreate2Plan(file), wallet, { artifactsRoot: args["artifacts-root"] });
+}
+
+async function verify(file: string): Promise<boolean> {
+  if (!args["eth-node"]) {
+    throw new Error("Set --eth-node to verify");
+  }
+  const provider = new ethers.providers.JsonRpcProvider(args["eth-node"]);
+  return printPlanChecks(await verifyCreate2Plan(readCreate2Plan(file), provider, args["artifacts-root"]));
+}
+
+async function main() {
+  const file = args["plan"];
+  if (!file) {
+    throw new Error("Set --plan to the plan JSON file");
+  }
+
+  let ok = true;
+  if (args["command"] === "plan") {
+    plan(file);
+  } else if (args["command"] === "execute") {
+    await execute(file);
+  } else if (args["command"] === "verify") {
+    ok = await verify(file);
+  } else {
+    throw new Error(`Unknown command ${args["command"]}. Use plan, execute or verify`);
+  }
+  exit(ok ? 0 : 1);
+}
+
+main().catch((err) => {
+  console.error(err);
+  exit(1);
+});
@@ -0,0 +1,79 @@
+import { ethers } from "ethers";
+import fs from "fs";
+import commandLineArgs from "command-line-args";
+import { exit } from "process";
+import { CheckpointStore, CrocIndexer } from "../sdk/indexer";
+
+const args = commandLineArgs([
+  // the ethereum node to read logs from
+  { name: "eth-node", type: String },
+  // the address of the CrocSwapDex contract
+  { name: "dex", type: String },
+  // the block the dex was deployed at, only used when no checkpoint exists
+  { name: "start-block", type: Number, defaultValue: 0 },
+  // blocks behind the head before events are treated as final
+  { name: "confirmations", type: Number, defaultValue: 12 },
+  // JSON file the indexer checkpoints to and resumes from
+  { name: "checkpoint", type: String, defaultValue: "croc-indexer.json" },
+  // keep polling for new blocks every N milliseconds, or sync once and exit if unset
+  { name: "poll-ms", type: Number },
+]);
+
+// Checkpoints to a JSON file. Writes to a temporary file first so a crash mid-write
+// never leaves a truncated checkpoint behind.
+class FileCheckpointStore implements CheckpointStore {
+  constructor(private path: string) {}
+
+  async load(): Promise<string | undefined> {
+    return fs.existsSync(this.path) ? fs.readFileSync(this.path, "utf8") : undefined;
+  }
+
+  async save(checkpoint: string): Promise<void> {
+    fs.writeFileSync(this.path + ".tmp", checkpoint);
+    fs.renameSync(this.path + ".tmp", this.path);
+  }
+}
+
+function summarize(indexer: CrocIndexer) {
+  const state = indexer.state;
+  console.log(
+    `Indexed to block ${indexer.block}: ` +
+      `${Object.keys(state.pools).length} pools, ` +
+      `${Object.keys(state.ranges).length} range positions, ` +
+      `${Object.keys(state.ambients).length} ambient positions, ` +
+      `${Object.keys(state.knockouts).length} knockout positions, ` +
+      `${Object.keys(state.surplus).length} surplus balances`
+  );
+}
+
+async function main() {
+  if (!args["eth-node"] || !args["dex"]) {
+    console.log("Usage: croc-indexer --eth-node <url> --dex <address> [--start-block N] " +
+      "[--confirmations N] [--checkpoint file] [--poll-ms N]");
+    exit(1);
+  }
+
+  const provider = new ethers.providers.JsonRpcProvider(args["eth-node"]);
+  const indexer = new CrocIndexer(provider, {
+    dex: args["dex"],
+    startBlock: args["start-block"],
+    confirmations: args["confirmations"],
+    store: new FileCheckpointStore(args["checkpoint"]),
+  });
+
+  await indexer.sync();
+  summarize(indexer);
+
+  if (args["poll-ms"] !== undefined) {
+    let last = indexer.block;
+    setInterval(() => {
+      if (indexer.block !== last) {
+        last = indexer.block;
+        summarize(indexer);
+      }
+    }, args["poll-ms"]);
+    indexer.watch(args["poll-ms"], (err) => console.log("Sync failed: ", err));
+  }
+}
+
+main();
@@ -0,0 +1,65 @@
+import commandLineArgs from "command-line-args";
+import { exit } from "process";
+import { CrocQuery } from "../../typechain";
+import { initProvider, refContract } from "../libs/chain";
+import { claimKnockoutCmd } from "../sdk/commands";
+import { findKnockoutClaims, KnockoutLocation } from "../sdk/knockoutProof";
+
+// Finds an owner's knocked out positions at a knockout location and prints the Merkle
+// proof and userCmd calldata to claim each one with CLAIM_KNOCKOUT, e.g.
+//
+//   CHAIN_ID=0x1 npx ts-node misc/scripts/knockout-proof.ts --owner 0x... --base 0x... \
+//     --quote 0x... --pool-idx 420 --bid --low-tick 3200 --high-tick 3232 --start-block 17000000
+const args = commandLineArgs([
+  // chain name or hex id to read from, defaults to the CHAIN_ID env var
+  { name: "chain-id", type: String },
+  { name: "owner", type: String },
+  { name: "base", type: String },
+  { name: "quote", type: String },
+  { name: "pool-idx", type: Number },
+  // bid side knockout, otherwise ask
+  { name: "bid", type: Boolean, defaultValue: false },
+  { name: "low-tick", type: Number },
+  { name: "high-tick", type: Number },
+  // block to start reading knockout logs from, should be the dex deploy block
+  { name: "start-block", type: Number, defaultValue: 0 },
+  // reserve flags for the claim command (1 = settle base to surplus, 2 = quote, 3 = both)
+  { name: "reserve-flags", type: Number, defaultValue: 0 },
+]);
+
+async function main() {
+  for (const opt of ["owner", "base", "quote", "pool-idx", "low-tick", "high-tick"]) {
+    if (args[opt] === undefined) {
+      throw new Error(`Set --${opt}`);
+    }
+  }
+
+  const { addrs, provider } = initProvider(args["chain-id"], ["dex", "query"]);
+  const query = (await refContract("CrocQuery", addrs.query) as CrocQuery).connect(provider);
+  const loc: KnockoutLocation = { base: args["base"], quote: args["quote"], poolIdx: args["pool-idx"],
+    isBid: args["bid"], lowTick: args["low-tick"], highTick: args["high-tick"] };
+
+  const claims = await findKnockoutClaims(provider, query, args["owner"], loc,
+    { dex: addrs.dex, fromBlock: args["start-block"] });
+  if (claims.length === 0) {
+    console.log("No knocked out positions to claim");
+  }
+
+  claims.forEach((claim) => {
+    const cmd = claimKnockoutCmd({ ...loc, root: claim.root, proof: claim.proof,
+      reserveFlags: args["reserve-flags"] });
+    console.log("-----");
+    console.log(`Tranche ${claim.pivotTime} (${new Date(claim.pivotTime * 1000).toISOString()}): ${claim.lots.toString()} lots`);
+    console.log(`Fee mileage at knockout: ${claim.feeMileage.toString()}`);
+    console.log(`Merkle root: ${claim.root.toHexString()}`);
+    console.log(`Proof: [${claim.proof.map((p) => p.toHexString()).join(", ")}]`);
+    console.log(`Call ${addrs.dex} userCmd(${cmd.callpath}, ${cmd.cmd})`);
+  });
+}
+
+main()
+  .then(() => exit(0))
+  .catch((err) => {
+    console.error(err);
+    exit(1);
+  });
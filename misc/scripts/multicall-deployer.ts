@@ -3,12 +3,13 @@ import { ethers } from "ethers";
 import fs from "fs";
 import commandLineArgs from "command-line-args";
 import { exit } from "process";
+import { SIGNER_ARGS, signerFromArgs } from "../libs/signers";
 
 const args = commandLineArgs([
   // the ethernum node used to deploy the contract
   { name: "eth-node", type: String },
-  // the Ethereum private key that will contain the gas required to pay for the contact deployment
-  { name: "eth-privkey", type: String },
+  // the signer paying for the contract deployment, see misc/libs/signers.ts
+  ...SIGNER_ARGS,
   // The location of the artifacts
   { name: "artifacts-root", type: String },
 ]);
@@ -31,7 +32,7 @@ function get_path(root: string, include_sol: boolean): string {
 async function deploy() {
   var startTime = new Date();
   const provider = await new ethers.providers.JsonRpcProvider(args["eth-node"]);
-  let wallet = new ethers.Wallet(args["eth-privkey"], provider);
+  let wallet = signerFromArgs(args, provider);
   let artifacts = args["artifacts-root"];
 
     var success = false;
@@ -9,17 +9,15 @@ import { ethers } from 'hardhat';
 import { BigNumber } from 'ethers';
 import { ColdPath, CrocDeployer, CrocPolicy, CrocSwapDex } from '../../../../typechain';
 import { mapSalt } from '../../../constants/salts';
-import { CROC_ADDRS } from '../../../constants/addrs';
 import { initChain, refContract, traceContractTx, traceTxResp } from '../../../libs/chain';
-import { RPC_URLS } from '../../../constants/rpcs';
 
 async function vanityDeploy() {
-    let { addrs, chainId, wallet: authority } = initChain()
+    let { addrs, chainId, wallet: authority } = initChain(undefined, ["deployer"])
 
     const salt = mapSalt(addrs.deployer)
 
     console.log("Deploying with the following addresses...")
-    console.log("Protocol Authority: ", authority.address)
+    console.log("Protocol Authority: ", await authority.getAddress())
     console.log("Using CREATE2 salt", salt.toString())
 
     let crocDeployer = await refContract("CrocDeployer", addrs.deployer, 
@@ -4,7 +4,7 @@
 import { inflateAddr, initChain, refContract, traceContractTx, traceTxResp } from '../../../libs/chain';
 import { AbiCoder } from '@ethersproject/abi';
 import { CrocPolicy, ERC20, TimelockAccepts } from '../../../../typechain';
-import { BOOT_PROXY_IDX, LP_PROXY_IDX, TOKEN_ADDRS } from '../../../constants/addrs';
+import { BOOT_PROXY_IDX, LP_PROXY_IDX } from '../../../constants/addrs';
 import { BigNumber, BytesLike, ethers } from 'ethers';
 import { MockERC20 } from '../../../contracts/typechain';
 import { opsResolution, populateTimelockCalls } from '../../../libs/governance';
@@ -13,7 +13,7 @@ const abi = new AbiCoder()
 let cmd
 
 async function install() {
-    let { addrs, chainId, wallet: authority } = initChain()
+    let { addrs, chainId, wallet: authority } = initChain(undefined, ["multisigTreasury", "multisigOps", "multisigEmergency"])
 
     const START_DELAY = 30;    
 
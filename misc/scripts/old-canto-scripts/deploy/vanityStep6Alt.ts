@@ -2,7 +2,7 @@
 import { inflateAddr, initChain, initProvider, refContract, traceContractTx, traceTxResp } from '../../../libs/chain';
 import { AbiCoder } from '@ethersproject/abi';
 import { CrocPolicy, ERC20, TimelockAccepts } from '../../../../typechain';
-import { BOOT_PROXY_IDX, COLD_PROXY_IDX, LP_PROXY_IDX, TOKEN_ADDRS } from '../../../constants/addrs';
+import { BOOT_PROXY_IDX, COLD_PROXY_IDX, LP_PROXY_IDX } from '../../../constants/addrs';
 import { BigNumber, BytesLike, ethers } from 'ethers';
 import { MockERC20 } from '../../../contracts/typechain';
 import { CrocProtocolCmd, INIT_TIMELOCK_DELAY, opsResolution, populateTimelockCalls, treasuryResolution } from '../../../libs/governance';
@@ -14,8 +14,8 @@ const txArgs = { gasLimit: 1000000}
 
 // Used for testnet setups where governance isn't being put behind a timelock/multisig
 async function install() {
-    let { addrs, poolParams, } = initProvider()
-    let { wallet: authority } = initChain()
+    let { addrs, poolParams, } = initProvider(undefined, ["dex", "policy"])
+    let { wallet: authority } = initChain(undefined, ["dex", "policy"])
     
     let policy = (await inflateAddr("CrocPolicy", addrs.policy, authority)) as CrocPolicy
 
@@ -4,7 +4,7 @@
 import { inflateAddr, initChain, refContract, traceContractTx, traceTxResp } from '../../../libs/chain';
 import { AbiCoder } from '@ethersproject/abi';
 import { CrocPolicy, ERC20, TimelockAccepts } from '../../../../typechain';
-import { BOOT_PROXY_IDX, LP_PROXY_IDX, TOKEN_ADDRS } from '../../../constants/addrs';
+import { BOOT_PROXY_IDX, LP_PROXY_IDX } from '../../../constants/addrs';
 import { BigNumber, BytesLike, ethers } from 'ethers';
 import { MockERC20 } from '../../../contracts/typechain';
 import { opsResolution, populateTimelockCalls } from '../../../libs/governance';
@@ -15,7 +15,7 @@ let cmd
 const txArgs = { gasLimit: 1000000 }
 
 async function install() {
-    let { addrs, chainId, wallet: authority } = initChain()
+    let { addrs, chainId, wallet: authority } = initChain(undefined, ["policy", "timelockOps", "timelockTreasury", "timelockEmergency"])
 
     let policy = (await refContract("CrocPolicy", addrs.policy, authority)) as CrocPolicy
     await traceContractTx(policy.transferGovernance(addrs.govern.timelockOps, 
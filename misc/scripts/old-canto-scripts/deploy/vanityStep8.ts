@@ -2,7 +2,7 @@
 import { inflateAddr, initChain, refContract, traceContractTx, traceTxResp } from '../../../libs/chain';
 import { AbiCoder } from '@ethersproject/abi';
 import { CrocPolicy, ERC20, TimelockAccepts } from '../../../../typechain';
-import { BOOT_PROXY_IDX, LP_PROXY_IDX, TOKEN_ADDRS } from '../../../constants/addrs';
+import { BOOT_PROXY_IDX, LP_PROXY_IDX } from '../../../constants/addrs';
 import { BigNumber, BytesLike, ethers } from 'ethers';
 import { MockERC20 } from '../../../contracts/typechain';
 import { CrocProtocolCmd, opsResolution, populateTimelockCalls, treasuryResolution } from '../../../libs/governance';
@@ -11,7 +11,7 @@ const abi = new AbiCoder()
 let cmd
 
 async function install() {
-    let { addrs } = initChain()
+    let { addrs } = initChain(undefined, ["dex", "policy", "warm"])
 
     // Warm path may have already been pre-installed, but install again to verify that
     // treasury resolutions are correctly enabled
@@ -22,7 +22,12 @@ async function install() {
         sudo: true
     }
 
-    treasuryResolution(addrs, resolution, 30, "Install Warm path sidecar")
+    // Check the new build against the installed release's build-info if there is one,
+    // otherwise this is the first install and the dex's own layout is what it replaces
+    const installed = process.env.CROC_INSTALLED_BUILD_INFO
+    const current = installed ? { contract: "WarmPath", buildInfo: installed } : { contract: "CrocSwapDex" }
+    treasuryResolution(addrs, resolution, 30, "Install Warm path sidecar", undefined,
+        { current, proposed: { contract: "WarmPath" } })
 }
 
 install()
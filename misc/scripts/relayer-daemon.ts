@@ -0,0 +1,87 @@
+import { BigNumber, ethers } from "ethers";
+import commandLineArgs from "command-line-args";
+import { exit } from "process";
+import { RelayerMempool } from "../sdk/relayerMempool";
+import { RelayerDex, RelayTip } from "../sdk/relayer";
+import { SlotReader } from "../sdk/swapSimulator";
+import { startRelayerServer } from "../libs/relayerServer";
+import { SIGNER_ARGS, signerFromArgs } from "../libs/signers";
+
+// Self-hosted relayer. Accepts signed relayer calls over HTTP (see misc/libs/relayerServer.ts)
+// and submits them to the dex through userCmdRelayer() from the --signer account (see
+// misc/libs/signers.ts), e.g.
+//
+//   npx ts-node misc/scripts/relayer-daemon.ts --eth-node http://localhost:8545 --dex 0x... \
+//     --signer keystore:relayer.json --port 8600 --tip-price 0xA0b8...:400000000
+const args = commandLineArgs([
+  // the ethereum node to read from and submit to
+  { name: "eth-node", type: String },
+  // the address of the CrocSwapDex contract
+  { name: "dex", type: String },
+  { name: "port", type: Number, defaultValue: 8600 },
+  { name: "host", type: String, defaultValue: "127.0.0.1" },
+  // how often to submit executable calls
+  { name: "poll-ms", type: Number, defaultValue: 2000 },
+  // tokens accepted as tips besides native ETH, as token:price where price is the wei
+  // value of one base unit of the token
+  { name: "tip-price", type: String, multiple: true },
+  // minimum tip value in wei
+  { name: "min-tip", type: String, defaultValue: "0" },
+  { name: "max-pending", type: Number, defaultValue: 10000 },
+  ...SIGNER_ARGS,
+]);
+
+const DEX_RELAYER_ABI = [
+  "function readSlot(uint256 slot) view returns (uint256)",
+  "function userCmdRelayer(uint16 callpath, bytes cmd, bytes conds, bytes tip, bytes signature) payable returns (bytes)",
+];
+
+function tipPrices(): Record<string, BigNumber> {
+  let prices: Record<string, BigNumber> = { [ethers.constants.AddressZero]: ethers.constants.WeiPerEther };
+  (args["tip-price"] || []).forEach((p: string) => {
+    const [token, price] = p.split(":");
+    prices[token.toLowerCase()] = ethers.utils.parseUnits(price, 18);
+  });
+  return prices;
+}
+
+async function main() {
+  if (!args["eth-node"] || !args["dex"]) {
+    console.log("Usage: relayer-daemon --eth-node <url> --dex <address> [--signer <signer>] " +
+      "[--port N] [--poll-ms N] [--tip-price token:price] [--min-tip wei] [--max-pending N]");
+    exit(1);
+  }
+
+  const provider = new ethers.providers.JsonRpcProvider(args["eth-node"]);
+  const wallet = signerFromArgs(args, provider);
+  const address = await wallet.getAddress();
+  const dex = new ethers.Contract(args["dex"], DEX_RELAYER_ABI, wallet) as ethers.Contract & RelayerDex & SlotReader;
+  const prices = tipPrices();
+
+  const mempool = new RelayerMempool(dex, {
+    chainId: (await provider.getNetwork()).chainId,
+    relayer: address,
+    tipValue: (tip: RelayTip) => {
+      const price = prices[tip.token.toLowerCase()];
+      return price ? BigNumber.from(tip.amount).mul(price).div(ethers.constants.WeiPerEther) : BigNumber.from(0);
+    },
+    minTipValue: BigNumber.from(args["min-tip"]),
+    maxPending: args["max-pending"],
+  });
+
+  const relayer = await startRelayerServer(mempool, {
+    port: args["port"],
+    host: args["host"],
+    pollMs: args["poll-ms"],
+    onResult: (r) => console.log(`${r.status} ${r.entry.id} from ${r.entry.call.signer} ` +
+      `nonce ${r.entry.conds.nonce}` + (r.receipt ? ` in tx ${r.receipt.transactionHash}` : "") +
+      (r.error ? `: ${r.error}` : "")),
+    onError: (err) => console.log("Relayer error: ", err),
+  });
+  console.log(`Relaying for ${address} on ${args["host"]}:${relayer.port}`);
+}
+
+main().catch((err) => {
+  console.error(err);
+  exit(1);
+});
@@ -0,0 +1,129 @@
+import commandLineArgs from "command-line-args";
+import { exit } from "process";
+import { initProvider } from "../libs/chain";
+import { chainRpcUrls, lookupChain } from "../libs/chainRegistry";
+import { formatProtocolCmd } from "../sdk/protocolDecoder";
+import { forkChain, printResolutionChecks, readResolutionFile, replayResolution,
+  resolutionDigest, signOffResolution, verifyResolution, writeResolutionFile } from "../libs/resolution";
+import { printSimulationReport, simulateResolution, WatchedPool } from "../libs/forkSim";
+import { SIGNER_ARGS, signerFromArgs } from "../libs/signers";
+
+// Works through the stages of a governance resolution file written by opsResolution() or
+// treasuryResolution() in misc/libs/governance.ts. Run with ts-node so the arguments
+// reach the script, e.g.
+//
+//   CHAIN_ID=0x1 npx ts-node misc/scripts/resolution.ts verify --file res.json
+//
+// show:   print the file's description, decoded command, calldata and sign-offs
+// sign:   append a sign-off from --signer, see misc/libs/signers.ts
+// verify: check the file's calldata and sign-offs, and the addresses and roles on chain
+// replay: fork the chain in the hardhat network and schedule and execute the resolution
+// simulate: fork the chain, run the resolution straight from the timelock after its delay
+//           and print the resulting dex state diff and events
+const args = commandLineArgs([
+  { name: "command", type: String, defaultOption: true },
+  // the resolution JSON file
+  { name: "file", type: String },
+  // chain name or hex id to verify against or fork from, defaults to the CHAIN_ID env var
+  { name: "chain-id", type: String },
+  // block to fork from when replaying, defaults to the latest block
+  { name: "fork-block", type: Number },
+  // extra pool templates to include in the simulated state diff
+  { name: "pool-idx", type: Number, multiple: true },
+  // extra pools to include in the simulated state diff, as base:quote:poolIdx
+  { name: "pool", type: String, multiple: true },
+  // who signs off, for sign
+  ...SIGNER_ARGS,
+]);
+
+async function show(path: string) {
+  const file = readResolutionFile(path);
+  console.log("Description:", file.description);
+  console.log(`${file.resolutionType} resolution on chain ${file.chainId}, created ${file.createdAt}`);
+  console.log("Protocol command:", file.protocolCmd);
+  formatProtocolCmd(file.decoded).forEach((line) => console.log(line));
+  console.log();
+  console.log(`Step 1: Gnosis Safe ${file.multisigOrigin} calls timelock ${file.timelock.timelockAddr} with`);
+  console.log(file.timelock.scheduleCalldata);
+  console.log();
+  console.log(`Step 2: After ${file.timelock.delay} seconds, same Safe calls the timelock with`);
+  console.log(file.timelock.execCalldata);
+  console.log();
+  console.log("Digest:", resolutionDigest(file));
+  file.signoffs.forEach((s) => console.log(`Signed off by ${s.signer} at ${s.signedAt}`));
+}
+
+async function sign(path: string) {
+  const file = await signOffResolution(readResolutionFile(path), signerFromArgs(args));
+  writeResolutionFile(path, file);
+  console.log(`Signed off ${resolutionDigest(file)} as ${file.signoffs[file.signoffs.length - 1].signer}`);
+}
+
+async function verify(path: string): Promise<boolean> {
+  const { provider } = initProvider(args["chain-id"]);
+  return printResolutionChecks(await verifyResolution(readResolutionFile(path), provider));
+}
+
+async function replay(path: string): Promise<boolean> {
+  const file = readResolutionFile(path);
+  await forkChain(forkUrl(), args["fork-block"]);
+
+  const result = await replayResolution(file);
+  if (result.scheduleReceipt) {
+    console.log(`Scheduled in tx ${result.scheduleReceipt.transactionHash}`);
+  }
+  console.log(`Executed in tx ${result.execReceipt.transactionHash} (gas ${result.execReceipt.gasUsed.toString()})`);
+  result.events.forEach((e) => console.log(`Event ${e.name}:`, e.args));
+  return result.execReceipt.status === 1;
+}
+
+async function simulate(path: string): Promise<boolean> {
+  const file = readResolutionFile(path);
+  const pools: WatchedPool[] = (args["pool"] || []).map((p: string) => {
+    const [base, quote, poolIdx] = p.split(":");
+    return { base, quote, poolIdx };
+  });
+
+  const report = await simulateResolution(file, {
+    rpcUrl: forkUrl(),
+    blockNumber: args["fork-block"],
+    poolIdxs: args["pool-idx"],
+    pools,
+  });
+  printSimulationReport(report);
+  return report.success;
+}
+
+// Forks from the first usable RPC URL of the chain
+function forkUrl(): string {
+  const chain = lookupChain(args["chain-id"] || process.env.CHAIN_ID || "mock");
+  return chainRpcUrls(chain)[0];
+}
+
+async function main() {
+  const path = args["file"];
+  if (!path) {
+    throw new Error("Set --file to the resolution JSON file");
+  }
+
+  let ok = true;
+  if (args["command"] === "show") {
+    await show(path);
+  } else if (args["command"] === "sign") {
+    await sign(path);
+  } else if (args["command"] === "verify") {
+    ok = await verify(path);
+  } else if (args["command"] === "replay") {
+    ok = await replay(path);
+  } else if (args["command"] === "simulate") {
+    ok = await simulate(path);
+  } else {
+    throw new Error(`Unknown command ${args["command"]}. Use show, sign, verify, replay or simulate`);
+  }
+  exit(ok ? 0 : 1);
+}
+
+main().catch((err) => {
+  console.error(err);
+  exit(1);
+});
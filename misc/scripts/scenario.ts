@@ -0,0 +1,42 @@
+import commandLineArgs from "command-line-args";
+import { exit } from "process";
+import { printScenarioReport, readScenario, runScenario } from "../../test/Scenario";
+
+// Replays declarative pool scenarios (see test/Scenario.ts for the format) on the
+// in-process hardhat network, and prints each step's checks. Scenarios with a fork
+// section run against the live pool on a fork of their chain. Compile the contracts
+// first, and run with ts-node so the arguments reach the script, e.g.
+//
+//   npx ts-node misc/scripts/scenario.ts --file test/scenarios/knockout-claim.json
+//   npx ts-node misc/scripts/scenario.ts --file incident.json --fork-block 19000000
+const args = commandLineArgs([
+  // scenario JSON files, run in order
+  { name: "file", type: String, multiple: true, defaultOption: true },
+  // overrides the block a fork scenario forks from
+  { name: "fork-block", type: Number },
+]);
+
+async function main() {
+  const files: string[] = args["file"] || [];
+  if (files.length === 0) {
+    throw new Error("Set --file to the scenario JSON file");
+  }
+
+  let ok = true;
+  for (const file of files) {
+    const scenario = readScenario(file);
+    if (args["fork-block"] !== undefined) {
+      if (!scenario.fork) {
+        throw new Error(`--fork-block is set, but ${file} doesn't run on a fork`);
+      }
+      scenario.fork.block = args["fork-block"];
+    }
+    ok = printScenarioReport(await runScenario(scenario)) && ok;
+  }
+  exit(ok ? 0 : 1);
+}
+
+main().catch((err) => {
+  console.error(err);
+  exit(1);
+});
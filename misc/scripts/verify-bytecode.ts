@@ -0,0 +1,36 @@
+import fs from "fs";
+import commandLineArgs from "command-line-args";
+import { exit } from "process";
+import { initProvider } from "../libs/chain";
+import { printBytecodeChecks, verifyCrocAddrs } from "../libs/bytecodeVerify";
+
+// Checks every contract in a chain's CrocAddrs entry against the local build, and the
+// dex's proxy slots against the entry (see misc/libs/bytecodeVerify.ts). Compile first,
+// then run with ts-node so the arguments reach the script, e.g.
+//
+//   npx ts-node misc/scripts/verify-bytecode.ts --chain-id mainnet --json report.json
+//
+// Exits with 1 if any check fails.
+const args = commandLineArgs([
+  // chain name or hex id to verify, defaults to the CHAIN_ID env var
+  { name: "chain-id", type: String },
+  // also write the full report, with every differing byte range, to this JSON file
+  { name: "json", type: String },
+]);
+
+async function main() {
+  const { addrs, provider, chainId, chain } = initProvider(args["chain-id"]);
+  console.log(`Verifying deployed bytecode on ${chain.name} (${chainId})`);
+  const checks = await verifyCrocAddrs(addrs, provider);
+  const ok = printBytecodeChecks(checks);
+  if (args["json"]) {
+    fs.writeFileSync(args["json"], JSON.stringify({ chainId, addrs, checks }, null, 2) + "\n");
+    console.log(`Report written to ${args["json"]}`);
+  }
+  exit(ok ? 0 : 1);
+}
+
+main().catch((err) => {
+  console.error(err);
+  exit(1);
+});
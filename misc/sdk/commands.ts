@@ -0,0 +1,619 @@
+import { AbiCoder } from "@ethersproject/abi";
+import { BigNumber, BigNumberish, BytesLike, ethers } from "ethers";
+
+/* Typed builders for every userCmd() and protocolCmd() encoding defined in
+ * contracts/libraries/ProtocolCmd.sol. Unlike the helpers in misc/libs, this module
+ * has no dependency on hardhat, so it can be imported directly by frontends and bots.
+ *
+ * Every builder checks its arguments against the Solidity types they're decoded into
+ * and throws before producing bytes that would revert (or silently truncate) on chain. */
+
+// Proxy sidecar slots, see mixins/StorageLayout.sol
+export const BOOT_PROXY_IDX = 0;
+export const SWAP_PROXY_IDX = 1;
+export const LP_PROXY_IDX = 2;
+export const COLD_PROXY_IDX = 3;
+export const LONG_PROXY_IDX = 4;
+export const MICRO_PROXY_IDX = 5;
+export const MULTICALL_PROXY_IDX = 6;
+export const KNOCKOUT_LP_PROXY_IDX = 7;
+export const FLAG_CROSS_PROXY_IDX = 3500;
+export const SAFE_MODE_PROXY_PATH = 9999;
+
+// Privileged protocolCmd codes (sudo only)
+export const AUTHORITY_TRANSFER_CODE = 20;
+export const UPGRADE_DEX_CODE = 21;
+export const HOT_OPEN_CODE = 22;
+export const SAFE_MODE_CODE = 23;
+export const COLLECT_TREASURY_CODE = 40;
+export const SET_TREASURY_CODE = 41;
+
+// General purpose policy protocolCmd codes
+export const DISABLE_TEMPLATE_CODE = 109;
+export const POOL_TEMPLATE_CODE = 110;
+export const POOL_REVISE_CODE = 111;
+export const INIT_POOL_LIQ_CODE = 112;
+export const OFF_GRID_CODE = 113;
+export const SET_TAKE_CODE = 114;
+export const RESYNC_TAKE_CODE = 115;
+export const RELAYER_TAKE_CODE = 116;
+
+// Cold path userCmd codes
+export const INIT_POOL_CODE = 71;
+export const APPROVE_ROUTER_CODE = 72;
+export const DEPOSIT_SURPLUS_CODE = 73;
+export const DISBURSE_SURPLUS_CODE = 74;
+export const TRANSFER_SURPLUS_CODE = 75;
+export const SIDE_POCKET_CODE = 76;
+export const RESET_NONCE_CODE = 80;
+export const RESET_NONCE_COND_CODE = 81;
+export const GATE_ORACLE_COND_CODE = 82;
+export const DEPOSIT_PERMIT_CODE = 83;
+
+// Warm path LP userCmd codes
+export const MINT_RANGE_LIQ_LP = 1;
+export const MINT_RANGE_BASE_LP = 11;
+export const MINT_RANGE_QUOTE_LP = 12;
+export const BURN_RANGE_LIQ_LP = 2;
+export const BURN_RANGE_BASE_LP = 21;
+export const BURN_RANGE_QUOTE_LP = 22;
+export const MINT_AMBIENT_LIQ_LP = 3;
+export const MINT_AMBIENT_BASE_LP = 31;
+export const MINT_AMBIENT_QUOTE_LP = 32;
+export const BURN_AMBIENT_LIQ_LP = 4;
+export const BURN_AMBIENT_BASE_LP = 41;
+export const BURN_AMBIENT_QUOTE_LP = 42;
+export const HARVEST_LP = 5;
+
+// Knockout LP userCmd codes
+export const MINT_KNOCKOUT_CODE = 91;
+export const BURN_KNOCKOUT_CODE = 92;
+export const CLAIM_KNOCKOUT_CODE = 93;
+export const RECOVER_KNOCKOUT_CODE = 94;
+
+// See libraries/TickMath.sol
+export const MIN_TICK = -665454;
+export const MAX_TICK = 831818;
+export const MIN_SQRT_RATIO = BigNumber.from("65538");
+export const MAX_SQRT_RATIO = BigNumber.from("21267430153580247136652501917186561138");
+
+// Liquidity on range positions must be a multiple of the lot size. Lots are 1024 units,
+// but the tick stores its lots with the lowest bit as the knockout flag, so range
+// positions have to come in even lots. See docs/LiquidityLots.md
+export const LIQ_LOT_SIZE = 2048;
+
+export interface CrocProtocolCmd {
+    callpath: number,
+    protocolCmd: BytesLike,
+    sudo?: boolean
+}
+
+export interface CrocUserCmd {
+    callpath: number,
+    cmd: BytesLike
+}
+
+// Bit flags for the reserveFlags argument. Indicates whether the base/quote side of
+// a command should settle using the user's surplus collateral at the exchange.
+export const BASE_SURPLUS_FLAG = 0x1;
+export const QUOTE_SURPLUS_FLAG = 0x2;
+
+// Determines whether an LP command's qty field is denominated in liquidity units, or
+// in the base or quote token (in which case the dex converts to liquidity at the
+// current curve price).
+export type LpQtyDenom = "liq" | "base" | "quote"
+
+export interface PairArgs {
+    base: string,
+    quote: string,
+    poolIdx: BigNumberish
+}
+
+export interface LpArgs extends PairArgs {
+    qty: BigNumberish,
+    qtyDenom?: LpQtyDenom,
+    limitLower: BigNumberish,
+    limitHigher: BigNumberish,
+    reserveFlags?: number,
+    lpConduit?: string
+}
+
+export interface RangeLpArgs extends LpArgs {
+    lowTick: number,
+    highTick: number
+}
+
+export interface HarvestArgs extends PairArgs {
+    lowTick: number,
+    highTick: number,
+    limitLower: BigNumberish,
+    limitHigher: BigNumberish,
+    reserveFlags?: number,
+    lpConduit?: string
+}
+
+export interface KnockoutArgs extends PairArgs {
+    isBid: boolean,
+    lowTick: number,
+    highTick: number,
+    reserveFlags?: number
+}
+
+export interface SwapArgs extends PairArgs {
+    isBuy: boolean,
+    inBaseQty: boolean,
+    qty: BigNumberish,
+    tip?: number,
+    limitPrice: BigNumberish,
+    minOutput: BigNumberish,
+    reserveFlags?: number
+}
+
+export interface TemplateArgs {
+    poolIdx: BigNumberish,
+    feeRate: number,
+    tickSize: number,
+    jitThresh: number,
+    knockoutBits: number,
+    oracleFlags?: number
+}
+
+export interface ReviseArgs extends PairArgs {
+    feeRate: number,
+    tickSize: number,
+    jitThresh: number,
+    knockoutBits: number
+}
+
+// Where new knockout pivots can be placed relative to the curve price. "outside" requires
+// bids (asks) to sit entirely below (above) the price, "inside" only requires the lower
+// (upper) tick to.
+export type KnockoutPlacement = "disabled" | "outside" | "inside"
+
+export interface KnockoutSpec {
+    placement: KnockoutPlacement,
+    // Width of knockout ranges in ticks. Must be a power of two up to 2^15.
+    width: number,
+    // If set, knockout ranges must sit on a multiple of the width
+    onGrid?: boolean
+}
+
+/* @notice Packs the named knockout parameters into the template's knockoutBits field.
+ *         Mirrors KnockoutLiq.unpackBits() */
+export function knockoutBits (spec: KnockoutSpec): number {
+    const widthBits = Math.log2(spec.width)
+    if (!Number.isInteger(widthBits) || widthBits < 0 || widthBits > 15) {
+        throw new Error(`Knockout width ${spec.width} must be a power of two up to 2^15`)
+    }
+    const placeBits = KNOCKOUT_PLACEMENTS.indexOf(spec.placement)
+    if (placeBits < 0) {
+        throw new Error(`Unknown knockout placement ${spec.placement}`)
+    }
+    return widthBits | (placeBits << 4) | (spec.onGrid ? 0x40 : 0)
+}
+
+/* @notice Unpacks a template's knockoutBits field into the named knockout parameters.
+ *         Mirrors KnockoutLiq.unpackBits(), which reads both placement bits set as inside. */
+export function unpackKnockoutBits (bits: number): KnockoutSpec {
+    const placeBits = (bits & 0x30) >> 4
+    return { placement: KNOCKOUT_PLACEMENTS[Math.min(placeBits, 2)], width: 1 << (bits & 0x0F),
+        onGrid: (bits & 0x40) > 0 }
+}
+
+const KNOCKOUT_PLACEMENTS: KnockoutPlacement[] = ["disabled", "outside", "inside"]
+
+
+//////////////////////////////////////////////////////////////////////////////
+// Warm path (LP_PROXY_IDX)
+//////////////////////////////////////////////////////////////////////////////
+
+export function mintRangeCmd (args: RangeLpArgs): CrocUserCmd {
+    const code = lpCode(args.qtyDenom, MINT_RANGE_LIQ_LP, MINT_RANGE_BASE_LP, MINT_RANGE_QUOTE_LP)
+    checkTickRange(args.lowTick, args.highTick)
+    checkLots(args)
+    return warmCmd(code, args, args.lowTick, args.highTick, args.qty)
+}
+
+export function burnRangeCmd (args: RangeLpArgs): CrocUserCmd {
+    const code = lpCode(args.qtyDenom, BURN_RANGE_LIQ_LP, BURN_RANGE_BASE_LP, BURN_RANGE_QUOTE_LP)
+    checkTickRange(args.lowTick, args.highTick)
+    checkLots(args)
+    return warmCmd(code, args, args.lowTick, args.highTick, args.qty)
+}
+
+export function mintAmbientCmd (args: LpArgs): CrocUserCmd {
+    const code = lpCode(args.qtyDenom, MINT_AMBIENT_LIQ_LP, MINT_AMBIENT_BASE_LP, MINT_AMBIENT_QUOTE_LP)
+    return warmCmd(code, args, 0, 0, args.qty)
+}
+
+export function burnAmbientCmd (args: LpArgs): CrocUserCmd {
+    const code = lpCode(args.qtyDenom, BURN_AMBIENT_LIQ_LP, BURN_AMBIENT_BASE_LP, BURN_AMBIENT_QUOTE_LP)
+    return warmCmd(code, args, 0, 0, args.qty)
+}
+
+export function harvestCmd (args: HarvestArgs): CrocUserCmd {
+    checkTickRange(args.lowTick, args.highTick)
+    return warmCmd(HARVEST_LP, args, args.lowTick, args.highTick, 0)
+}
+
+function checkLots (args: RangeLpArgs) {
+    const inLiq = !args.qtyDenom || args.qtyDenom === "liq"
+    if (inLiq && !BigNumber.from(args.qty).mod(LIQ_LOT_SIZE).eq(0)) {
+        throw new Error(`Range liquidity ${args.qty.toString()} must be a multiple of ${LIQ_LOT_SIZE}`)
+    }
+}
+
+function lpCode (denom: LpQtyDenom | undefined, liqCode: number, baseCode: number,
+    quoteCode: number): number {
+    if (!denom || denom === "liq") {
+        return liqCode
+    }
+    return denom === "base" ? baseCode : quoteCode
+}
+
+function warmCmd (code: number, args: PairArgs & { limitLower: BigNumberish,
+    limitHigher: BigNumberish, reserveFlags?: number, lpConduit?: string },
+    lowTick: number, highTick: number, qty: BigNumberish): CrocUserCmd {
+    checkPair(args)
+    checkUint(qty, 128, "qty")
+    checkUint(args.limitLower, 128, "limitLower")
+    checkUint(args.limitHigher, 128, "limitHigher")
+
+    const cmd = new AbiCoder().encode(
+        [ "uint8", "address", "address", "uint256", "int24", "int24", "uint128", "uint128", "uint128", "uint8", "address" ],
+        [ code, args.base, args.quote, args.poolIdx, lowTick, highTick, qty, args.limitLower,
+            args.limitHigher, reserveFlags(args.reserveFlags), optAddr(args.lpConduit, "lpConduit") ])
+    return { callpath: LP_PROXY_IDX, cmd }
+}
+
+
+//////////////////////////////////////////////////////////////////////////////
+// Knockout path (KNOCKOUT_LP_PROXY_IDX)
+//////////////////////////////////////////////////////////////////////////////
+
+export function mintKnockoutCmd (args: KnockoutArgs & { qty: BigNumberish,
+    insideMid: boolean }): CrocUserCmd {
+    checkUint(args.qty, 128, "qty")
+    const inner = new AbiCoder().encode(["uint128", "bool"], [args.qty, args.insideMid])
+    return knockoutCmd(MINT_KNOCKOUT_CODE, args, inner)
+}
+
+export function burnKnockoutCmd (args: KnockoutArgs & { qty: BigNumberish, inLiq: boolean,
+    insideMid: boolean }): CrocUserCmd {
+    checkUint(args.qty, 128, "qty")
+    const inner = new AbiCoder().encode(["uint128", "bool", "bool"],
+        [args.qty, args.inLiq, args.insideMid])
+    return knockoutCmd(BURN_KNOCKOUT_CODE, args, inner)
+}
+
+export function claimKnockoutCmd (args: KnockoutArgs & { root: BigNumberish,
+    proof: BigNumberish[] }): CrocUserCmd {
+    checkUint(args.root, 160, "merkle root")
+    args.proof.forEach((p, i) => checkUint(p, 256, `proof[${i}]`))
+    const inner = new AbiCoder().encode(["uint160", "uint256[]"], [args.root, args.proof])
+    return knockoutCmd(CLAIM_KNOCKOUT_CODE, args, inner)
+}
+
+export function recoverKnockoutCmd (args: KnockoutArgs & { pivotTime: number }): CrocUserCmd {
+    checkUint(args.pivotTime, 32, "pivotTime")
+    const inner = new AbiCoder().encode(["uint32"], [args.pivotTime])
+    return knockoutCmd(RECOVER_KNOCKOUT_CODE, args, inner)
+}
+
+function knockoutCmd (code: number, args: KnockoutArgs, inner: BytesLike): CrocUserCmd {
+    checkPair(args)
+    checkTickRange(args.lowTick, args.highTick)
+    const cmd = new AbiCoder().encode(
+        [ "uint8", "address", "address", "uint256", "int24", "int24", "bool", "uint8", "bytes"],
+        [ code, args.base, args.quote, args.poolIdx, args.lowTick, args.highTick, args.isBid,
+            reserveFlags(args.reserveFlags), inner])
+    return { callpath: KNOCKOUT_LP_PROXY_IDX, cmd }
+}
+
+
+//////////////////////////////////////////////////////////////////////////////
+// Hot path swap proxy (SWAP_PROXY_IDX)
+//////////////////////////////////////////////////////////////////////////////
+
+export function swapCmd (args: SwapArgs): CrocUserCmd {
+    checkPair(args)
+    checkUint(args.qty, 128, "qty")
+    checkUint(args.tip || 0, 16, "tip")
+    checkUint(args.limitPrice, 128, "limitPrice")
+    checkUint(args.minOutput, 128, "minOutput")
+    const cmd = new AbiCoder().encode(
+        [ "address", "address", "uint256", "bool", "bool", "uint128", "uint16", "uint128", "uint128", "uint8"],
+        [ args.base, args.quote, args.poolIdx, args.isBuy, args.inBaseQty, args.qty, args.tip || 0,
+            args.limitPrice, args.minOutput, reserveFlags(args.reserveFlags) ])
+    return { callpath: SWAP_PROXY_IDX, cmd }
+}
+
+
+//////////////////////////////////////////////////////////////////////////////
+// Cold path user commands (COLD_PROXY_IDX)
+//////////////////////////////////////////////////////////////////////////////
+
+export function initPoolCmd (args: PairArgs & { sqrtPrice: BigNumberish }): CrocUserCmd {
+    checkPair(args)
+    checkUint(args.sqrtPrice, 128, "sqrtPrice")
+    return coldCmd(["uint8", "address", "address", "uint256", "uint128"],
+        [INIT_POOL_CODE, args.base, args.quote, args.poolIdx, args.sqrtPrice])
+}
+
+export function approveRouterCmd (router: string, nCalls: number, callpaths: number[]): CrocUserCmd {
+    checkAddr(router, "router")
+    checkUint(nCalls, 32, "nCalls")
+    callpaths.forEach((c, i) => {
+        checkUint(c, 16, `callpaths[${i}]`)
+        if (c === COLD_PROXY_IDX) {
+            throw new Error("Routers cannot be approved on the cold path")
+        }
+    })
+    return coldCmd(["uint8", "address", "uint32", "uint16[]"],
+        [APPROVE_ROUTER_CODE, router, nCalls, callpaths])
+}
+
+export function depositSurplusCmd (recv: string, value: BigNumberish, token: string): CrocUserCmd {
+    checkAddr(recv, "recv")
+    checkAddr(token, "token")
+    checkUint(value, 128, "value")
+    return coldCmd(["uint8", "address", "uint128", "address"],
+        [DEPOSIT_SURPLUS_CODE, recv, value, token])
+}
+
+export function depositPermitCmd (recv: string, value: BigNumberish, token: string,
+    deadline: BigNumberish, v: number, r: BytesLike, s: BytesLike): CrocUserCmd {
+    checkAddr(recv, "recv")
+    checkAddr(token, "token")
+    checkUint(value, 128, "value")
+    checkUint(deadline, 256, "deadline")
+    checkUint(v, 8, "v")
+    return coldCmd(["uint8", "address", "uint128", "address", "uint256", "uint8", "bytes32", "bytes32"],
+        [DEPOSIT_PERMIT_CODE, recv, value, token, deadline, v, r, s])
+}
+
+// Negative values are interpreted by the dex as the amount to leave behind in the
+// surplus balance, rather than the amount to move.
+export function disburseSurplusCmd (recv: string, value: BigNumberish, token: string): CrocUserCmd {
+    checkAddr(recv, "recv")
+    checkAddr(token, "token")
+    checkInt(value, 128, "value")
+    return coldCmd(["uint8", "address", "int128", "address"],
+        [DISBURSE_SURPLUS_CODE, recv, value, token])
+}
+
+export function transferSurplusCmd (recv: string, value: BigNumberish, token: string): CrocUserCmd {
+    checkAddr(recv, "recv")
+    checkAddr(token, "token")
+    checkInt(value, 128, "value")
+    return coldCmd(["uint8", "address", "int128", "address"],
+        [TRANSFER_SURPLUS_CODE, recv, value, token])
+}
+
+export function sidePocketCmd (fromSalt: BigNumberish, toSalt: BigNumberish, value: BigNumberish,
+    token: string): CrocUserCmd {
+    checkUint(fromSalt, 256, "fromSalt")
+    checkUint(toSalt, 256, "toSalt")
+    checkInt(value, 128, "value")
+    checkAddr(token, "token")
+    return coldCmd(["uint8", "uint256", "uint256", "int128", "address"],
+        [SIDE_POCKET_CODE, fromSalt, toSalt, value, token])
+}
+
+export function resetNonceCmd (salt: BytesLike, nonce: number): CrocUserCmd {
+    checkBytes32(salt, "salt")
+    checkUint(nonce, 32, "nonce")
+    return coldCmd(["uint8", "bytes32", "uint32"], [RESET_NONCE_CODE, salt, nonce])
+}
+
+export function resetNonceCondCmd (salt: BytesLike, nonce: number, oracle: string,
+    args: BytesLike): CrocUserCmd {
+    checkBytes32(salt, "salt")
+    checkUint(nonce, 32, "nonce")
+    checkAddr(oracle, "oracle")
+    return coldCmd(["uint8", "bytes32", "uint32", "address", "bytes"],
+        [RESET_NONCE_COND_CODE, salt, nonce, oracle, args])
+}
+
+export function gateOracleCmd (oracle: string, args: BytesLike): CrocUserCmd {
+    checkAddr(oracle, "oracle")
+    return coldCmd(["uint8", "address", "bytes"], [GATE_ORACLE_COND_CODE, oracle, args])
+}
+
+function coldCmd (types: string[], vals: any[]): CrocUserCmd {
+    return { callpath: COLD_PROXY_IDX, cmd: new AbiCoder().encode(types, vals) }
+}
+
+
+//////////////////////////////////////////////////////////////////////////////
+// Protocol commands
+//////////////////////////////////////////////////////////////////////////////
+
+export function authTransferCmd (auth: string): CrocProtocolCmd {
+    checkAddr(auth, "authority")
+    return sudoCmd(["uint8", "address"], [AUTHORITY_TRANSFER_CODE, auth])
+}
+
+export function upgradeProxyCmd (proxy: string, proxyIdx: number): CrocProtocolCmd {
+    checkAddr(proxy, "proxy")
+    checkUint(proxyIdx, 16, "proxyIdx")
+    if (proxyIdx === BOOT_PROXY_IDX) {
+        throw new Error("Cannot overwrite boot path")
+    }
+    return { callpath: BOOT_PROXY_IDX, sudo: true, protocolCmd: new AbiCoder().encode(
+        ["uint8", "address", "uint16"], [UPGRADE_DEX_CODE, proxy, proxyIdx]) }
+}
+
+export function hotOpenCmd (open: boolean): CrocProtocolCmd {
+    return sudoCmd(["uint8", "bool"], [HOT_OPEN_CODE, open])
+}
+
+// Once in safe mode the cold path is disabled, so exiting must route through the
+// safe mode callpath.
+export function safeModeCmd (inSafeMode: boolean): CrocProtocolCmd {
+    const cmd = sudoCmd(["uint8", "bool"], [SAFE_MODE_CODE, inSafeMode])
+    return inSafeMode ? cmd : { ...cmd, callpath: SAFE_MODE_PROXY_PATH }
+}
+
+export function collectTreasuryCmd (token: string): CrocProtocolCmd {
+    checkAddr(token, "token")
+    return sudoCmd(["uint8", "address"], [COLLECT_TREASURY_CODE, token])
+}
+
+export function setTreasuryCmd (treasury: string): CrocProtocolCmd {
+    checkAddr(treasury, "treasury")
+    if (treasury === ethers.constants.AddressZero) {
+        throw new Error("Treasury cannot be zero address")
+    }
+    return sudoCmd(["uint8", "address"], [SET_TREASURY_CODE, treasury])
+}
+
+export function disableTemplateCmd (poolIdx: BigNumberish): CrocProtocolCmd {
+    checkUint(poolIdx, 256, "poolIdx")
+    return policyCmd(["uint8", "uint256"], [DISABLE_TEMPLATE_CODE, poolIdx])
+}
+
+export function poolTemplateCmd (args: TemplateArgs): CrocProtocolCmd {
+    checkUint(args.poolIdx, 256, "poolIdx")
+    checkPoolSpecs(args)
+    checkUint(args.oracleFlags || 0, 8, "oracleFlags")
+    return policyCmd(["uint8", "uint256", "uint16", "uint16", "uint8", "uint8", "uint8"],
+        [POOL_TEMPLATE_CODE, args.poolIdx, args.feeRate, args.tickSize, args.jitThresh,
+            args.knockoutBits, args.oracleFlags || 0])
+}
+
+export function poolReviseCmd (args: ReviseArgs): CrocProtocolCmd {
+    checkPair(args)
+    checkPoolSpecs(args)
+    return policyCmd(["uint8", "address", "address", "uint256", "uint16", "uint16", "uint8", "uint8"],
+        [POOL_REVISE_CODE, args.base, args.quote, args.poolIdx, args.feeRate, args.tickSize,
+            args.jitThresh, args.knockoutBits])
+}
+
+export function initPoolLiqCmd (liq: BigNumberish): CrocProtocolCmd {
+    checkUint(liq, 128, "initLiq")
+    const MAX_INIT_POOL_LIQ = 10000000
+    if (BigNumber.from(liq).eq(0) || BigNumber.from(liq).gte(MAX_INIT_POOL_LIQ)) {
+        throw new Error(`Init pool liquidity ${liq.toString()} must be in (0, ${MAX_INIT_POOL_LIQ})`)
+    }
+    return policyCmd(["uint8", "uint128"], [INIT_POOL_LIQ_CODE, liq])
+}
+
+export function offGridCmd (token: string, unitTickCollateral: BigNumberish,
+    awayTickTol: number): CrocProtocolCmd {
+    checkAddr(token, "token")
+    checkUint(unitTickCollateral, 128, "unitTickCollateral")
+    checkUint(awayTickTol, 16, "awayTickTol")
+    return policyCmd(["uint8", "address", "uint128", "uint16"],
+        [OFF_GRID_CODE, token, unitTickCollateral, awayTickTol])
+}
+
+// Take rates are in units of 1/256 of the fee rate. See PoolRegistry.sol
+export function setTakeRateCmd (takeRate: number): CrocProtocolCmd {
+    checkTakeRate(takeRate)
+    return policyCmd(["uint8", "uint8"], [SET_TAKE_CODE, takeRate])
+}
+
+export function resyncTakeRateCmd (pair: PairArgs): CrocProtocolCmd {
+    checkPair(pair)
+    return policyCmd(["uint8", "address", "address", "uint256"],
+        [RESYNC_TAKE_CODE, pair.base, pair.quote, pair.poolIdx])
+}
+
+export function relayerTakeRateCmd (takeRate: number): CrocProtocolCmd {
+    checkTakeRate(takeRate)
+    return policyCmd(["uint8", "uint8"], [RELAYER_TAKE_CODE, takeRate])
+}
+
+function sudoCmd (types: string[], vals: any[]): CrocProtocolCmd {
+    return { callpath: COLD_PROXY_IDX, sudo: true, protocolCmd: new AbiCoder().encode(types, vals) }
+}
+
+function policyCmd (types: string[], vals: any[]): CrocProtocolCmd {
+    return { callpath: COLD_PROXY_IDX, sudo: false, protocolCmd: new AbiCoder().encode(types, vals) }
+}
+
+
+//////////////////////////////////////////////////////////////////////////////
+// Argument range checks
+//////////////////////////////////////////////////////////////////////////////
+
+function checkPoolSpecs (args: { feeRate: number, tickSize: number, jitThresh: number,
+    knockoutBits: number }) {
+    checkUint(args.feeRate, 16, "feeRate")
+    checkUint(args.tickSize, 16, "tickSize")
+    checkUint(args.jitThresh, 8, "jitThresh")
+    checkUint(args.knockoutBits, 8, "knockoutBits")
+}
+
+function checkTakeRate (takeRate: number) {
+    checkUint(takeRate, 8, "takeRate")
+    const MAX_TAKE_RATE = 128
+    if (takeRate > MAX_TAKE_RATE) {
+        throw new Error(`Take rate ${takeRate} exceeds maximum of ${MAX_TAKE_RATE}`)
+    }
+}
+
+function checkPair (pair: PairArgs) {
+    checkAddr(pair.base, "base")
+    checkAddr(pair.quote, "quote")
+    checkUint(pair.poolIdx, 256, "poolIdx")
+    if (BigNumber.from(pair.base).gte(BigNumber.from(pair.quote))) {
+        throw new Error(`Base token ${pair.base} must sort before quote token ${pair.quote}`)
+    }
+}
+
+function checkTickRange (lowTick: number, highTick: number) {
+    checkTick(lowTick, "lowTick")
+    checkTick(highTick, "highTick")
+    if (lowTick >= highTick) {
+        throw new Error(`Range lower tick ${lowTick} must be below upper tick ${highTick}`)
+    }
+}
+
+function checkTick (tick: number, label: string) {
+    if (!Number.isInteger(tick) || tick < MIN_TICK || tick > MAX_TICK) {
+        throw new Error(`${label} ${tick} outside of tick range [${MIN_TICK}, ${MAX_TICK}]`)
+    }
+}
+
+function checkUint (val: BigNumberish, bits: number, label: string) {
+    const num = BigNumber.from(val)
+    if (num.lt(0) || num.gte(BigNumber.from(2).pow(bits))) {
+        throw new Error(`${label} ${num.toString()} out of range for uint${bits}`)
+    }
+}
+
+function checkInt (val: BigNumberish, bits: number, label: string) {
+    const num = BigNumber.from(val)
+    const bound = BigNumber.from(2).pow(bits - 1)
+    if (num.lt(bound.mul(-1)) || num.gte(bound)) {
+        throw new Error(`${label} ${num.toString()} out of range for int${bits}`)
+    }
+}
+
+function checkAddr (addr: string, label: string) {
+    if (!ethers.utils.isAddress(addr)) {
+        throw new Error(`${label} ${addr} is not a valid address`)
+    }
+}
+
+function checkBytes32 (val: BytesLike, label: string) {
+    if (!ethers.utils.isHexString(val, 32) && !(typeof val !== "string" && val.length === 32)) {
+        throw new Error(`${label} must be exactly 32 bytes`)
+    }
+}
+
+function optAddr (addr: string | undefined, label: string): string {
+    if (!addr) {
+        return ethers.constants.AddressZero
+    }
+    checkAddr(addr, label)
+    return addr
+}
+
+function reserveFlags (flags: number | undefined): number {
+    const val = flags || 0
+    checkUint(val, 8, "reserveFlags")
+    return val
+}
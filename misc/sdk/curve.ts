@@ -0,0 +1,464 @@
+import { BigNumber } from "ethers";
+import { MAX_SQRT_RATIO, MIN_SQRT_RATIO } from "./commands";
+
+/* TypeScript ports of the fixed-point libraries that govern the constant-product curve:
+ * FixedPoint.sol, CompoundMath.sol, LiquidityMath.sol, CurveMath.sol, CurveAssimilate.sol
+ * and CurveRoll.sol. Each function mirrors the Solidity function of the same name,
+ * including every rounding step, so results agree with the contracts to the wei.
+ *
+ * Where the Solidity reverts, the port throws. If the contract uses a reason string
+ * (e.g. "IF" or "BD") the thrown Error's message is that same string. Like the Solidity
+ * memory structs, CurveState objects passed in are updated in place. */
+
+/* @notice Mirrors CurveMath.CurveState. See CurveMath.sol for the field semantics. */
+export interface CurveState {
+    priceRoot: BigNumber
+    ambientSeeds: BigNumber
+    concLiq: BigNumber
+    seedDeflator: BigNumber
+    concGrowth: BigNumber
+}
+
+export function copyCurve (curve: CurveState): CurveState {
+    return { ...curve }
+}
+
+export const Q48 = BigNumber.from(2).pow(48)
+export const Q64 = BigNumber.from(2).pow(64)
+export const Q128 = BigNumber.from(2).pow(128)
+
+const Q256 = BigNumber.from(2).pow(256)
+const U64_MAX = BigNumber.from(2).pow(64).sub(1)
+const U96_MAX = BigNumber.from(2).pow(96).sub(1)
+const U128_MAX = Q128.sub(1)
+const U208_MAX = BigNumber.from(2).pow(208).sub(1)
+const INT128_BOUND = BigNumber.from(2).pow(127)
+
+//////////////////////////////////////////////////////////////////////////
+// SafeCast.sol
+//////////////////////////////////////////////////////////////////////////
+
+export function toUint128 (y: BigNumber): BigNumber {
+    solRequire(y.gte(0) && y.lte(U128_MAX), "SafeCast: uint128 overflow")
+    return y
+}
+
+export function toInt128Sign (y: BigNumber): BigNumber {
+    solRequire(y.lt(INT128_BOUND), "SafeCast: int128 overflow")
+    return y
+}
+
+//////////////////////////////////////////////////////////////////////////
+// FixedPoint.sol
+//////////////////////////////////////////////////////////////////////////
+
+/* @notice Multiplies two Q64.64 numbers by each other. */
+export function mulQ64 (x: BigNumber, y: BigNumber): BigNumber {
+    return x.mul(y).shr(64)
+}
+
+/* @notice Divides one Q64.64 number by another. */
+export function divQ64 (x: BigNumber, y: BigNumber): BigNumber {
+    return x.shl(64).div(y)
+}
+
+/* @notice Multiplies a Q64.64 by a Q16.48. */
+export function mulQ48 (x: BigNumber, y: BigNumber): BigNumber {
+    return x.mul(y).shr(48)
+}
+
+/* @notice Takes the reciprocal of a Q64.64 number. */
+export function recipQ64 (x: BigNumber): BigNumber {
+    const div = Q128.div(x)
+    solRequire(div.lte(U128_MAX), "FixedPoint: reciprocal overflow")
+    return div
+}
+
+//////////////////////////////////////////////////////////////////////////
+// CompoundMath.sol
+//////////////////////////////////////////////////////////////////////////
+
+export function approxSqrtCompound (x: BigNumber): BigNumber {
+    solRequire(x.lt(Q48), "CompoundMath: sqrt compound range")
+    const xSq = x.mul(x).shr(48)
+    const linear = x.shr(1)
+    const quad = xSq.shr(3)
+    return linear.sub(quad)
+}
+
+export function compoundStack (x: BigNumber, y: BigNumber): BigNumber {
+    const num = Q48.add(x).mul(Q48.add(y))
+    const z = num.shr(48).sub(Q48)
+    return z.gte(U64_MAX) ? U64_MAX : z
+}
+
+export function compoundShrink (val: BigNumber, deflator: BigNumber): BigNumber {
+    return val.shl(48).div(Q48.add(deflator))
+}
+
+export function compoundDivide (inflated: BigNumber, seed: BigNumber): BigNumber {
+    solRequire(inflated.lt(U208_MAX) && inflated.gte(seed), "CompoundMath: divide range")
+    const z = inflated.shl(48).div(seed).sub(Q48)
+    return z.gte(Q48) ? Q48 : z
+}
+
+export function compoundPrice (price: BigNumber, growth: BigNumber, shiftUp: boolean):
+    BigNumber {
+    const multFactor = Q48.add(growth)
+    if (shiftUp) {
+        const z = price.mul(multFactor).shr(48)
+        return toUint128(z.add(1))
+    } else {
+        return price.shl(48).div(multFactor)
+    }
+}
+
+export function inflateLiqSeed (seed: BigNumber, growth: BigNumber): BigNumber {
+    const inflated = seed.mul(Q48.add(growth)).shr(48)
+    return inflated.gt(U128_MAX) ? U128_MAX : inflated
+}
+
+export function deflateLiqSeed (liq: BigNumber, growth: BigNumber): BigNumber {
+    return liq.shl(48).div(Q48.add(growth))
+}
+
+//////////////////////////////////////////////////////////////////////////
+// LiquidityMath.sol
+//////////////////////////////////////////////////////////////////////////
+
+export const LOT_SIZE_BITS = 10
+export const LOT_ACTIVE_BITS = 11
+export const KNOCKOUT_FLAG_MASK = 1
+
+export function addLiq (x: BigNumber, y: BigNumber): BigNumber {
+    const z = x.add(y)
+    solRequire(z.lte(U128_MAX), "LiquidityMath: overflow")
+    return z
+}
+
+export function addDelta (x: BigNumber, y: BigNumber): BigNumber {
+    const z = x.add(y)
+    solRequire(z.gte(0) && z.lte(U128_MAX) && (y.gte(0) || z.lt(x)), "LiquidityMath: delta overflow")
+    return z
+}
+
+export function liquidityToLots (liq: BigNumber): BigNumber {
+    const lots = liq.shr(LOT_SIZE_BITS)
+    const liqTrunc = lots.shl(LOT_SIZE_BITS)
+    const hasEmptyMask = lots.and(KNOCKOUT_FLAG_MASK).isZero()
+    solRequire(hasEmptyMask && liqTrunc.eq(liq) && lots.lt(U96_MAX), "FD")
+    return lots
+}
+
+export function shaveRoundLots (liq: BigNumber): BigNumber {
+    return liq.shr(LOT_ACTIVE_BITS).shl(LOT_ACTIVE_BITS)
+}
+
+export function shaveRoundLotsUp (liq: BigNumber): BigNumber {
+    solRequire(!liq.shr(LOT_ACTIVE_BITS).eq(U128_MAX.shr(LOT_ACTIVE_BITS)), "overflow")
+    return liq.shr(LOT_ACTIVE_BITS).add(1).shl(LOT_ACTIVE_BITS)
+}
+
+export function lotsToLiquidity (lots: BigNumber): BigNumber {
+    const realLots = lots.sub(lots.and(KNOCKOUT_FLAG_MASK))
+    return realLots.shl(LOT_SIZE_BITS)
+}
+
+export function netLotsOnLiquidity (incrLots: BigNumber, decrLots: BigNumber): BigNumber {
+    return lotsToLiquidity(incrLots).sub(lotsToLiquidity(decrLots))
+}
+
+//////////////////////////////////////////////////////////////////////////
+// CurveMath.sol
+//////////////////////////////////////////////////////////////////////////
+
+export function activeLiquidity (curve: CurveState): BigNumber {
+    const ambient = inflateLiqSeed(curve.ambientSeeds, curve.seedDeflator)
+    return addLiq(ambient, curve.concLiq)
+}
+
+export function calcLimitCounter (curve: CurveState, swapQty: BigNumber, inBaseQty: boolean,
+    limitPrice: BigNumber): BigNumber {
+    const isBuy = limitPrice.gt(curve.priceRoot)
+    const denomFlow = calcLimitFlows(curve, swapQty, inBaseQty, limitPrice)
+    return invertFlow(activeLiquidity(curve), curve.priceRoot, denomFlow, isBuy, inBaseQty)
+}
+
+export function calcLimitFlows (curve: CurveState, swapQty: BigNumber, inBaseQty: boolean,
+    limitPrice: BigNumber): BigNumber {
+    const liq = activeLiquidity(curve)
+    const limitFlow = inBaseQty ?
+        deltaBase(liq, curve.priceRoot, limitPrice) :
+        deltaQuote(liq, curve.priceRoot, limitPrice)
+    return limitFlow.gt(swapQty) ? swapQty : limitFlow
+}
+
+export function deltaBase (liq: BigNumber, priceX: BigNumber, priceY: BigNumber): BigNumber {
+    const priceDelta = priceX.gt(priceY) ? priceX.sub(priceY) : priceY.sub(priceX)
+    return reserveAtPrice(liq, priceDelta, true)
+}
+
+export function deltaQuote (liq: BigNumber, price: BigNumber, limitPrice: BigNumber): BigNumber {
+    return limitPrice.gt(price) ?
+        calcQuoteDelta(liq, limitPrice, price) :
+        calcQuoteDelta(liq, price, limitPrice)
+}
+
+function calcQuoteDelta (liq: BigNumber, priceBig: BigNumber, priceSmall: BigNumber): BigNumber {
+    const priceDelta = priceBig.sub(priceSmall)
+    const termOne = divQ64(liq, priceSmall)
+    const product = termOne.mul(priceDelta)
+    solRequire(product.lt(Q256), "CurveMath: quote delta overflow")
+    const termTwo = product.div(priceBig)
+    return toUint128(termTwo)
+}
+
+/* @notice Mirrors both overloads of liquiditySupported(). With a single price, sizes
+ *         ambient liquidity. With two prices, sizes concentrated liquidity between them. */
+export function liquiditySupported (collateral: BigNumber, inBase: boolean, priceX: BigNumber,
+    priceY?: BigNumber): BigNumber {
+    if (priceY === undefined) {
+        return toUint128(inBase ? divQ64(collateral, priceX) : mulQ64(collateral, priceX))
+    }
+    if (!inBase) {
+        return liquiditySupported(collateral, true, recipQ64(priceX), recipQ64(priceY))
+    }
+    const priceDelta = priceX.gt(priceY) ? priceX.sub(priceY) : priceY.sub(priceX)
+    return liquiditySupported(collateral, true, priceDelta)
+}
+
+export function reserveAtPrice (liq: BigNumber, price: BigNumber, inBaseQty: boolean): BigNumber {
+    return toUint128(inBaseQty ? mulQ64(liq, price) : divQ64(liq, price))
+}
+
+function invertFlow (liq: BigNumber, price: BigNumber, denomFlow: BigNumber,
+    isBuy: boolean, inBaseQty: boolean): BigNumber {
+    if (liq.isZero()) { return BigNumber.from(0) }
+
+    const invertReserve = reserveAtPrice(liq, price, !inBaseQty)
+    const initReserve = reserveAtPrice(liq, price, inBaseQty)
+
+    // Subtraction is unchecked in Solidity, so replicate the uint256 wrap around
+    const endReserve = (isBuy === inBaseQty) ?
+        initReserve.add(denomFlow) :
+        initReserve.sub(denomFlow).add(Q256).mod(Q256)
+    if (endReserve.isZero()) { return U128_MAX }
+
+    const endInvert = liq.mul(liq).div(endReserve)
+    return toUint128(endInvert.gt(invertReserve) ?
+        endInvert.sub(invertReserve) :
+        invertReserve.sub(endInvert))
+}
+
+export function priceToTokenPrecision (liq: BigNumber, price: BigNumber, inBase: boolean):
+    BigNumber {
+    if (inBase) {
+        return liq.shr(64).add(1)
+    } else {
+        const step = divQ64(liq, price.sub(1))
+        const start = divQ64(liq, price)
+        return toUint128(step.sub(start).add(1))
+    }
+}
+
+//////////////////////////////////////////////////////////////////////////
+// CurveAssimilate.sol
+//////////////////////////////////////////////////////////////////////////
+
+export function assimilateLiq (curve: CurveState, feesPaid: BigNumber, isSwapInBase: boolean) {
+    const liq = activeLiquidity(curve)
+    if (liq.isZero()) { return }
+
+    const feesInBase = !isSwapInBase
+    const feesToLiq = shaveForPrecision(liq, curve.priceRoot, feesPaid, feesInBase)
+    const inflator = calcLiqInflator(liq, curve.priceRoot, feesToLiq, feesInBase)
+    if (inflator.gt(0)) {
+        stepToLiquidity(curve, inflator, feesInBase)
+    }
+}
+
+function calcLiqInflator (liq: BigNumber, price: BigNumber, feesPaid: BigNumber,
+    inBaseQty: boolean): BigNumber {
+    const reserve = reserveAtPrice(liq, price, inBaseQty)
+    return calcReserveInflator(reserve, feesPaid)
+}
+
+function calcReserveInflator (reserve: BigNumber, feesPaid: BigNumber): BigNumber {
+    if (reserve.isZero() || feesPaid.gt(reserve)) { return BigNumber.from(0) }
+    const nextReserve = reserve.add(feesPaid)
+    const inflatorRoot = compoundDivide(nextReserve, reserve)
+    const inflator = approxSqrtCompound(inflatorRoot)
+    solRequire(inflator.lt(Q48), "IF")
+    return inflator
+}
+
+function shaveForPrecision (liq: BigNumber, price: BigNumber, feesPaid: BigNumber,
+    isFeesInBase: boolean): BigNumber {
+    const MAX_LIQ_EXPANSION = 2
+    const bufferTokens = priceToTokenPrecision(liq, price, isFeesInBase).mul(MAX_LIQ_EXPANSION)
+    return feesPaid.lte(bufferTokens) ? BigNumber.from(0) : feesPaid.sub(bufferTokens)
+}
+
+function stepToLiquidity (curve: CurveState, inflator: BigNumber, feesInBase: boolean) {
+    curve.priceRoot = compoundPrice(curve.priceRoot, inflator, feesInBase)
+    curve.seedDeflator = compoundStack(curve.seedDeflator, inflator)
+
+    const concRewards = compoundShrink(inflator, curve.seedDeflator)
+    const newAmbientSeeds = toUint128(mulQ48(curve.concLiq, concRewards))
+
+    curve.concGrowth = curve.concGrowth.add(roundDownConcRewards(concRewards, newAmbientSeeds))
+    curve.ambientSeeds = toUint128(curve.ambientSeeds.add(newAmbientSeeds))
+    solRequire(curve.concGrowth.lte(U64_MAX), "CurveAssimilate: growth overflow")
+}
+
+function roundDownConcRewards (concInflator: BigNumber, newAmbientSeeds: BigNumber): BigNumber {
+    if (newAmbientSeeds.isZero()) { return BigNumber.from(0) }
+    return concInflator.mul(newAmbientSeeds).div(newAmbientSeeds.add(1))
+}
+
+//////////////////////////////////////////////////////////////////////////
+// CurveRoll.sol
+//////////////////////////////////////////////////////////////////////////
+
+/* @notice Signed flows and remaining swap quantity produced by a roll on the curve. */
+export interface RollResult {
+    paidBase: BigNumber
+    paidQuote: BigNumber
+    qtyLeft: BigNumber
+}
+
+export function rollFlow (curve: CurveState, flow: BigNumber, inBaseQty: boolean, isBuy: boolean,
+    swapQty: BigNumber): RollResult {
+    const [counterFlow, nextPrice] = deriveImpact(curve, flow, inBaseQty, isBuy)
+    const [paidFlow, paidCounter] = signFlow(flow, counterFlow, inBaseQty, isBuy)
+    return setCurvePos(curve, inBaseQty, isBuy, swapQty, nextPrice, paidFlow, paidCounter)
+}
+
+export function rollPrice (curve: CurveState, price: BigNumber, inBaseQty: boolean, isBuy: boolean,
+    swapQty: BigNumber): RollResult {
+    const [flow, counterFlow] = deriveDemand(curve, price, inBaseQty)
+    const [paidFlow, paidCounter] = signFixed(flow, counterFlow, inBaseQty, isBuy)
+    return setCurvePos(curve, inBaseQty, isBuy, swapQty, price, paidFlow, paidCounter)
+}
+
+/* @notice Returns the shave flows, with qtyLeft holding the amount burned from the swap
+ *         quantity rather than the remaining quantity. */
+export function shaveAtBump (curve: CurveState, inBaseQty: boolean, isBuy: boolean,
+    swapLeft: BigNumber): RollResult {
+    const burnDown = priceToTokenPrecision(activeLiquidity(curve), curve.priceRoot, inBaseQty)
+    solRequire(swapLeft.gt(burnDown), "BD")
+
+    const zero = BigNumber.from(0)
+    if (isBuy) {
+        if (curve.priceRoot.lt(MAX_SQRT_RATIO.sub(1))) {
+            curve.priceRoot = curve.priceRoot.add(1)
+        }
+        return { paidBase: toInt128Sign(burnDown), paidQuote: zero,
+            qtyLeft: inBaseQty ? burnDown : zero }
+    } else {
+        if (curve.priceRoot.gt(MIN_SQRT_RATIO)) {
+            curve.priceRoot = curve.priceRoot.sub(1)
+        }
+        return { paidBase: zero, paidQuote: toInt128Sign(burnDown),
+            qtyLeft: inBaseQty ? zero : burnDown }
+    }
+}
+
+function setCurvePos (curve: CurveState, inBaseQty: boolean, isBuy: boolean, swapQty: BigNumber,
+    price: BigNumber, paidFlow: BigNumber, paidCounter: BigNumber): RollResult {
+    const spent = flowToSpent(paidFlow, inBaseQty, isBuy)
+    const qtyLeft = spent.gte(swapQty) ? BigNumber.from(0) : swapQty.sub(spent)
+    curve.priceRoot = price
+    return {
+        paidBase: inBaseQty ? paidFlow : paidCounter,
+        paidQuote: inBaseQty ? paidCounter : paidFlow,
+        qtyLeft
+    }
+}
+
+function flowToSpent (paidFlow: BigNumber, inBaseQty: boolean, isBuy: boolean): BigNumber {
+    const spent = (inBaseQty === isBuy) ? paidFlow : paidFlow.mul(-1)
+    return spent.lt(0) ? BigNumber.from(0) : spent
+}
+
+function deriveDemand (curve: CurveState, price: BigNumber, inBaseQty: boolean):
+    [BigNumber, BigNumber] {
+    const liq = activeLiquidity(curve)
+    const baseFlow = deltaBase(liq, curve.priceRoot, price)
+    const quoteFlow = deltaQuote(liq, curve.priceRoot, price)
+    return inBaseQty ? [baseFlow, quoteFlow] : [quoteFlow, baseFlow]
+}
+
+function deriveImpact (curve: CurveState, flow: BigNumber, inBaseQty: boolean, isBuy: boolean):
+    [BigNumber, BigNumber] {
+    const liq = activeLiquidity(curve)
+    const nextPrice = deriveFlowPrice(curve.priceRoot, liq, flow, inBaseQty, isBuy)
+    const counterFlow = !inBaseQty ?
+        deltaBase(liq, curve.priceRoot, nextPrice) :
+        deltaQuote(liq, curve.priceRoot, nextPrice)
+    return [counterFlow, nextPrice]
+}
+
+function deriveFlowPrice (price: BigNumber, liq: BigNumber, flow: BigNumber, inBaseQty: boolean,
+    isBuy: boolean): BigNumber {
+    const curvePrice = inBaseQty ?
+        calcBaseFlowPrice(price, liq, flow, isBuy) :
+        calcQuoteFlowPrice(price, liq, flow, isBuy)
+    if (curvePrice.gte(MAX_SQRT_RATIO)) { return MAX_SQRT_RATIO.sub(1) }
+    if (curvePrice.lt(MIN_SQRT_RATIO)) { return MIN_SQRT_RATIO }
+    return curvePrice
+}
+
+function calcBaseFlowPrice (price: BigNumber, liq: BigNumber, flow: BigNumber, isBuy: boolean):
+    BigNumber {
+    if (liq.isZero()) { return U128_MAX }
+    const deltaCalc = divQ64(flow, liq)
+    if (deltaCalc.gt(U128_MAX)) { return U128_MAX }
+    const priceDelta = deltaCalc
+
+    if (isBuy) {
+        // Checked addition in Solidity
+        return toUint128(price.add(priceDelta))
+    } else {
+        if (priceDelta.gte(price)) { return BigNumber.from(0) }
+        return price.sub(priceDelta.add(1))
+    }
+}
+
+function calcQuoteFlowPrice (price: BigNumber, liq: BigNumber, flow: BigNumber, isBuy: boolean):
+    BigNumber {
+    const invPrice = recipQ64(price)
+    const invNext = calcBaseFlowPrice(invPrice, liq, flow, !isBuy)
+    if (invNext.isZero()) { return MAX_SQRT_RATIO }
+    return toUint128(recipQ64(invNext).add(1))
+}
+
+// Max round precision loss on token flow is 2 wei, see CurveRoll.sol
+const ROUND_PRECISION_WEI = 4
+
+function signFlow (flowMagn: BigNumber, counterMagn: BigNumber, inBaseQty: boolean,
+    isBuy: boolean): [BigNumber, BigNumber] {
+    const [flow, counter] = signMagn(flowMagn, counterMagn, inBaseQty, isBuy)
+    return [flow, counter.add(ROUND_PRECISION_WEI)]
+}
+
+function signFixed (flowMagn: BigNumber, counterMagn: BigNumber, inBaseQty: boolean,
+    isBuy: boolean): [BigNumber, BigNumber] {
+    const [flow, counter] = signMagn(flowMagn, counterMagn, inBaseQty, isBuy)
+    return [flow.add(ROUND_PRECISION_WEI), counter.add(ROUND_PRECISION_WEI)]
+}
+
+function signMagn (flowMagn: BigNumber, counterMagn: BigNumber, inBaseQty: boolean,
+    isBuy: boolean): [BigNumber, BigNumber] {
+    const flow = toInt128Sign(flowMagn)
+    const counter = toInt128Sign(counterMagn)
+    return (inBaseQty === isBuy) ?
+        [flow, counter.mul(-1)] :
+        [flow.mul(-1), counter]
+}
+
+function solRequire (cond: boolean, reason: string) {
+    if (!cond) {
+        throw new Error(reason)
+    }
+}
@@ -0,0 +1,66 @@
+import { ethers } from "ethers";
+import { Log } from "@ethersproject/providers";
+
+/* Human readable ABI for every event in contracts/CrocEvents.sol. The dex and all of its
+ * proxy sidecars emit these through delegatecall, so every log appears under the
+ * CrocSwapDex address. Keep in sync with CrocEvents.sol; the event test checks the
+ * topics against the compiled artifact. */
+export const CROC_EVENTS_ABI = [
+    "event Deployed()",
+    "event Swap(address indexed user, address indexed base, address indexed quote, uint256 poolIdx, bool isBuy, bool inBaseQty, uint128 qty, uint128 minOutput, int128 baseFlow, int128 quoteFlow)",
+    "event MintRanged(address indexed user, address indexed base, address indexed quote, uint256 poolIdx, uint128 liq, int24 bidTick, int24 askTick, int128 baseFlow, int128 quoteFlow)",
+    "event BurnRanged(address indexed user, address indexed base, address indexed quote, uint256 poolIdx, uint128 liq, int24 bidTick, int24 askTick, int128 baseFlow, int128 quoteFlow, uint128 rewardFees)",
+    "event Harvest(address indexed user, address indexed base, address indexed quote, uint256 poolIdx, int24 bidTick, int24 askTick, int128 baseFlow, int128 quoteFlow, uint128 rewardFees)",
+    "event MintAmbient(address indexed user, address indexed base, address indexed quote, uint256 poolIdx, uint128 liq, int128 baseFlow, int128 quoteFlow)",
+    "event BurnAmbient(address indexed user, address indexed base, address indexed quote, uint256 poolIdx, uint128 liq, int128 baseFlow, int128 quoteFlow)",
+    "event MintKnockout(address indexed user, address indexed base, address indexed quote, uint256 poolIdx, uint128 liq, int128 baseFlow, int128 quoteFlow, bool isBid, int24 lowerTick, int24 upperTick)",
+    "event BurnKnockout(address indexed user, address indexed base, address indexed quote, uint256 poolIdx, uint128 liq, int128 baseFlow, int128 quoteFlow, bool isBid, int24 lowerTick, int24 upperTick, uint128 rewardFees)",
+    "event WithdrawKnockout(address indexed user, address indexed base, address indexed quote, uint256 poolIdx, uint128 liq, int128 baseFlow, int128 quoteFlow, bool isBid, int24 lowerTick, int24 upperTick, uint128 rewardFees)",
+    "event Surplus(address indexed from, address indexed to, address indexed token, int128 delta, uint128 fromSurplus, uint128 toSurplus)",
+    "event AuthorityTransfer(address indexed authority)",
+    "event SetNewPoolLiq(uint128 liq)",
+    "event SetTakeRate(uint8 takeRate)",
+    "event SetRelayerTakeRate(uint8 takeRate)",
+    "event DisablePoolTemplate(uint256 indexed poolIdx)",
+    "event SetPoolTemplate(uint256 indexed poolIdx, uint16 feeRate, uint16 tickSize, uint8 jitThresh, uint8 knockout, uint8 oracleFlags)",
+    "event InitPool(address indexed base, address indexed quote, uint256 indexed poolIdx, uint128 price, address user, uint128 liq, int128 baseFlow, int128 quoteFlow)",
+    "event ResyncTakeRate(address indexed base, address indexed quote, uint256 indexed poolIdx, uint8 takeRate)",
+    "event PoolRevision(address indexed base, address indexed quote, uint256 indexed poolIdx, uint16 feeRate, uint16 tickSize, uint8 jitThresh, uint8 knockout)",
+    "event PriceImproveThresh(address indexed token, uint128 unitTickCollateral, uint16 awayTickTol)",
+    "event TreasurySet(address indexed treasury, uint64 indexed startTime)",
+    "event ProtocolDividend(address indexed token, address indexed recv)",
+    "event UpgradeProxy(address indexed proxy, uint16 proxyIdx)",
+    "event HotPathOpen(bool)",
+    "event SafeMode(bool)"
+]
+
+export const CROC_EVENTS_IFACE = new ethers.utils.Interface(CROC_EVENTS_ABI)
+
+/* @notice A CrocEvents log decoded with its position in the chain. */
+export interface CrocEventLog {
+    name: string
+    args: ethers.utils.Result
+    blockNumber: number
+    blockHash: string
+    transactionHash: string
+    logIndex: number
+}
+
+/* @notice Decodes a raw log emitted by the dex. Returns undefined for logs that aren't
+ *         CrocEvents (e.g. ERC20 transfers surfaced by a broad log filter). */
+export function decodeCrocLog (log: Log): CrocEventLog | undefined {
+    let parsed: ethers.utils.LogDescription
+    try {
+        parsed = CROC_EVENTS_IFACE.parseLog(log)
+    } catch {
+        return undefined
+    }
+    return {
+        name: parsed.name,
+        args: parsed.args,
+        blockNumber: log.blockNumber,
+        blockHash: log.blockHash,
+        transactionHash: log.transactionHash,
+        logIndex: log.logIndex
+    }
+}
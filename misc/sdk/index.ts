@@ -0,0 +1,16 @@
+export * from "./commands"
+export * from "./order"
+export * from "./orderBuilder"
+export * from "./tickMath"
+export * from "./curve"
+export * from "./swapSimulator"
+export * from "./liquidity"
+export * from "./events"
+export * from "./indexer"
+export * from "./protocolDecoder"
+export * from "./knockoutProof"
+export * from "./relayer"
+export * from "./relayerMempool"
+export * from "./storageSlots"
+export * from "./userCmdDecoder"
+export * from "./revertDecoder"
@@ -0,0 +1,628 @@
+import { BigNumber, BigNumberish, ethers } from "ethers";
+import { Log, Provider } from "@ethersproject/providers";
+import { CurveState } from "./curve";
+import { CrocEventLog, decodeCrocLog } from "./events";
+import { encodePoolKey } from "./swapSimulator";
+
+/* Rebuilds pool, position and surplus state from the CrocEvents logs of a dex.
+ *
+ * State is derived purely from events, with the exception of the pool curves which aren't
+ * recoverable from logs alone (swap events don't carry the limit price or the post-swap
+ * price). If a curve reader is supplied, the curve of every pool touched by a batch of
+ * logs is re-read at the batch's last block.
+ *
+ * Reorgs are handled by keeping two copies of the state: a finalized state that's at
+ * least `confirmations` blocks behind the chain head, and a journal of the raw logs after
+ * it. Before each sync the indexer checks the hash of the last indexed block. If the
+ * chain has reorganized, it walks back through the block hashes it has seen to find the
+ * fork point, drops the journal past it, and replays the rest onto the finalized state.
+ * A reorg deeper than the finalized block throws.
+ *
+ * A few limitations follow from what the contracts emit:
+ *   - Positions are attributed to the user in the event (the transaction's lock holder),
+ *     even when the LP is held through a conduit.
+ *   - Surplus balances are only as of the last Surplus event for the owner and token.
+ *     Settling a trade against surplus collateral doesn't emit one.
+ *   - Side pockets (salted surplus balances) are only tracked as receivers, under their
+ *     virtual address. A move out of a side pocket reports the lock holder as the sender
+ *     but the pocket's balance, and the event doesn't carry the salt. Moves back into the
+ *     primary balance still end on the right balance, but a move from one side pocket
+ *     to another looks like a transfer and books the pocket's balance as the sender's
+ *     primary balance.
+ *   - Knockout positions stay in the state with their minted liquidity until they're
+ *     withdrawn, whether or not the pivot has been crossed. */
+
+export interface IndexedDex {
+    takeRate: number
+    relayerTakeRate: number
+    newPoolLiq: BigNumber
+    authority?: string
+    treasury?: string
+    hotPathOpen?: boolean
+    safeMode?: boolean
+}
+
+export interface IndexedTemplate {
+    feeRate: number
+    tickSize: number
+    jitThresh: number
+    knockoutBits: number
+    oracleFlags: number
+    disabled: boolean
+}
+
+export interface IndexedPool {
+    base: string
+    quote: string
+    poolIdx: string
+    // Zero if the pool was initialized before the indexer's start block
+    initBlock: number
+    initPrice: BigNumber
+    feeRate: number
+    tickSize: number
+    jitThresh: number
+    knockoutBits: number
+    protocolTake: number
+    // Net liquidity minted by ambient, range and knockout positions (incl. the locked
+    // liquidity from pool initialization in the ambient total)
+    ambientLiq: BigNumber
+    rangeLiq: BigNumber
+    knockoutLiq: BigNumber
+    // Net token flows into the pool across every event. Excludes protocol fee collection.
+    baseFlow: BigNumber
+    quoteFlow: BigNumber
+    swapCount: number
+}
+
+export interface IndexedRangePos {
+    owner: string
+    poolKey: string
+    lowerTick: number
+    upperTick: number
+    liq: BigNumber
+    lastBlock: number
+}
+
+export interface IndexedAmbientPos {
+    owner: string
+    poolKey: string
+    liq: BigNumber
+    lastBlock: number
+}
+
+export interface IndexedKnockoutPos {
+    owner: string
+    poolKey: string
+    isBid: boolean
+    lowerTick: number
+    upperTick: number
+    liq: BigNumber
+    lastBlock: number
+}
+
+/* @notice The full indexed model. Plain records keyed by string so the state can be
+ *         checkpointed as JSON. */
+export interface IndexedState {
+    dex: IndexedDex
+    templates: Record<string, IndexedTemplate>
+    pools: Record<string, IndexedPool>
+    ranges: Record<string, IndexedRangePos>
+    ambients: Record<string, IndexedAmbientPos>
+    knockouts: Record<string, IndexedKnockoutPos>
+    // Keyed by surplusKey(owner, token)
+    surplus: Record<string, BigNumber>
+}
+
+export function emptyIndexedState(): IndexedState {
+    return {
+        dex: { takeRate: 0, relayerTakeRate: 0, newPoolLiq: BigNumber.from(0) },
+        templates: {}, pools: {}, ranges: {}, ambients: {}, knockouts: {}, surplus: {}
+    }
+}
+
+export function poolKeyOf (base: string, quote: string, poolIdx: BigNumberish): string {
+    return encodePoolKey(base, quote, poolIdx).toLowerCase()
+}
+
+export function rangeKeyOf (owner: string, poolKey: string, lowerTick: number,
+    upperTick: number): string {
+    return `${owner.toLowerCase()}:${poolKey}:${lowerTick}:${upperTick}`
+}
+
+export function ambientKeyOf (owner: string, poolKey: string): string {
+    return `${owner.toLowerCase()}:${poolKey}`
+}
+
+export function knockoutKeyOf (owner: string, poolKey: string, isBid: boolean,
+    lowerTick: number, upperTick: number): string {
+    return `${owner.toLowerCase()}:${poolKey}:${isBid ? "bid" : "ask"}:${lowerTick}:${upperTick}`
+}
+
+export function surplusKeyOf (owner: string, token: string): string {
+    return `${owner.toLowerCase()}:${token.toLowerCase()}`
+}
+
+/* @notice Applies a single decoded event to the state in place. Events that don't
+ *         affect the model (e.g. UpgradeProxy) are ignored. */
+export function applyCrocEvent (state: IndexedState, ev: CrocEventLog) {
+    const a = ev.args
+    switch (ev.name) {
+        case "SetTakeRate":
+            state.dex.takeRate = a.takeRate
+            break
+        case "SetRelayerTakeRate":
+            state.dex.relayerTakeRate = a.takeRate
+            break
+        case "SetNewPoolLiq":
+            state.dex.newPoolLiq = a.liq
+            break
+        case "AuthorityTransfer":
+            state.dex.authority = a.authority
+            break
+        case "TreasurySet":
+            state.dex.treasury = a.treasury
+            break
+        case "HotPathOpen":
+            state.dex.hotPathOpen = a[0]
+            break
+        case "SafeMode":
+            state.dex.safeMode = a[0]
+            break
+
+        case "SetPoolTemplate":
+            state.templates[a.poolIdx.toString()] = { feeRate: a.feeRate, tickSize: a.tickSize,
+                jitThresh: a.jitThresh, knockoutBits: a.knockout, oracleFlags: a.oracleFlags,
+                disabled: false }
+            break
+        case "DisablePoolTemplate": {
+            const template = state.templates[a.poolIdx.toString()]
+            if (template) { template.disabled = true }
+            break
+        }
+
+        case "InitPool": {
+            const pool = ensurePool(state, a.base, a.quote, a.poolIdx)
+            const template = state.templates[a.poolIdx.toString()]
+            pool.initBlock = ev.blockNumber
+            pool.initPrice = a.price
+            pool.protocolTake = state.dex.takeRate
+            if (template) {
+                pool.feeRate = template.feeRate
+                pool.tickSize = template.tickSize
+                pool.jitThresh = template.jitThresh
+                pool.knockoutBits = template.knockoutBits
+            }
+            pool.ambientLiq = pool.ambientLiq.add(a.liq)
+            addFlows(pool, a)
+            break
+        }
+        case "PoolRevision": {
+            const pool = ensurePool(state, a.base, a.quote, a.poolIdx)
+            pool.feeRate = a.feeRate
+            pool.tickSize = a.tickSize
+            pool.jitThresh = a.jitThresh
+            pool.knockoutBits = a.knockout
+            break
+        }
+        case "ResyncTakeRate":
+            ensurePool(state, a.base, a.quote, a.poolIdx).protocolTake = a.takeRate
+            break
+
+        case "Swap": {
+            const pool = ensurePool(state, a.base, a.quote, a.poolIdx)
+            pool.swapCount += 1
+            addFlows(pool, a)
+            break
+        }
+
+        case "MintRanged":
+        case "BurnRanged": {
+            const pool = ensurePool(state, a.base, a.quote, a.poolIdx)
+            const poolKey = poolKeyOf(a.base, a.quote, a.poolIdx)
+            const key = rangeKeyOf(a.user, poolKey, a.bidTick, a.askTick)
+            const pos = state.ranges[key] || { owner: a.user, poolKey, lowerTick: a.bidTick,
+                upperTick: a.askTick, liq: BigNumber.from(0), lastBlock: ev.blockNumber }
+            const isMint = ev.name === "MintRanged"
+            const delta = isMint ? a.liq : clampBurn(pos.liq, a.liq).mul(-1)
+            pos.liq = pos.liq.add(delta)
+            pos.lastBlock = ev.blockNumber
+            pool.rangeLiq = pool.rangeLiq.add(delta)
+            storePos(state.ranges, key, pos)
+            addFlows(pool, a)
+            break
+        }
+        case "Harvest":
+            addFlows(ensurePool(state, a.base, a.quote, a.poolIdx), a)
+            break
+
+        case "MintAmbient":
+        case "BurnAmbient": {
+            const pool = ensurePool(state, a.base, a.quote, a.poolIdx)
+            const poolKey = poolKeyOf(a.base, a.quote, a.poolIdx)
+            const key = ambientKeyOf(a.user, poolKey)
+            const pos = state.ambients[key] || { owner: a.user, poolKey,
+                liq: BigNumber.from(0), lastBlock: ev.blockNumber }
+            const isMint = ev.name === "MintAmbient"
+            const delta = isMint ? a.liq : clampBurn(pos.liq, a.liq).mul(-1)
+            pos.liq = pos.liq.add(delta)
+            pos.lastBlock = ev.blockNumber
+            pool.ambientLiq = pool.ambientLiq.add(delta)
+            storePos(state.ambients, key, pos)
+            addFlows(pool, a)
+            break
+        }
+
+        case "MintKnockout":
+        case "BurnKnockout":
+        case "WithdrawKnockout": {
+            const pool = ensurePool(state, a.base, a.quote, a.poolIdx)
+            const poolKey = poolKeyOf(a.base, a.quote, a.poolIdx)
+            const key = knockoutKeyOf(a.user, poolKey, a.isBid, a.lowerTick, a.upperTick)
+            const pos = state.knockouts[key] || { owner: a.user, poolKey, isBid: a.isBid,
+                lowerTick: a.lowerTick, upperTick: a.upperTick, liq: BigNumber.from(0),
+                lastBlock: ev.blockNumber }
+            const delta = ev.name === "MintKnockout" ? a.liq :
+                ev.name === "BurnKnockout" ? clampBurn(pos.liq, a.liq).mul(-1) :
+                pos.liq.mul(-1)
+            pos.liq = pos.liq.add(delta)
+            pos.lastBlock = ev.blockNumber
+            pool.knockoutLiq = pool.knockoutLiq.add(delta)
+            storePos(state.knockouts, key, pos)
+            addFlows(pool, a)
+            break
+        }
+
+        case "Surplus": {
+            // Deposits only touch the receiver. Disbursements and transfers report the
+            // sender's post balance, and transfers also report the receiver's. A side
+            // pocket move into the primary balance has the same sender and receiver, so
+            // the receiver's balance overwrites the pocket's.
+            const delta = a.delta as BigNumber
+            if (delta.gt(0)) {
+                storeSurplus(state, a.to, a.token, a.toSurplus)
+            } else {
+                storeSurplus(state, a.from, a.token, a.fromSurplus)
+                if ((a.toSurplus as BigNumber).gt(0)) {
+                    storeSurplus(state, a.to, a.token, a.toSurplus)
+                }
+            }
+            break
+        }
+    }
+}
+
+/* @notice Persists indexer checkpoints. The checkpoint is plain JSON-compatible data. */
+export interface CheckpointStore {
+    load(): Promise<string | undefined>
+    save(checkpoint: string): Promise<void>
+}
+
+export class MemoryCheckpointStore implements CheckpointStore {
+    private data?: string
+
+    async load(): Promise<string | undefined> {
+        return this.data
+    }
+
+    async save (checkpoint: string): Promise<void> {
+        this.data = checkpoint
+    }
+}
+
+/* @notice Reads the curve of a pool at a historical block. */
+export type CurveReader = (base: string, quote: string, poolIdx: BigNumberish,
+    blockTag: number) => Promise<CurveState>
+
+/* @notice Builds a CurveReader over a CrocQuery contract. The typechain CrocQuery object
+ *         satisfies the argument type. */
+export function queryCurveReader (query: { queryCurve (base: string, quote: string,
+    poolIdx: BigNumberish, overrides?: { blockTag?: number }): Promise<{
+        priceRoot_: BigNumber, ambientSeeds_: BigNumber, concLiq_: BigNumber,
+        seedDeflator_: BigNumberish, concGrowth_: BigNumberish }> }): CurveReader {
+    return async (base, quote, poolIdx, blockTag) => {
+        const curve = await query.queryCurve(base, quote, poolIdx, { blockTag })
+        return { priceRoot: curve.priceRoot_, ambientSeeds: curve.ambientSeeds_,
+            concLiq: curve.concLiq_, seedDeflator: BigNumber.from(curve.seedDeflator_),
+            concGrowth: BigNumber.from(curve.concGrowth_) }
+    }
+}
+
+export interface IndexerOptions {
+    // Address of the CrocSwapDex contract
+    dex: string
+    // First block to index. Ignored when resuming from a checkpoint.
+    startBlock?: number
+    // Maximum blocks per eth_getLogs call
+    batchSize?: number
+    // Blocks behind the head before an event is considered final
+    confirmations?: number
+    store?: CheckpointStore
+    curveReader?: CurveReader
+}
+
+export interface IndexedCurve {
+    curve: CurveState
+    block: number
+}
+
+export class CrocIndexer {
+    private provider: Provider
+    private opts: Required<Pick<IndexerOptions, "dex" | "startBlock" | "batchSize" | "confirmations">>
+    private store?: CheckpointStore
+    private curveReader?: CurveReader
+
+    private loaded: boolean
+    private finalized: { block: number, hash?: string, state: IndexedState }
+    private journal: Log[]
+    private hashes: Map<number, string>
+    private curves: Record<string, IndexedCurve>
+    private dirtyPools: Set<string>
+    private live: IndexedState
+    private head: number
+    private timer?: ReturnType<typeof setTimeout>
+
+    constructor (provider: Provider, opts: IndexerOptions) {
+        this.provider = provider
+        this.opts = { dex: opts.dex.toLowerCase(),
+            startBlock: opts.startBlock !== undefined ? opts.startBlock : 0,
+            batchSize: opts.batchSize !== undefined ? opts.batchSize : 2000,
+            confirmations: opts.confirmations !== undefined ? opts.confirmations : 12 }
+        if (!Number.isInteger(this.opts.batchSize) || this.opts.batchSize < 1) {
+            throw new Error(`Invalid log batch size ${this.opts.batchSize}`)
+        }
+        this.store = opts.store
+        this.curveReader = opts.curveReader
+
+        this.loaded = false
+        this.finalized = { block: this.opts.startBlock - 1, state: emptyIndexedState() }
+        this.journal = []
+        this.hashes = new Map()
+        this.curves = {}
+        this.dirtyPools = new Set()
+        this.live = emptyIndexedState()
+        this.head = this.opts.startBlock - 1
+    }
+
+    /* @notice The state as of the last indexed block, including unfinalized events. */
+    get state(): IndexedState {
+        return this.live
+    }
+
+    /* @notice The last block that's been indexed. */
+    get block(): number {
+        return this.head
+    }
+
+    /* @notice The last curve read for the pool, if a curve reader is configured. */
+    curve (base: string, quote: string, poolIdx: BigNumberish): IndexedCurve | undefined {
+        return this.curves[poolKeyOf(base, quote, poolIdx)]
+    }
+
+    /* @notice Indexes every block up to the current chain head, rewinding first if the
+     *         chain has reorganized. Returns the last indexed block. */
+    async sync(): Promise<number> {
+        await this.load()
+        await this.checkReorg()
+
+        const chainHead = await this.provider.getBlockNumber()
+        while (this.head < chainHead) {
+            const fromBlock = this.head + 1
+            const toBlock = Math.min(chainHead, fromBlock + this.opts.batchSize - 1)
+            const logs = await this.provider.getLogs({ address: this.opts.dex, fromBlock, toBlock })
+            const endBlock = await this.provider.getBlock(toBlock)
+
+            sortLogs(logs).forEach(log => {
+                this.journal.push(log)
+                this.hashes.set(log.blockNumber, log.blockHash)
+                this.applyLog(this.live, log, true)
+            })
+            this.hashes.set(toBlock, endBlock.hash)
+            this.head = toBlock
+
+            this.finalize(chainHead)
+            await this.refreshCurves()
+            await this.save()
+        }
+        return this.head
+    }
+
+    /* @notice Syncs on a fixed interval until stop() is called. Sync errors are passed to
+     *         onError and the loop keeps going. */
+    watch (intervalMs: number, onError: (err: unknown) => void = console.error) {
+        const loop = async () => {
+            try {
+                await this.sync()
+            } catch (err) {
+                onError(err)
+            }
+            if (this.timer !== undefined) {
+                this.timer = setTimeout(loop, intervalMs)
+            }
+        }
+        this.timer = setTimeout(loop, 0)
+    }
+
+    stop() {
+        if (this.timer !== undefined) {
+            clearTimeout(this.timer)
+            this.timer = undefined
+        }
+    }
+
+    private applyLog (state: IndexedState, log: Log, markDirty: boolean) {
+        const ev = decodeCrocLog(log)
+        if (ev === undefined) { return }
+        applyCrocEvent(state, ev)
+        if (markDirty && ev.args.base !== undefined && ev.args.poolIdx !== undefined) {
+            this.dirtyPools.add(poolKeyOf(ev.args.base, ev.args.quote, ev.args.poolIdx))
+        }
+    }
+
+    private async checkReorg() {
+        if (this.head < this.opts.startBlock) { return }
+
+        const known = Array.from(this.hashes.entries()).sort((x, y) => y[0] - x[0])
+        if (this.finalized.hash !== undefined) {
+            known.push([this.finalized.block, this.finalized.hash])
+        }
+
+        for (const [blockNum, hash] of known) {
+            const block = await this.provider.getBlock(blockNum)
+            if (block && block.hash === hash) {
+                if (blockNum < this.head) { this.rewind(blockNum) }
+                return
+            }
+        }
+
+        if (this.finalized.hash === undefined && this.finalized.block < this.opts.startBlock) {
+            // Nothing has been finalized yet, so replay from scratch
+            this.rewind(this.opts.startBlock - 1)
+            return
+        }
+        throw new Error(`Chain reorganized below finalized block ${this.finalized.block}. ` +
+            `Increase confirmations and re-index from scratch.`)
+    }
+
+    private rewind (blockNum: number) {
+        this.journal.filter(log => log.blockNumber > blockNum).forEach(log => {
+            const ev = decodeCrocLog(log)
+            if (ev !== undefined && ev.args.base !== undefined && ev.args.poolIdx !== undefined) {
+                this.dirtyPools.add(poolKeyOf(ev.args.base, ev.args.quote, ev.args.poolIdx))
+            }
+        })
+        this.journal = this.journal.filter(log => log.blockNumber <= blockNum)
+        Array.from(this.hashes.keys()).filter(n => n > blockNum).forEach(n => this.hashes.delete(n))
+
+        this.live = cloneState(this.finalized.state)
+        this.journal.forEach(log => this.applyLog(this.live, log, false))
+        this.head = blockNum
+    }
+
+    // Folds journaled logs that are now deep enough into the finalized state
+    private finalize (chainHead: number) {
+        const finalBlock = Math.min(chainHead - this.opts.confirmations, this.head)
+        const anchors = Array.from(this.hashes.keys()).filter(n => n <= finalBlock)
+        if (anchors.length === 0) { return }
+        const anchor = Math.max(...anchors)
+
+        const settled = this.journal.filter(log => log.blockNumber <= anchor)
+        settled.forEach(log => this.applyLog(this.finalized.state, log, false))
+        this.journal = this.journal.filter(log => log.blockNumber > anchor)
+
+        this.finalized.block = anchor
+        this.finalized.hash = this.hashes.get(anchor)
+        Array.from(this.hashes.keys()).filter(n => n <= anchor).forEach(n => this.hashes.delete(n))
+    }
+
+    private async refreshCurves() {
+        if (this.curveReader === undefined) {
+            this.dirtyPools.clear()
+            return
+        }
+        for (const poolKey of Array.from(this.dirtyPools)) {
+            const pool = this.live.pools[poolKey]
+            if (pool !== undefined) {
+                const curve = await this.curveReader(pool.base, pool.quote, pool.poolIdx, this.head)
+                this.curves[poolKey] = { curve, block: this.head }
+            } else {
+                delete this.curves[poolKey]
+            }
+        }
+        this.dirtyPools.clear()
+    }
+
+    private async load() {
+        if (this.loaded) { return }
+        this.loaded = true
+        const text = this.store ? await this.store.load() : undefined
+        if (text === undefined) { return }
+
+        const cp = JSON.parse(text, reviveBigNumbers) as Checkpoint
+        if (cp.dex !== this.opts.dex) {
+            throw new Error(`Checkpoint is for dex ${cp.dex}, not ${this.opts.dex}`)
+        }
+        this.finalized = cp.finalized
+        this.journal = cp.journal
+        this.hashes = new Map(cp.hashes)
+        this.curves = cp.curves
+        this.head = cp.head
+
+        this.live = cloneState(this.finalized.state)
+        this.journal.forEach(log => this.applyLog(this.live, log, false))
+    }
+
+    private async save() {
+        if (this.store === undefined) { return }
+        const cp: Checkpoint = { dex: this.opts.dex, head: this.head, finalized: this.finalized,
+            journal: this.journal, hashes: Array.from(this.hashes.entries()), curves: this.curves }
+        await this.store.save(JSON.stringify(cp))
+    }
+}
+
+interface Checkpoint {
+    dex: string
+    head: number
+    finalized: { block: number, hash?: string, state: IndexedState }
+    journal: Log[]
+    hashes: [number, string][]
+    curves: Record<string, IndexedCurve>
+}
+
+function ensurePool (state: IndexedState, base: string, quote: string,
+    poolIdx: BigNumber): IndexedPool {
+    const key = poolKeyOf(base, quote, poolIdx)
+    if (state.pools[key] === undefined) {
+        const zero = BigNumber.from(0)
+        state.pools[key] = { base, quote, poolIdx: poolIdx.toString(), initBlock: 0,
+            initPrice: zero, feeRate: 0, tickSize: 0, jitThresh: 0, knockoutBits: 0,
+            protocolTake: 0, ambientLiq: zero, rangeLiq: zero, knockoutLiq: zero,
+            baseFlow: zero, quoteFlow: zero, swapCount: 0 }
+    }
+    return state.pools[key]
+}
+
+function addFlows (pool: IndexedPool, args: ethers.utils.Result) {
+    pool.baseFlow = pool.baseFlow.add(args.baseFlow)
+    pool.quoteFlow = pool.quoteFlow.add(args.quoteFlow)
+}
+
+// The dex caps burns at the position's balance, so never take a position negative
+function clampBurn (held: BigNumber, burn: BigNumber): BigNumber {
+    return burn.gt(held) ? held : burn
+}
+
+function storePos<T extends { liq: BigNumber }> (positions: Record<string, T>, key: string,
+    pos: T) {
+    if (pos.liq.isZero()) {
+        delete positions[key]
+    } else {
+        positions[key] = pos
+    }
+}
+
+function storeSurplus (state: IndexedState, owner: string, token: string, balance: BigNumber) {
+    const key = surplusKeyOf(owner, token)
+    if (balance.isZero()) {
+        delete state.surplus[key]
+    } else {
+        state.surplus[key] = balance
+    }
+}
+
+function sortLogs (logs: Log[]): Log[] {
+    return logs.slice().sort((x, y) => x.blockNumber !== y.blockNumber ?
+        x.blockNumber - y.blockNumber : x.logIndex - y.logIndex)
+}
+
+function cloneState (state: IndexedState): IndexedState {
+    return JSON.parse(JSON.stringify(state), reviveBigNumbers)
+}
+
+// JSON.stringify() writes BigNumbers as { type: "BigNumber", hex }
+function reviveBigNumbers (key: string, value: any): any {
+    if (value !== null && typeof value === "object" && value.type === "BigNumber" &&
+        typeof value.hex === "string") {
+        return BigNumber.from(value.hex)
+    }
+    return value
+}
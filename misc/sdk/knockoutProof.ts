@@ -0,0 +1,221 @@
+import { BigNumber, BigNumberish, ethers } from "ethers";
+import { Log, Provider } from "@ethersproject/providers";
+import { encodePoolKey } from "./swapSimulator";
+
+/* Rebuilds the Merkle history of a knockout pivot and produces the proof needed to claim
+ * a knocked out position with CLAIM_KNOCKOUT (see claimKnockoutCmd()).
+ *
+ * Every time a pivot is crossed, KnockoutLiq.commitKnockout() folds the previous tranche's
+ * pivot time and fee mileage into the Merkle root and stores the crossed tranche raw:
+ *
+ *   root[n] = keccak(root[n-1], salt[n] << 96 | pivotTime[n-1] << 64 | feeMileage[n-1]) >> 96
+ *
+ * The chain starts at root 1 with an empty tranche (see freshenMerkle()), and each cross
+ * emits a CrocKnockoutCross event with the crossed tranche and the salt. So the full
+ * chain is recoverable from the pivot's logs, as long as they're read back to the dex
+ * deploy block. The most recent tranche is claimable without a proof. Tranche k is
+ * proven from root[k] with the chain links of every cross after it. */
+
+export const KNOCKOUT_CROSS_ABI = [
+    "event CrocKnockoutCross(bytes32 indexed pool, int24 indexed tick, bool isBid, uint32 pivotTime, uint64 feeMileage, uint160 commitEntropy)"
+]
+
+export const KNOCKOUT_CROSS_IFACE = new ethers.utils.Interface(KNOCKOUT_CROSS_ABI)
+
+export interface KnockoutCross {
+    pivotTime: number
+    feeMileage: BigNumber
+    commitEntropy: BigNumber
+    blockNumber: number
+    logIndex: number
+}
+
+/* @notice Mirrors the KnockoutMerkle struct, i.e. the pivot's Merkle state after a
+ *         given cross. */
+export interface KnockoutMerkleState {
+    root: BigNumber
+    pivotTime: number
+    feeMileage: BigNumber
+}
+
+export interface KnockoutProof {
+    root: BigNumber
+    proof: BigNumber[]
+    // Tranche the proof is for, and its fee mileage when it was knocked out
+    pivotTime: number
+    feeMileage: BigNumber
+}
+
+export interface KnockoutClaim extends KnockoutProof {
+    lots: BigNumber
+}
+
+/* @notice The subset of CrocQuery used to find and prove claims. The typechain
+ *         CrocQuery object satisfies this interface. */
+export interface KnockoutQuerier {
+    queryKnockoutMerkle (base: string, quote: string, poolIdx: BigNumberish, isBid: boolean,
+        tick: BigNumberish): Promise<{ root: BigNumber, pivot: number, fee: BigNumber }>
+    queryKnockoutPos (owner: string, base: string, quote: string, poolIdx: BigNumberish,
+        pivot: BigNumberish, isBid: boolean, lowerTick: BigNumberish, upperTick: BigNumberish):
+        Promise<{ lots: BigNumber, mileage: BigNumber, timestamp: number }>
+}
+
+export interface KnockoutLocation {
+    base: string
+    quote: string
+    poolIdx: BigNumberish
+    isBid: boolean
+    lowTick: number
+    highTick: number
+}
+
+export interface KnockoutLogOpts {
+    // Address of the CrocSwapDex contract
+    dex: string
+    // Block to start reading logs from. Must be at or before the first cross of the pivot,
+    // normally the dex deploy block.
+    fromBlock?: number
+    toBlock?: number
+    // Maximum blocks per eth_getLogs call
+    batchSize?: number
+}
+
+/* @notice Tightly packs a Merkle chain link. Mirrors KnockoutLiq.encodeChainLink() */
+export function encodeChainLink (pivotTime: number, feeMileage: BigNumberish,
+    salt: BigNumberish): BigNumber {
+    return BigNumber.from(salt).shl(96)
+        .add(BigNumber.from(pivotTime).shl(64))
+        .add(BigNumber.from(feeMileage))
+}
+
+/* @notice Mirrors KnockoutLiq.decodeChainLink() */
+export function decodeChainLink (link: BigNumberish): { pivotTime: number, feeMileage: BigNumber } {
+    const val = BigNumber.from(link)
+    return { pivotTime: val.shr(64).mask(32).toNumber(), feeMileage: val.mask(64) }
+}
+
+/* @notice Hashes the previous 160-bit Merkle root with a chain link. Mirrors
+ *         KnockoutLiq.rootLink() */
+export function rootLink (root: BigNumberish, link: BigNumberish): BigNumber {
+    const hash = ethers.utils.keccak256(ethers.utils.defaultAbiCoder.encode(
+        ["uint160", "uint256"], [root, link]))
+    return BigNumber.from(hash).shr(96)
+}
+
+/* @notice The tick the knockout pivot sits on. Mirrors KnockoutLiq.knockoutTick() */
+export function knockoutPivotTick (loc: { isBid: boolean, lowTick: number, highTick: number }): number {
+    return loc.isBid ? loc.lowTick : loc.highTick
+}
+
+/* @notice Replays the crosses of a pivot, oldest first, from the initial Merkle state.
+ *         Returns the Merkle state after each cross. */
+export function rebuildKnockoutChain (crosses: KnockoutCross[]): KnockoutMerkleState[] {
+    let state: KnockoutMerkleState = { root: BigNumber.from(1), pivotTime: 0,
+        feeMileage: BigNumber.from(0) }
+    return crosses.map(cross => {
+        state = {
+            root: rootLink(state.root, encodeChainLink(state.pivotTime, state.feeMileage,
+                cross.commitEntropy)),
+            pivotTime: cross.pivotTime,
+            feeMileage: cross.feeMileage
+        }
+        return state
+    })
+}
+
+/* @notice Builds the proof for a knocked out tranche from the pivot's full cross
+ *         history. Throws if the tranche was never knocked out. */
+export function buildKnockoutProof (crosses: KnockoutCross[], pivotTime: number): KnockoutProof {
+    const chain = rebuildKnockoutChain(crosses)
+    const idx = chain.map(s => s.pivotTime).indexOf(pivotTime)
+    if (idx < 0) {
+        throw new Error(`Knockout tranche ${pivotTime} was never knocked out`)
+    }
+
+    const state = chain[idx]
+    if (idx === chain.length - 1) {
+        // The most recent tranche is still stored raw and needs no proof
+        return { root: BigNumber.from(0), proof: [], pivotTime, feeMileage: state.feeMileage }
+    }
+
+    const proof = chain.slice(idx, chain.length - 1).map((s, i) =>
+        encodeChainLink(s.pivotTime, s.feeMileage, crosses[idx + i + 1].commitEntropy))
+    return { root: state.root, proof, pivotTime, feeMileage: state.feeMileage }
+}
+
+/* @notice Checks a proof against the pivot's current Merkle state the same way
+ *         KnockoutLiq.proveHistory() does. */
+export function verifyKnockoutProof (merkle: KnockoutMerkleState, proof: KnockoutProof): boolean {
+    if (proof.proof.length === 0) {
+        return merkle.pivotTime === proof.pivotTime
+    }
+    const root = proof.proof.reduce((acc, link) => rootLink(acc, link), proof.root)
+    const start = decodeChainLink(proof.proof[0])
+    return root.eq(merkle.root) && start.pivotTime === proof.pivotTime &&
+        start.feeMileage.eq(proof.feeMileage)
+}
+
+/* @notice Reads every CrocKnockoutCross event for a single pivot, oldest first. */
+export async function fetchKnockoutCrosses (provider: Provider, loc: KnockoutLocation,
+    opts: KnockoutLogOpts): Promise<KnockoutCross[]> {
+    const topics = [
+        KNOCKOUT_CROSS_IFACE.getEventTopic("CrocKnockoutCross"),
+        encodePoolKey(loc.base, loc.quote, loc.poolIdx),
+        ethers.utils.defaultAbiCoder.encode(["int24"], [knockoutPivotTick(loc)])
+    ]
+    const fromBlock = opts.fromBlock !== undefined ? opts.fromBlock : 0
+    const toBlock = opts.toBlock !== undefined ? opts.toBlock : await provider.getBlockNumber()
+    const batchSize = opts.batchSize !== undefined ? opts.batchSize : 2000
+    if (!Number.isInteger(batchSize) || batchSize < 1) {
+        throw new Error(`Invalid log batch size ${batchSize}`)
+    }
+
+    let logs: Log[] = []
+    for (let start = fromBlock; start <= toBlock; start += batchSize) {
+        const end = Math.min(toBlock, start + batchSize - 1)
+        logs = logs.concat(await provider.getLogs({ address: opts.dex, topics,
+            fromBlock: start, toBlock: end }))
+    }
+
+    return logs
+        .sort((a, b) => a.blockNumber - b.blockNumber || a.logIndex - b.logIndex)
+        .map(log => ({ log, ev: KNOCKOUT_CROSS_IFACE.parseLog(log) }))
+        .filter(({ ev }) => ev.args.isBid === loc.isBid)
+        .map(({ log, ev }) => ({
+            pivotTime: ev.args.pivotTime,
+            feeMileage: BigNumber.from(ev.args.feeMileage),
+            commitEntropy: BigNumber.from(ev.args.commitEntropy),
+            blockNumber: log.blockNumber,
+            logIndex: log.logIndex
+        }))
+}
+
+/* @notice Finds every knocked out tranche the owner still holds at the location and
+ *         builds the claim proof for each, oldest first. Throws if the rebuilt chain
+ *         doesn't match the pivot's on-chain Merkle root, which usually means fromBlock
+ *         is later than the first cross. */
+export async function findKnockoutClaims (provider: Provider, query: KnockoutQuerier,
+    owner: string, loc: KnockoutLocation, opts: KnockoutLogOpts): Promise<KnockoutClaim[]> {
+    const crosses = await fetchKnockoutCrosses(provider, loc, opts)
+    const merkle = await query.queryKnockoutMerkle(loc.base, loc.quote, loc.poolIdx,
+        loc.isBid, knockoutPivotTick(loc))
+
+    const chain = rebuildKnockoutChain(crosses)
+    const head = chain.length > 0 ? chain[chain.length - 1].root : BigNumber.from(merkle.root)
+    if (!head.eq(merkle.root)) {
+        throw new Error(`Rebuilt knockout Merkle root ${head.toHexString()} doesn't match ` +
+            `on-chain root ${BigNumber.from(merkle.root).toHexString()}. Are logs missing ` +
+            `before block ${opts.fromBlock || 0}?`)
+    }
+
+    let claims: KnockoutClaim[] = []
+    for (const state of chain) {
+        const pos = await query.queryKnockoutPos(owner, loc.base, loc.quote, loc.poolIdx,
+            state.pivotTime, loc.isBid, loc.lowTick, loc.highTick)
+        if (BigNumber.from(pos.lots).gt(0)) {
+            claims.push({ ...buildKnockoutProof(crosses, state.pivotTime),
+                lots: BigNumber.from(pos.lots) })
+        }
+    }
+    return claims
+}
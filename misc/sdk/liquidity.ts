@@ -0,0 +1,270 @@
+import { BigNumber, BigNumberish } from "ethers";
+import { CurveState, deflateLiqSeed, deltaBase, deltaQuote, divQ64, inflateLiqSeed,
+    liquiditySupported, liquidityToLots, mulQ64, shaveRoundLots, shaveRoundLotsUp,
+    toUint128 } from "./curve";
+import { LIQ_LOT_SIZE, MAX_TICK, MIN_TICK } from "./commands";
+import { getSqrtRatioAtTick } from "./tickMath";
+
+/* Converts between liquidity and token amounts for ambient, range and knockout positions
+ * without touching the chain. Two families of functions live here:
+ *
+ *   - Holdings (liquidityToTokens, concLiqToTokens, seedsToTokens, knockoutHeldTokens)
+ *     mirror the views in CrocQuery.sol and value an existing position at a price.
+ *   - Previews (mint*Flows, burn*Flows, size*Liq, preview*MintQty) mirror the code path
+ *     the dex runs on a mint or burn, including the 4 wei collateral buffers, the
+ *     2048 liquidity lot rounding (see docs/LiquidityLots.md) and the ambient seed
+ *     deflator. Fed the same curve, they produce exactly the flows the dex will book.
+ *
+ * All quantities are unsigned magnitudes. Mint flows are owed by the user, burn flows
+ * are paid to the user. Range flows exclude accumulated rewards, since those depend on
+ * the position's fee mileage. */
+
+export interface TokenAmounts {
+    baseQty: BigNumber
+    quoteQty: BigNumber
+}
+
+export interface LiquidityPreview extends TokenAmounts {
+    liq: BigNumber
+}
+
+/* @notice Converts liquidity to the equivalent full-range virtual token reserves.
+ *         Mirrors CrocQuery.liquidityToTokens() */
+export function liquidityToTokens (priceRoot: BigNumberish, liq: BigNumberish): TokenAmounts {
+    const price = BigNumber.from(priceRoot)
+    const liquidity = BigNumber.from(liq)
+    // CrocQuery truncates with a plain uint128() cast rather than a checked downcast
+    return { baseQty: mulQ64(liquidity, price).mask(128),
+        quoteQty: divQ64(liquidity, price).mask(128) }
+}
+
+/* @notice Returns the tokens held by concentrated liquidity in a tick range at the given
+ *         price. Mirrors CrocQuery.concLiqToTokens() */
+export function concLiqToTokens (priceRoot: BigNumberish, lowerTick: number, upperTick: number,
+    liq: BigNumberish): TokenAmounts {
+    const curvePrice = BigNumber.from(priceRoot)
+    const lowerPrice = getSqrtRatioAtTick(lowerTick)
+    const upperPrice = getSqrtRatioAtTick(upperTick)
+
+    const lower = liquidityToTokens(lowerPrice, liq)
+    const upper = liquidityToTokens(upperPrice, liq)
+    const amb = liquidityToTokens(curvePrice, liq)
+
+    if (curvePrice.lt(lowerPrice)) {
+        return { baseQty: BigNumber.from(0), quoteQty: lower.quoteQty.sub(upper.quoteQty) }
+    } else if (curvePrice.gte(upperPrice)) {
+        return { baseQty: upper.baseQty.sub(lower.baseQty), quoteQty: BigNumber.from(0) }
+    } else {
+        return { baseQty: amb.baseQty.sub(lower.baseQty), quoteQty: amb.quoteQty.sub(upper.quoteQty) }
+    }
+}
+
+/* @notice Converts ambient seeds to liquidity at the curve's current seed deflator. */
+export function seedsToLiquidity (curve: CurveState, seeds: BigNumberish): BigNumber {
+    return inflateLiqSeed(BigNumber.from(seeds), curve.seedDeflator)
+}
+
+/* @notice Converts ambient liquidity to seeds, rounding down like the position registrar
+ *         does when minting or burning. */
+export function liquidityToSeeds (curve: CurveState, liq: BigNumberish): BigNumber {
+    return deflateLiqSeed(BigNumber.from(liq), curve.seedDeflator)
+}
+
+/* @notice Returns the liquidity and tokens of an ambient position from its seeds.
+ *         Mirrors CrocQuery.convertSeedsToLiq() */
+export function seedsToTokens (curve: CurveState, seeds: BigNumberish): LiquidityPreview {
+    const liq = seedsToLiquidity(curve, seeds)
+    return { liq, ...liquidityToTokens(curve.priceRoot, liq) }
+}
+
+/* @notice Returns the tokens claimable from a knocked out position. The liquidity is
+ *         held entirely in quote for bids and entirely in base for asks. Mirrors
+ *         LiquidityCurve.liquidityHeldPayable() without rewards. */
+export function knockoutHeldTokens (lowerTick: number, upperTick: number, isBid: boolean,
+    liq: BigNumberish): TokenAmounts {
+    const [bidPrice, askPrice] = translateTickRange(lowerTick, upperTick)
+    const liquidity = BigNumber.from(liq)
+    return isBid ?
+        { baseQty: BigNumber.from(0), quoteQty: deltaQuote(liquidity, bidPrice, askPrice) } :
+        { baseQty: deltaBase(liquidity, bidPrice, askPrice), quoteQty: BigNumber.from(0) }
+}
+
+/* @notice Tokens owed to the pool for minting range (or knockout) liquidity. Throws
+ *         "FD" if the liquidity isn't a multiple of LIQ_LOT_SIZE, like the dex. */
+export function mintRangeFlows (curve: CurveState, lowerTick: number, upperTick: number,
+    liq: BigNumberish): TokenAmounts {
+    const liquidity = BigNumber.from(liq)
+    liquidityToLots(liquidity)
+    const [base, quote, inRange] = rangeFlows(curve.priceRoot, liquidity, lowerTick, upperTick)
+    return chargeConservative(base, quote, inRange)
+}
+
+/* @notice Tokens paid out by the pool for burning range liquidity, excluding rewards. */
+export function burnRangeFlows (curve: CurveState, lowerTick: number, upperTick: number,
+    liq: BigNumberish): TokenAmounts {
+    const liquidity = BigNumber.from(liq)
+    liquidityToLots(liquidity)
+    const [baseQty, quoteQty] = rangeFlows(curve.priceRoot, liquidity, lowerTick, upperTick)
+    return { baseQty, quoteQty }
+}
+
+/* @notice Tokens owed to the pool for minting ambient liquidity. The liquidity is first
+ *         deflated to seeds, so the flows are for the liquidity the seeds re-inflate to. */
+export function mintAmbientFlows (curve: CurveState, liq: BigNumberish): TokenAmounts {
+    const { baseQty, quoteQty } = ambientFlows(curve, liquidityToSeeds(curve, liq))
+    return chargeConservative(baseQty, quoteQty, true)
+}
+
+/* @notice Tokens paid out by the pool for burning ambient liquidity. Note that the dex
+ *         caps the burned seeds at the position's balance, which isn't known here. */
+export function burnAmbientFlows (curve: CurveState, liq: BigNumberish): TokenAmounts {
+    return ambientFlows(curve, liquidityToSeeds(curve, liq))
+}
+
+/* @notice Sizes the ambient liquidity for a token quantity. Mirrors
+ *         Chaining.sizeAmbientLiq() */
+export function sizeAmbientLiq (curve: CurveState, qty: BigNumberish, isAdd: boolean,
+    inBase: boolean): BigNumber {
+    const liq = liquiditySupported(bufferCollateral(BigNumber.from(qty), isAdd),
+        inBase, curve.priceRoot)
+    return isAdd ? liq : liq.add(1)
+}
+
+/* @notice Sizes range liquidity for a token quantity on one side, rounded to even lots.
+ *         Mirrors Chaining.sizeConcLiq(). Throws if the range holds none of that token
+ *         at the current price. */
+export function sizeRangeLiq (curve: CurveState, lowerTick: number, upperTick: number,
+    qty: BigNumberish, isAdd: boolean, inBase: boolean): BigNumber {
+    const [bidPrice, askPrice] = determinePriceRange(curve.priceRoot, lowerTick, upperTick, inBase)
+    const liq = liquiditySupported(bufferCollateral(BigNumber.from(qty), isAdd),
+        inBase, bidPrice, askPrice)
+    return isAdd ? shaveRoundLots(liq) : shaveRoundLotsUp(liq)
+}
+
+/* @notice Previews a MINT_AMBIENT_BASE_LP or MINT_AMBIENT_QUOTE_LP call. Returns the
+ *         liquidity minted and the flows after the dex pins the sized side to qty. */
+export function previewAmbientMintQty (curve: CurveState, qty: BigNumberish,
+    inBase: boolean): LiquidityPreview {
+    const liq = sizeAmbientLiq(curve, qty, true, inBase)
+    return { liq, ...pinFlow(mintAmbientFlows(curve, liq), BigNumber.from(qty), inBase) }
+}
+
+/* @notice Previews a MINT_RANGE_BASE_LP or MINT_RANGE_QUOTE_LP call (or a knockout mint
+ *         sized in the same way). */
+export function previewRangeMintQty (curve: CurveState, lowerTick: number, upperTick: number,
+    qty: BigNumberish, inBase: boolean): LiquidityPreview {
+    const liq = sizeRangeLiq(curve, lowerTick, upperTick, qty, true, inBase)
+    return { liq, ...pinFlow(mintRangeFlows(curve, lowerTick, upperTick, liq),
+        BigNumber.from(qty), inBase) }
+}
+
+/* @notice The largest mintable range liquidity whose mint flows fit in both token
+ *         budgets. Always a multiple of LIQ_LOT_SIZE, possibly zero. */
+export function maxRangeLiq (curve: CurveState, lowerTick: number, upperTick: number,
+    baseBudget: BigNumberish, quoteBudget: BigNumberish): LiquidityPreview {
+    const [bidPrice, askPrice] = translateTickRange(lowerTick, upperTick)
+    const price = curve.priceRoot
+    const sides: boolean[] = price.lte(bidPrice) ? [false] :
+        price.gte(askPrice) ? [true] : [true, false]
+
+    const caps = sides.map(inBase => sizeRangeLiq(curve, lowerTick, upperTick,
+        inBase ? baseBudget : quoteBudget, true, inBase))
+    let liq = caps.reduce((x, y) => x.lt(y) ? x : y)
+
+    // The collateral buffer already covers the mint rounding, so this loop exits on
+    // the first or second pass in practice.
+    for (;;) {
+        const flows = mintRangeFlows(curve, lowerTick, upperTick, liq)
+        if (liq.isZero() || (flows.baseQty.lte(baseBudget) && flows.quoteQty.lte(quoteBudget))) {
+            return { liq, ...flows }
+        }
+        liq = liq.sub(LIQ_LOT_SIZE)
+    }
+}
+
+/* @notice The largest ambient liquidity whose mint flows fit in both token budgets. */
+export function maxAmbientLiq (curve: CurveState, baseBudget: BigNumberish,
+    quoteBudget: BigNumberish): LiquidityPreview {
+    const baseCap = sizeAmbientLiq(curve, baseBudget, true, true)
+    const quoteCap = sizeAmbientLiq(curve, quoteBudget, true, false)
+    let liq = baseCap.lt(quoteCap) ? baseCap : quoteCap
+
+    for (;;) {
+        const flows = mintAmbientFlows(curve, liq)
+        if (liq.isZero() || (flows.baseQty.lte(baseBudget) && flows.quoteQty.lte(quoteBudget))) {
+            return { liq, ...flows }
+        }
+        liq = liq.sub(1)
+    }
+}
+
+// Mirrors LiquidityCurve.TOKEN_ROUND and Chaining.BUFFER_COLLATERAL
+const TOKEN_ROUND = 4
+const BUFFER_COLLATERAL = 4
+
+const U128_MAX = BigNumber.from(2).pow(128).sub(1)
+
+function rangeFlows (price: BigNumber, liq: BigNumber, lowerTick: number, upperTick: number):
+    [BigNumber, BigNumber, boolean] {
+    const [bidPrice, askPrice] = translateTickRange(lowerTick, upperTick)
+    const zero = BigNumber.from(0)
+    if (price.lt(bidPrice)) {
+        return [zero, deltaQuote(liq, bidPrice, askPrice), false]
+    } else if (price.gte(askPrice)) {
+        return [deltaBase(liq, bidPrice, askPrice), zero, false]
+    } else {
+        return [deltaBase(liq, bidPrice, price), deltaQuote(liq, price, askPrice), true]
+    }
+}
+
+function ambientFlows (curve: CurveState, seeds: BigNumber): TokenAmounts {
+    const liq = inflateLiqSeed(seeds, curve.seedDeflator)
+    return { baseQty: toUint128(mulQ64(liq, curve.priceRoot)),
+        quoteQty: toUint128(divQ64(liq, curve.priceRoot)) }
+}
+
+function chargeConservative (base: BigNumber, quote: BigNumber, inRange: boolean): TokenAmounts {
+    return {
+        baseQty: (base.gt(0) || inRange) ? base.add(TOKEN_ROUND) : BigNumber.from(0),
+        quoteQty: (quote.gt(0) || inRange) ? quote.add(TOKEN_ROUND) : BigNumber.from(0)
+    }
+}
+
+function pinFlow (flows: TokenAmounts, qty: BigNumber, inBase: boolean): TokenAmounts {
+    if (inBase && qty.gt(flows.baseQty)) {
+        return { ...flows, baseQty: qty }
+    } else if (!inBase && qty.gt(flows.quoteQty)) {
+        return { ...flows, quoteQty: qty }
+    }
+    return flows
+}
+
+function bufferCollateral (collateral: BigNumber, isAdd: boolean): BigNumber {
+    if (isAdd) {
+        return collateral.lt(BUFFER_COLLATERAL) ? BigNumber.from(0) :
+            collateral.sub(BUFFER_COLLATERAL)
+    }
+    return collateral.gt(U128_MAX.sub(4)) ? U128_MAX : collateral.add(BUFFER_COLLATERAL)
+}
+
+function translateTickRange (lowerTick: number, upperTick: number): [BigNumber, BigNumber] {
+    if (upperTick <= lowerTick || lowerTick < MIN_TICK || upperTick > MAX_TICK) {
+        throw new Error(`Invalid tick range [${lowerTick}, ${upperTick}]`)
+    }
+    return [getSqrtRatioAtTick(lowerTick), getSqrtRatioAtTick(upperTick)]
+}
+
+function determinePriceRange (curvePrice: BigNumber, lowerTick: number, upperTick: number,
+    inBase: boolean): [BigNumber, BigNumber] {
+    let [bidPrice, askPrice] = translateTickRange(lowerTick, upperTick)
+    if (curvePrice.lte(bidPrice)) {
+        if (inBase) { throw new Error("Range holds no base tokens at the current price") }
+    } else if (curvePrice.gte(askPrice)) {
+        if (!inBase) { throw new Error("Range holds no quote tokens at the current price") }
+    } else if (inBase) {
+        askPrice = curvePrice
+    } else {
+        bidPrice = curvePrice
+    }
+    return [bidPrice, askPrice]
+}
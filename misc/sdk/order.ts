@@ -0,0 +1,324 @@
+import { AbiCoder } from '@ethersproject/abi';
+import { BigNumber, BytesLike, ethers, BigNumberish } from 'ethers';
+
+export function encodeOrderDirective (directive: OrderDirective): BytesLike {
+    let schema = encodeWord(directive.schemaType)
+    let open = encodeSettlement(directive.open)
+    let hops = listEncoding(directive.hops, encodeHop)
+    return ethers.utils.concat([schema, open, hops])
+}
+
+export interface OrderDirective {
+    schemaType: 1
+    open: SettlementDirective
+    hops: HopDirective[]
+}
+
+export interface SettlementDirective {
+    token: string
+    limitQty: BigNumber,
+    dustThresh: BigNumber,
+    useSurplus: boolean
+}
+
+export interface ImproveDirective {
+    isEnabled: boolean,
+    useBaseSide: boolean
+}
+
+export interface ChainingDirective {
+    rollExit: boolean,
+    swapDefer: boolean,
+    offsetSurplus: boolean
+}
+
+export interface HopDirective {
+    pools: PoolDirective[]
+    settlement: SettlementDirective
+    improve: ImproveDirective
+}
+
+export interface PoolDirective {
+    poolIdx: BigNumberish
+    passive: PassiveDirective,
+    swap: SwapDirective
+    chain: ChainingDirective
+}
+
+export interface SwapDirective {
+    isBuy: boolean,
+    inBaseQty: boolean,
+    qty: BigNumber,
+    rollType?: number,
+    limitPrice: BigNumber
+}
+
+export interface PassiveDirective {
+    ambient: AmbientDirective
+    concentrated: ConcentratedDirective[]
+}
+
+export interface AmbientDirective {
+    isAdd: boolean,
+    rollType?: number,
+    liquidity: BigNumber
+}
+
+export interface ConcentratedDirective {
+    lowTick: number,
+    highTick: number,
+    isRelTick: boolean,
+    isAdd: boolean,
+    rollType?: number,
+    liquidity: BigNumber
+}
+
+
+function encodeSettlement (dir: SettlementDirective): BytesLike {
+    let token = encodeToken(dir.token)
+    let limit = encodeSigned(dir.limitQty)
+    let dust = encodeFull(dir.dustThresh)
+    let reserveFlag = encodeWord(dir.useSurplus ? 1 : 0)
+    return ethers.utils.concat([token, limit, dust, reserveFlag])
+}
+
+function encodeHop (hop: HopDirective): BytesLike {
+    let pools = listEncoding(hop.pools, encodePool)
+    let settle = encodeSettlement(hop.settlement)
+    let improve = encodeImprove(hop.improve)
+    return ethers.utils.concat([pools, settle, improve])
+}
+
+function encodeImprove (improve: ImproveDirective): BytesLike {
+    let abiCoder = new ethers.utils.AbiCoder()
+    return abiCoder.encode(["bool", "bool"], [improve.isEnabled, improve.useBaseSide])
+}
+
+function encodeChain (chain: ChainingDirective): BytesLike {
+    let abiCoder = new ethers.utils.AbiCoder()
+    return abiCoder.encode(["bool", "bool", "bool"], [chain.rollExit, chain.swapDefer, chain.offsetSurplus])
+}
+
+function encodePool (pool: PoolDirective): BytesLike {
+    let poolIdx = encodeFull(pool.poolIdx)
+    let passive = encodePassive(pool.passive)
+    let swap = encodeSwap(pool.swap)
+    let chain = encodeChain(pool.chain)
+    return ethers.utils.concat([poolIdx, passive, swap, chain])
+}
+
+function encodeSwap (swap: SwapDirective): BytesLike {
+    let abiCoder = new ethers.utils.AbiCoder()
+    return abiCoder.encode(["bool", "bool", "uint8", "uint128", "uint128"],
+        [swap.isBuy, swap.inBaseQty, swap.rollType ? swap.rollType : 0, swap.qty, swap.limitPrice])
+}
+
+function encodePassive (passive: PassiveDirective): BytesLike {
+    let ambAdd = encodeBool(passive.ambient.isAdd)
+    let rollType = encodeWord(passive.ambient.rollType ? passive.ambient.rollType : 0)
+    let ambLiq = encodeFull(passive.ambient.liquidity)
+    let conc = listEncoding(passive.concentrated, encodeConc)
+    return ethers.utils.concat([ambAdd, rollType, ambLiq, conc])
+}
+
+function encodeConc (conc: ConcentratedDirective): BytesLike {
+    let openTick = encodeJsSigned(conc.lowTick)
+    let closeTick = encodeJsSigned(conc.highTick)
+    let isRelTick = encodeBool(conc.isRelTick)
+    let isAdd = encodeBool(conc.isAdd)
+    let rollType = encodeWord(conc.rollType ? conc.rollType : 0)
+    let liq = encodeFull(conc.liquidity)
+    return ethers.utils.concat([openTick, closeTick, isRelTick, isAdd, rollType, liq])
+}
+
+function listEncoding<T> (elems: T[], encoderFn: (x: T) => BytesLike): BytesLike {
+    let count = encodeWord(elems.length)
+    let vals = elems.map(encoderFn)
+    return ethers.utils.concat([count].concat(vals))
+}
+
+function encodeToken (tokenAddr: BytesLike): BytesLike {    
+    return ethers.utils.hexZeroPad(tokenAddr, 32)
+}
+
+function encodeFull (val: BigNumberish): BytesLike {
+    let abiCoder = new ethers.utils.AbiCoder()
+    return abiCoder.encode(["uint256"], [val]);
+}
+
+function encodeSigned (val: BigNumber): BytesLike {
+    let abiCoder = new ethers.utils.AbiCoder()
+    return abiCoder.encode(["int256"], [val]);
+}
+
+function encodeJsNum (val: number): BytesLike {
+    return encodeFull(BigNumber.from(val))
+}
+
+function encodeJsSigned (val: number): BytesLike {
+    return encodeSigned(BigNumber.from(val))
+}
+
+function encodeWord (val: number): BytesLike {
+    return encodeJsNum(val)
+}
+
+function encodeBool (flag: boolean): BytesLike {
+    return encodeWord(flag ? 1 : 0)
+}
+
+
+/* Parses the raw bytes of a long-form userCmd(LONG_PROXY_IDX) payload back into an
+ * OrderDirective. Inverse of encodeOrderDirective(), mirroring the field layout of
+ * OrderEncoding.decodeOrder() in Encoding.sol. Unlike the on-chain parser, malformed 
+ * input is rejected with an error rather than left to fail downstream. */
+export function decodeOrderDirective (input: BytesLike): OrderDirective {
+    let reader = new OrderReader(ethers.utils.arrayify(input))
+    let schemaType = reader.readWord("schema type")
+    if (schemaType !== LONG_FORM_SCHEMA) {
+        throw new Error(`Unknown long-form schema type ${schemaType} at byte 0`)
+    }
+
+    let open = decodeSettlement(reader)
+    let hops = listDecoding(reader, "hop", decodeHop)
+
+    if (!reader.isDone()) {
+        throw new Error(`Trailing ${reader.remaining()} bytes after order directive at byte ` +
+            `${reader.offset}: count fields do not match payload`)
+    }
+    return { schemaType: LONG_FORM_SCHEMA, open, hops }
+}
+
+const LONG_FORM_SCHEMA = 1
+const WORD_SIZE = 32
+const MAX_LIST_COUNT = 255
+
+class OrderReader {
+    buf: Uint8Array
+    offset: number
+
+    constructor (buf: Uint8Array) {
+        this.buf = buf
+        this.offset = 0
+    }
+
+    readRaw (field: string): Uint8Array {
+        if (this.offset + WORD_SIZE > this.buf.length) {
+            throw new Error(`Truncated order directive: expected ${field} at byte ${this.offset} ` +
+                `but payload is only ${this.buf.length} bytes`)
+        }
+        let word = this.buf.slice(this.offset, this.offset + WORD_SIZE)
+        this.offset += WORD_SIZE
+        return word
+    }
+
+    readFull (field: string): BigNumber {
+        return BigNumber.from(this.readRaw(field))
+    }
+
+    readSigned (field: string): BigNumber {
+        return BigNumber.from(this.readRaw(field)).fromTwos(256)
+    }
+
+    readWord (field: string): number {
+        let val = this.readFull(field)
+        if (val.gt(MAX_LIST_COUNT)) {
+            throw new Error(`Invalid ${field} value ${val.toString()} at byte ${this.offset - WORD_SIZE}`)
+        }
+        return val.toNumber()
+    }
+
+    readBool (field: string): boolean {
+        let val = this.readFull(field)
+        if (val.gt(1)) {
+            throw new Error(`Invalid ${field} flag ${val.toString()} at byte ${this.offset - WORD_SIZE}`)
+        }
+        return val.eq(1)
+    }
+
+    readToken (field: string): string {
+        let word = this.readRaw(field)
+        return ethers.utils.getAddress(ethers.utils.hexlify(word.slice(WORD_SIZE - 20)))
+    }
+
+    isDone(): boolean {
+        return this.offset === this.buf.length
+    }
+
+    remaining(): number {
+        return this.buf.length - this.offset
+    }
+}
+
+function decodeSettlement (reader: OrderReader): SettlementDirective {
+    let token = reader.readToken("settlement token")
+    let limitQty = reader.readSigned("settlement limit qty")
+    let dustThresh = reader.readFull("settlement dust threshold")
+    let useSurplus = reader.readBool("settlement surplus")
+    return { token, limitQty, dustThresh, useSurplus }
+}
+
+function decodeHop (reader: OrderReader): HopDirective {
+    let pools = listDecoding(reader, "pool", decodePool)
+    let settlement = decodeSettlement(reader)
+    let improve = decodeImprove(reader)
+    return { pools, settlement, improve }
+}
+
+function decodeImprove (reader: OrderReader): ImproveDirective {
+    let isEnabled = reader.readBool("improve enabled")
+    let useBaseSide = reader.readBool("improve base side")
+    return { isEnabled, useBaseSide }
+}
+
+function decodeChain (reader: OrderReader): ChainingDirective {
+    let rollExit = reader.readBool("roll exit")
+    let swapDefer = reader.readBool("swap defer")
+    let offsetSurplus = reader.readBool("offset surplus")
+    return { rollExit, swapDefer, offsetSurplus }
+}
+
+function decodePool (reader: OrderReader): PoolDirective {
+    let poolIdx = reader.readFull("pool index")
+    let passive = decodePassive(reader)
+    let swap = decodeSwap(reader)
+    let chain = decodeChain(reader)
+    return { poolIdx, passive, swap, chain }
+}
+
+function decodeSwap (reader: OrderReader): SwapDirective {
+    let isBuy = reader.readBool("swap is buy")
+    let inBaseQty = reader.readBool("swap in base qty")
+    let rollType = reader.readWord("swap roll type")
+    let qty = reader.readFull("swap qty")
+    let limitPrice = reader.readFull("swap limit price")
+    return { isBuy, inBaseQty, rollType, qty, limitPrice }
+}
+
+function decodePassive (reader: OrderReader): PassiveDirective {
+    let isAdd = reader.readBool("ambient is add")
+    let rollType = reader.readWord("ambient roll type")
+    let liquidity = reader.readFull("ambient liquidity")
+    let concentrated = listDecoding(reader, "concentrated", decodeConc)
+    return { ambient: { isAdd, rollType, liquidity }, concentrated }
+}
+
+function decodeConc (reader: OrderReader): ConcentratedDirective {
+    let lowTick = reader.readSigned("low tick").toNumber()
+    let highTick = reader.readSigned("high tick").toNumber()
+    let isRelTick = reader.readBool("relative tick")
+    let isAdd = reader.readBool("concentrated is add")
+    let rollType = reader.readWord("concentrated roll type")
+    let liquidity = reader.readFull("concentrated liquidity")
+    return { lowTick, highTick, isRelTick, isAdd, rollType, liquidity }
+}
+
+function listDecoding<T> (reader: OrderReader, label: string, 
+    decoderFn: (r: OrderReader) => T): T[] {
+    let count = reader.readWord(`${label} count`)
+    let vals: T[] = []
+    for (let i = 0; i < count; ++i) {
+        vals.push(decoderFn(reader))
+    }
+    return vals
+}
@@ -0,0 +1,379 @@
+import { BigNumber, BigNumberish, ethers } from "ethers";
+import { OrderDirective, HopDirective, PoolDirective, SettlementDirective, ConcentratedDirective,
+    AmbientDirective } from "./order";
+import { LIQ_LOT_SIZE, MAX_SQRT_RATIO, MAX_TICK, MIN_SQRT_RATIO, MIN_TICK } from "./commands";
+
+/* Fluent builder for long-form OrderDirectives. The caller states the route as a list of
+ * tokens (A -> B -> C) in the order the user trades through them, and each hop i covers
+ * the pair (route[i], route[i+1]). The builder takes care of the invariants that are easy
+ * to get wrong by hand:
+ *
+ *   - Base/quote sorting per pair, so isBuy and inBaseQty are derived from which side of
+ *     the pair the traded token sits on.
+ *   - Settlement legs line up with the route, so the opening leg is route[0] and each
+ *     hop settles into route[i+1].
+ *   - Rolling swaps (swaps without a fixed qty) pick the swap direction, roll type and
+ *     chaining flags (rollExit, swapDefer, offsetSurplus) needed to neutralize the flow
+ *     they're targeting. See Chaining.sol and LongPath.targetRoll().
+ *
+ * Usage:
+ *     new OrderBuilder([usdc, eth, wbtc], poolIdx)
+ *         .swapRoute(1000000, { minOutput: 5000 })
+ *         .build() */
+export class OrderBuilder {
+    private route: string[]
+    private poolIdx: BigNumberish
+    private hops: HopPlan[]
+    private legs: SettlementDirective[]
+
+    constructor (route: string[], poolIdx: BigNumberish) {
+        if (route.length < 2) {
+            throw new Error("Order route must contain at least two tokens")
+        }
+        route.forEach((token, i) => {
+            if (!ethers.utils.isAddress(token)) {
+                throw new Error(`Route token ${i} (${token}) is not a valid address`)
+            }
+            if (i > 0 && token.toLowerCase() === route[i-1].toLowerCase()) {
+                throw new Error(`Route tokens ${i-1} and ${i} are the same token ${token}`)
+            }
+        })
+
+        this.route = route
+        this.poolIdx = poolIdx
+        this.hops = route.slice(1).map(() => ({ pools: [] }))
+        this.legs = route.map(token => ({ token, limitQty: MAX_LIMIT_QTY,
+            dustThresh: BigNumber.from(0), useSurplus: false }))
+    }
+
+    /* Swaps the hop's entry token for its exit token with a fixed quantity. If qty is
+     * omitted the swap rolls, i.e. sizes itself to neutralize the flow accumulated on
+     * the entry token by the previous hop (or on the exit token if neutralizeExit). */
+    swap (hop: number, opts: SwapLegOpts = {}): OrderBuilder {
+        const pool = this.poolPlan(hop, opts.poolIdx)
+        if (pool.swap) {
+            throw new Error(`Hop ${hop} already has a swap on pool ${pool.poolIdx.toString()}`)
+        }
+        if (opts.qty === undefined && opts.fixedOutput) {
+            throw new Error("Fixed output swaps must specify a qty")
+        }
+        if (opts.qty !== undefined && (opts.neutralizeExit || opts.offsetSurplus)) {
+            throw new Error("neutralizeExit and offsetSurplus only apply to rolling swaps")
+        }
+        pool.swap = { ...opts }
+        return this
+    }
+
+    /* Convenience for a straight exact-input trade along the whole route. Swaps a fixed
+     * qty of route[0] on the first hop, then rolls the full output through every
+     * subsequent hop. */
+    swapRoute (qty: BigNumberish, opts: { minOutput?: BigNumberish,
+        limitPrices?: BigNumberish[] } = {}): OrderBuilder {
+        this.hops.forEach((_, i) => {
+            const limitPrice = opts.limitPrices ? opts.limitPrices[i] : undefined
+            this.swap(i, i === 0 ? { qty, limitPrice } : { limitPrice })
+        })
+        if (opts.minOutput !== undefined) {
+            this.minOutput(opts.minOutput)
+        }
+        return this
+    }
+
+    mintRange (hop: number, lowTick: number, highTick: number, liq: BigNumberish,
+        poolIdx?: BigNumberish): OrderBuilder {
+        return this.rangeAction(hop, lowTick, highTick, liq, true, poolIdx)
+    }
+
+    burnRange (hop: number, lowTick: number, highTick: number, liq: BigNumberish,
+        poolIdx?: BigNumberish): OrderBuilder {
+        return this.rangeAction(hop, lowTick, highTick, liq, false, poolIdx)
+    }
+
+    mintAmbient (hop: number, liq: BigNumberish, poolIdx?: BigNumberish): OrderBuilder {
+        return this.ambientAction(hop, liq, true, poolIdx)
+    }
+
+    burnAmbient (hop: number, liq: BigNumberish, poolIdx?: BigNumberish): OrderBuilder {
+        return this.ambientAction(hop, liq, false, poolIdx)
+    }
+
+    /* Requests off-grid price improvement on the hop. By default the collateral
+     * threshold is denominated in the hop's entry token. */
+    improve (hop: number, useBaseSide?: boolean): OrderBuilder {
+        this.checkHop(hop)
+        this.hops[hop].improve = useBaseSide !== undefined ? useBaseSide :
+            isBaseToken(this.route[hop], this.route[hop+1])
+        return this
+    }
+
+    /* Overrides the settlement parameters for the leg of route[leg]. */
+    settle (leg: number, opts: LegSettleOpts): OrderBuilder {
+        if (leg < 0 || leg >= this.legs.length) {
+            throw new Error(`Settlement leg ${leg} outside of route with ${this.legs.length} tokens`)
+        }
+        const prev = this.legs[leg]
+        this.legs[leg] = {
+            token: prev.token,
+            limitQty: opts.limitQty !== undefined ? BigNumber.from(opts.limitQty) : prev.limitQty,
+            dustThresh: opts.dustThresh !== undefined ? BigNumber.from(opts.dustThresh) : prev.dustThresh,
+            useSurplus: opts.useSurplus !== undefined ? opts.useSurplus : prev.useSurplus
+        }
+        return this
+    }
+
+    /* Reverts the order if the user pays more than qty of the route's first token. */
+    maxInput (qty: BigNumberish): OrderBuilder {
+        return this.settle(0, { limitQty: qty })
+    }
+
+    /* Reverts the order if the user receives less than qty of the route's last token. */
+    minOutput (qty: BigNumberish): OrderBuilder {
+        return this.settle(this.legs.length - 1, { limitQty: BigNumber.from(qty).mul(-1) })
+    }
+
+    build(): OrderDirective {
+        let prevExit: FlowSigns = new Set()
+        const hops: HopDirective[] = this.hops.map((hop, i) => {
+            if (hop.pools.length === 0) {
+                throw new Error(`Hop ${i} (${this.route[i]} -> ${this.route[i+1]}) has no actions`)
+            }
+            const built = this.buildHop(i, hop, prevExit)
+            prevExit = built.exitSigns
+            return built.hop
+        })
+        return { schemaType: 1, open: this.legs[0], hops }
+    }
+
+    private buildHop (i: number, hop: HopPlan, prevExit: FlowSigns):
+        { hop: HopDirective, exitSigns: FlowSigns } {
+        const entry = this.route[i]
+        const exit = this.route[i+1]
+        const entryIsBase = isBaseToken(entry, exit)
+
+        // Flow signs accumulated on the pair so far, from the perspective of the user:
+        // +1 is a debit (user owes the pool), -1 is a credit.
+        const entrySigns: FlowSigns = new Set(prevExit)
+        const exitSigns: FlowSigns = new Set()
+
+        const pools = hop.pools.map((plan, j) => {
+            const passiveSign = passiveFlowSign(plan)
+            if (!plan.swap) {
+                addSign(entrySigns, passiveSign)
+                addSign(exitSigns, passiveSign)
+                return buildPool(plan, emptySwap(), false, false, false)
+            }
+
+            const opts = plan.swap
+            const deferred = !!opts.afterLiquidity && passiveSign !== 0
+            if (deferred) {
+                addSign(entrySigns, passiveSign)
+                addSign(exitSigns, passiveSign)
+            }
+
+            let swap: SwapPlanBuilt
+            if (opts.qty !== undefined) {
+                swap = fixedSwap(opts, entryIsBase)
+            } else {
+                // With rollExit the dex resets the rolled leg balance to zero, so only
+                // flows within this pair count towards the roll target.
+                const target = opts.neutralizeExit ? exitSigns : entrySigns
+                const sign = resolveSign(target, `hop ${i} pool ${j}`)
+                const tokenIsBase = opts.neutralizeExit ? !entryIsBase : entryIsBase
+                swap = rollingSwap(opts, sign, tokenIsBase, !!opts.neutralizeExit)
+            }
+
+            addSign(entrySigns, swap.sellsEntry ? 1 : -1)
+            addSign(exitSigns, swap.sellsEntry ? -1 : 1)
+            if (!deferred) {
+                addSign(entrySigns, passiveSign)
+                addSign(exitSigns, passiveSign)
+            }
+            return buildPool(plan, swap.directive, !!opts.neutralizeExit, deferred,
+                !!opts.offsetSurplus)
+        })
+
+        return {
+            hop: { pools, settlement: this.legs[i+1],
+                improve: { isEnabled: hop.improve !== undefined, useBaseSide: !!hop.improve } },
+            exitSigns
+        }
+    }
+
+    private rangeAction (hop: number, lowTick: number, highTick: number, liq: BigNumberish,
+        isAdd: boolean, poolIdx?: BigNumberish): OrderBuilder {
+        if (!Number.isInteger(lowTick) || !Number.isInteger(highTick) ||
+            lowTick < MIN_TICK || highTick > MAX_TICK || lowTick >= highTick) {
+            throw new Error(`Invalid range [${lowTick}, ${highTick}]`)
+        }
+        if (!BigNumber.from(liq).mod(LIQ_LOT_SIZE).eq(0) || BigNumber.from(liq).lte(0)) {
+            throw new Error(`Range liquidity ${liq.toString()} must be a positive multiple of ${LIQ_LOT_SIZE}`)
+        }
+        const pool = this.poolPlan(hop, poolIdx)
+        pool.concs.push({ lowTick, highTick, isRelTick: false, isAdd, rollType: NO_ROLL_TYPE,
+            liquidity: BigNumber.from(liq) })
+        return this
+    }
+
+    private ambientAction (hop: number, liq: BigNumberish, isAdd: boolean,
+        poolIdx?: BigNumberish): OrderBuilder {
+        if (BigNumber.from(liq).lte(0)) {
+            throw new Error(`Ambient liquidity ${liq.toString()} must be positive`)
+        }
+        const pool = this.poolPlan(hop, poolIdx)
+        if (pool.ambient) {
+            throw new Error(`Hop ${hop} already has an ambient action on pool ${pool.poolIdx.toString()}`)
+        }
+        pool.ambient = { isAdd, rollType: NO_ROLL_TYPE, liquidity: BigNumber.from(liq) }
+        return this
+    }
+
+    private poolPlan (hop: number, poolIdx?: BigNumberish): PoolPlan {
+        this.checkHop(hop)
+        const idx = BigNumber.from(poolIdx !== undefined ? poolIdx : this.poolIdx)
+        let plan = this.hops[hop].pools.find(p => p.poolIdx.eq(idx))
+        if (!plan) {
+            plan = { poolIdx: idx, concs: [] }
+            this.hops[hop].pools.push(plan)
+        }
+        return plan
+    }
+
+    private checkHop (hop: number) {
+        if (hop < 0 || hop >= this.hops.length) {
+            throw new Error(`Hop ${hop} outside of route with ${this.hops.length} hops`)
+        }
+    }
+}
+
+export interface SwapLegOpts {
+    // If omitted the swap rolls against the accumulated flow
+    qty?: BigNumberish,
+    // If true, qty is denominated in the hop's exit token rather than the entry token
+    fixedOutput?: boolean,
+    limitPrice?: BigNumberish,
+    poolIdx?: BigNumberish,
+    // Execute the swap after the mints/burns on the same pool (swapDefer)
+    afterLiquidity?: boolean,
+    // Rolling swaps only: neutralize the exit token flow within the pair (rollExit)
+    neutralizeExit?: boolean,
+    // Rolling swaps only: count the user's surplus collateral towards the roll target
+    offsetSurplus?: boolean
+}
+
+export interface LegSettleOpts {
+    limitQty?: BigNumberish,
+    dustThresh?: BigNumberish,
+    useSurplus?: boolean
+}
+
+// See Chaining.sol for roll type semantics
+export const NO_ROLL_TYPE = 0;
+export const ROLL_PASS_POS_TYPE = 1;
+export const ROLL_PASS_NEG_TYPE = 2;
+export const ROLL_FRAC_TYPE = 4;
+export const ROLL_DEBIT_TYPE = 5;
+export const ROLL_CREDIT_TYPE = 6;
+
+const MAX_LIMIT_QTY = BigNumber.from(2).pow(127).sub(1)
+
+interface HopPlan {
+    pools: PoolPlan[]
+    improve?: boolean
+}
+
+interface PoolPlan {
+    poolIdx: BigNumber
+    ambient?: AmbientDirective
+    concs: ConcentratedDirective[]
+    swap?: SwapLegOpts
+}
+
+interface SwapPlanBuilt {
+    directive: PoolDirective["swap"]
+    sellsEntry: boolean
+}
+
+type FlowSigns = Set<number>
+
+function fixedSwap (opts: SwapLegOpts, entryIsBase: boolean): SwapPlanBuilt {
+    // Fixed swaps always trade along the route: pay the entry token, receive the exit.
+    const isBuy = entryIsBase
+    const inBaseQty = opts.fixedOutput ? !entryIsBase : entryIsBase
+    return {
+        directive: { isBuy, inBaseQty, rollType: NO_ROLL_TYPE, qty: BigNumber.from(opts.qty),
+            limitPrice: limitPrice(opts, isBuy) },
+        sellsEntry: true
+    }
+}
+
+function rollingSwap (opts: SwapLegOpts, sign: number, tokenIsBase: boolean,
+    isExit: boolean): SwapPlanBuilt {
+    // A debit on the target token is neutralized by buying it from the pool, a credit
+    // by selling it back.
+    const buysToken = sign > 0
+    const isBuy = buysToken ? !tokenIsBase : tokenIsBase
+    return {
+        directive: { isBuy, inBaseQty: tokenIsBase, rollType: ROLL_DEBIT_TYPE,
+            qty: BigNumber.from(0), limitPrice: limitPrice(opts, isBuy) },
+        sellsEntry: isExit ? buysToken : !buysToken
+    }
+}
+
+function limitPrice (opts: SwapLegOpts, isBuy: boolean): BigNumber {
+    if (opts.limitPrice !== undefined) {
+        return BigNumber.from(opts.limitPrice)
+    }
+    return isBuy ? MAX_SQRT_RATIO.sub(1) : MIN_SQRT_RATIO
+}
+
+function buildPool (plan: PoolPlan, swap: PoolDirective["swap"], rollExit: boolean,
+    swapDefer: boolean, offsetSurplus: boolean): PoolDirective {
+    return {
+        poolIdx: plan.poolIdx,
+        passive: {
+            ambient: plan.ambient ? plan.ambient :
+                { isAdd: false, rollType: NO_ROLL_TYPE, liquidity: BigNumber.from(0) },
+            concentrated: plan.concs
+        },
+        swap,
+        chain: { rollExit, swapDefer, offsetSurplus }
+    }
+}
+
+function emptySwap(): PoolDirective["swap"] {
+    return { isBuy: false, inBaseQty: false, rollType: NO_ROLL_TYPE, qty: BigNumber.from(0),
+        limitPrice: BigNumber.from(0) }
+}
+
+// Mints debit both sides of the pair to the user, burns credit both sides. Returns 0
+// if the pool has no passive actions, or NaN if it mixes mints and burns.
+function passiveFlowSign (plan: PoolPlan): number {
+    const signs: FlowSigns = new Set()
+    if (plan.ambient) {
+        signs.add(plan.ambient.isAdd ? 1 : -1)
+    }
+    plan.concs.forEach(c => signs.add(c.isAdd ? 1 : -1))
+    if (signs.size === 0) { return 0 }
+    return signs.size === 1 ? signs.values().next().value as number : NaN
+}
+
+function addSign (signs: FlowSigns, sign: number) {
+    if (sign !== 0) {
+        signs.add(sign)
+    }
+}
+
+function resolveSign (signs: FlowSigns, label: string): number {
+    if (signs.size === 0) {
+        throw new Error(`Rolling swap on ${label} has no prior flow to roll. Specify a qty`)
+    }
+    if (signs.size > 1 || signs.has(NaN)) {
+        throw new Error(`Rolling swap on ${label} targets mixed debit and credit flows. ` +
+            `Specify a qty`)
+    }
+    return signs.values().next().value as number
+}
+
+function isBaseToken (token: string, other: string): boolean {
+    return BigNumber.from(token).lt(BigNumber.from(other))
+}
@@ -0,0 +1,360 @@
+import { AbiCoder } from "@ethersproject/abi";
+import { BigNumber, BytesLike, ethers } from "ethers";
+import { AUTHORITY_TRANSFER_CODE, BOOT_PROXY_IDX, COLD_PROXY_IDX, COLLECT_TREASURY_CODE,
+    DISABLE_TEMPLATE_CODE, FLAG_CROSS_PROXY_IDX, HOT_OPEN_CODE, INIT_POOL_LIQ_CODE,
+    KNOCKOUT_LP_PROXY_IDX, LONG_PROXY_IDX, LP_PROXY_IDX, MICRO_PROXY_IDX, MULTICALL_PROXY_IDX,
+    OFF_GRID_CODE, POOL_REVISE_CODE, POOL_TEMPLATE_CODE, RELAYER_TAKE_CODE, RESYNC_TAKE_CODE,
+    SAFE_MODE_CODE, SAFE_MODE_PROXY_PATH, SET_TAKE_CODE, SET_TREASURY_CODE, SWAP_PROXY_IDX,
+    UPGRADE_DEX_CODE } from "./commands";
+
+/* Decodes protocolCmd() payloads and the CrocPolicy calls that wrap them into labelled,
+ * typed fields, so multisig signers can confirm what a resolution does before signing.
+ * Inverse of the protocol command builders in commands.ts.
+ *
+ * Each field carries the raw decoded value and, where the unit isn't obvious, a note
+ * with the human readable meaning (e.g. a fee rate of 2500 is 0.25%). */
+
+export interface DecodedField {
+    name: string
+    type: string
+    value: string
+    note?: string
+}
+
+export interface DecodedProtocolCmd {
+    callpath: number
+    proxyPath: string
+    code: number
+    command: string
+    // False if the code isn't handled by the callpath. Fields are the raw 32-byte words.
+    known: boolean
+    // True if the dex only accepts the command with sudo privilege
+    sudo: boolean
+    fields: DecodedField[]
+}
+
+export interface DecodedPolicyCall {
+    method: string
+    fields: DecodedField[]
+    // The protocolCmd() calls the policy will make on the dex
+    protocolCmds: DecodedProtocolCmd[]
+}
+
+/* @notice Human readable name of a proxy sidecar slot. */
+export function proxyPathName (callpath: number): string {
+    const name = PROXY_NAMES[callpath]
+    return name !== undefined ? name : `Unknown proxy ${callpath}`
+}
+
+/* @notice Human readable name of a protocolCmd code. */
+export function protocolCmdName (code: number): string {
+    const spec = CMD_SPECS[code]
+    return spec !== undefined ? spec.name : `Unknown command ${code}`
+}
+
+/* @notice Decodes a protocolCmd() payload for the given callpath. Unknown codes are
+ *         returned with known=false rather than throwing, but a payload that doesn't
+ *         match its code's layout throws. */
+export function decodeProtocolCmd (callpath: number, cmd: BytesLike): DecodedProtocolCmd {
+    const bytes = ethers.utils.arrayify(cmd)
+    if (bytes.length < 32 || bytes.length % 32 !== 0) {
+        throw new Error(`Protocol command must be a whole number of 32-byte words, ` +
+            `got ${bytes.length} bytes`)
+    }
+    const code = BigNumber.from(bytes.slice(0, 32)).toNumber()
+    const spec = CMD_SPECS[code]
+    const proxyPath = proxyPathName(callpath)
+
+    if (spec === undefined || spec.callpaths.indexOf(callpath) < 0) {
+        let fields: DecodedField[] = []
+        for (let i = 32; i < bytes.length; i += 32) {
+            fields.push({ name: `word${i / 32}`, type: "bytes32",
+                value: ethers.utils.hexlify(bytes.slice(i, i + 32)) })
+        }
+        const note = spec === undefined ? "not a ProtocolCmd.sol code" :
+            `${spec.name} isn't handled by ${proxyPath}`
+        return { callpath, proxyPath, code, command: protocolCmdName(code), known: false,
+            sudo: false, fields: fields.concat([{ name: "warning", type: "string", value: note }]) }
+    }
+
+    const types = ["uint8"].concat(spec.args.map(a => a.type))
+    if (bytes.length !== types.length * 32) {
+        throw new Error(`Malformed ${spec.name} command: expected ${types.length * 32} bytes, ` +
+            `got ${bytes.length}`)
+    }
+    const vals = new AbiCoder().decode(types, bytes)
+    const fields = spec.args.map((a, i) => decodedField(a, vals[i + 1]))
+    return { callpath, proxyPath, code, command: spec.name, known: true, sudo: spec.sudo, fields }
+}
+
+export const CROC_POLICY_ABI = [
+    "function opsResolution(address minion, uint16 proxyPath, bytes cmd)",
+    "function treasuryResolution(address minion, uint16 proxyPath, bytes cmd, bool sudo)",
+    "function emergencyHalt(address minion, string reason)",
+    "function setPolicy(address conduit, uint16 proxyPath, tuple(bytes32 cmdFlags_, uint32 mandateTime_, uint32 expiryOffset_) policy)",
+    "function forcePolicy(address conduit, uint16 proxyPath, tuple(bytes32 cmdFlags_, uint32 mandateTime_, uint32 expiryOffset_) policy)",
+    "function transferGovernance(address ops, address treasury, address emergency)",
+    "function invokePolicy(address minion, uint16 proxyPath, bytes cmd)"
+]
+
+const CROC_POLICY_IFACE = new ethers.utils.Interface(CROC_POLICY_ABI)
+
+/* @notice Decodes calldata to CrocPolicy, including the protocol command(s) it forwards
+ *         to the dex. Throws if the selector isn't a known CrocPolicy method. */
+export function decodePolicyCall (calldata: BytesLike): DecodedPolicyCall {
+    let call: ethers.utils.TransactionDescription
+    try {
+        call = CROC_POLICY_IFACE.parseTransaction({ data: ethers.utils.hexlify(calldata) })
+    } catch {
+        throw new Error(`Calldata selector ${ethers.utils.hexlify(calldata).slice(0, 10)} ` +
+            `isn't a known CrocPolicy method`)
+    }
+    const a = call.args
+
+    switch (call.name) {
+        case "opsResolution":
+        case "invokePolicy":
+            return { method: call.name, fields: [addrField("minion", a.minion),
+                proxyField(a.proxyPath), sudoField(false)],
+                protocolCmds: [decodeProtocolCmd(a.proxyPath, a.cmd)] }
+
+        case "treasuryResolution":
+            return { method: call.name, fields: [addrField("minion", a.minion),
+                proxyField(a.proxyPath), sudoField(a.sudo)],
+                protocolCmds: [decodeProtocolCmd(a.proxyPath, a.cmd)] }
+
+        case "emergencyHalt": {
+            const abi = new AbiCoder()
+            return { method: call.name, fields: [addrField("minion", a.minion),
+                { name: "reason", type: "string", value: a.reason }],
+                protocolCmds: [
+                    decodeProtocolCmd(COLD_PROXY_IDX, abi.encode(["uint8", "bool"], [HOT_OPEN_CODE, false])),
+                    decodeProtocolCmd(COLD_PROXY_IDX, abi.encode(["uint8", "bool"], [SAFE_MODE_CODE, true]))] }
+        }
+
+        case "setPolicy":
+        case "forcePolicy":
+            return { method: call.name, fields: [addrField("conduit", a.conduit),
+                proxyField(a.proxyPath)].concat(policyRuleFields(a.policy)), protocolCmds: [] }
+
+        default:
+            return { method: call.name, fields: [addrField("ops", a.ops),
+                addrField("treasury", a.treasury), addrField("emergency", a.emergency)],
+                protocolCmds: [] }
+    }
+}
+
+/* @notice Renders a decoded policy call as indented text lines for terminal output. */
+export function formatPolicyCall (call: DecodedPolicyCall): string[] {
+    let lines = [`CrocPolicy.${call.method}()`].concat(call.fields.map(f => "  " + formatDecodedField(f)))
+    call.protocolCmds.forEach(cmd => {
+        lines = lines.concat(formatProtocolCmd(cmd).map(l => "  " + l))
+    })
+    return lines
+}
+
+/* @notice Renders a decoded protocol command as indented text lines. */
+export function formatProtocolCmd (cmd: DecodedProtocolCmd): string[] {
+    const header = `protocolCmd ${cmd.command} (code ${cmd.code}) on ${cmd.proxyPath}` +
+        (cmd.sudo ? " [sudo]" : "")
+    return [header].concat(cmd.fields.map(f => "  " + formatDecodedField(f)))
+}
+
+/* @notice One line rendering of a decoded field, with its note if any. */
+export function formatDecodedField (f: DecodedField): string {
+    return `${f.name} (${f.type}): ${f.value}` + (f.note !== undefined ? ` -- ${f.note}` : "")
+}
+
+/* @notice Name and ABI type of a command argument, with an optional note on the meaning
+ *         of its decoded value. Shared with the userCmd specs in userCmdDecoder.ts. */
+export interface ArgSpec {
+    name: string
+    type: string
+    describe?: (val: DecodedValue) => string | undefined
+}
+
+/* @notice A value as ethers ABI decodes it: a number for integers up to 48 bits and a
+ *         BigNumber above, a string for addresses and bytes, and a list for arrays. */
+export type DecodedValue = BigNumber | number | boolean | string | DecodedValue[]
+
+/* @notice Labels a decoded argument value with its spec. */
+export function decodedField (arg: ArgSpec, val: DecodedValue): DecodedField {
+    const value = formatDecodedValue(val)
+    const note = arg.describe ? arg.describe(val) : undefined
+    return note !== undefined ? { name: arg.name, type: arg.type, value, note } :
+        { name: arg.name, type: arg.type, value }
+}
+
+/* @notice Text form of an ABI decoded value. */
+export function formatDecodedValue (val: DecodedValue): string {
+    if (BigNumber.isBigNumber(val)) {
+        return val.toString()
+    }
+    if (Array.isArray(val)) {
+        return `[${val.map(formatDecodedValue).join(", ")}]`
+    }
+    return String(val)
+}
+
+/* @notice A decoded integer as a number, for the small fields notes are worked out from. */
+export function decodedNumber (val: DecodedValue): number {
+    if (typeof val === "number") {
+        return val
+    }
+    if (BigNumber.isBigNumber(val)) {
+        return val.toNumber()
+    }
+    throw new Error(`Decoded value ${formatDecodedValue(val)} isn't an integer`)
+}
+
+/* @notice Note for token addresses, which are zero for native ETH. */
+export function nativeEthNote (addr: DecodedValue): string | undefined {
+    return addr === ethers.constants.AddressZero ? "native ETH" : undefined
+}
+
+interface CmdSpec {
+    name: string
+    sudo: boolean
+    callpaths: number[]
+    args: ArgSpec[]
+}
+
+// SafeModePath forwards sudo commands to the same handlers as ColdPath, which is how the
+// dex exits safe mode once ColdPath is disabled.
+const SUDO_PATHS = [COLD_PROXY_IDX, SAFE_MODE_PROXY_PATH]
+
+const CMD_SPECS: Record<number, CmdSpec> = {
+    [AUTHORITY_TRANSFER_CODE]: { name: "AuthorityTransfer", sudo: true, callpaths: SUDO_PATHS,
+        args: [{ name: "authority", type: "address",
+            describe: () => "new dex authority, must be a contract that accepts the role" }] },
+    [UPGRADE_DEX_CODE]: { name: "UpgradeProxy", sudo: true, callpaths: [BOOT_PROXY_IDX],
+        args: [{ name: "proxy", type: "address" },
+               { name: "proxyIdx", type: "uint16", describe: (v) => proxyPathName(decodedNumber(v)) }] },
+    [HOT_OPEN_CODE]: { name: "HotPathOpen", sudo: true, callpaths: SUDO_PATHS,
+        args: [{ name: "open", type: "bool",
+            describe: (v) => v ? "swaps allowed on the dex hot path" : "swaps must use the HotProxy sidecar" }] },
+    [SAFE_MODE_CODE]: { name: "SafeMode", sudo: true, callpaths: SUDO_PATHS,
+        args: [{ name: "inSafeMode", type: "bool",
+            describe: (v) => v ? "enter safe mode, only sudo commands on SafeModePath allowed" :
+                "exit safe mode" }] },
+    [COLLECT_TREASURY_CODE]: { name: "CollectTreasury", sudo: true, callpaths: SUDO_PATHS,
+        args: [{ name: "token", type: "address", describe: nativeEthNote }] },
+    [SET_TREASURY_CODE]: { name: "SetTreasury", sudo: true, callpaths: SUDO_PATHS,
+        args: [{ name: "treasury", type: "address" }] },
+
+    [DISABLE_TEMPLATE_CODE]: { name: "DisableTemplate", sudo: false, callpaths: [COLD_PROXY_IDX],
+        args: [{ name: "poolIdx", type: "uint256" }] },
+    [POOL_TEMPLATE_CODE]: { name: "PoolTemplate", sudo: false, callpaths: [COLD_PROXY_IDX],
+        args: [{ name: "poolIdx", type: "uint256" }, feeRateArg(), tickSizeArg(),
+               jitThreshArg(), knockoutArg(),
+               { name: "oracleFlags", type: "uint8",
+                 describe: (v) => (decodedNumber(v) & 0x1) ? "permissioned, oracle checked on every call" : "permissionless" }] },
+    [POOL_REVISE_CODE]: { name: "PoolRevise", sudo: false, callpaths: [COLD_PROXY_IDX],
+        args: [{ name: "base", type: "address", describe: nativeEthNote },
+               { name: "quote", type: "address" }, { name: "poolIdx", type: "uint256" },
+               feeRateArg(), tickSizeArg(), jitThreshArg(), knockoutArg()] },
+    [INIT_POOL_LIQ_CODE]: { name: "InitPoolLiq", sudo: false, callpaths: [COLD_PROXY_IDX],
+        args: [{ name: "liq", type: "uint128",
+            describe: () => "liquidity burned by the initializer of each new pool" }] },
+    [OFF_GRID_CODE]: { name: "OffGridPriceImprove", sudo: false, callpaths: [COLD_PROXY_IDX],
+        args: [{ name: "token", type: "address", describe: nativeEthNote },
+               { name: "unitTickCollateral", type: "uint128",
+                 describe: (v) => BigNumber.from(v).isZero() ? "off-grid range orders disabled" :
+                    "collateral required per tick of off-grid range width" },
+               { name: "awayTickTol", type: "uint16",
+                 describe: (v) => `off-grid ticks within ${v} of the price need no collateral` }] },
+    [SET_TAKE_CODE]: { name: "SetTakeRate", sudo: false, callpaths: [COLD_PROXY_IDX],
+        args: [takeRateArg("protocol take on new pools")] },
+    [RESYNC_TAKE_CODE]: { name: "ResyncTakeRate", sudo: false, callpaths: [COLD_PROXY_IDX],
+        args: [{ name: "base", type: "address", describe: nativeEthNote },
+               { name: "quote", type: "address" },
+               { name: "poolIdx", type: "uint256",
+                 describe: () => "pool's take rate reset to the current protocol take rate" }] },
+    [RELAYER_TAKE_CODE]: { name: "SetRelayerTakeRate", sudo: false, callpaths: [COLD_PROXY_IDX],
+        args: [takeRateArg("protocol take on relayer tips")] }
+}
+
+const PROXY_NAMES: Record<number, string> = {
+    [BOOT_PROXY_IDX]: "BootPath",
+    [SWAP_PROXY_IDX]: "HotProxy",
+    [LP_PROXY_IDX]: "WarmPath",
+    [COLD_PROXY_IDX]: "ColdPath",
+    [LONG_PROXY_IDX]: "LongPath",
+    [MICRO_PROXY_IDX]: "MicroPaths",
+    [MULTICALL_PROXY_IDX]: "Multicall",
+    [KNOCKOUT_LP_PROXY_IDX]: "KnockoutLiqPath",
+    [FLAG_CROSS_PROXY_IDX]: "KnockoutFlagPath",
+    [SAFE_MODE_PROXY_PATH]: "SafeModePath"
+}
+
+function feeRateArg(): ArgSpec {
+    // Hundredths of a basis point
+    return { name: "feeRate", type: "uint16", describe: (v) => `${decodedNumber(v) / 10000}% swap fee` }
+}
+
+function tickSizeArg(): ArgSpec {
+    return { name: "tickSize", type: "uint16",
+        describe: (v) => `range orders every ${v} ticks (~${decodedNumber(v) / 100}%)` }
+}
+
+function jitThreshArg(): ArgSpec {
+    // Units of 10 seconds
+    return { name: "jitThresh", type: "uint8", describe: (v) => v === 0 ?
+        "no minimum range order lifetime" : `range orders must live at least ${decodedNumber(v) * 10} seconds` }
+}
+
+function knockoutArg(): ArgSpec {
+    return { name: "knockoutBits", type: "uint8", describe: (v) => describeKnockoutBits(decodedNumber(v)) }
+}
+
+function takeRateArg (what: string): ArgSpec {
+    // Units of 1/256 of the fee rate
+    return { name: "takeRate", type: "uint8",
+        describe: (v) => `${(decodedNumber(v) * 100 / 256).toFixed(2)}% of fees as ${what}` }
+}
+
+// Mirrors KnockoutLiq.unpackBits()
+function describeKnockoutBits (bits: number): string {
+    const widthBits = bits & 0x0F
+    const flagBits = (bits & 0x30) >> 4
+    if (flagBits === 0) {
+        return "knockout liquidity disabled"
+    }
+    return `knockout enabled, ${2 ** widthBits} ticks wide, ` +
+        (flagBits >= 2 ? "mintable in range, " : "out of range only, ") +
+        ((bits & 0x40) > 0 ? "on grid" : "off grid")
+}
+
+function addrField (name: string, addr: string): DecodedField {
+    return { name, type: "address", value: addr }
+}
+
+function proxyField (proxyPath: number): DecodedField {
+    return { name: "proxyPath", type: "uint16", value: String(proxyPath), note: proxyPathName(proxyPath) }
+}
+
+function sudoField (sudo: boolean): DecodedField {
+    return sudo ? { name: "sudo", type: "bool", value: "true",
+        note: "elevated privilege for treasury-only commands" } :
+        { name: "sudo", type: "bool", value: "false" }
+}
+
+function policyRuleFields (rule: ethers.utils.Result): DecodedField[] {
+    const flags = BigNumber.from(rule.cmdFlags_)
+    let codes: string[] = []
+    for (let i = 0; i < 256; ++i) {
+        if (!flags.shr(i).and(1).isZero()) {
+            codes.push(`${i} ${protocolCmdName(i)}`)
+        }
+    }
+    const mandate: number = rule.mandateTime_
+    const expiry: number = rule.expiryOffset_
+    return [
+        { name: "cmdFlags", type: "bytes32", value: rule.cmdFlags_,
+          note: codes.length > 0 ? "allows " + codes.join(", ") : "revokes all commands" },
+        { name: "mandateTime", type: "uint32", value: String(mandate), note: mandate === 0 ?
+            "no mandate" : `can't be weakened by ops before ${new Date(mandate * 1000).toISOString()}` },
+        { name: "expiryOffset", type: "uint32", value: String(expiry),
+          note: `expires ${new Date((mandate + expiry) * 1000).toISOString()}` }
+    ]
+}
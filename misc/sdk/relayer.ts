@@ -0,0 +1,328 @@
+import { BigNumber, BigNumberish, BytesLike, ContractTransaction, ethers } from "ethers";
+import { Provider, TransactionReceipt } from "@ethersproject/providers";
+import { TypedDataDomain, TypedDataSigner } from "@ethersproject/abstract-signer";
+import { CrocUserCmd } from "./commands";
+import { describeError } from "./revertDecoder";
+import { SlotReader } from "./swapSimulator";
+import { BAL_MAP_SLOT, decodeUserBalance, FLAGS_SLOT, mapSlot, nonceKey, RELAYER_TAKE_BYTE } from "./storageSlots";
+
+/* Signs and submits EIP-712 relayer calls for userCmdRelayer(). A relayer call lets a
+ * third party submit any userCmd on the signer's behalf, with the signer optionally
+ * tipping the relayer from their surplus collateral. See AgentMask.sol for the on-chain
+ * checks.
+ *
+ * Nonces are tracked per salt, mirroring AgentMask.nonceKey(). Each salt is an
+ * independent nonce track, so calls on different salts never wait on each other. Calls
+ * on the same salt must land in nonce order. */
+
+export const RELAYER_DOMAIN_NAME = "CrocSwap"
+export const RELAYER_DOMAIN_VERSION = "1.0"
+
+// The contract's type hash declares callpath as uint8 (see AgentMask.CALL_SIG_HASH), so
+// only callpaths below 256 can be signed.
+export const RELAYER_CALL_TYPES = {
+    CrocRelayerCall: [
+        { name: "callpath", type: "uint8" },
+        { name: "cmd", type: "bytes" },
+        { name: "conds", type: "bytes" },
+        { name: "tip", type: "bytes" }
+    ]
+}
+
+// Magic tip receivers, resolved by the dex at execution time (see AgentMask.maskTipRecv())
+export const TIP_RECV_SENDER = "0x0000000000000000000000000000000000000100"
+export const TIP_RECV_ORIGIN = "0x0000000000000000000000000000000000000200"
+
+// Tips the signer's full surplus balance in the tip token
+export const TIP_FULL_SURPLUS = BigNumber.from(2).pow(128).sub(1)
+
+export interface RelayConds {
+    // Block time the call must be executed by
+    deadline: number
+    // Block time the call can't be executed before
+    alive: number
+    salt: BytesLike
+    nonce: number
+    // Required msg.sender or tx.origin of the relay, or zero for any relayer
+    relayer: string
+}
+
+export interface RelayTip {
+    token: string
+    amount: BigNumberish
+    recv: string
+}
+
+export interface SignedRelayerCall {
+    signer: string
+    callpath: number
+    cmd: string
+    conds: string
+    tip: string
+    // ABI encoded (v, r, s) as expected by userCmdRelayer()
+    signature: string
+}
+
+export interface RelayerCallOpts {
+    tip?: RelayTip
+    salt?: BytesLike
+    // Defaults to the next tracked nonce on the salt
+    nonce?: number
+    deadline?: number
+    alive?: number
+    relayer?: string
+}
+
+export interface RelayerClientOpts {
+    // Address of the CrocSwapDex contract
+    dex: string
+    chainId: number
+    // Default nonce track for calls that don't set one
+    salt?: BytesLike
+    // Default deadline for calls that don't set one, in seconds from signing
+    ttlSecs?: number
+    // Default required relayer
+    relayer?: string
+}
+
+export function encodeRelayConds (conds: RelayConds): string {
+    return ethers.utils.defaultAbiCoder.encode(["uint48", "uint48", "bytes32", "uint32", "address"],
+        [conds.deadline, conds.alive, conds.salt, conds.nonce, conds.relayer])
+}
+
+export function decodeRelayConds (conds: BytesLike): RelayConds {
+    const [deadline, alive, salt, nonce, relayer] = ethers.utils.defaultAbiCoder.decode(
+        ["uint48", "uint48", "bytes32", "uint32", "address"], conds)
+    return { deadline, alive, salt, nonce, relayer }
+}
+
+/* @notice Encodes the relayer tip. No tip encodes to empty bytes, which the dex skips. */
+export function encodeRelayTip (tip?: RelayTip): string {
+    return tip ? ethers.utils.defaultAbiCoder.encode(["address", "uint128", "address"],
+        [tip.token, tip.amount, tip.recv]) : "0x"
+}
+
+export function decodeRelayTip (tip: BytesLike): RelayTip | undefined {
+    if (ethers.utils.hexDataLength(tip) === 0) {
+        return undefined
+    }
+    const [token, amount, recv] = ethers.utils.defaultAbiCoder.decode(
+        ["address", "uint128", "address"], tip)
+    return { token, amount, recv }
+}
+
+export function relayerDomain (chainId: number, dex: string): TypedDataDomain {
+    return { name: RELAYER_DOMAIN_NAME, version: RELAYER_DOMAIN_VERSION, chainId,
+        verifyingContract: dex }
+}
+
+/* @notice The EIP-712 digest the signer signs. Mirrors AgentMask.checksumHash() */
+export function relayerCallDigest (call: Omit<SignedRelayerCall, "signer" | "signature">,
+    chainId: number, dex: string): string {
+    return ethers.utils._TypedDataEncoder.hash(relayerDomain(chainId, dex), RELAYER_CALL_TYPES,
+        relayerCallValue(call))
+}
+
+/* @notice Recovers the address that signed a relayer call, the same way
+ *         AgentMask.verifySignature() does. */
+export function recoverRelayerSigner (call: SignedRelayerCall, chainId: number, dex: string): string {
+    const [v, r, s] = ethers.utils.defaultAbiCoder.decode(["uint8", "bytes32", "bytes32"],
+        call.signature)
+    return ethers.utils.recoverAddress(relayerCallDigest(call, chainId, dex), { v, r, s })
+}
+
+/* @notice Reads the current on-chain nonce for the user and salt. */
+export async function queryRelayNonce (dex: SlotReader, user: string, salt: BytesLike): Promise<number> {
+    return decodeUserBalance(await dex.readSlot(mapSlot(nonceKey(user, salt), BAL_MAP_SLOT))).nonce
+}
+
+/* @notice Reads the share of relayer tips taken by the protocol, in 1/256ths. */
+export async function queryRelayerTakeRate (dex: SlotReader): Promise<number> {
+    return (await dex.readSlot(FLAGS_SLOT)).shr(RELAYER_TAKE_BYTE * 8).mask(8).toNumber()
+}
+
+export interface TipEstimateArgs {
+    // Gas the relayed call is expected to use, and the gas price the relayer will pay
+    gasLimit: BigNumberish
+    gasPrice: BigNumberish
+    // Protocol take on relayer tips, in 1/256ths (see queryRelayerTakeRate())
+    relayerTakeRate: number
+    // Margin over the relayer's gas cost, in basis points. Defaults to 20%.
+    marginBps?: number
+    // Converts a gas cost in wei to the tip token. Defaults to a native ETH tip.
+    toToken?: (wei: BigNumber) => BigNumber
+}
+
+/* @notice Estimates a tip that covers the relayer's gas cost plus a margin, after the
+ *         protocol's take on the tip. */
+export function estimateRelayerTip (args: TipEstimateArgs): BigNumber {
+    const marginBps = args.marginBps !== undefined ? args.marginBps : DEFAULT_TIP_MARGIN_BPS
+    const gasCost = BigNumber.from(args.gasLimit).mul(args.gasPrice).mul(10000 + marginBps).div(10000)
+    const net = args.toToken ? args.toToken(gasCost) : gasCost
+
+    // Round up so the relayer nets at least the estimate after the take is deducted
+    const keepRate = 256 - args.relayerTakeRate
+    return net.mul(256).add(keepRate - 1).div(keepRate)
+}
+
+/* @notice Signs relayer calls for a single user, tracking the next nonce on each salt. */
+export class CrocRelayerClient {
+    private signer: ethers.Signer & TypedDataSigner
+    private dex: SlotReader
+    private opts: RelayerClientOpts
+    private nonces: Map<string, number>
+
+    constructor (signer: ethers.Signer & TypedDataSigner, dex: SlotReader, opts: RelayerClientOpts) {
+        this.signer = signer
+        this.dex = dex
+        this.opts = opts
+        this.nonces = new Map()
+    }
+
+    /* @notice Signs a relayer call for the command. Unless set explicitly, the nonce is
+     *         the next one on the salt, starting from the on-chain nonce. */
+    async sign (cmd: CrocUserCmd, opts: RelayerCallOpts = {}): Promise<SignedRelayerCall> {
+        if (cmd.callpath > 255) {
+            throw new Error(`Relayer calls can't be signed for callpath ${cmd.callpath}`)
+        }
+
+        const salt = saltOf(opts.salt !== undefined ? opts.salt : this.opts.salt)
+        const nonce = opts.nonce !== undefined ? opts.nonce : await this.nextNonce(salt)
+        const now = Math.floor(Date.now() / 1000)
+        const conds = encodeRelayConds({
+            deadline: opts.deadline !== undefined ? opts.deadline :
+                now + (this.opts.ttlSecs || DEFAULT_TTL_SECS),
+            alive: opts.alive || 0,
+            salt, nonce,
+            relayer: opts.relayer || this.opts.relayer || ethers.constants.AddressZero
+        })
+
+        const call = { callpath: cmd.callpath, cmd: ethers.utils.hexlify(cmd.cmd), conds,
+            tip: encodeRelayTip(opts.tip) }
+        const sig = ethers.utils.splitSignature(await this.signer._signTypedData(
+            relayerDomain(this.opts.chainId, this.opts.dex), RELAYER_CALL_TYPES,
+            relayerCallValue(call)))
+        const signature = ethers.utils.defaultAbiCoder.encode(["uint8", "bytes32", "bytes32"],
+            [sig.v, sig.r, sig.s])
+
+        this.nonces.set(salt, Math.max(nonce + 1, this.nonces.get(salt) || 0))
+        return { signer: await this.signer.getAddress(), ...call, signature }
+    }
+
+    /* @notice The nonce the next call on the salt will be signed with. */
+    async nextNonce (salt?: BytesLike): Promise<number> {
+        const key = saltOf(salt !== undefined ? salt : this.opts.salt)
+        const tracked = this.nonces.get(key)
+        if (tracked !== undefined) {
+            return tracked
+        }
+        const onChain = await queryRelayNonce(this.dex, await this.signer.getAddress(), key)
+        this.nonces.set(key, onChain)
+        return onChain
+    }
+
+    /* @notice Forgets the tracked nonce, so the next call re-reads it from chain. Call
+     *         after a relayed call fails or the nonce is reset on chain. */
+    resyncNonce (salt?: BytesLike) {
+        this.nonces.delete(saltOf(salt !== undefined ? salt : this.opts.salt))
+    }
+}
+
+/* @notice The subset of the CrocSwapDex contract the relay queue needs. The typechain
+ *         CrocSwapDex object, connected to the relayer's signer, satisfies this. */
+export interface RelayerDex {
+    provider: Provider
+    userCmdRelayer (callpath: BigNumberish, cmd: BytesLike, conds: BytesLike, tip: BytesLike,
+        signature: BytesLike, overrides?: ethers.PayableOverrides): Promise<ContractTransaction>
+    callStatic: {
+        userCmdRelayer (callpath: BigNumberish, cmd: BytesLike, conds: BytesLike, tip: BytesLike,
+            signature: BytesLike, overrides?: ethers.PayableOverrides): Promise<string>
+    }
+}
+
+export interface RelayResult {
+    call: SignedRelayerCall
+    status: "submitted" | "expired" | "failed"
+    receipt?: TransactionReceipt
+    error?: string
+}
+
+/* @notice Local queue that submits signed relayer calls to a node from the relayer's
+ *         own account. Calls are submitted in nonce order per signer and salt. A call
+ *         that isn't alive yet, or is waiting on a lower nonce, stays queued. Calls past
+ *         their deadline are dropped. */
+export class RelayQueue {
+    private dex: RelayerDex
+    private queue: SignedRelayerCall[]
+
+    constructor (dex: RelayerDex) {
+        this.dex = dex
+        this.queue = []
+    }
+
+    get pending(): SignedRelayerCall[] {
+        return this.queue.slice()
+    }
+
+    enqueue (call: SignedRelayerCall) {
+        this.queue.push(call)
+    }
+
+    /* @notice Submits every call that's executable at the latest block time and waits
+     *         for each receipt. A call whose simulation reverts is dropped as failed. */
+    async flush(): Promise<RelayResult[]> {
+        const now = (await this.dex.provider.getBlock("latest")).timestamp
+        let results: RelayResult[] = []
+        let held: SignedRelayerCall[] = []
+
+        const ordered = this.queue.slice().sort((a, b) => {
+            const x = decodeRelayConds(a.conds), y = decodeRelayConds(b.conds)
+            return x.nonce - y.nonce
+        })
+        for (const call of ordered) {
+            const conds = decodeRelayConds(call.conds)
+            // Next block is at least one second later
+            if (conds.deadline <= now) {
+                results.push({ call, status: "expired" })
+            } else if (conds.alive > now + 1 || blockedBy(call, held)) {
+                held.push(call)
+            } else {
+                results.push(await this.submit(call))
+            }
+        }
+
+        this.queue = held
+        return results
+    }
+
+    private async submit (call: SignedRelayerCall): Promise<RelayResult> {
+        const args: [number, string, string, string, string] =
+            [call.callpath, call.cmd, call.conds, call.tip, call.signature]
+        try {
+            await this.dex.callStatic.userCmdRelayer(...args)
+            const tx = await this.dex.userCmdRelayer(...args)
+            return { call, status: "submitted", receipt: await tx.wait() }
+        } catch (err: any) {
+            return { call, status: "failed", error: describeError(err, call.callpath) }
+        }
+    }
+}
+
+function relayerCallValue (call: { callpath: number, cmd: BytesLike, conds: BytesLike,
+    tip: BytesLike }): Record<string, any> {
+    return { callpath: call.callpath, cmd: call.cmd, conds: call.conds, tip: call.tip }
+}
+
+function saltOf (salt?: BytesLike): string {
+    return salt !== undefined ? ethers.utils.hexZeroPad(salt, 32) : ethers.constants.HashZero
+}
+
+// True if a held call from the same signer and salt has to land first
+function blockedBy (call: SignedRelayerCall, held: SignedRelayerCall[]): boolean {
+    const salt = decodeRelayConds(call.conds).salt
+    return held.some(h => h.signer.toLowerCase() === call.signer.toLowerCase() &&
+        decodeRelayConds(h.conds).salt === salt)
+}
+
+const DEFAULT_TTL_SECS = 3600
+const DEFAULT_TIP_MARGIN_BPS = 2000
@@ -0,0 +1,248 @@
+import { BigNumber, ethers } from "ethers";
+import { TransactionReceipt } from "@ethersproject/providers";
+import { decodeRelayConds, decodeRelayTip, queryRelayNonce, recoverRelayerSigner, RelayConds,
+    RelayerDex, RelayTip, SignedRelayerCall, relayerCallDigest, TIP_RECV_ORIGIN,
+    TIP_RECV_SENDER } from "./relayer";
+import { describeError } from "./revertDecoder";
+import { SlotReader } from "./swapSimulator";
+
+/* Mempool of signed relayer calls for a self-hosted relayer. Calls are checked on entry
+ * against the signature, the on-chain nonce and the deadline, and simulated with eth_call
+ * if they're executable right away.
+ *
+ * Each process() pass drops expired calls and calls whose nonce has already been used,
+ * then repeatedly submits the highest tip call that's executable at the latest block.
+ * Only the call at the current nonce of each signer and salt is executable, so
+ * submitting one can unlock the next call on the same track within the same pass. A
+ * call that fails simulation at submission time is dropped. */
+
+export interface MempoolOpts {
+    chainId: number
+    // Address the relayer submits from. Calls that require a different relayer are
+    // rejected, and only tips paid to this address count towards the tip value.
+    relayer: string
+    // Values a tip in a common unit for ordering. Defaults to the raw amount of native
+    // ETH tips, with tips in any other token valued at zero.
+    tipValue?: (tip: RelayTip) => BigNumber
+    // Calls with a tip value below this are rejected
+    minTipValue?: BigNumber
+    maxPending?: number
+}
+
+export interface MempoolEntry {
+    // The call's EIP-712 digest
+    id: string
+    call: SignedRelayerCall
+    conds: RelayConds
+    tipValue: BigNumber
+}
+
+export interface MempoolResult {
+    entry: MempoolEntry
+    status: "submitted" | "expired" | "stale" | "failed"
+    receipt?: TransactionReceipt
+    error?: string
+}
+
+export class RelayerMempool {
+    private dex: RelayerDex & SlotReader & { address: string }
+    private opts: MempoolOpts
+    private pool: Map<string, MempoolEntry>
+    // Tail of the add() calls in flight
+    private adding: Promise<unknown>
+
+    constructor (dex: RelayerDex & SlotReader & { address: string }, opts: MempoolOpts) {
+        this.dex = dex
+        this.opts = opts
+        this.pool = new Map()
+        this.adding = Promise.resolve()
+    }
+
+    /* @notice The pending calls, highest tip value first. */
+    get entries(): MempoolEntry[] {
+        return sortByTip(Array.from(this.pool.values()))
+    }
+
+    /* @notice Validates and queues a signed call. Throws with the reason if it's rejected.
+     *         A call on the same signer, salt and nonce as a pending one replaces it only
+     *         if it pays a higher tip. Calls are checked one at a time, so concurrent adds
+     *         can't both pass the checks against the pending calls. */
+    async add (call: SignedRelayerCall): Promise<MempoolEntry> {
+        const added = this.adding.then(() => this.admit(call))
+        this.adding = added.catch(() => undefined)
+        return added
+    }
+
+    private async admit (call: SignedRelayerCall): Promise<MempoolEntry> {
+        const entry = this.parse(call)
+        if (this.pool.has(entry.id)) {
+            throw new Error(`Relayer call ${entry.id} is already queued`)
+        }
+        if (this.opts.minTipValue && entry.tipValue.lt(this.opts.minTipValue)) {
+            throw new Error(`Tip value ${entry.tipValue.toString()} is below the minimum of ` +
+                this.opts.minTipValue.toString())
+        }
+
+        const conds = entry.conds
+        const now = await this.blockTime()
+        if (conds.deadline <= now) {
+            throw new Error(`Relayer call expired at ${conds.deadline}`)
+        }
+        if (conds.relayer !== ethers.constants.AddressZero &&
+            conds.relayer.toLowerCase() !== this.opts.relayer.toLowerCase()) {
+            throw new Error(`Relayer call requires relayer ${conds.relayer}`)
+        }
+
+        const nonce = await queryRelayNonce(this.dex, call.signer, conds.salt)
+        if (conds.nonce < nonce) {
+            throw new Error(`Nonce ${conds.nonce} already used, next nonce is ${nonce}`)
+        }
+
+        const rival = this.entries.filter(e => sameTrack(e, entry) &&
+            e.conds.nonce === conds.nonce)[0]
+        if (rival && !entry.tipValue.gt(rival.tipValue)) {
+            throw new Error(`A call with nonce ${conds.nonce} and an equal or higher tip is already queued`)
+        }
+        if (!rival && this.opts.maxPending && this.pool.size >= this.opts.maxPending) {
+            throw new Error("Relayer mempool is full")
+        }
+
+        if (conds.nonce === nonce && conds.alive <= now + 1) {
+            const error = await this.simulate(call)
+            if (error !== undefined) {
+                throw new Error(`Relayer call reverts: ${error}`)
+            }
+        }
+
+        if (rival) {
+            this.pool.delete(rival.id)
+        }
+        this.pool.set(entry.id, entry)
+        return entry
+    }
+
+    /* @notice Drops expired and stale calls, then submits every executable call in tip
+     *         order and waits for each receipt. */
+    async process(): Promise<MempoolResult[]> {
+        const now = await this.blockTime()
+        let results: MempoolResult[] = []
+        let nonces: Map<string, number> = new Map()
+
+        for (const entry of this.entries) {
+            if (entry.conds.deadline <= now) {
+                results.push(this.drop(entry, "expired"))
+            }
+        }
+
+        while (true) {
+            for (const entry of this.entries) {
+                const key = trackKey(entry)
+                if (!nonces.has(key)) {
+                    nonces.set(key, await queryRelayNonce(this.dex, entry.call.signer, entry.conds.salt))
+                }
+                if (entry.conds.nonce < (nonces.get(key) as number)) {
+                    results.push(this.drop(entry, "stale"))
+                }
+            }
+
+            // Next block is at least one second later
+            const next = this.entries.filter(e => e.conds.nonce === nonces.get(trackKey(e)) &&
+                e.conds.alive <= now + 1)[0]
+            if (!next) {
+                break
+            }
+
+            this.pool.delete(next.id)
+            results.push(await this.submit(next))
+            nonces.delete(trackKey(next))
+        }
+        return results
+    }
+
+    private parse (call: SignedRelayerCall): MempoolEntry {
+        let signer: string
+        let conds: RelayConds
+        let tip: RelayTip | undefined
+        try {
+            signer = recoverRelayerSigner(call, this.opts.chainId, this.dex.address)
+            conds = decodeRelayConds(call.conds)
+            tip = decodeRelayTip(call.tip)
+        } catch (err: any) {
+            throw new Error(`Malformed relayer call: ${err.reason || err.message}`)
+        }
+
+        if (!Number.isInteger(call.callpath) || call.callpath < 0 || call.callpath > 255) {
+            throw new Error(`Invalid relayer callpath ${call.callpath}`)
+        }
+        if (call.signer && call.signer.toLowerCase() !== signer.toLowerCase()) {
+            throw new Error(`Relayer call is signed by ${signer}, not ${call.signer}`)
+        }
+
+        return {
+            id: relayerCallDigest(call, this.opts.chainId, this.dex.address),
+            call: { ...call, signer },
+            conds: { ...conds, salt: ethers.utils.hexlify(conds.salt) },
+            tipValue: tip && this.paysRelayer(tip) ? this.valueTip(tip) : BigNumber.from(0)
+        }
+    }
+
+    private paysRelayer (tip: RelayTip): boolean {
+        const recv = tip.recv.toLowerCase()
+        return recv === TIP_RECV_SENDER || recv === TIP_RECV_ORIGIN ||
+            recv === this.opts.relayer.toLowerCase()
+    }
+
+    private valueTip (tip: RelayTip): BigNumber {
+        if (this.opts.tipValue) {
+            return this.opts.tipValue(tip)
+        }
+        return tip.token === ethers.constants.AddressZero ?
+            BigNumber.from(tip.amount) : BigNumber.from(0)
+    }
+
+    private drop (entry: MempoolEntry, status: "expired" | "stale"): MempoolResult {
+        this.pool.delete(entry.id)
+        return { entry, status }
+    }
+
+    private async simulate (call: SignedRelayerCall): Promise<string | undefined> {
+        try {
+            await this.dex.callStatic.userCmdRelayer(call.callpath, call.cmd, call.conds,
+                call.tip, call.signature)
+            return undefined
+        } catch (err: any) {
+            return describeError(err, call.callpath)
+        }
+    }
+
+    private async submit (entry: MempoolEntry): Promise<MempoolResult> {
+        const call = entry.call
+        const error = await this.simulate(call)
+        if (error !== undefined) {
+            return { entry, status: "failed", error }
+        }
+        try {
+            const tx = await this.dex.userCmdRelayer(call.callpath, call.cmd, call.conds,
+                call.tip, call.signature)
+            return { entry, status: "submitted", receipt: await tx.wait() }
+        } catch (err: any) {
+            return { entry, status: "failed", error: describeError(err, call.callpath) }
+        }
+    }
+
+    private async blockTime(): Promise<number> {
+        return (await this.dex.provider.getBlock("latest")).timestamp
+    }
+}
+
+function sortByTip (entries: MempoolEntry[]): MempoolEntry[] {
+    return entries.sort((a, b) => a.tipValue.gt(b.tipValue) ? -1 : a.tipValue.lt(b.tipValue) ? 1 : 0)
+}
+
+function trackKey (entry: MempoolEntry): string {
+    return `${entry.call.signer.toLowerCase()}/${entry.conds.salt}`
+}
+
+function sameTrack (a: MempoolEntry, b: MempoolEntry): boolean {
+    return trackKey(a) === trackKey(b)
+}
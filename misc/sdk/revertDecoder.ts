@@ -0,0 +1,312 @@
+import { AbiCoder } from "@ethersproject/abi";
+import { BigNumber, BigNumberish, BytesLike, Contract, ethers, Signer } from "ethers";
+import { Provider } from "@ethersproject/providers";
+import { SWAP_PROXY_IDX } from "./commands";
+import { DecodedProtocolCmd, decodeProtocolCmd, formatProtocolCmd, proxyPathName } from "./protocolDecoder";
+import { DecodedUserCmd, decodeUserCmd, formatUserCmd } from "./userCmdDecoder";
+import errorMessages from "../../etc/errors.json";
+
+/* Turns dex reverts into readable errors. The contracts revert with terse codes (e.g.
+ * "K") to save bytecode, which etc/errors.json maps to their meaning. This pulls the
+ * reason out of whatever shape of error ethers, hardhat or the node threw, and rethrows
+ * it with the description, the callpath and the decoded command that reverted:
+ *
+ *   userCmd() on ColdPath reverted with "SC": Insufficient surplus collateral
+ *     userCmd DisburseSurplus (code 74) on ColdPath
+ *       recv (address): 0x...
+ *
+ * The original error message is kept as the last line, so matching on it (e.g. waffle's
+ * revertedWith) still works against translated errors. */
+
+// Revert string to its meaning, for every require() and revert() in contracts/
+export const CROC_ERROR_MESSAGES: Record<string, string> = errorMessages
+
+export interface RevertContext {
+    // Dex method that was called, e.g. "userCmd"
+    method: string
+    callpath?: number
+    cmd?: BytesLike
+}
+
+export interface CrocRevertError extends Error {
+    name: "CrocRevertError"
+    // Raw revert string, "" if the call reverted without one. Panics are "Panic(0x11)"
+    reason: string
+    description: string
+    method: string
+    callpath?: number
+    proxyPath?: string
+    command?: DecodedUserCmd | DecodedProtocolCmd
+    // The error thrown by ethers
+    cause: unknown
+}
+
+// The fields read off the errors thrown by ethers, hardhat and the nodes
+interface ErrorLike {
+    message?: unknown
+    reason?: unknown
+    code?: unknown
+    data?: unknown
+    errorName?: unknown
+    errorArgs?: unknown
+    error?: unknown
+    cause?: unknown
+}
+
+const ERROR_STRING_SELECTOR = "0x08c379a0"
+const PANIC_SELECTOR = "0x4e487b71"
+
+// See the Solidity docs on Panic(uint256)
+const PANIC_CODES: Record<number, string> = {
+    0x01: "Assertion failed",
+    0x11: "Arithmetic overflow or underflow",
+    0x12: "Division or modulo by zero",
+    0x21: "Invalid enum value",
+    0x22: "Invalid storage byte array",
+    0x31: "Pop from empty array",
+    0x32: "Array index out of bounds",
+    0x41: "Out of memory",
+    0x51: "Call to uninitialized internal function"
+}
+
+// Message formats used by hardhat, geth and ganache, most specific first
+const REASON_PATTERNS: RegExp[] = [
+    /reverted with reason string '((?:[^'\\]|\\.)*)'/,
+    /reverted with custom error '([^']*)'/,
+    /execution reverted: ([^"\n]*)/,
+    /VM Exception while processing transaction: revert ([^"\n]+)/
+]
+const PANIC_PATTERN = /reverted with panic code (0x[0-9a-fA-F]+)/
+const NO_REASON_PATTERN = /reverted without a reason|Transaction reverted|execution reverted|: revert\b/
+
+/* @notice Revert reason carried by an error, walking the nested errors that ethers and
+ *         hardhat wrap around each other. Returns "" if the call reverted without a
+ *         reason, and undefined if the error isn't a revert at all. */
+export function extractRevertReason (err: unknown): string | undefined {
+    let noReason = false
+    for (const e of errorChain(err)) {
+        if (isCrocRevertError(e)) {
+            return e.reason
+        }
+        const fromData = decodeRevertData(e.data)
+        if (fromData !== undefined) {
+            return fromData
+        }
+        // ethers decodes the revert data itself on eth_call
+        if (e.errorName === "Error" && Array.isArray(e.errorArgs)) {
+            return String(e.errorArgs[0])
+        }
+        if (e.errorName === "Panic" && Array.isArray(e.errorArgs)) {
+            return panicReason(e.errorArgs[0])
+        }
+
+        const msg = typeof e.message === "string" ? e.message : ""
+        for (const pattern of REASON_PATTERNS) {
+            const match = msg.match(pattern)
+            if (match !== null) {
+                return match[1].trim()
+            }
+        }
+        const panic = msg.match(PANIC_PATTERN)
+        if (panic !== null) {
+            return panicReason(panic[1])
+        }
+        noReason = noReason || e.code === "CALL_EXCEPTION" || NO_REASON_PATTERN.test(msg)
+    }
+    return noReason ? "" : undefined
+}
+
+/* @notice Human readable meaning of a revert reason, from etc/errors.json for the dex's
+ *         terse codes. Unknown reasons are returned as is. */
+export function describeRevertReason (reason: string): string {
+    const known = CROC_ERROR_MESSAGES[reason]
+    if (known !== undefined) {
+        return known
+    }
+    if (reason === "") {
+        return "Reverted without a reason string"
+    }
+    const panic = reason.match(/^Panic\((0x[0-9a-f]+)\)$/)
+    if (panic !== null) {
+        const desc = PANIC_CODES[parseInt(panic[1], 16)]
+        return desc !== undefined ? desc : `Unknown panic code ${panic[1]}`
+    }
+    return reason
+}
+
+/* @notice Translates a dex revert into a CrocRevertError. Returns undefined if the error
+ *         isn't a revert (e.g. a network or nonce error), so the caller can rethrow it. */
+export function decodeRevert (err: unknown, ctx: RevertContext): CrocRevertError | undefined {
+    if (isCrocRevertError(err)) {
+        return err
+    }
+    const reason = extractRevertReason(err)
+    if (reason === undefined) {
+        return undefined
+    }
+
+    const description = describeRevertReason(reason)
+    const command = decodeCommand(ctx)
+    const proxyPath = ctx.callpath !== undefined ? proxyPathName(ctx.callpath) : undefined
+    const where = ctx.method === "swap" || proxyPath === undefined ? "CrocSwapDex" : proxyPath
+    const quoted = reason === "" ? "without a reason" : `with ${JSON.stringify(reason)}`
+
+    let lines = [`${ctx.method}() on ${where} reverted ${quoted}` +
+        (description !== reason ? `: ${description}` : "")]
+    if (command !== undefined) {
+        const formatted = "sudo" in command ? formatProtocolCmd(command) : formatUserCmd(command)
+        lines = lines.concat(formatted.map(l => "  " + l))
+    }
+    const message = firstMessage(err)
+    lines.push("  " + (message !== undefined ? message : String(err)))
+
+    let error = new Error(lines.join("\n")) as CrocRevertError
+    error.name = "CrocRevertError"
+    error.reason = reason
+    error.description = description
+    error.method = ctx.method
+    error.callpath = ctx.callpath
+    error.proxyPath = proxyPath
+    error.command = command
+    error.cause = err
+    return error
+}
+
+/* @notice True if the error was thrown by decodeRevert(). Checks the name rather than
+ *         instanceof, which doesn't hold for Error subclasses under the es5 target. */
+export function isCrocRevertError (err: unknown): err is CrocRevertError {
+    return err !== null && typeof err === "object" && "name" in err && err.name === "CrocRevertError"
+}
+
+/* @notice One line description of an error for logs and reports. Reverts are decoded,
+ *         anything else falls back to its message. */
+export function describeError (err: unknown, callpath?: number): string {
+    const reason = extractRevertReason(err)
+    if (reason === undefined) {
+        const top = errorChain(err)[0]
+        if (top !== undefined && typeof top.reason === "string" && top.reason !== "") {
+            return top.reason
+        }
+        const message = top !== undefined && typeof top.message === "string" ? top.message : ""
+        return message !== "" ? message : String(err)
+    }
+    const desc = describeRevertReason(reason)
+    const where = callpath !== undefined ? ` on ${proxyPathName(callpath)}` : ""
+    const quoted = reason === "" ? "without a reason" : `with ${JSON.stringify(reason)}`
+    return `reverted${where} ${quoted}` + (desc !== reason ? `: ${desc}` : "")
+}
+
+/* @notice Awaits the call, rethrowing any revert as a CrocRevertError. */
+export async function withRevertDecoding<T> (ctx: RevertContext, call: () => Promise<T>): Promise<T> {
+    try {
+        return await call()
+    } catch (err) {
+        const decoded = decodeRevert(err, ctx)
+        throw decoded !== undefined ? decoded : err
+    }
+}
+
+/* @notice Wraps a CrocSwapDex contract so that reverts from userCmd(), userCmdRelayer(),
+ *         userCmdRouter(), protocolCmd() and swap() throw CrocRevertErrors. All other
+ *         members pass through to the underlying contract, and connect() returns a
+ *         wrapped contract too. */
+export function translateCrocErrors<T extends Contract> (dex: T): T {
+    // ethers defines the contract methods as read-only properties, so the overrides on
+    // the child have to be defined rather than assigned
+    let wrapped = Object.create(dex)
+    const members = dex as unknown as Record<string, unknown>
+    for (const method of Object.keys(REVERT_CONTEXTS)) {
+        const call = members[method]
+        if (typeof call !== "function") { continue }
+        Object.defineProperty(wrapped, method, { enumerable: true, value: (...args: unknown[]) =>
+            withRevertDecoding(REVERT_CONTEXTS[method](args), () => call.apply(dex, args)) })
+    }
+    Object.defineProperty(wrapped, "connect", { enumerable: true,
+        value: (signer: Signer | Provider | string) => translateCrocErrors(dex.connect(signer)) })
+    return wrapped as T
+}
+
+const SWAP_TYPES = ["address", "address", "uint256", "bool", "bool", "uint128", "uint16",
+    "uint128", "uint128", "uint8"]
+
+// Builds the revert context from the call's arguments
+const REVERT_CONTEXTS: Record<string, (args: unknown[]) => RevertContext> = {
+    userCmd: (args) => cmdContext("userCmd", args),
+    userCmdRelayer: (args) => cmdContext("userCmdRelayer", args),
+    userCmdRouter: (args) => cmdContext("userCmdRouter", args),
+    protocolCmd: (args) => cmdContext("protocolCmd", args),
+    swap: (args) => {
+        // Same layout as a userCmd() on the swap proxy
+        try {
+            return { method: "swap", callpath: SWAP_PROXY_IDX,
+                cmd: new AbiCoder().encode(SWAP_TYPES, args.slice(0, SWAP_TYPES.length)) }
+        } catch {
+            return { method: "swap", callpath: SWAP_PROXY_IDX }
+        }
+    }
+}
+
+function cmdContext (method: string, args: unknown[]): RevertContext {
+    try {
+        return { method, callpath: BigNumber.from(args[0]).toNumber(),
+            cmd: ethers.utils.hexlify(args[1] as BytesLike) }
+    } catch {
+        return { method }
+    }
+}
+
+// Commands that don't decode still produce an error, just without the command lines
+function decodeCommand (ctx: RevertContext): DecodedUserCmd | DecodedProtocolCmd | undefined {
+    if (ctx.callpath === undefined || ctx.cmd === undefined) {
+        return undefined
+    }
+    try {
+        return ctx.method === "protocolCmd" ? decodeProtocolCmd(ctx.callpath, ctx.cmd) :
+            decodeUserCmd(ctx.callpath, ctx.cmd)
+    } catch {
+        return undefined
+    }
+}
+
+function errorChain (err: unknown): ErrorLike[] {
+    let chain: ErrorLike[] = []
+    let queue = [err]
+    while (queue.length > 0 && chain.length < 16) {
+        const e = queue.shift()
+        if (e === null || typeof e !== "object" || chain.indexOf(e) >= 0) {
+            continue
+        }
+        const wrapper = e as ErrorLike
+        chain.push(wrapper)
+        queue.push(wrapper.error, wrapper.cause, wrapper.data)
+    }
+    return chain
+}
+
+function firstMessage (err: unknown): string | undefined {
+    const messages = errorChain(err).map(e => e.message)
+        .filter((m): m is string => typeof m === "string" && m !== "")
+    return messages.length > 0 ? messages[0] : undefined
+}
+
+function decodeRevertData (data: unknown): string | undefined {
+    if (typeof data !== "string" || !ethers.utils.isHexString(data) || data.length < 10) {
+        return undefined
+    }
+    const selector = data.slice(0, 10).toLowerCase()
+    try {
+        if (selector === ERROR_STRING_SELECTOR) {
+            return new AbiCoder().decode(["string"], "0x" + data.slice(10))[0]
+        }
+        if (selector === PANIC_SELECTOR) {
+            return panicReason(new AbiCoder().decode(["uint256"], "0x" + data.slice(10))[0])
+        }
+    } catch {
+        return undefined
+    }
+    return undefined
+}
+
+function panicReason (code: unknown): string {
+    return `Panic(${BigNumber.from(code as BigNumberish).toHexString()})`
+}
@@ -0,0 +1,334 @@
+import { BigNumber, BigNumberish, BytesLike, ethers } from "ethers";
+import { BlockTag, Provider } from "@ethersproject/providers";
+import { CurveState } from "./curve";
+import { encodePoolKey, SlotReader } from "./swapSimulator";
+
+/* Direct reads of CrocSwapDex storage. Computes the same mapping keys and slots the
+ * contracts use (see StorageLayout.sol and CrocSlots) and unpacks the packed structs, so
+ * any state can be read through readSlot() or eth_getStorageAt. Covers the state that
+ * CrocQuery has no view for, like router approvals and relayer nonces, and works on
+ * chains where CrocQuery isn't deployed.
+ *
+ * The slot constants are hard-coded to the StorageLayout struct order. If that layout
+ * changes, these have to change with it. */
+
+// Slot 0 packs lockHolder_ (20 bytes), sudoMode_, msgValSpent_, hotPathOpen_,
+// inSafeMode_ and relayerTakeRate_.
+export const FLAGS_SLOT = 0
+export const HOT_PATH_OPEN_BYTE = 22
+export const SAFE_MODE_BYTE = 23
+export const RELAYER_TAKE_BYTE = 24
+// proxyPaths_[idx] is at PROXY_PATHS_SLOT + idx
+export const PROXY_PATHS_SLOT = 1
+export const AUTHORITY_SLOT = 65537
+export const LVL_MAP_SLOT = 65538
+export const KO_PIVOT_SLOT = 65539
+export const KO_MERKLE_SLOT = 65540
+export const KO_POS_SLOT = 65541
+export const MEZZ_TICK_SLOT = 65542
+export const TERMINUS_TICK_SLOT = 65543
+export const POOL_TEMPL_SLOT = 65544
+export const POOL_PARAM_SLOT = 65545
+export const IMPROVE_SLOT = 65546
+// Packs newPoolLiq_ (16 bytes) and protocolTakeRate_
+export const POOL_REGISTRY_SLOT = 65547
+export const FEE_MAP_SLOT = 65548
+export const POS_MAP_SLOT = 65549
+export const AMB_MAP_SLOT = 65550
+export const CURVE_MAP_SLOT = 65551
+export const BAL_MAP_SLOT = 65552
+
+export interface PoolSpecsState {
+    schema: number
+    feeRate: number
+    protocolTake: number
+    tickSize: number
+    jitThresh: number
+    knockoutBits: number
+    oracleFlags: number
+}
+
+export interface UserBalanceState {
+    surplus: BigNumber
+    nonce: number
+    agentCallsLeft: number
+}
+
+export interface RangePositionState {
+    liquidity: BigNumber
+    feeMileage: BigNumber
+    timestamp: number
+    atomic: boolean
+}
+
+export interface AmbientPositionState {
+    seeds: BigNumber
+    timestamp: number
+}
+
+export interface BookLevelState {
+    bidLots: BigNumber
+    askLots: BigNumber
+    feeOdometer: BigNumber
+}
+
+export interface KnockoutPivotState {
+    lots: BigNumber
+    pivotTime: number
+    rangeTicks: number
+}
+
+export interface PoolLocation {
+    base: string
+    quote: string
+    poolIdx: BigNumberish
+}
+
+export interface RangeLocation extends PoolLocation {
+    owner: string
+    lowerTick: number
+    upperTick: number
+}
+
+export interface AmbientLocation extends PoolLocation {
+    owner: string
+}
+
+export interface LevelLocation extends PoolLocation {
+    tick: number
+}
+
+export interface KnockoutPivotLocation extends PoolLocation {
+    isBid: boolean
+    tick: number
+}
+
+export interface SurplusLocation {
+    owner: string
+    token: string
+}
+
+export interface AgentLocation {
+    owner: string
+    agent: string
+    callpath: number
+}
+
+export interface NonceLocation {
+    owner: string
+    salt: BytesLike
+}
+
+/* @notice The slot of a mapping entry. Mirrors Solidity's keccak256(key . slot) layout. */
+export function mapSlot (key: BytesLike, slot: BigNumberish): BigNumber {
+    return BigNumber.from(ethers.utils.keccak256(ethers.utils.defaultAbiCoder.encode
+        (["bytes32", "uint256"], [key, slot])))
+}
+
+/* @notice The pool template key. Templates are mapped directly by pool index. */
+export function templateKey (poolIdx: BigNumberish): string {
+    return ethers.utils.hexZeroPad(BigNumber.from(poolIdx).toHexString(), 32)
+}
+
+/* @notice The user balance key for a token. Mirrors AgentMask.tokenKey() */
+export function tokenKey (user: string, token: string): string {
+    return ethers.utils.keccak256(ethers.utils.defaultAbiCoder.encode(["address", "address"],
+        [user, token]))
+}
+
+/* @notice The user balance key for a virtual token. Mirrors the salted AgentMask.tokenKey() */
+export function virtualTokenKey (user: string, tracker: string, salt: BigNumberish): string {
+    return tokenKey(user, virtualizeAddress(tracker, salt))
+}
+
+/* @notice Mirrors PoolSpecs.virtualizeAddress() */
+export function virtualizeAddress (tracker: string, salt: BigNumberish): string {
+    const hash = ethers.utils.keccak256(ethers.utils.defaultAbiCoder.encode(["address", "uint256"],
+        [tracker, salt]))
+    return ethers.utils.getAddress(ethers.utils.hexDataSlice(hash, 12))
+}
+
+/* @notice The user balance key that holds a router approval. Mirrors AgentMask.agentKey() */
+export function agentKey (user: string, agent: string, callpath: number): string {
+    return ethers.utils.keccak256(ethers.utils.defaultAbiCoder.encode(
+        ["address", "address", "uint16"], [user, agent, callpath]))
+}
+
+/* @notice The user balance key that holds the nonce for a salt. Mirrors AgentMask.nonceKey() */
+export function nonceKey (user: string, salt: BytesLike): string {
+    return ethers.utils.keccak256(ethers.utils.defaultAbiCoder.encode(["address", "bytes32"],
+        [user, salt]))
+}
+
+/* @notice Mirrors the range variant of PositionRegistrar.encodePosKey() */
+export function rangePosKey (owner: string, poolHash: string, lowerTick: number,
+    upperTick: number): string {
+    return ethers.utils.solidityKeccak256(["address", "bytes32", "int24", "int24"],
+        [owner, poolHash, lowerTick, upperTick])
+}
+
+/* @notice Mirrors the ambient variant of PositionRegistrar.encodePosKey() */
+export function ambientPosKey (owner: string, poolHash: string): string {
+    return ethers.utils.solidityKeccak256(["address", "bytes32"], [owner, poolHash])
+}
+
+/* @notice The book level key of a tick. Mirrors LevelBook.fetchLevel() */
+export function levelKey (poolHash: string, tick: number): string {
+    return ethers.utils.solidityKeccak256(["bytes32", "int24"], [poolHash, tick])
+}
+
+/* @notice Mirrors KnockoutLiq.encodePivotKey() */
+export function knockoutPivotKey (poolHash: string, isBid: boolean, tick: number): string {
+    return ethers.utils.keccak256(ethers.utils.defaultAbiCoder.encode(
+        ["bytes32", "bool", "int24"], [poolHash, isBid, tick]))
+}
+
+/* @notice Unpacks a PoolSpecs.Pool word, as stored for both templates and pools. */
+export function decodePoolSpecs (val: BigNumber): PoolSpecsState {
+    return {
+        schema: byteAt(val, 0),
+        feeRate: val.shr(8).mask(16).toNumber(),
+        protocolTake: byteAt(val, 3),
+        tickSize: val.shr(32).mask(16).toNumber(),
+        jitThresh: byteAt(val, 6),
+        knockoutBits: byteAt(val, 7),
+        oracleFlags: byteAt(val, 8)
+    }
+}
+
+export function decodeUserBalance (val: BigNumber): UserBalanceState {
+    return {
+        surplus: val.mask(128),
+        nonce: val.shr(128).mask(32).toNumber(),
+        agentCallsLeft: val.shr(160).mask(32).toNumber()
+    }
+}
+
+/* @notice Unpacks the two consecutive words of a CurveMath.CurveState */
+export function decodeCurve (valOne: BigNumber, valTwo: BigNumber): CurveState {
+    return {
+        priceRoot: valOne.mask(128),
+        ambientSeeds: valOne.shr(128),
+        concLiq: valTwo.mask(128),
+        seedDeflator: valTwo.shr(128).mask(64),
+        concGrowth: valTwo.shr(192)
+    }
+}
+
+export function decodeRangePosition (val: BigNumber): RangePositionState {
+    return {
+        liquidity: val.mask(128),
+        feeMileage: val.shr(128).mask(64),
+        timestamp: val.shr(192).mask(32).toNumber(),
+        atomic: !val.shr(224).isZero()
+    }
+}
+
+export function decodeAmbientPosition (val: BigNumber): AmbientPositionState {
+    return {
+        seeds: val.mask(128),
+        timestamp: val.shr(128).mask(32).toNumber()
+    }
+}
+
+export function decodeBookLevel (val: BigNumber): BookLevelState {
+    return {
+        bidLots: val.mask(96),
+        askLots: val.shr(96).mask(96),
+        feeOdometer: val.shr(192)
+    }
+}
+
+export function decodeKnockoutPivot (val: BigNumber): KnockoutPivotState {
+    return {
+        lots: val.mask(96),
+        pivotTime: val.shr(96).mask(32).toNumber(),
+        rangeTicks: val.shr(128).mask(16).toNumber()
+    }
+}
+
+/* @notice The address in the low 160 bits of a storage word, e.g. the dex authority or a
+ *         proxy path. */
+export function slotAddress (val: BigNumber): string {
+    return ethers.utils.getAddress(ethers.utils.hexZeroPad(val.mask(160).toHexString(), 20))
+}
+
+/* @notice A SlotReader over eth_getStorageAt, for when the dex isn't wrapped in a contract
+ *         object or the reads should be pinned to a block. */
+export function storageAtReader (provider: Provider, dex: string, blockTag?: BlockTag): SlotReader {
+    return {
+        readSlot: async (slot: BigNumberish) => BigNumber.from(await provider.getStorageAt(dex,
+            BigNumber.from(slot).toHexString(), blockTag))
+    }
+}
+
+export async function readCurves (dex: SlotReader, pools: PoolLocation[]): Promise<CurveState[]> {
+    return Promise.all(pools.map(async p => {
+        const slot = mapSlot(encodePoolKey(p.base, p.quote, p.poolIdx), CURVE_MAP_SLOT)
+        const [valOne, valTwo] = await Promise.all([dex.readSlot(slot), dex.readSlot(slot.add(1))])
+        return decodeCurve(valOne, valTwo)
+    }))
+}
+
+export async function readTemplates (dex: SlotReader, poolIdxs: BigNumberish[]):
+    Promise<PoolSpecsState[]> {
+    return readMapped(dex, poolIdxs.map(templateKey), POOL_TEMPL_SLOT, decodePoolSpecs)
+}
+
+export async function readPoolSpecs (dex: SlotReader, pools: PoolLocation[]): Promise<PoolSpecsState[]> {
+    return readMapped(dex, pools.map(p => encodePoolKey(p.base, p.quote, p.poolIdx)),
+        POOL_PARAM_SLOT, decodePoolSpecs)
+}
+
+export async function readLevels (dex: SlotReader, levels: LevelLocation[]): Promise<BookLevelState[]> {
+    return readMapped(dex, levels.map(l => levelKey(encodePoolKey(l.base, l.quote, l.poolIdx), l.tick)),
+        LVL_MAP_SLOT, decodeBookLevel)
+}
+
+export async function readRangePositions (dex: SlotReader, positions: RangeLocation[]):
+    Promise<RangePositionState[]> {
+    return readMapped(dex, positions.map(p => rangePosKey(p.owner,
+        encodePoolKey(p.base, p.quote, p.poolIdx), p.lowerTick, p.upperTick)),
+        POS_MAP_SLOT, decodeRangePosition)
+}
+
+export async function readAmbientPositions (dex: SlotReader, positions: AmbientLocation[]):
+    Promise<AmbientPositionState[]> {
+    return readMapped(dex, positions.map(p => ambientPosKey(p.owner,
+        encodePoolKey(p.base, p.quote, p.poolIdx))), AMB_MAP_SLOT, decodeAmbientPosition)
+}
+
+export async function readKnockoutPivots (dex: SlotReader, pivots: KnockoutPivotLocation[]):
+    Promise<KnockoutPivotState[]> {
+    return readMapped(dex, pivots.map(p => knockoutPivotKey(encodePoolKey(p.base, p.quote, p.poolIdx),
+        p.isBid, p.tick)), KO_PIVOT_SLOT, decodeKnockoutPivot)
+}
+
+/* @notice Surplus collateral balances. Use virtualizeAddress() for virtual tokens. */
+export async function readSurplus (dex: SlotReader, balances: SurplusLocation[]): Promise<BigNumber[]> {
+    return readMapped(dex, balances.map(b => tokenKey(b.owner, b.token)), BAL_MAP_SLOT,
+        val => decodeUserBalance(val).surplus)
+}
+
+/* @notice Remaining calls a router is approved for on a callpath. Zero if unapproved, and
+ *         the max uint32 value if the approval is unlimited. */
+export async function readAgentApprovals (dex: SlotReader, approvals: AgentLocation[]):
+    Promise<number[]> {
+    return readMapped(dex, approvals.map(a => agentKey(a.owner, a.agent, a.callpath)),
+        BAL_MAP_SLOT, val => decodeUserBalance(val).agentCallsLeft)
+}
+
+/* @notice Next relayer call nonces for the salts. Salts are left padded to bytes32. */
+export async function readNonces (dex: SlotReader, nonces: NonceLocation[]): Promise<number[]> {
+    return readMapped(dex, nonces.map(n => nonceKey(n.owner, ethers.utils.hexZeroPad(n.salt, 32))),
+        BAL_MAP_SLOT, val => decodeUserBalance(val).nonce)
+}
+
+async function readMapped<T> (dex: SlotReader, keys: string[], slot: number,
+    decode: (val: BigNumber) => T): Promise<T[]> {
+    return Promise.all(keys.map(async key => decode(await dex.readSlot(mapSlot(key, slot)))))
+}
+
+function byteAt (val: BigNumber, byteIdx: number): number {
+    return val.shr(byteIdx * 8).mask(8).toNumber()
+}
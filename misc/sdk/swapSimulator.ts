@@ -0,0 +1,432 @@
+import { BigNumber, BigNumberish, ethers } from "ethers";
+import { CurveState, addDelta, assimilateLiq, calcLimitCounter, calcLimitFlows,
+    copyCurve, netLotsOnLiquidity, rollFlow, rollPrice, shaveAtBump, toInt128Sign } from "./curve";
+import { MAX_SQRT_RATIO, MAX_TICK, MIN_SQRT_RATIO, MIN_TICK } from "./commands";
+import { mapSlot, MEZZ_TICK_SLOT, TERMINUS_TICK_SLOT } from "./storageSlots";
+import { getSqrtRatioAtTick, getTickAtSqrtRatio } from "./tickMath";
+
+/* Off-chain swap engine that reproduces the swap loop in CrocImpact.sol (and by extension
+ * SwapCurve.sol and the curve libraries it calls) against a local snapshot of the pool.
+ *
+ * A snapshot is the pool's curve, its fee parameters and every bookmarked tick in its
+ * liquidity bitmap together with the level lots at that tick. The swap is broken into
+ * legs at exactly the same points as the on-chain sweep (bumps within the local terminus
+ * bitmap, terminus borders, and the next bump past the border), because exchange fees
+ * are booked per leg and the rounding differs if legs are merged. With the same snapshot
+ * the results match CrocImpact.calcImpact() to the wei.
+ *
+ * Usage:
+ *     const snap = await loadPoolSnapshot(dex, query, base, quote, poolIdx)
+ *     const sim = new SwapSimulator(snap)
+ *     const { baseFlow, quoteFlow, finalPrice } = sim.simulate
+ *         ({ isBuy: true, inBaseQty: true, qty: 10000, limitPrice: MAX_SQRT_RATIO.sub(1) }) */
+
+export interface PoolSnapshot {
+    curve: CurveState
+    // Pool fee in hundredths of a basis point
+    feeRate: number
+    // Protocol share of the fee in 1/256ths
+    protocolTake: number
+    // Every tick bookmarked in the pool's tick bitmap
+    levels: LevelSnapshot[]
+}
+
+export interface LevelSnapshot {
+    tick: number
+    bidLots: BigNumber
+    askLots: BigNumber
+}
+
+export interface SimSwapDirective {
+    isBuy: boolean
+    inBaseQty: boolean
+    qty: BigNumberish
+    limitPrice: BigNumberish
+    // Minimum fee rate applied to the swap, same as the poolTip arg in calcImpact()
+    poolTip?: number
+}
+
+export interface SimSwapResult {
+    baseFlow: BigNumber
+    quoteFlow: BigNumber
+    baseProto: BigNumber
+    quoteProto: BigNumber
+    finalPrice: BigNumber
+    // Curve state after the swap. Level liquidity is unchanged by a swap, so
+    // { ...snapshot, curve } is a valid snapshot of the post-swap pool.
+    curve: CurveState
+}
+
+export class SwapSimulator {
+    private snap: PoolSnapshot
+    private ticks: number[]
+    private levels: Map<number, LevelSnapshot>
+
+    constructor (snap: PoolSnapshot) {
+        this.snap = snap
+        this.ticks = snap.levels.map(l => l.tick).sort((x, y) => x - y)
+        this.levels = new Map(snap.levels.map(l => [l.tick, l]))
+    }
+
+    /* @notice Calculates the flows and final curve state of a hypothetical swap. Does not
+     *         modify the snapshot. Throws if the swap would revert on-chain. */
+    simulate (dir: SimSwapDirective): SimSwapResult {
+        const curve = copyCurve(this.snap.curve)
+        const swap: SwapCursor = { isBuy: dir.isBuy, inBaseQty: dir.inBaseQty,
+            qty: BigNumber.from(dir.qty), limitPrice: BigNumber.from(dir.limitPrice) }
+        const pool: FeeSpec = { feeRate: Math.max(this.snap.feeRate, dir.poolTip || 0),
+            protocolTake: this.snap.protocolTake }
+        const accum: PairFlow = { baseFlow: ZERO, quoteFlow: ZERO, baseProto: ZERO, quoteProto: ZERO }
+
+        if (swap.isBuy === curve.priceRoot.gte(swap.limitPrice)) {
+            return { ...accum, finalPrice: curve.priceRoot, curve }
+        }
+
+        let midTick = getTickAtSqrtRatio(curve.priceRoot)
+        let doMore = true
+        while (doMore) {
+            let [bumpTick, spillsOver] = this.pinBitmap(swap.isBuy, midTick)
+            swapToLimit(curve, accum, swap, pool, bumpTick)
+
+            doMore = hasSwapLeft(curve, swap)
+            if (doMore) {
+                if (spillsOver) {
+                    const liqTick = this.seekMezzSpill(bumpTick, swap.isBuy)
+                    const tightSpill = (bumpTick === liqTick)
+                    bumpTick = liqTick
+
+                    if (!tightSpill) {
+                        swapToLimit(curve, accum, swap, pool, bumpTick)
+                        doMore = hasSwapLeft(curve, swap)
+                    }
+                }
+
+                if (doMore) {
+                    midTick = this.adjTickLiq(accum, bumpTick, curve, swap)
+                }
+            }
+        }
+
+        return { ...accum, finalPrice: curve.priceRoot, curve }
+    }
+
+    /* @notice Adjusts the liquidity when crossing over a level bump. Mirrors
+     *         CrocImpact.adjTickLiq() */
+    private adjTickLiq (accum: PairFlow, bumpTick: number, curve: CurveState,
+        swap: SwapCursor): number {
+        if (!isTickFinite(bumpTick)) { return bumpTick }
+
+        const level = this.levels.get(bumpTick)
+        const crossDelta = level ? netLotsOnLiquidity(level.bidLots, level.askLots) : ZERO
+        const liqDelta = swap.isBuy ? crossDelta : crossDelta.mul(-1)
+        curve.concLiq = addDelta(curve.concLiq, liqDelta)
+
+        const shave = shaveAtBump(curve, swap.inBaseQty, swap.isBuy, swap.qty)
+        accumFlow(accum, shave.paidBase, shave.paidQuote)
+        swap.qty = swap.qty.sub(shave.qtyLeft)
+
+        return swap.isBuy ? bumpTick : bumpTick - 1
+    }
+
+    /* @notice Finds the next bump inside the terminus neighborhood of the start tick, or
+     *         the neighborhood border if there is none. Mirrors CrocImpact.pinBitmap() */
+    private pinBitmap (isUpper: boolean, startTick: number): [number, boolean] {
+        const mezz = mezzKey(startTick)
+        if (isUpper) {
+            const next = this.firstTickAbove(startTick + 1)
+            if (next !== undefined && mezzKey(next) === mezz) {
+                return [next, false]
+            }
+            return [mezz === INT16_MAX ? INT24_MAX : (mezz + 1) * 256, true]
+        } else {
+            const next = this.lastTickBelow(startTick + 1)
+            if (next !== undefined && mezzKey(next) === mezz) {
+                return [next, false]
+            }
+            return [mezz * 256, true]
+        }
+    }
+
+    /* @notice Finds the next bump past a terminus border anywhere in the bitmap. Mirrors
+     *         CrocImpact.seekMezzSpill() */
+    private seekMezzSpill (borderTick: number, isUpper: boolean): number {
+        if (isUpper) {
+            const next = this.firstTickAbove(borderTick)
+            return next !== undefined ? next : INT24_MAX
+        } else {
+            const next = this.lastTickBelow(borderTick)
+            return next !== undefined ? next : INT24_MIN
+        }
+    }
+
+    // Smallest bookmarked tick >= tick
+    private firstTickAbove (tick: number): number | undefined {
+        const idx = this.searchTicks(tick)
+        return idx < this.ticks.length ? this.ticks[idx] : undefined
+    }
+
+    // Largest bookmarked tick < tick
+    private lastTickBelow (tick: number): number | undefined {
+        const idx = this.searchTicks(tick)
+        return idx > 0 ? this.ticks[idx - 1] : undefined
+    }
+
+    // Index of the first tick >= target
+    private searchTicks (target: number): number {
+        let lo = 0
+        let hi = this.ticks.length
+        while (lo < hi) {
+            const mid = (lo + hi) >> 1
+            if (this.ticks[mid] < target) {
+                lo = mid + 1
+            } else {
+                hi = mid
+            }
+        }
+        return lo
+    }
+}
+
+/* @notice Convenience wrapper to simulate a single swap against a snapshot. */
+export function simulateSwap (snap: PoolSnapshot, dir: SimSwapDirective): SimSwapResult {
+    return new SwapSimulator(snap).simulate(dir)
+}
+
+/* Minimal views of the CrocSwapDex and CrocQuery contracts used to load a snapshot.
+ * The typechain contract objects satisfy these. */
+export interface SlotReader {
+    readSlot (slot: BigNumberish): Promise<BigNumber>
+}
+
+export interface PoolQuerier {
+    queryCurve (base: string, quote: string, poolIdx: BigNumberish): Promise<{
+        priceRoot_: BigNumber, ambientSeeds_: BigNumber, concLiq_: BigNumber,
+        seedDeflator_: BigNumber, concGrowth_: BigNumber }>
+    queryPoolParams (base: string, quote: string, poolIdx: BigNumberish): Promise<{
+        feeRate_: number, protocolTake_: number }>
+    queryLevel (base: string, quote: string, poolIdx: BigNumberish, tick: BigNumberish):
+        Promise<{ bidLots: BigNumber, askLots: BigNumber }>
+}
+
+/* @notice Loads a complete snapshot of the pool. Walks the mezzanine and terminus tick
+ *         bitmaps through readSlot() to find every bookmarked tick, then queries the
+ *         level at each. */
+export async function loadPoolSnapshot (dex: SlotReader, query: PoolQuerier, base: string,
+    quote: string, poolIdx: BigNumberish): Promise<PoolSnapshot> {
+    const poolHash = encodePoolKey(base, quote, poolIdx)
+
+    const [curve, params, ticks] = await Promise.all([
+        query.queryCurve(base, quote, poolIdx),
+        query.queryPoolParams(base, quote, poolIdx),
+        loadBookmarkedTicks(dex, poolHash)
+    ])
+
+    const levels = await Promise.all(ticks.map(async tick => {
+        const level = await query.queryLevel(base, quote, poolIdx, tick)
+        return { tick, bidLots: level.bidLots, askLots: level.askLots }
+    }))
+
+    return {
+        curve: { priceRoot: curve.priceRoot_, ambientSeeds: curve.ambientSeeds_,
+            concLiq: curve.concLiq_, seedDeflator: BigNumber.from(curve.seedDeflator_),
+            concGrowth: BigNumber.from(curve.concGrowth_) },
+        feeRate: params.feeRate_,
+        protocolTake: params.protocolTake_,
+        levels
+    }
+}
+
+/* @notice The pool's storage key. Mirrors PoolSpecs.encodeKey() */
+export function encodePoolKey (base: string, quote: string, poolIdx: BigNumberish): string {
+    if (!BigNumber.from(base).lt(BigNumber.from(quote))) {
+        throw new Error(`Base token ${base} must sort before quote token ${quote}`)
+    }
+    return ethers.utils.keccak256(ethers.utils.defaultAbiCoder.encode
+        (["address", "address", "uint256"], [base, quote, poolIdx]))
+}
+
+async function loadBookmarkedTicks (dex: SlotReader, poolHash: string): Promise<number[]> {
+    const lobbies: number[] = []
+    for (let lobby = lobbyKey(MIN_TICK); lobby <= lobbyKey(MAX_TICK); ++lobby) {
+        lobbies.push(lobby)
+    }
+
+    const mezzKeys = (await Promise.all(lobbies.map(async lobby => {
+        const key = ethers.utils.solidityKeccak256(["bytes32", "int8"], [poolHash, lobby])
+        const bitmap = await dex.readSlot(mapSlot(key, MEZZ_TICK_SLOT))
+        return setBits(bitmap).map(bit => lobby * 256 + bit)
+    }))).reduce((acc, keys) => acc.concat(keys), [])
+
+    const ticks = (await Promise.all(mezzKeys.map(async mezz => {
+        const key = ethers.utils.solidityKeccak256(["bytes32", "int16"], [poolHash, mezz])
+        const bitmap = await dex.readSlot(mapSlot(key, TERMINUS_TICK_SLOT))
+        return setBits(bitmap).map(bit => mezz * 256 + bit)
+    }))).reduce((acc, ticks) => acc.concat(ticks), [])
+
+    return ticks.sort((x, y) => x - y)
+}
+
+function setBits (bitmap: BigNumber): number[] {
+    const bits: number[] = []
+    const hex = bitmap.toHexString().slice(2)
+    for (let i = 0; i < hex.length; ++i) {
+        const nibble = parseInt(hex[hex.length - 1 - i], 16)
+        for (let j = 0; j < 4; ++j) {
+            if ((nibble >> j) & 1) {
+                bits.push(i * 4 + j)
+            }
+        }
+    }
+    return bits
+}
+
+const ZERO = BigNumber.from(0)
+const INT16_MAX = 32767
+const INT24_MAX = 8388607
+const INT24_MIN = -8388608
+
+interface SwapCursor {
+    isBuy: boolean
+    inBaseQty: boolean
+    qty: BigNumber
+    limitPrice: BigNumber
+}
+
+interface FeeSpec {
+    feeRate: number
+    protocolTake: number
+}
+
+interface PairFlow {
+    baseFlow: BigNumber
+    quoteFlow: BigNumber
+    baseProto: BigNumber
+    quoteProto: BigNumber
+}
+
+//////////////////////////////////////////////////////////////////////////
+// SwapCurve.sol
+//////////////////////////////////////////////////////////////////////////
+
+function swapToLimit (curve: CurveState, accum: PairFlow, swap: SwapCursor, pool: FeeSpec,
+    bumpTick: number) {
+    const limitPrice = determineLimit(bumpTick, swap.limitPrice, swap.isBuy)
+    const startPrice = curve.priceRoot
+
+    const fees = bookExchFees(curve, swap.qty, pool, swap.inBaseQty, limitPrice)
+    accumSwap(accum, swap.inBaseQty, fees.paidBase, fees.paidQuote, fees.paidProto)
+
+    const roll = swapOverCurve(curve, swap.inBaseQty, swap.isBuy, swap.qty, limitPrice)
+    swap.qty = roll.qtyLeft
+    accumSwap(accum, swap.inBaseQty, roll.paidBase, roll.paidQuote, ZERO)
+    assertPriceDirection(swap.isBuy, curve, startPrice)
+}
+
+function assertPriceDirection (isBuy: boolean, curve: CurveState, startPrice: BigNumber) {
+    swapRequire(isBuy ? curve.priceRoot.gte(startPrice) : curve.priceRoot.lte(startPrice),
+        "price direction")
+}
+
+function swapOverCurve (curve: CurveState, inBaseQty: boolean, isBuy: boolean,
+    swapQty: BigNumber, limitPrice: BigNumber) {
+    swapRequire(isBuy ? limitPrice.gte(curve.priceRoot) : limitPrice.lte(curve.priceRoot),
+        "limit direction")
+
+    const realFlows = calcLimitFlows(curve, swapQty, inBaseQty, limitPrice)
+    const hitsLimit = realFlows.lt(swapQty)
+
+    if (hitsLimit) {
+        const roll = rollPrice(curve, limitPrice, inBaseQty, isBuy, swapQty)
+        swapRequire(curve.priceRoot.eq(limitPrice) && roll.qtyLeft.gt(0), "RP")
+        return roll
+    } else {
+        const startPrice = curve.priceRoot
+        const roll = rollFlow(curve, realFlows, inBaseQty, isBuy, swapQty)
+        const insideLimit = isBuy ? curve.priceRoot.lt(limitPrice) : curve.priceRoot.gt(limitPrice)
+        swapRequire(insideLimit && roll.qtyLeft.isZero(), "RF")
+        assertPriceDirection(isBuy, curve, startPrice)
+        return roll
+    }
+}
+
+function determineLimit (bumpTick: number, limitPrice: BigNumber, isBuy: boolean): BigNumber {
+    const bounded = boundLimit(bumpTick, limitPrice, isBuy)
+    if (bounded.lt(MIN_SQRT_RATIO)) { return MIN_SQRT_RATIO }
+    if (bounded.gte(MAX_SQRT_RATIO)) { return MAX_SQRT_RATIO.sub(1) }
+    return bounded
+}
+
+function boundLimit (bumpTick: number, limitPrice: BigNumber, isBuy: boolean): BigNumber {
+    if (bumpTick <= MIN_TICK || bumpTick >= MAX_TICK) {
+        return limitPrice
+    } else if (isBuy) {
+        const bumpPrice = getSqrtRatioAtTick(bumpTick).sub(1)
+        return bumpPrice.lt(limitPrice) ? bumpPrice : limitPrice
+    } else {
+        const bumpPrice = getSqrtRatioAtTick(bumpTick)
+        return bumpPrice.gt(limitPrice) ? bumpPrice : limitPrice
+    }
+}
+
+function bookExchFees (curve: CurveState, swapQty: BigNumber, pool: FeeSpec, inBaseQty: boolean,
+    limitPrice: BigNumber) {
+    const flow = calcLimitCounter(curve, swapQty, inBaseQty, limitPrice)
+    const totalFee = flow.mul(pool.feeRate).div(FEE_BP_MULT)
+    const exchFees = totalFee.mul(pool.protocolTake).div(256)
+    const liqFees = totalFee.sub(exchFees)
+
+    assimilateLiq(curve, liqFees, inBaseQty)
+
+    const totalFees = toInt128Sign(liqFees.add(exchFees))
+    return {
+        paidBase: inBaseQty ? ZERO : totalFees,
+        paidQuote: inBaseQty ? totalFees : ZERO,
+        paidProto: exchFees
+    }
+}
+
+const FEE_BP_MULT = 1000000
+
+function accumSwap (accum: PairFlow, inBaseQty: boolean, base: BigNumber, quote: BigNumber,
+    proto: BigNumber) {
+    accumFlow(accum, base, quote)
+    if (inBaseQty) {
+        accum.quoteProto = accum.quoteProto.add(proto)
+    } else {
+        accum.baseProto = accum.baseProto.add(proto)
+    }
+}
+
+function accumFlow (accum: PairFlow, base: BigNumber, quote: BigNumber) {
+    accum.baseFlow = accum.baseFlow.add(base)
+    accum.quoteFlow = accum.quoteFlow.add(quote)
+}
+
+function hasSwapLeft (curve: CurveState, swap: SwapCursor): boolean {
+    const inLimit = swap.isBuy ?
+        curve.priceRoot.lt(swap.limitPrice) :
+        curve.priceRoot.gt(swap.limitPrice)
+    return inLimit && swap.qty.gt(0)
+}
+
+//////////////////////////////////////////////////////////////////////////
+// Bitmaps.sol
+//////////////////////////////////////////////////////////////////////////
+
+function lobbyKey (tick: number): number {
+    return Math.floor(tick / 65536)
+}
+
+function mezzKey (tick: number): number {
+    return Math.floor(tick / 256)
+}
+
+function isTickFinite (tick: number): boolean {
+    return tick > INT24_MIN && tick < INT24_MAX
+}
+
+function swapRequire (cond: boolean, reason: string) {
+    if (!cond) {
+        throw new Error(reason)
+    }
+}
@@ -0,0 +1,244 @@
+import { BigNumber, BigNumberish } from "ethers";
+import { MAX_SQRT_RATIO, MAX_TICK, MIN_SQRT_RATIO, MIN_TICK } from "./commands";
+
+/* Exact BigNumber ports of contracts/libraries/TickMath.sol. Both directions match the
+ * on-chain result bit-for-bit, including the round-up in getSqrtRatioAtTick() that keeps
+ * getTickAtSqrtRatio(getSqrtRatioAtTick(t)) == t. The price and grid helpers below are
+ * built on top of these, so UI code never has to go through float logarithms. */
+
+/* @notice Calculates sqrt(1.0001^tick) * 2^64 as a Q64.64 fixed point. Throws if tick
+ *         is outside of [MIN_TICK, MAX_TICK]. */
+export function getSqrtRatioAtTick (tick: number): BigNumber {
+    if (!Number.isInteger(tick) || tick < MIN_TICK || tick > MAX_TICK) {
+        throw new Error(`Tick ${tick} outside of tick range [${MIN_TICK}, ${MAX_TICK}]`)
+    }
+
+    const absTick = Math.abs(tick)
+    let ratio = (absTick & 0x1) !== 0 ? BigNumber.from("0xfffcb933bd6fad37aa2d162d1a594001") : Q128
+    TICK_MULTS.forEach((mult, i) => {
+        if ((absTick & (0x2 << i)) !== 0) {
+            ratio = ratio.mul(mult).shr(128)
+        }
+    })
+    if (tick > 0) {
+        ratio = U256_MAX.div(ratio)
+    }
+
+    // Divides by 1<<64 rounding up to go from a Q128.128 to a Q64.64
+    const roundUp = ratio.mask(64).isZero() ? 0 : 1
+    return ratio.shr(64).add(roundUp)
+}
+
+/* @notice Calculates the greatest tick value such that getSqrtRatioAtTick(tick) <= price.
+ *         Throws if the price is below MIN_SQRT_RATIO or at or above MAX_SQRT_RATIO. */
+export function getTickAtSqrtRatio (sqrtPrice: BigNumberish): number {
+    const price = BigNumber.from(sqrtPrice)
+    if (price.lt(MIN_SQRT_RATIO) || price.gte(MAX_SQRT_RATIO)) {
+        throw new Error(`Price ${price.toString()} outside of price range ` +
+            `[${MIN_SQRT_RATIO.toString()}, ${MAX_SQRT_RATIO.toString()})`)
+    }
+
+    const ratio = price.shl(64)
+    const msb = bitLength(ratio) - 1
+    let r = msb >= 128 ? ratio.shr(msb - 127) : ratio.shl(127 - msb)
+
+    // The lower 64 bits of the integer part are always zero, so setting the fractional
+    // bits below is equivalent to adding them.
+    let log2 = BigNumber.from(msb - 128).mul(Q64)
+    for (let bit = 63; bit >= 50; --bit) {
+        r = r.mul(r).shr(127)
+        const f = r.shr(128).toNumber()
+        log2 = log2.add(BigNumber.from(f).shl(bit))
+        r = r.shr(f)
+    }
+
+    const logSqrt10001 = log2.mul(LOG_SQRT_MULT)
+    const tickLow = sar128(logSqrt10001.sub(TICK_LOW_OFFSET))
+    const tickHi = sar128(logSqrt10001.add(TICK_HI_OFFSET))
+
+    if (tickLow === tickHi) {
+        return tickLow
+    }
+    return getSqrtRatioAtTick(tickHi).lte(price) ? tickHi : tickLow
+}
+
+/* @notice Converts a human readable price (quote tokens per base token, in wei terms) to
+ *         its sqrt Q64.64 representation, rounded down. Unlike toSqrtPrice() in the test
+ *         helpers this is exact for any decimal input, so it can be fed straight into
+ *         getTickAtSqrtRatio() without drifting across a tick boundary.
+ * @param price Either a JS number or a decimal string (scientific notation allowed). */
+export function priceToSqrtRatio (price: number | string): BigNumber {
+    const [num, den] = parseDecimal(price)
+    if (num.lte(0)) {
+        throw new Error(`Price ${price} must be positive`)
+    }
+    return isqrt(num.mul(Q128).div(den))
+}
+
+/* @notice Converts a sqrt Q64.64 price to a floating point price. Only intended for
+ *         display, since the result carries float rounding. */
+export function sqrtRatioToPrice (sqrtPrice: BigNumberish): number {
+    const root = parseFloat(BigNumber.from(sqrtPrice).toString()) / Math.pow(2, 64)
+    return root * root
+}
+
+/* @notice Returns the greatest tick whose price is at or below the given price. A price
+ *         that's exactly on a tick (e.g. "1.0001") maps to that tick. */
+export function priceToTick (price: number | string): number {
+    const root = priceToSqrtRatio(price)
+    const tick = getTickAtSqrtRatio(root)
+    return tick < MAX_TICK && isTickRatio(tick + 1, root) ? tick + 1 : tick
+}
+
+/* @notice Returns the floating point price at the tick. Display only. */
+export function tickToPrice (tick: number): number {
+    return sqrtRatioToPrice(getSqrtRatioAtTick(tick))
+}
+
+/* @notice Rounds a tick down (towards negative infinity) to the nearest multiple of the
+ *         pool's tick size. Never returns a tick below the lowest usable grid tick. */
+export function floorToGrid (tick: number, tickSize: number): number {
+    assertTickSize(tickSize)
+    const snapped = Math.floor(tick / tickSize) * tickSize
+    return Math.max(snapped, minGridTick(tickSize))
+}
+
+/* @notice Rounds a tick up (towards positive infinity) to the nearest multiple of the
+ *         pool's tick size. Never returns a tick above the highest usable grid tick. */
+export function ceilToGrid (tick: number, tickSize: number): number {
+    assertTickSize(tickSize)
+    const snapped = Math.ceil(tick / tickSize) * tickSize
+    return Math.min(snapped, maxGridTick(tickSize))
+}
+
+/* @notice Lowest tick on the grid that's still inside of MIN_TICK */
+export function minGridTick (tickSize: number): number {
+    assertTickSize(tickSize)
+    return Math.ceil(MIN_TICK / tickSize) * tickSize
+}
+
+/* @notice Highest tick on the grid that's still inside of MAX_TICK */
+export function maxGridTick (tickSize: number): number {
+    assertTickSize(tickSize)
+    return Math.floor(MAX_TICK / tickSize) * tickSize
+}
+
+/* @notice Returns true if both range boundaries sit on the tick grid. Mirrors
+ *         PriceGrid.isOnGrid() */
+export function isOnGrid (lowerTick: number, upperTick: number, tickSize: number): boolean {
+    assertTickSize(tickSize)
+    return lowerTick % tickSize === 0 && upperTick % tickSize === 0
+}
+
+/* @notice Snaps a human price range to the widest on-grid tick range that contains it.
+ *         The lower price rounds down and the upper price rounds up, so the range always
+ *         covers both prices. If both prices fall in the same grid cell, the range is that
+ *         cell. */
+export function priceRangeToTicks (lowerPrice: number | string, upperPrice: number | string,
+    tickSize: number): { lowerTick: number, upperTick: number } {
+    const lowerRaw = priceToTick(lowerPrice)
+    let upperRaw = priceToTick(upperPrice)
+    if (lowerRaw > upperRaw) {
+        throw new Error(`Lower price ${lowerPrice} above upper price ${upperPrice}`)
+    }
+
+    // priceToTick() floors, so an upper price strictly inside a tick rounds up to the
+    // next tick to keep the price inside the range.
+    if (!isTickRatio(upperRaw, priceToSqrtRatio(upperPrice))) {
+        upperRaw = Math.min(upperRaw + 1, MAX_TICK)
+    }
+
+    const lowerTick = floorToGrid(lowerRaw, tickSize)
+    let upperTick = ceilToGrid(upperRaw, tickSize)
+    if (upperTick === lowerTick) {
+        upperTick = Math.min(lowerTick + tickSize, maxGridTick(tickSize))
+    }
+    return { lowerTick, upperTick }
+}
+
+// getSqrtRatioAtTick() rounds up, so the floored root of a price that's exactly on a tick
+// lands one unit below that tick's ratio.
+function isTickRatio (tick: number, root: BigNumber): boolean {
+    const diff = getSqrtRatioAtTick(tick).sub(root)
+    return diff.gte(0) && diff.lte(1)
+}
+
+function assertTickSize (tickSize: number) {
+    if (!Number.isInteger(tickSize) || tickSize <= 0 || tickSize > 65535) {
+        throw new Error(`Tick size ${tickSize} must be an integer in [1, 65535]`)
+    }
+}
+
+// Parses a decimal number or string into an exact (numerator, denominator) fraction
+function parseDecimal (price: number | string): [BigNumber, BigNumber] {
+    const text = typeof price === "number" ? price.toString() : price.trim()
+    const match = /^(\d*)(?:\.(\d*))?(?:[eE]([+-]?\d+))?$/.exec(text)
+    if (match === null || (match[1] + (match[2] || "")).length === 0) {
+        throw new Error(`Price ${price} is not a valid decimal number`)
+    }
+
+    const frac = match[2] || ""
+    const exp = parseInt(match[3] || "0", 10) - frac.length
+    const digits = BigNumber.from((match[1] + frac).replace(/^0+(?=\d)/, ""))
+    const scale = BigNumber.from(10).pow(Math.abs(exp))
+    return exp >= 0 ? [digits.mul(scale), BigNumber.from(1)] : [digits, scale]
+}
+
+// Integer square root, rounded down
+function isqrt (x: BigNumber): BigNumber {
+    if (x.lt(2)) {
+        return x
+    }
+    let z = x
+    let y = BigNumber.from(1).shl(Math.ceil(bitLength(x) / 2))
+    while (y.lt(z)) {
+        z = y
+        y = x.div(y).add(y).shr(1)
+    }
+    return z
+}
+
+const Q64 = BigNumber.from(2).pow(64)
+const Q128 = BigNumber.from(2).pow(128)
+const U256_MAX = BigNumber.from(2).pow(256).sub(1)
+
+const LOG_SQRT_MULT = BigNumber.from("255738958999603826347141")
+const TICK_LOW_OFFSET = BigNumber.from("3402992956809132418596140100660247210")
+const TICK_HI_OFFSET = BigNumber.from("291339464771989622907027621153398088495")
+
+// Multipliers for tick bits 0x2 through 0x80000, in order
+const TICK_MULTS = [
+    "0xfff97272373d413259a46990580e213a",
+    "0xfff2e50f5f656932ef12357cf3c7fdcc",
+    "0xffe5caca7e10e4e61c3624eaa0941cd0",
+    "0xffcb9843d60f6159c9db58835c926644",
+    "0xff973b41fa98c081472e6896dfb254c0",
+    "0xff2ea16466c96a3843ec78b326b52861",
+    "0xfe5dee046a99a2a811c461f1969c3053",
+    "0xfcbe86c7900a88aedcffc83b479aa3a4",
+    "0xf987a7253ac413176f2b074cf7815e54",
+    "0xf3392b0822b70005940c7a398e4b70f3",
+    "0xe7159475a2c29b7443b29c7fa6e889d9",
+    "0xd097f3bdfd2022b8845ad8f792aa5825",
+    "0xa9f746462d870fdf8a65dc1f90e061e5",
+    "0x70d869a156d2a1b890bb3df62baf32f7",
+    "0x31be135f97d08fd981231505542fcfa6",
+    "0x9aa508b5b7a84e1c677de54f3e99bc9",
+    "0x5d6af8dedb81196699c329225ee604",
+    "0x2216e584f5fa1ea926041bedfe98",
+    "0x48a170391f7dc42444e8fa2"
+].map(m => BigNumber.from(m))
+
+function bitLength (x: BigNumber): number {
+    const hex = x.toHexString().slice(2).replace(/^0+/, "")
+    return hex.length === 0 ? 0 :
+        (hex.length - 1) * 4 + parseInt(hex[0], 16).toString(2).length
+}
+
+// Arithmetic (flooring) right shift by 128 bits, as int256 >> 128 in Solidity
+function sar128 (x: BigNumber): number {
+    if (x.gte(0)) {
+        return x.shr(128).toNumber()
+    }
+    return -x.mul(-1).add(Q128).sub(1).shr(128).toNumber()
+}
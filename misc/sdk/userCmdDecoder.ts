@@ -0,0 +1,250 @@
+import { AbiCoder } from "@ethersproject/abi";
+import { BigNumber, BytesLike, ethers } from "ethers";
+import { APPROVE_ROUTER_CODE, BURN_AMBIENT_BASE_LP, BURN_AMBIENT_LIQ_LP, BURN_AMBIENT_QUOTE_LP,
+    BURN_KNOCKOUT_CODE, BURN_RANGE_BASE_LP, BURN_RANGE_LIQ_LP, BURN_RANGE_QUOTE_LP,
+    CLAIM_KNOCKOUT_CODE, COLD_PROXY_IDX, DEPOSIT_PERMIT_CODE, DEPOSIT_SURPLUS_CODE,
+    DISBURSE_SURPLUS_CODE, GATE_ORACLE_COND_CODE, HARVEST_LP, INIT_POOL_CODE,
+    KNOCKOUT_LP_PROXY_IDX, LONG_PROXY_IDX, LP_PROXY_IDX, MINT_AMBIENT_BASE_LP,
+    MINT_AMBIENT_LIQ_LP, MINT_AMBIENT_QUOTE_LP, MINT_KNOCKOUT_CODE, MINT_RANGE_BASE_LP,
+    MINT_RANGE_LIQ_LP, MINT_RANGE_QUOTE_LP, RECOVER_KNOCKOUT_CODE, RESET_NONCE_CODE,
+    RESET_NONCE_COND_CODE, SIDE_POCKET_CODE, SWAP_PROXY_IDX, TRANSFER_SURPLUS_CODE } from "./commands";
+import { decodeOrderDirective } from "./order";
+import { ArgSpec, DecodedField, decodedField, decodedNumber, formatDecodedField,
+    nativeEthNote, proxyPathName } from "./protocolDecoder";
+import { sqrtRatioToPrice } from "./tickMath";
+
+/* Decodes userCmd() payloads into labelled, typed fields. The user side counterpart of
+ * protocolDecoder.ts, and the inverse of the user command builders in commands.ts. Used
+ * to show what a reverted or relayed call was trying to do. */
+
+export interface DecodedUserCmd {
+    callpath: number
+    proxyPath: string
+    // Undefined for the swap and long-form paths, whose payloads have no code word
+    code?: number
+    command: string
+    // False if the callpath or code isn't known. Fields are the raw 32-byte words.
+    known: boolean
+    fields: DecodedField[]
+}
+
+/* @notice Decodes a userCmd() payload for the given callpath. Unknown callpaths and
+ *         codes are returned with known=false rather than throwing, but a payload that
+ *         doesn't match its code's layout throws. */
+export function decodeUserCmd (callpath: number, cmd: BytesLike): DecodedUserCmd {
+    const bytes = ethers.utils.arrayify(cmd)
+    const proxyPath = proxyPathName(callpath)
+
+    if (callpath === SWAP_PROXY_IDX) {
+        return { callpath, proxyPath, command: "Swap", known: true,
+            fields: decodeFields("Swap", SWAP_ARGS, bytes) }
+    }
+    if (callpath === LONG_PROXY_IDX) {
+        return { callpath, proxyPath, command: "LongForm", known: true,
+            fields: decodeLongForm(bytes) }
+    }
+
+    const specs = USER_CMD_SPECS[callpath]
+    if (specs === undefined) {
+        return unknownCmd(callpath, bytes, undefined, `${proxyPath} has no known userCmd layout`)
+    }
+    if (bytes.length < 32) {
+        throw new Error(`User command must start with a 32-byte code word, got ${bytes.length} bytes`)
+    }
+    const code = BigNumber.from(bytes.slice(0, 32)).toNumber()
+    const spec = specs[code]
+    if (spec === undefined) {
+        return unknownCmd(callpath, bytes, code, `not a ${proxyPath} userCmd code`)
+    }
+
+    const args: ArgSpec[] = [{ name: "code", type: "uint8" }].concat(spec.args)
+    let fields = decodeFields(spec.name, args, bytes).slice(1)
+    if (spec.inner !== undefined) {
+        // The knockout paths pack the code specific arguments in a trailing bytes field
+        const inner = fields.pop() as DecodedField
+        fields = fields.concat(decodeFields(spec.name, spec.inner, ethers.utils.arrayify(inner.value)))
+    }
+    return { callpath, proxyPath, code, command: spec.name, known: true, fields }
+}
+
+/* @notice Renders a decoded user command as indented text lines. */
+export function formatUserCmd (cmd: DecodedUserCmd): string[] {
+    const header = `userCmd ${cmd.command}` + (cmd.code !== undefined ? ` (code ${cmd.code})` : "") +
+        ` on ${cmd.proxyPath}`
+    return [header].concat(cmd.fields.map(f => "  " + formatDecodedField(f)))
+}
+
+interface UserCmdSpec {
+    name: string
+    args: ArgSpec[]
+    // Layout of the trailing bytes argument, if it's an encoding of its own
+    inner?: ArgSpec[]
+}
+
+function decodeFields (name: string, args: ArgSpec[], bytes: Uint8Array): DecodedField[] {
+    let vals: ethers.utils.Result
+    try {
+        vals = new AbiCoder().decode(args.map(a => a.type), bytes)
+    } catch {
+        throw new Error(`Malformed ${name} command: ${bytes.length} bytes don't decode as ` +
+            `(${args.map(a => a.type).join(", ")})`)
+    }
+    return args.map((a, i) => decodedField(a, vals[i]))
+}
+
+function unknownCmd (callpath: number, bytes: Uint8Array, code: number | undefined,
+    note: string): DecodedUserCmd {
+    let fields: DecodedField[] = []
+    for (let i = code !== undefined ? 32 : 0; i < bytes.length; i += 32) {
+        fields.push({ name: `word${i / 32}`, type: "bytes32",
+            value: ethers.utils.hexlify(bytes.slice(i, i + 32)) })
+    }
+    const command = code !== undefined ? `Unknown command ${code}` : "Unknown command"
+    return { callpath, proxyPath: proxyPathName(callpath), code, command, known: false,
+        fields: fields.concat([{ name: "warning", type: "string", value: note }]) }
+}
+
+// Summarizes the settlement legs and pools of a long-form order, see order.ts
+function decodeLongForm (bytes: Uint8Array): DecodedField[] {
+    const order = decodeOrderDirective(bytes)
+    let fields = [tokenField("open.token", order.open.token)]
+    order.hops.forEach((hop, i) => {
+        hop.pools.forEach((pool, j) => {
+            const swap = pool.swap.qty.isZero() ? "no swap" :
+                `swap ${pool.swap.qty} ${pool.swap.inBaseQty ? "base" : "quote"}, ` +
+                (pool.swap.isBuy ? "buying quote" : "selling quote")
+            fields.push({ name: `hops[${i}].pools[${j}].poolIdx`, type: "uint256",
+                value: BigNumber.from(pool.poolIdx).toString(), note: swap })
+        })
+        fields.push(tokenField(`hops[${i}].token`, hop.settlement.token))
+    })
+    return fields
+}
+
+function tokenField (name: string, addr: string): DecodedField {
+    const note = nativeEthNote(addr)
+    return note !== undefined ? { name, type: "address", value: addr, note } :
+        { name, type: "address", value: addr }
+}
+
+const PAIR_ARGS: ArgSpec[] = [
+    { name: "base", type: "address", describe: nativeEthNote },
+    { name: "quote", type: "address" },
+    { name: "poolIdx", type: "uint256" }
+]
+
+const SWAP_ARGS: ArgSpec[] = PAIR_ARGS.concat([
+    { name: "isBuy", type: "bool",
+      describe: (v) => v ? "pays base, receives quote" : "pays quote, receives base" },
+    { name: "inBaseQty", type: "bool", describe: (v) => v ? "qty in base" : "qty in quote" },
+    { name: "qty", type: "uint128" },
+    { name: "tip", type: "uint16" },
+    priceArg("limitPrice"),
+    { name: "minOutput", type: "uint128" },
+    reserveFlagsArg()
+])
+
+const WARM_ARGS: ArgSpec[] = PAIR_ARGS.concat([
+    { name: "lowTick", type: "int24" },
+    { name: "highTick", type: "int24" },
+    { name: "qty", type: "uint128" },
+    priceArg("limitLower"),
+    priceArg("limitHigher"),
+    reserveFlagsArg(),
+    { name: "lpConduit", type: "address",
+      describe: (v) => v === ethers.constants.AddressZero ? "position held by the sender" : undefined }
+])
+
+const KNOCKOUT_ARGS: ArgSpec[] = PAIR_ARGS.concat([
+    { name: "lowTick", type: "int24" },
+    { name: "highTick", type: "int24" },
+    { name: "isBid", type: "bool" },
+    reserveFlagsArg(),
+    { name: "args", type: "bytes" }
+])
+
+const RECV_ARGS: ArgSpec[] = [{ name: "recv", type: "address" }]
+const TOKEN_ARG: ArgSpec = { name: "token", type: "address", describe: nativeEthNote }
+
+function warmSpec (name: string): UserCmdSpec {
+    return { name, args: WARM_ARGS }
+}
+
+const USER_CMD_SPECS: Record<number, Record<number, UserCmdSpec>> = {
+    [LP_PROXY_IDX]: {
+        [MINT_RANGE_LIQ_LP]: warmSpec("MintRangeLiq"),
+        [MINT_RANGE_BASE_LP]: warmSpec("MintRangeBase"),
+        [MINT_RANGE_QUOTE_LP]: warmSpec("MintRangeQuote"),
+        [BURN_RANGE_LIQ_LP]: warmSpec("BurnRangeLiq"),
+        [BURN_RANGE_BASE_LP]: warmSpec("BurnRangeBase"),
+        [BURN_RANGE_QUOTE_LP]: warmSpec("BurnRangeQuote"),
+        [MINT_AMBIENT_LIQ_LP]: warmSpec("MintAmbientLiq"),
+        [MINT_AMBIENT_BASE_LP]: warmSpec("MintAmbientBase"),
+        [MINT_AMBIENT_QUOTE_LP]: warmSpec("MintAmbientQuote"),
+        [BURN_AMBIENT_LIQ_LP]: warmSpec("BurnAmbientLiq"),
+        [BURN_AMBIENT_BASE_LP]: warmSpec("BurnAmbientBase"),
+        [BURN_AMBIENT_QUOTE_LP]: warmSpec("BurnAmbientQuote"),
+        [HARVEST_LP]: warmSpec("Harvest")
+    },
+
+    [KNOCKOUT_LP_PROXY_IDX]: {
+        [MINT_KNOCKOUT_CODE]: { name: "MintKnockout", args: KNOCKOUT_ARGS,
+            inner: [{ name: "qty", type: "uint128" }, { name: "insideMid", type: "bool" }] },
+        [BURN_KNOCKOUT_CODE]: { name: "BurnKnockout", args: KNOCKOUT_ARGS,
+            inner: [{ name: "qty", type: "uint128" }, { name: "inLiq", type: "bool" },
+                    { name: "insideMid", type: "bool" }] },
+        [CLAIM_KNOCKOUT_CODE]: { name: "ClaimKnockout", args: KNOCKOUT_ARGS,
+            inner: [{ name: "root", type: "uint160" }, { name: "proof", type: "uint256[]" }] },
+        [RECOVER_KNOCKOUT_CODE]: { name: "RecoverKnockout", args: KNOCKOUT_ARGS,
+            inner: [{ name: "pivotTime", type: "uint32",
+                describe: (v) => new Date(decodedNumber(v) * 1000).toISOString() }] }
+    },
+
+    [COLD_PROXY_IDX]: {
+        [INIT_POOL_CODE]: { name: "InitPool", args: PAIR_ARGS.concat([priceArg("sqrtPrice")]) },
+        [APPROVE_ROUTER_CODE]: { name: "ApproveRouter", args: [
+            { name: "router", type: "address" }, { name: "nCalls", type: "uint32" },
+            { name: "callpaths", type: "uint16[]",
+              describe: (v) => Array.isArray(v) ?
+                v.map(c => proxyPathName(decodedNumber(c))).join(", ") : undefined }] },
+        [DEPOSIT_SURPLUS_CODE]: { name: "DepositSurplus", args: RECV_ARGS.concat([
+            { name: "value", type: "uint128" }, TOKEN_ARG]) },
+        [DISBURSE_SURPLUS_CODE]: { name: "DisburseSurplus", args: RECV_ARGS.concat([
+            surplusValueArg(), TOKEN_ARG]) },
+        [TRANSFER_SURPLUS_CODE]: { name: "TransferSurplus", args: RECV_ARGS.concat([
+            surplusValueArg(), TOKEN_ARG]) },
+        [SIDE_POCKET_CODE]: { name: "SidePocket", args: [
+            { name: "fromSalt", type: "uint256" }, { name: "toSalt", type: "uint256" },
+            surplusValueArg(), TOKEN_ARG] },
+        [RESET_NONCE_CODE]: { name: "ResetNonce", args: [
+            { name: "salt", type: "bytes32" }, { name: "nonce", type: "uint32" }] },
+        [RESET_NONCE_COND_CODE]: { name: "ResetNonceCond", args: [
+            { name: "salt", type: "bytes32" }, { name: "nonce", type: "uint32" },
+            { name: "oracle", type: "address" }, { name: "args", type: "bytes" }] },
+        [GATE_ORACLE_COND_CODE]: { name: "GateOracle", args: [
+            { name: "oracle", type: "address" }, { name: "args", type: "bytes" }] },
+        [DEPOSIT_PERMIT_CODE]: { name: "DepositPermit", args: RECV_ARGS.concat([
+            { name: "value", type: "uint128" }, TOKEN_ARG,
+            { name: "deadline", type: "uint256" }, { name: "v", type: "uint8" },
+            { name: "r", type: "bytes32" }, { name: "s", type: "bytes32" }]) }
+    }
+}
+
+function priceArg (name: string): ArgSpec {
+    // Q64.64 square root price
+    return { name, type: "uint128", describe: (v) => BigNumber.from(v).isZero() ? undefined :
+        `price ${sqrtRatioToPrice(BigNumber.from(v)).toPrecision(6)}` }
+}
+
+function reserveFlagsArg(): ArgSpec {
+    return { name: "reserveFlags", type: "uint8", describe: (v) => {
+        const flags = decodedNumber(v)
+        const sides = [(flags & 0x1) ? "base" : "", (flags & 0x2) ? "quote" : ""].filter(s => s !== "")
+        return sides.length > 0 ? `settles ${sides.join(" and ")} with surplus collateral` : undefined
+    } }
+}
+
+function surplusValueArg(): ArgSpec {
+    return { name: "value", type: "int128", describe: (v) => BigNumber.from(v).lt(0) ?
+        `leaves ${BigNumber.from(v).abs()} behind in surplus` : undefined }
+}
@@ -1,6 +1,6 @@
 #!/bin/bash
+# Signs with CROC_SIGNER (see misc/libs/signers.ts), or the key in WALLET_KEY by default
 npx ts-node \
 misc/scripts/dex-deployer.ts \
 --eth-node="http://localhost:8545" \
---eth-privkey="0x34d97aaf58b1a81d3ed3068a870d8093c6341cf5d1ef7e6efa03fe7f7fc2c3a8" \
 --artifacts-root="artifacts/contracts/"
@@ -0,0 +1,751 @@
+import { BigNumber, ContractTransaction, Signer } from 'ethers';
+import { TypedDataSigner } from '@ethersproject/abstract-signer';
+import { ethers } from 'hardhat';
+import "@nomiclabs/hardhat-ethers";
+import fs from "fs";
+import { ERC20Token, makeTokenTriangle, TestPool } from './FacadePool';
+import { CrocSwapDex } from '../typechain/CrocSwapDex';
+import { CrocQuery } from '../typechain/CrocQuery';
+import { fuzzSeed, makeRng, Rng, uintArb } from './PropertyFuzz';
+import { addFrac, cmpFrac, frac, Fraction, fracToString, Q48, Q64, Q128 } from './ReferenceMath';
+import { BASE_SURPLUS_FLAG, burnAmbientCmd, burnKnockoutCmd, burnRangeCmd, claimKnockoutCmd,
+    CrocUserCmd, depositSurplusCmd, disburseSurplusCmd, harvestCmd, MAX_SQRT_RATIO, MAX_TICK,
+    MIN_SQRT_RATIO, MIN_TICK, mintAmbientCmd, mintKnockoutCmd, mintRangeCmd, QUOTE_SURPLUS_FLAG,
+    relayerTakeRateCmd, swapCmd, transferSurplusCmd } from '../misc/sdk/commands';
+import { getSqrtRatioAtTick } from '../misc/sdk/tickMath';
+import { CrocRelayerClient, TIP_RECV_SENDER } from '../misc/sdk/relayer';
+import { findKnockoutClaims, knockoutPivotTick } from '../misc/sdk/knockoutProof';
+import { describeError, extractRevertReason } from '../misc/sdk/revertDecoder';
+
+/* Stateful invariant fuzzing of the whole dex. Drives random sequences of user actions
+ * (range, ambient and knockout LP, swaps, surplus moves, and relayed calls of any of
+ * those) by three users across the three pools of makeTokenTriangle(), and checks global
+ * invariants after every step:
+ *
+ *   - The dex holds enough of each token to pay out every user's surplus, the protocol
+ *     fees, and the exact reserves of every pool's ambient, range and knockout liquidity.
+ *   - Accumulated protocol fees never decrease (nothing here collects them).
+ *   - No range or knockout position's tokens, valued at the pool price, are worth more
+ *     than what its owner paid in. Fees are excluded, since they're the position's gain.
+ *
+ * Actions are generated against the live chain state, so most are valid, but reverts
+ * are allowed and recorded. When an invariant fails, the action trace is minimized by
+ * replaying it from a snapshot with actions removed, and the error carries the trace as
+ * JSON. Save it to a file to replay it:
+ *
+ *   FUZZ_SEED=1234 npx hardhat test test/TestDexFuzz.ts
+ *   FUZZ_TRACE=trace.json npx hardhat test test/TestDexFuzz.ts
+ *
+ * FUZZ_SEQUENCES and FUZZ_STEPS set the number and length of random sequences. The seed
+ * is fixed under CI, see fuzzSeed() in PropertyFuzz.ts. */
+
+export type DexOp = "mintRange" | "burnRange" | "mintAmbient" | "burnAmbient" | "harvest" |
+    "swap" | "knockoutMint" | "knockoutBurn" | "knockoutClaim" | "deposit" | "withdraw" |
+    "transfer"
+
+/* @notice One step of a trace. Users, pools and tokens are indices into the env, and
+ *         quantities are decimal strings, so traces are plain JSON. */
+export interface DexAction {
+    op: DexOp
+    user: number
+    pool?: number
+    token?: number
+    lower?: number
+    upper?: number
+    isBid?: boolean
+    isBuy?: boolean
+    inBase?: boolean
+    // Liquidity for LP ops, tokens for swaps, knockout mints and surplus moves
+    qty?: string
+    limitPrice?: string
+    // Receiving user of a surplus transfer
+    recv?: number
+    // Settles with the user's surplus collateral instead of their wallet
+    surplus?: boolean
+    // Submitted by this user as a relayer call signed by the acting user...
+    relayer?: number
+    // ...which tips the relayer this much of the pool's base token (or the action's
+    // token) from the signer's surplus
+    tip?: string
+}
+
+export interface DexCheck {
+    check: string
+    ok: boolean
+    detail: string
+}
+
+export interface DexStepResult {
+    index: number
+    action: DexAction
+    reverted?: string
+    // Only the failed checks
+    failed: DexCheck[]
+}
+
+export interface DexFuzzEnv {
+    pools: TestPool[]
+    tokens: ERC20Token[]
+    // Sign relayed calls too
+    users: (Signer & TypedDataSigner)[]
+    dex: CrocSwapDex
+    query: CrocQuery
+    chainId: number
+    // evm_snapshot of the freshly set up dex that every sequence starts from
+    snapshot: string
+}
+
+export interface TokenPair {
+    base: BigNumber
+    quote: BigNumber
+}
+
+export interface RangePosition {
+    pool: number
+    owner: number
+    lower: number
+    upper: number
+    // Tokens the owner paid in, scaled down on partial burns
+    basis: TokenPair
+}
+
+export interface KnockoutPosition extends RangePosition {
+    isBid: boolean
+    pivot: number
+}
+
+/* @notice What the fuzzer tracks of the dex state. Positions are only tracked to value
+ *         them; ambient liquidity is valued from the pool curves. */
+export interface DexLedger {
+    ranges: RangePosition[]
+    knockouts: KnockoutPosition[]
+    ambients: { pool: number, owner: number }[]
+    // Last seen per token
+    protocolAccum: BigNumber[]
+}
+
+export type DexInvariant = (env: DexFuzzEnv, ledger: DexLedger) => Promise<DexCheck[]>
+
+export interface DexFuzzOpts {
+    seed?: number
+    sequences?: number
+    steps?: number
+    // Replays this trace instead of generating random sequences
+    trace?: DexAction[]
+    // Checked after every step, in addition to the built-in invariants
+    invariants?: DexInvariant[]
+    // Cap on trace replays while minimizing a failure
+    maxReplays?: number
+}
+
+export const DEFAULT_FUZZ_SEQUENCES = 3
+export const DEFAULT_FUZZ_STEPS = 30
+const DEFAULT_MAX_REPLAYS = 60
+
+const FEE_RATE = 225 * 100
+const PROTOCOL_TAKE = 43
+const RELAYER_TAKE = 64
+// Knockouts enabled, on grid and 32 ticks wide
+const KNOCKOUT_BITS = 64 + 32 + 5
+const KNOCKOUT_WIDTH = 32
+const INIT_PRICES = [1.5, 0.8, 2.0]
+const SEED_LOTS = 1000000
+const FUND_BAL = BigNumber.from(10).pow(30)
+
+const MAX_SWAP_QTY = BigNumber.from(10).pow(9)
+const MAX_RANGE_LOTS = BigNumber.from(500000)
+const MAX_AMBIENT_LIQ = BigNumber.from(10).pow(9)
+const MAX_KNOCKOUT_QTY = BigNumber.from(10).pow(8)
+const MAX_DEPOSIT = BigNumber.from(10).pow(8)
+// Range lots must be even, since the odd bit flags knockout liquidity
+const RANGE_LIQ_UNIT = 2048
+
+const OP_WEIGHTS: [DexOp, number][] = [
+    ["swap", 30], ["mintRange", 12], ["burnRange", 8], ["mintAmbient", 6], ["burnAmbient", 5],
+    ["harvest", 3], ["knockoutMint", 10], ["knockoutBurn", 4], ["knockoutClaim", 5],
+    ["deposit", 6], ["withdraw", 5], ["transfer", 4]]
+const SURPLUS_ODDS = 4
+const RELAYER_ODDS = 6
+
+/* @notice Deploys the three pool triangle with knockouts, protocol and relayer takes
+ *         enabled, funds three users with every token, seeds each pool with ambient
+ *         liquidity and snapshots the chain. */
+export async function makeDexFuzzEnv(): Promise<DexFuzzEnv> {
+    const pools = await makeTokenTriangle()
+    const dex = await pools[0].dex
+    // The pools' trader, other and third accounts, as hardhat signers that sign typed data
+    const accts = await ethers.getSigners()
+    const users = [accts[0], accts[2], accts[3]]
+    const tokens = [pools[0].base, pools[0].quote, pools[1].quote]
+
+    for (const token of tokens) {
+        for (const user of users) {
+            await token.fund(user, dex.address, FUND_BAL)
+        }
+    }
+
+    for (let i = 0; i < pools.length; ++i) {
+        pools[i].knockoutBits = KNOCKOUT_BITS
+        await pools[i].initPool(FEE_RATE, PROTOCOL_TAKE, 1, INIT_PRICES[i])
+        await pools[i].testMintAmbient(SEED_LOTS)
+    }
+
+    const take = relayerTakeRateCmd(RELAYER_TAKE)
+    await dex.connect(await pools[0].auth).protocolCmd(take.callpath, take.protocolCmd, !!take.sudo)
+
+    return { pools, tokens, users, dex, query: await pools[0].query,
+        chainId: (await ethers.provider.getNetwork()).chainId,
+        snapshot: await ethers.provider.send("evm_snapshot", []) }
+}
+
+/* @notice Runs random action sequences, or replays opts.trace, checking the invariants
+ *         after every step. Throws with a minimized, replayable trace on the first
+ *         failure. */
+export async function checkDexInvariants (env: DexFuzzEnv, opts: DexFuzzOpts = {}): Promise<void> {
+    const invariants = [builtinInvariants as DexInvariant].concat(opts.invariants || [])
+    const maxReplays = opts.maxReplays !== undefined ? opts.maxReplays : DEFAULT_MAX_REPLAYS
+
+    if (opts.trace || process.env.FUZZ_TRACE) {
+        const source = opts.trace ? "the given trace" : `trace ${process.env.FUZZ_TRACE}`
+        const trace = opts.trace || readDexTrace(process.env.FUZZ_TRACE as string)
+        const steps = await replayDexTrace(env, trace, invariants)
+        const fail = firstFailure(steps)
+        if (fail) {
+            throw new Error(`Dex invariant ${fail.failed[0].check} failed at step ${fail.index} ` +
+                `of ${source}: ${fail.failed[0].detail}`)
+        }
+        return
+    }
+
+    const sequences = opts.sequences !== undefined ? opts.sequences :
+        process.env.FUZZ_SEQUENCES ? Number(process.env.FUZZ_SEQUENCES) : DEFAULT_FUZZ_SEQUENCES
+    const nSteps = opts.steps !== undefined ? opts.steps :
+        process.env.FUZZ_STEPS ? Number(process.env.FUZZ_STEPS) : DEFAULT_FUZZ_STEPS
+    const seed = fuzzSeed(opts.seed)
+    const rng = makeRng(seed)
+
+    for (let seq = 0; seq < sequences; ++seq) {
+        const steps = await runDexSequence(env, invariants,
+            (ledger, i) => i < nSteps ? genAction(env, ledger, rng) : Promise.resolve(undefined))
+        const fail = firstFailure(steps)
+        if (fail) {
+            const check = fail.failed[0].check
+            const trace = await minimizeDexTrace(env, steps.map(s => s.action), check,
+                invariants, maxReplays)
+            throw new Error(`Dex invariant ${check} failed at step ${fail.index} of sequence ` +
+                `${seq + 1} (seed ${seed}, replay with FUZZ_SEED=${seed}): ` +
+                `${fail.failed[0].detail}\n` +
+                `Minimized trace of ${trace.length} actions. Save it to a file and replay ` +
+                `with FUZZ_TRACE=<file>:\n${formatDexTrace(trace)}`)
+        }
+    }
+}
+
+/* @notice Replays the trace from the env snapshot, stopping at the first step that
+ *         fails an invariant. */
+export async function replayDexTrace (env: DexFuzzEnv, trace: DexAction[],
+    invariants: DexInvariant[] = [builtinInvariants]): Promise<DexStepResult[]> {
+    return runDexSequence(env, invariants, (ledger, i) => Promise.resolve(trace[i]))
+}
+
+/* @notice Shrinks a failing trace by removing ever smaller chunks of actions, then the
+ *         relayer and surplus options of the rest, keeping each change that still fails
+ *         the same check. Actions after the failing step are always dropped. */
+export async function minimizeDexTrace (env: DexFuzzEnv, trace: DexAction[], check: string,
+    invariants: DexInvariant[] = [builtinInvariants],
+    maxReplays: number = DEFAULT_MAX_REPLAYS): Promise<DexAction[]> {
+    let replays = 0
+    // The candidate up to its failing step, if it fails the check
+    const failingPrefix = async (candidate: DexAction[]): Promise<DexAction[] | undefined> => {
+        replays += 1
+        const fail = firstFailure(await replayDexTrace(env, candidate, invariants))
+        return fail && fail.failed.some(c => c.check === check) ?
+            candidate.slice(0, fail.index) : undefined
+    }
+
+    for (let chunk = Math.ceil(trace.length / 2); chunk >= 1; chunk = Math.floor(chunk / 2)) {
+        let start = 0
+        while (start < trace.length && trace.length > 1 && replays < maxReplays) {
+            const candidate = trace.slice(0, start).concat(trace.slice(start + chunk))
+            const failing = candidate.length > 0 ? await failingPrefix(candidate) : undefined
+            if (failing) {
+                trace = failing
+            } else {
+                start += chunk
+            }
+        }
+        if (chunk === 1) { break }
+    }
+
+    for (let i = 0; i < trace.length && replays < maxReplays; ++i) {
+        const simpler: DexAction = { ...trace[i] }
+        delete simpler.relayer
+        delete simpler.tip
+        delete simpler.surplus
+        if (JSON.stringify(simpler) !== JSON.stringify(trace[i])) {
+            const failing = await failingPrefix(trace.slice(0, i).concat([simpler], trace.slice(i + 1)))
+            if (failing) { trace = failing }
+        }
+    }
+    return trace
+}
+
+export function formatDexTrace (trace: DexAction[]): string {
+    return "[\n  " + trace.map(a => JSON.stringify(a)).join(",\n  ") + "\n]"
+}
+
+export function readDexTrace (file: string): DexAction[] {
+    return parseDexTrace(JSON.parse(fs.readFileSync(file, "utf8")), file)
+}
+
+export function parseDexTrace (raw: any, source: string): DexAction[] {
+    if (!Array.isArray(raw) || raw.length === 0) {
+        throw new Error(`${source}: trace must be a non-empty array of actions`)
+    }
+    return raw.map((action: any, i: number) => {
+        const where = `${source}: action ${i + 1}`
+        if (!OP_WEIGHTS.some(([op]) => op === action.op)) {
+            throw new Error(`${where} has unknown op ${action.op}`)
+        }
+        const indices: [string, number][] = [["user", 3], ["recv", 3], ["relayer", 3],
+            ["pool", 3], ["token", 3]]
+        indices.forEach(([field, count]) => {
+            const val = action[field]
+            if (field === "user" ? !isIndex(val, count) : val !== undefined && !isIndex(val, count)) {
+                throw new Error(`${where} ${field} must be an index below ${count}`)
+            }
+        })
+        if (action.relayer === action.user) {
+            throw new Error(`${where} can't be relayed by its own signer`)
+        }
+        return action as DexAction
+    })
+}
+
+function isIndex (val: any, count: number): boolean {
+    return Number.isInteger(val) && val >= 0 && val < count
+}
+
+function firstFailure (steps: DexStepResult[]): DexStepResult | undefined {
+    return steps.find(s => s.failed.length > 0)
+}
+
+async function runDexSequence (env: DexFuzzEnv, invariants: DexInvariant[],
+    next: (ledger: DexLedger, i: number) => Promise<DexAction | undefined>): Promise<DexStepResult[]> {
+    await ethers.provider.send("evm_revert", [env.snapshot])
+    env.snapshot = await ethers.provider.send("evm_snapshot", [])
+
+    const ledger: DexLedger = { ranges: [], knockouts: [],
+        ambients: env.pools.map((p, i) => ({ pool: i, owner: 0 })),
+        protocolAccum: env.tokens.map(t => BigNumber.from(0)) }
+    let steps: DexStepResult[] = []
+
+    for (let i = 0; ; ++i) {
+        const action = await next(ledger, i)
+        if (action === undefined) { break }
+
+        const reverted = await applyAction(env, ledger, action)
+        let failed: DexCheck[] = []
+        for (const invariant of invariants) {
+            failed = failed.concat((await invariant(env, ledger)).filter(c => !c.ok))
+        }
+        steps.push({ index: i + 1, action, reverted, failed })
+        if (failed.length > 0) { break }
+    }
+    return steps
+}
+
+/* @notice Sends the action and updates the ledger. Returns the revert reason if the
+ *         dex rejected it. */
+async function applyAction (env: DexFuzzEnv, ledger: DexLedger, action: DexAction):
+    Promise<string | undefined> {
+    const owner = await env.users[action.user].getAddress()
+    const isMint = action.op === "mintRange" || action.op === "knockoutMint"
+    const before = isMint ? await ownerBalances(env, action, owner) : undefined
+    const range = action.op === "burnRange" ? findRange(ledger, action) : undefined
+    const liqBefore = range ? await rangeLiq(env, range) : BigNumber.from(0)
+
+    try {
+        const cmd = await actionCmd(env, action)
+        if (cmd === undefined) { return "no knocked out tranche to claim" }
+        await (await sendCmd(env, action, cmd)).wait()
+    } catch (err: any) {
+        if (extractRevertReason(err) === undefined) { throw err }
+        return describeError(err)
+    }
+
+    if (before) {
+        // The signer's tip comes out of the same balances, but isn't paid for the position
+        const after = await ownerBalances(env, action, owner)
+        const tip = BigNumber.from(action.tip !== undefined ? action.tip : 0)
+        await recordMint(env, ledger, action, { base: before.base.sub(after.base).sub(tip),
+            quote: before.quote.sub(after.quote) })
+
+    } else if (range) {
+        const liqAfter = await rangeLiq(env, range)
+        if (liqAfter.isZero()) {
+            ledger.ranges = ledger.ranges.filter(r => r !== range)
+        } else {
+            range.basis = scaleBasis(range.basis, liqBefore, liqAfter)
+        }
+
+    } else if (action.op === "knockoutBurn" || action.op === "knockoutClaim") {
+        let remaining: KnockoutPosition[] = []
+        for (const pos of ledger.knockouts) {
+            if (!isAt(pos, action) || (await knockoutLiq(env, pos)).gt(0)) { remaining.push(pos) }
+        }
+        ledger.knockouts = remaining
+
+    } else if (action.op === "mintAmbient") {
+        if (!ledger.ambients.some(a => a.pool === action.pool && a.owner === action.user)) {
+            ledger.ambients.push({ pool: action.pool as number, owner: action.user })
+        }
+
+    } else if (action.op === "burnAmbient") {
+        const pool = env.pools[action.pool as number]
+        const tokens = await env.query.queryAmbientTokens(owner, pool.base.address,
+            pool.quote.address, pool.poolIdx)
+        if (tokens.liq.isZero()) {
+            ledger.ambients = ledger.ambients.filter(a =>
+                a.pool !== action.pool || a.owner !== action.user)
+        }
+    }
+    return undefined
+}
+
+async function recordMint (env: DexFuzzEnv, ledger: DexLedger, action: DexAction, paid: TokenPair) {
+    const loc = { pool: action.pool as number, owner: action.user, lower: action.lower as number,
+        upper: action.upper as number }
+
+    if (action.op === "mintRange") {
+        const pos = findRange(ledger, action)
+        if (pos) {
+            pos.basis = { base: pos.basis.base.add(paid.base), quote: pos.basis.quote.add(paid.quote) }
+        } else {
+            ledger.ranges.push({ ...loc, basis: paid })
+        }
+        return
+    }
+
+    const pool = env.pools[loc.pool]
+    const isBid = action.isBid as boolean
+    const pivot = (await env.query.queryKnockoutPivot(pool.base.address, pool.quote.address,
+        pool.poolIdx, isBid, knockoutPivotTick({ isBid, lowTick: loc.lower, highTick: loc.upper })))
+        .pivot
+    const pos = ledger.knockouts.find(k => isAt(k, action) && k.pivot === pivot)
+    if (pos) {
+        pos.basis = { base: pos.basis.base.add(paid.base), quote: pos.basis.quote.add(paid.quote) }
+    } else {
+        ledger.knockouts.push({ ...loc, isBid, pivot, basis: paid })
+    }
+}
+
+// Partial burns scale the basis down with the liquidity, rounding up
+function scaleBasis (basis: TokenPair, liqBefore: BigNumber, liqAfter: BigNumber): TokenPair {
+    const scale = (x: BigNumber) => x.mul(liqAfter).add(liqBefore).sub(1).div(liqBefore)
+    return { base: scale(basis.base), quote: scale(basis.quote) }
+}
+
+function findRange (ledger: DexLedger, action: DexAction): RangePosition | undefined {
+    return ledger.ranges.find(r => r.pool === action.pool && r.owner === action.user &&
+        r.lower === action.lower && r.upper === action.upper)
+}
+
+function isAt (pos: KnockoutPosition, action: DexAction): boolean {
+    return pos.pool === action.pool && pos.owner === action.user && pos.isBid === action.isBid &&
+        pos.lower === action.lower && pos.upper === action.upper
+}
+
+// Wallet plus surplus balances in the action's pool tokens
+async function ownerBalances (env: DexFuzzEnv, action: DexAction, owner: string): Promise<TokenPair> {
+    const pool = env.pools[action.pool as number]
+    const balance = async (token: ERC20Token) => (await token.balanceOf(owner))
+        .add(await env.query.querySurplus(owner, token.address))
+    return { base: await balance(pool.base), quote: await balance(pool.quote) }
+}
+
+async function rangeLiq (env: DexFuzzEnv, pos: RangePosition): Promise<BigNumber> {
+    const pool = env.pools[pos.pool]
+    return (await env.query.queryRangePosition(await env.users[pos.owner].getAddress(),
+        pool.base.address, pool.quote.address, pool.poolIdx, pos.lower, pos.upper)).liq
+}
+
+async function knockoutLiq (env: DexFuzzEnv, pos: KnockoutPosition): Promise<BigNumber> {
+    const pool = env.pools[pos.pool]
+    const lots = (await env.query.queryKnockoutPos(await env.users[pos.owner].getAddress(),
+        pool.base.address, pool.quote.address, pool.poolIdx, pos.pivot, pos.isBid,
+        pos.lower, pos.upper)).lots
+    return BigNumber.from(lots).mul(1024)
+}
+
+async function isKnockedOut (env: DexFuzzEnv, pos: KnockoutPosition): Promise<boolean> {
+    const pool = env.pools[pos.pool]
+    const pivot = await env.query.queryKnockoutPivot(pool.base.address, pool.quote.address,
+        pool.poolIdx, pos.isBid, knockoutPivotTick({ isBid: pos.isBid, lowTick: pos.lower,
+            highTick: pos.upper }))
+    return pivot.pivot !== pos.pivot
+}
+
+async function actionCmd (env: DexFuzzEnv, action: DexAction): Promise<CrocUserCmd | undefined> {
+    const qty = action.qty !== undefined ? action.qty : 0
+    const token = action.token !== undefined ? env.tokens[action.token].address : ""
+    const user = await env.users[action.user].getAddress()
+
+    if (action.op === "deposit") {
+        return depositSurplusCmd(user, qty, token)
+    } else if (action.op === "withdraw") {
+        return disburseSurplusCmd(user, qty, token)
+    } else if (action.op === "transfer") {
+        return transferSurplusCmd(await env.users[action.recv as number].getAddress(), qty, token)
+    }
+
+    const pool = env.pools[action.pool as number]
+    const pair = { base: pool.base.address, quote: pool.quote.address, poolIdx: pool.poolIdx }
+    const reserveFlags = action.surplus ? BASE_SURPLUS_FLAG | QUOTE_SURPLUS_FLAG : 0
+    const limits = { limitLower: MIN_SQRT_RATIO, limitHigher: MAX_SQRT_RATIO }
+    const ticks = { lowTick: action.lower as number, highTick: action.upper as number }
+    const knockout = { ...pair, ...ticks, isBid: action.isBid as boolean, reserveFlags }
+
+    switch (action.op) {
+        case "mintRange":
+            return mintRangeCmd({ ...pair, ...limits, ...ticks, qty, reserveFlags })
+        case "burnRange":
+            return burnRangeCmd({ ...pair, ...limits, ...ticks, qty, reserveFlags })
+        case "mintAmbient":
+            return mintAmbientCmd({ ...pair, ...limits, qty, reserveFlags })
+        case "burnAmbient":
+            return burnAmbientCmd({ ...pair, ...limits, qty, reserveFlags })
+        case "harvest":
+            return harvestCmd({ ...pair, ...limits, ...ticks, reserveFlags })
+        case "swap":
+            return swapCmd({ ...pair, isBuy: action.isBuy as boolean, inBaseQty: action.inBase as boolean,
+                qty, limitPrice: action.limitPrice as string, minOutput: 0, reserveFlags })
+        case "knockoutMint":
+            return mintKnockoutCmd({ ...knockout, qty, insideMid: false })
+        case "knockoutBurn":
+            return burnKnockoutCmd({ ...knockout, qty, inLiq: true, insideMid: false })
+        default: {
+            const claims = await findKnockoutClaims(ethers.provider, env.query, user,
+                { ...pair, isBid: knockout.isBid, ...ticks }, { dex: env.dex.address, fromBlock: 0 })
+            return claims.length > 0 ?
+                claimKnockoutCmd({ ...knockout, root: claims[0].root, proof: claims[0].proof }) :
+                undefined
+        }
+    }
+}
+
+async function sendCmd (env: DexFuzzEnv, action: DexAction, cmd: CrocUserCmd):
+    Promise<ContractTransaction> {
+    const signer = env.users[action.user]
+    if (action.relayer === undefined) {
+        return env.dex.connect(signer).userCmd(cmd.callpath, cmd.cmd)
+    }
+
+    // Block time can run ahead of the wall clock after time warps
+    const now = (await ethers.provider.getBlock("latest")).timestamp
+    const tipToken = action.pool !== undefined ? env.pools[action.pool].base.address :
+        env.tokens[action.token as number].address
+    const client = new CrocRelayerClient(signer, env.dex,
+        { dex: env.dex.address, chainId: env.chainId })
+    const call = await client.sign(cmd, { deadline: now + 3600, tip: action.tip === undefined ?
+        undefined : { token: tipToken, amount: action.tip, recv: TIP_RECV_SENDER } })
+    return env.dex.connect(env.users[action.relayer])
+        .userCmdRelayer(call.callpath, call.cmd, call.conds, call.tip, call.signature)
+}
+
+/* @notice The token balance, protocol fee and position value invariants. */
+export async function builtinInvariants (env: DexFuzzEnv, ledger: DexLedger): Promise<DexCheck[]> {
+    const curves = await Promise.all(env.pools.map(pool =>
+        env.query.queryCurve(pool.base.address, pool.quote.address, pool.poolIdx)))
+    const prices = curves.map(c => BigNumber.from(c.priceRoot_))
+
+    // Reserves owed by each pool, exact
+    let reserves = curves.map((curve, i) => {
+        const liq = BigNumber.from(curve.ambientSeeds_).mul(Q48.add(curve.seedDeflator_)).div(Q48)
+        return { base: frac(liq.mul(prices[i]), Q64), quote: frac(liq.mul(Q64), prices[i]) }
+    })
+    let checks: DexCheck[] = []
+
+    for (const pos of ledger.ranges) {
+        const tokens = rangeTokens(await rangeLiq(env, pos), prices[pos.pool], pos.lower, pos.upper)
+        addReserves(reserves, pos.pool, tokens)
+        checks.push(valueCheck(`range value pool ${pos.pool} user ${pos.owner} ` +
+            `[${pos.lower}, ${pos.upper}]`, tokens, pos.basis, prices[pos.pool]))
+    }
+
+    for (const pos of ledger.knockouts) {
+        // Knocked out liquidity is fully converted at the knockout tick
+        const price = await isKnockedOut(env, pos) ?
+            getSqrtRatioAtTick(knockoutPivotTick({ isBid: pos.isBid, lowTick: pos.lower,
+                highTick: pos.upper })) : prices[pos.pool]
+        const tokens = rangeTokens(await knockoutLiq(env, pos), price, pos.lower, pos.upper)
+        addReserves(reserves, pos.pool, tokens)
+        checks.push(valueCheck(`knockout value pool ${pos.pool} user ${pos.owner} ` +
+            `${pos.isBid ? "bid" : "ask"} [${pos.lower}, ${pos.upper}] pivot ${pos.pivot}`,
+            tokens, pos.basis, price))
+    }
+
+    for (let i = 0; i < env.tokens.length; ++i) {
+        const token = env.tokens[i].address
+        const balance = await env.tokens[i].balanceOf(env.dex.address)
+        let surplus = BigNumber.from(0)
+        for (const user of env.users) {
+            surplus = surplus.add(await env.query.querySurplus(await user.getAddress(), token))
+        }
+        const accum = BigNumber.from(await env.query.queryProtocolAccum(token))
+        const pooled = env.pools.reduce((acc, pool, p) =>
+            pool.base.address === token ? addFrac(acc, reserves[p].base) :
+            pool.quote.address === token ? addFrac(acc, reserves[p].quote) : acc, frac(0))
+        const owed = addFrac(pooled, frac(surplus.add(accum)))
+
+        checks.push({ check: `solvency token ${i}`, ok: cmpFrac(frac(balance), owed) >= 0,
+            detail: `dex holds ${balance}, owes ${fracToString(owed)} (surplus ${surplus}, ` +
+                `protocol ${accum}, reserves ${fracToString(pooled)})` })
+        checks.push({ check: `protocol accum token ${i}`, ok: accum.gte(ledger.protocolAccum[i]),
+            detail: `${accum}, previously ${ledger.protocolAccum[i]}` })
+        ledger.protocolAccum[i] = accum
+    }
+    return checks
+}
+
+// Tokens of liquidity on a range with the curve at price, exact
+function rangeTokens (liq: BigNumber, price: BigNumber, lower: number, upper: number):
+    { base: Fraction, quote: Fraction } {
+    const lowPrice = getSqrtRatioAtTick(lower)
+    const highPrice = getSqrtRatioAtTick(upper)
+    const c = price.lt(lowPrice) ? lowPrice : price.gt(highPrice) ? highPrice : price
+    return { base: frac(liq.mul(c.sub(lowPrice)), Q64),
+        quote: frac(liq.mul(Q64).mul(highPrice.sub(c)), c.mul(highPrice)) }
+}
+
+function addReserves (reserves: { base: Fraction, quote: Fraction }[], pool: number,
+    tokens: { base: Fraction, quote: Fraction }) {
+    reserves[pool] = { base: addFrac(reserves[pool].base, tokens.base),
+        quote: addFrac(reserves[pool].quote, tokens.quote) }
+}
+
+// Liquidity holdings are worth least, at any one price, when the curve is at that price.
+// So a position is never worth more than its basis unless the dex gave value away.
+function valueCheck (check: string, tokens: { base: Fraction, quote: Fraction },
+    basis: TokenPair, price: BigNumber): DexCheck {
+    const priceSq = price.mul(price)
+    const value = addFrac(tokens.base, frac(tokens.quote.num.mul(priceSq), tokens.quote.den.mul(Q128)))
+    const paid = frac(basis.base.mul(Q128).add(basis.quote.mul(priceSq)), Q128)
+    return { check, ok: cmpFrac(value, paid) <= 0,
+        detail: `worth ${fracToString(value)} in base, paid ${fracToString(paid)}` }
+}
+
+async function genAction (env: DexFuzzEnv, ledger: DexLedger, rng: Rng): Promise<DexAction> {
+    const total = OP_WEIGHTS.reduce((acc, [, w]) => acc + w, 0)
+    let roll = rng.next() % total
+    const op = (OP_WEIGHTS.find(([, w]) => (roll -= w) < 0) as [DexOp, number])[0]
+
+    const action = await genOp(env, ledger, rng, op) || await genOp(env, ledger, rng, "swap")
+    return withRelayer(env, rng, action as DexAction)
+}
+
+// Undefined if there's nothing for the op to act on
+async function genOp (env: DexFuzzEnv, ledger: DexLedger, rng: Rng, op: DexOp):
+    Promise<DexAction | undefined> {
+    const user = rng.next() % env.users.length
+    const pool = rng.next() % env.pools.length
+    const surplus = rng.next() % SURPLUS_ODDS === 0 ? { surplus: true } : {}
+    const tick = async (p: number) => (await env.query.queryCurveTick(env.pools[p].base.address,
+        env.pools[p].quote.address, env.pools[p].poolIdx))
+    const pick = <T> (xs: T[]) => xs.length > 0 ? xs[rng.next() % xs.length] : undefined
+    const between = (lo: number, hi: number) => lo + rng.next() % (hi - lo + 1)
+
+    switch (op) {
+        case "swap": {
+            const isBuy = rng.next() % 2 === 0
+            const limitTick = clampTick(await tick(pool) + (isBuy ? 1 : -1) * between(1, 20000))
+            return { op, user, pool, isBuy, inBase: rng.next() % 2 === 0,
+                qty: uintArb(1, MAX_SWAP_QTY).generate(rng).toString(),
+                limitPrice: getSqrtRatioAtTick(limitTick).toString(), ...surplus }
+        }
+        case "mintRange": {
+            const lower = clampTick(await tick(pool) + between(-3000, 1000))
+            return { op, user, pool, lower, upper: clampTick(lower + between(1, 3000)),
+                qty: uintArb(1, MAX_RANGE_LOTS).generate(rng).mul(RANGE_LIQ_UNIT).toString(),
+                ...surplus }
+        }
+        case "mintAmbient":
+            return { op, user, pool, qty: uintArb(1, MAX_AMBIENT_LIQ).generate(rng).toString(),
+                ...surplus }
+        case "knockoutMint": {
+            const isBid = rng.next() % 2 === 0
+            const curTick = await tick(pool)
+            const offset = KNOCKOUT_WIDTH * between(0, 20)
+            // Bids must sit wholly below the price tick, and asks at or above it
+            const lower = isBid ?
+                Math.floor((curTick - 1) / KNOCKOUT_WIDTH) * KNOCKOUT_WIDTH - offset - KNOCKOUT_WIDTH :
+                Math.ceil(curTick / KNOCKOUT_WIDTH) * KNOCKOUT_WIDTH + offset
+            return { op, user, pool, isBid, lower, upper: lower + KNOCKOUT_WIDTH,
+                qty: uintArb(1000, MAX_KNOCKOUT_QTY).generate(rng).toString(), ...surplus }
+        }
+        case "burnRange": {
+            const pos = pick(ledger.ranges)
+            if (!pos) { return undefined }
+            const lots = (await rangeLiq(env, pos)).div(RANGE_LIQ_UNIT)
+            if (lots.isZero()) { return undefined }
+            const burnLots = rng.next() % 2 === 0 ? lots : uintArb(1, lots).generate(rng)
+            return { op, user: pos.owner, pool: pos.pool, lower: pos.lower, upper: pos.upper,
+                qty: burnLots.mul(RANGE_LIQ_UNIT).toString(), ...surplus }
+        }
+        case "harvest": {
+            const pos = pick(ledger.ranges)
+            return pos ? { op, user: pos.owner, pool: pos.pool, lower: pos.lower,
+                upper: pos.upper, ...surplus } : undefined
+        }
+        case "burnAmbient": {
+            const pos = pick(ledger.ambients)
+            if (!pos) { return undefined }
+            const p = env.pools[pos.pool]
+            const liq = (await env.query.queryAmbientTokens(await env.users[pos.owner].getAddress(),
+                p.base.address, p.quote.address, p.poolIdx)).liq
+            if (liq.isZero()) { return undefined }
+            return { op, user: pos.owner, pool: pos.pool, ...surplus,
+                qty: (rng.next() % 2 === 0 ? liq : uintArb(1, liq).generate(rng)).toString() }
+        }
+        case "knockoutBurn":
+        case "knockoutClaim": {
+            let targets: KnockoutPosition[] = []
+            for (const pos of ledger.knockouts) {
+                if (await isKnockedOut(env, pos) === (op === "knockoutClaim")) { targets.push(pos) }
+            }
+            const pos = pick(targets)
+            if (!pos) { return undefined }
+            const qty = op === "knockoutBurn" ? { qty: (await knockoutLiq(env, pos)).toString() } : {}
+            return { op, user: pos.owner, pool: pos.pool, isBid: pos.isBid, lower: pos.lower,
+                upper: pos.upper, ...qty, ...surplus }
+        }
+        default: {
+            const token = rng.next() % env.tokens.length
+            if (op === "deposit") {
+                return { op, user, token, qty: uintArb(1, MAX_DEPOSIT).generate(rng).toString() }
+            }
+            const balance = await env.query.querySurplus(await env.users[user].getAddress(),
+                env.tokens[token].address)
+            if (balance.isZero()) { return undefined }
+            const qty = uintArb(1, balance).generate(rng).toString()
+            return op === "withdraw" ? { op, user, token, qty } :
+                { op, user, token, qty, recv: (user + between(1, env.users.length - 1)) % env.users.length }
+        }
+    }
+}
+
+// Sometimes has another user relay the action, tipping from the signer's surplus if it
+// has any
+async function withRelayer (env: DexFuzzEnv, rng: Rng, action: DexAction): Promise<DexAction> {
+    if (rng.next() % RELAYER_ODDS !== 0) { return action }
+    const relayer = (action.user + 1 + rng.next() % (env.users.length - 1)) % env.users.length
+    const tipToken = action.pool !== undefined ? env.pools[action.pool].base.address :
+        env.tokens[action.token as number].address
+    const balance = await env.query.querySurplus(await env.users[action.user].getAddress(), tipToken)
+    return balance.isZero() || rng.next() % 2 === 0 ? { ...action, relayer } :
+        { ...action, relayer, tip: uintArb(1, balance).generate(rng).toString() }
+}
+
+function clampTick (tick: number): number {
+    return Math.min(Math.max(tick, MIN_TICK + 1), MAX_TICK - 1)
+}
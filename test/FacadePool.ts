@@ -15,6 +15,7 @@ import { TestSettleLayer } from "../typechain/TestSettleLayer";
 import { CrocQuery } from "../typechain/CrocQuery";
 import { buildCrocSwapSex } from "./SetupDex";
 import { CrocSwapRouter, CrocSwapRouterBypass } from "../typechain";
+import { translateCrocErrors } from "../misc/sdk/revertDecoder";
 
 chai.use(solidity);
 
@@ -173,6 +174,8 @@ export class TestPool {
     initTemplBefore: boolean
     slippage?: BigNumber
     gasSpent: BigNumber
+    // gasUsed of every transaction counted by incrementGasSpend(), by hash
+    txGas: Record<string, BigNumber>
 
     constructor (base: Token, quote: Token, dex?: CrocSwapDex) {
         this.base = base as ERC20Token
@@ -191,12 +194,14 @@ export class TestPool {
         this.liqBase = true
         this.initTemplBefore = true
         this.gasSpent = BigNumber.from(0)
+        this.txGas = {}
 
         factory = ethers.getContractFactory("CrocSwapDexSeed")
+        // Reverts throw with the decoded command and the meaning of the revert code
         if (dex) {
-            this.dex = Promise.resolve(dex)
+            this.dex = Promise.resolve(dex).then(translateCrocErrors)
         } else {
-            this.dex = buildCrocSwapSex(this.auth)
+            this.dex = buildCrocSwapSex(this.auth).then(translateCrocErrors)
         }
 
         factory = ethers.getContractFactory("CrocQuery")
@@ -653,12 +658,20 @@ export class TestPool {
     }
 
     async incrementGasSpend (tx: ContractTransaction) {
+        // Counted once, however many times the transaction is measured
+        if (this.txGas[tx.hash] !== undefined) { return }
         let gasSpent = (await tx.wait()).gasUsed
+        this.txGas[tx.hash] = gasSpent
         let gasPrice = (tx.gasPrice || BigNumber.from(0))
         let gasCost = gasPrice.mul(gasSpent)
         this.gasSpent = this.gasSpent.add(gasCost)
     }
 
+    async gasUsed (tx: ContractTransaction): Promise<BigNumber> {
+        await this.incrementGasSpend(tx)
+        return this.txGas[tx.hash]
+    }
+
     async testOrder (order: OrderDirective, noOverrides?: boolean): Promise<ContractTransaction> {
         let override = noOverrides ? {} : this.overrides
         await this.snapStart();
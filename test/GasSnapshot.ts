@@ -0,0 +1,63 @@
+import { expect } from "chai";
+import path from "path";
+import { ContractTransaction } from 'ethers';
+import { TestPool } from './FacadePool';
+import { checkGas, GasCheck, GasMeasurement, printGasReport, readGasBaseline, txCallpath,
+    updateGasBaseline, writeGasBaseline } from '../misc/libs/gasBaseline';
+
+/* Checks gas benchmarks against the committed baseline in gas-baseline.json, keyed by
+ * the test's full title without the [@gas-test] tag. A report by callpath is printed
+ * after the run.
+ *
+ *   GAS_SNAPSHOT=update   records the measured gas into the baseline instead of checking
+ *   GAS_TOLERANCE_PCT     overrides the tolerance in the baseline */
+
+export const GAS_BASELINE_FILE = path.join(__dirname, "gas-baseline.json")
+
+const UPDATE = process.env.GAS_SNAPSHOT === "update"
+const TOLERANCE = process.env.GAS_TOLERANCE_PCT !== undefined ?
+    Number(process.env.GAS_TOLERANCE_PCT) : undefined
+
+const baseline = readGasBaseline(GAS_BASELINE_FILE)
+let measured: GasMeasurement[] = []
+let checks: GasCheck[] = []
+let currentTest: string | undefined
+
+// Registered on the root suite, since this module is loaded outside any describe
+beforeEach(function () {
+    currentTest = this.currentTest?.fullTitle()
+})
+
+after(function () {
+    if (measured.length === 0) { return }
+    if (UPDATE) {
+        writeGasBaseline(GAS_BASELINE_FILE, updateGasBaseline(baseline, measured))
+        console.log(`Recorded ${measured.length} gas scenarios to ${GAS_BASELINE_FILE}`)
+    } else {
+        printGasReport(checks)
+    }
+})
+
+export function gasScenario (title: string): string {
+    return title.replace("[@gas-test]", "").trim()
+}
+
+/* @notice Checks the transaction's gas against the baseline. The gas is read through the
+ *         pool's gas accounting, so it's also counted in the pool's gasSpent. */
+export async function expectGas (test: TestPool, tx: Promise<ContractTransaction>) {
+    const sent = await tx
+    const gas = (await test.gasUsed(sent)).toNumber()
+    const scenario = gasScenario(currentTest || "")
+    if (measured.some(m => m.scenario === scenario)) {
+        throw new Error(`Gas scenario ${scenario} is measured twice`)
+    }
+
+    const m = { scenario, gas, callpath: txCallpath(sent) }
+    measured.push(m)
+    if (!UPDATE) {
+        const check = checkGas(baseline, m, TOLERANCE)
+        checks.push(check)
+        expect(check.ok, `${scenario}: ${check.detail}. Run with GAS_SNAPSHOT=update to re-record`)
+            .to.be.true
+    }
+}
@@ -0,0 +1,240 @@
+import { BigNumber, BigNumberish } from 'ethers';
+
+/* Minimal property-based testing. A property is an async check over randomly generated
+ * inputs, run for FUZZ_RUNS cases (default 100) from a seeded generator. When a case
+ * fails, its inputs are shrunk towards the simplest values that still fail, and the
+ * property throws with that minimal counterexample and the seed to replay it:
+ *
+ *   FUZZ_SEED=1234 npx hardhat test test/TestMathFuzz.ts
+ *
+ * Without FUZZ_SEED the seed comes from the clock, except under CI, where it's fixed so
+ * that a failing build fails the same way on every rerun.
+ *
+ * Numbers are drawn log-uniformly with extra weight on the range bounds, since
+ * fixed-point bugs tend to live at extreme magnitudes. */
+
+export interface Rng {
+    // Uniform 32-bit unsigned integer
+    next (): number
+}
+
+export interface Arbitrary<T> {
+    generate (rng: Rng): T
+    // Simpler candidate values, simplest first
+    shrink (value: T): T[]
+}
+
+export interface PropertyOpts {
+    runs?: number
+    seed?: number
+    // Cap on cases tried while shrinking a failure
+    maxShrinks?: number
+}
+
+export const DEFAULT_FUZZ_RUNS = 100
+export const CI_FUZZ_SEED = 0x5eed
+const DEFAULT_MAX_SHRINKS = 500
+// Give up if this many cases in a row are discarded by assume()
+const MAX_DISCARD_STREAK = 1000
+
+// Thrown by assume() to discard inputs outside the property's domain
+const DISCARD = { discarded: true }
+
+/* @notice Discards the current case if the condition doesn't hold. */
+export function assume (cond: boolean): asserts cond {
+    if (!cond) { throw DISCARD }
+}
+
+// mulberry32
+export function makeRng (seed: number): Rng {
+    let state = seed >>> 0
+    return { next: () => {
+        state = (state + 0x6D2B79F5) >>> 0
+        let t = state
+        t = Math.imul(t ^ (t >>> 15), t | 1)
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+        return ((t ^ (t >>> 14)) >>> 0)
+    } }
+}
+
+/* @notice Unsigned integers in [min, max], spread log-uniformly over bit lengths. Shrinks
+ *         towards min. */
+export function uintArb (min: BigNumberish, max: BigNumberish): Arbitrary<BigNumber> {
+    const lo = BigNumber.from(min)
+    const hi = BigNumber.from(max)
+    if (lo.gt(hi)) { throw new Error(`Empty range ${lo}-${hi}`) }
+    const loBits = bitLength(lo)
+    const hiBits = bitLength(hi)
+
+    return {
+        generate: (rng: Rng) => {
+            const edge = rng.next() % 16
+            if (edge === 0) { return lo }
+            if (edge === 1) { return hi }
+            const bits = loBits + rng.next() % (hiBits - loBits + 1)
+            for (let i = 0; i < 8; ++i) {
+                const val = randomBits(rng, bits)
+                if (val.gte(lo) && val.lte(hi)) { return val }
+            }
+            return lo.add(randomBits(rng, hiBits).mod(hi.sub(lo).add(1)))
+        },
+        shrink: (value: BigNumber) => shrinkTowards(value, lo)
+    }
+}
+
+/* @notice Integers in [min, max], uniformly. Shrinks towards the value in the range
+ *         closest to zero. */
+export function intArb (min: number, max: number): Arbitrary<number> {
+    const target = Math.min(Math.max(0, min), max)
+    return {
+        generate: (rng: Rng) => {
+            const edge = rng.next() % 16
+            if (edge === 0) { return min }
+            if (edge === 1) { return max }
+            return min + Math.floor((rng.next() / 0x100000000) * (max - min + 1))
+        },
+        shrink: (value: number) => shrinkTowards(BigNumber.from(value), BigNumber.from(target))
+            .map(v => v.toNumber())
+    }
+}
+
+export function boolArb(): Arbitrary<boolean> {
+    return {
+        generate: (rng: Rng) => rng.next() % 2 === 0,
+        shrink: (value: boolean) => value ? [false] : []
+    }
+}
+
+/* @notice Objects with each field drawn from its own arbitrary. Shrinks one field at a
+ *         time. */
+export function recordArb<T> (fields: { [K in keyof T]: Arbitrary<T[K]> }): Arbitrary<T> {
+    const keys = Object.keys(fields) as (keyof T)[]
+    return {
+        generate: (rng: Rng) => {
+            let value = {} as T
+            keys.forEach(k => { value[k] = fields[k].generate(rng) })
+            return value
+        },
+        shrink: (value: T) => {
+            let candidates: T[] = []
+            keys.forEach(k => fields[k].shrink(value[k]).forEach(v =>
+                candidates.push({ ...value, [k]: v })))
+            return candidates
+        }
+    }
+}
+
+/* @notice The generator seed: the explicit seed, then FUZZ_SEED, then CI_FUZZ_SEED if
+ *         CI is set, and otherwise the clock. */
+export function fuzzSeed (seed?: number): number {
+    if (seed !== undefined) {
+        return seed
+    }
+    if (process.env.FUZZ_SEED) {
+        return Number(process.env.FUZZ_SEED)
+    }
+    return process.env.CI ? CI_FUZZ_SEED : Date.now() % 0x100000000
+}
+
+/* @notice Runs the property over random cases, and throws with a shrunk counterexample
+ *         if any case fails. The property fails by throwing (e.g. a failed chai expect),
+ *         and can call assume() to discard inputs. */
+export async function checkProperty<T> (name: string, arb: Arbitrary<T>,
+    property: (value: T) => Promise<void>, opts: PropertyOpts = {}): Promise<void> {
+    const runs = opts.runs !== undefined ? opts.runs :
+        process.env.FUZZ_RUNS ? Number(process.env.FUZZ_RUNS) : DEFAULT_FUZZ_RUNS
+    const seed = fuzzSeed(opts.seed)
+    const rng = makeRng(seed)
+
+    let passed = 0
+    let discardStreak = 0
+    while (passed < runs) {
+        const value = arb.generate(rng)
+        const err = await runCase(property, value)
+        if (err === undefined) {
+            passed += 1
+            discardStreak = 0
+        } else if (err === DISCARD) {
+            discardStreak += 1
+            if (discardStreak >= MAX_DISCARD_STREAK) {
+                throw new Error(`Property ${name} discarded ${discardStreak} cases in a row ` +
+                    `after ${passed} passed (seed ${seed}). Narrow its generators`)
+            }
+        } else {
+            const shrunk = await shrinkFailure(arb, property, value, err as Error,
+                opts.maxShrinks !== undefined ? opts.maxShrinks : DEFAULT_MAX_SHRINKS)
+            throw new Error(`Property ${name} failed after ${passed} passing cases ` +
+                `(seed ${seed}, replay with FUZZ_SEED=${seed}).\n` +
+                `Counterexample, shrunk in ${shrunk.steps} steps: ${formatCase(shrunk.value)}\n` +
+                `${shrunk.err.message}`)
+        }
+    }
+}
+
+/* @notice JSON form of a case, with BigNumbers as decimal strings. */
+export function formatCase (value: any): string {
+    return JSON.stringify(value, (key, val) =>
+        val && val.type === "BigNumber" && val.hex ? BigNumber.from(val.hex).toString() : val)
+}
+
+async function shrinkFailure<T> (arb: Arbitrary<T>, property: (value: T) => Promise<void>,
+    value: T, err: Error, maxShrinks: number): Promise<{ value: T, err: Error, steps: number }> {
+    let steps = 0
+    let tries = 0
+    let shrinking = true
+    while (shrinking && tries < maxShrinks) {
+        shrinking = false
+        for (const candidate of arb.shrink(value)) {
+            if (tries++ >= maxShrinks) { break }
+            const candErr = await runCase(property, candidate)
+            if (candErr !== undefined && candErr !== DISCARD) {
+                value = candidate
+                err = candErr as Error
+                steps += 1
+                shrinking = true
+                break
+            }
+        }
+    }
+    return { value, err, steps }
+}
+
+async function runCase<T> (property: (value: T) => Promise<void>, value: T):
+    Promise<Error | typeof DISCARD | undefined> {
+    try {
+        await property(value)
+        return undefined
+    } catch (err: any) {
+        return err === DISCARD || err instanceof Error ? err : new Error(String(err))
+    }
+}
+
+// Candidates between target and value, closest to target first
+function shrinkTowards (value: BigNumber, target: BigNumber): BigNumber[] {
+    if (value.eq(target)) { return [] }
+    let candidates = [target]
+    let delta = value.sub(target).div(2)
+    while (!delta.isZero()) {
+        const cand = value.sub(delta)
+        if (!cand.eq(target)) { candidates.push(cand) }
+        delta = delta.div(2)
+    }
+    return candidates
+}
+
+function randomBits (rng: Rng, bits: number): BigNumber {
+    if (bits === 0) { return BigNumber.from(0) }
+    let val = BigNumber.from(0)
+    for (let i = 0; i < bits; i += 32) {
+        val = val.shl(32).or(rng.next())
+    }
+    // Trim to the bit length, keeping the top bit set
+    val = val.shr(Math.ceil(bits / 32) * 32 - bits)
+    return val.or(BigNumber.from(1).shl(bits - 1))
+}
+
+export function bitLength (val: BigNumber): number {
+    if (val.isZero()) { return 0 }
+    const hex = val.toHexString().slice(2)
+    return (hex.length - 1) * 4 + parseInt(hex[0], 16).toString(2).length
+}
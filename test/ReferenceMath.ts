@@ -0,0 +1,167 @@
+import { BigNumber, BigNumberish } from 'ethers';
+import { bitLength } from './PropertyFuzz';
+
+/* Arbitrary-precision reference model of the fixed-point curve math. Every quantity is
+ * the exact real value as a fraction of big integers, so the on-chain results can be
+ * checked for their rounding direction and error bounds rather than against hand-picked
+ * constants. Prices are Q64.64 square roots and growth rates Q16.48, as on chain. */
+
+export interface Fraction {
+    num: BigNumber
+    // Always positive
+    den: BigNumber
+}
+
+export const Q48 = BigNumber.from(2).pow(48)
+export const Q64 = BigNumber.from(2).pow(64)
+export const Q128 = BigNumber.from(2).pow(128)
+export const MAX_U64 = BigNumber.from(2).pow(64).sub(1)
+export const MAX_U128 = BigNumber.from(2).pow(128).sub(1)
+
+export function frac (num: BigNumberish, den: BigNumberish = 1): Fraction {
+    const n = BigNumber.from(num)
+    const d = BigNumber.from(den)
+    if (d.isZero()) { throw new Error("Zero denominator") }
+    return d.lt(0) ? { num: n.mul(-1), den: d.mul(-1) } : { num: n, den: d }
+}
+
+export function cmpFrac (x: Fraction, y: Fraction): number {
+    const lhs = x.num.mul(y.den)
+    const rhs = y.num.mul(x.den)
+    return lhs.lt(rhs) ? -1 : lhs.gt(rhs) ? 1 : 0
+}
+
+export function addFrac (x: Fraction, y: Fraction): Fraction {
+    return frac(x.num.mul(y.den).add(y.num.mul(x.den)), x.den.mul(y.den))
+}
+
+export function subFrac (x: Fraction, y: Fraction): Fraction {
+    return frac(x.num.mul(y.den).sub(y.num.mul(x.den)), x.den.mul(y.den))
+}
+
+export function floorFrac (x: Fraction): BigNumber {
+    const q = x.num.div(x.den)
+    return x.num.lt(0) && !q.mul(x.den).eq(x.num) ? q.sub(1) : q
+}
+
+export function ceilFrac (x: Fraction): BigNumber {
+    return floorFrac(frac(x.num.mul(-1), x.den)).mul(-1)
+}
+
+export function fracToString (x: Fraction): string {
+    const whole = floorFrac(x)
+    const rem = x.num.sub(whole.mul(x.den)).mul(1000000).div(x.den).toString().padStart(6, "0")
+    return `${whole.toString()}.${rem}`
+}
+
+/* @notice Floor of the square root. */
+export function isqrt (x: BigNumber): BigNumber {
+    if (x.lt(2)) { return x }
+    let guess = BigNumber.from(1).shl(Math.ceil(bitLength(x) / 2))
+    while (true) {
+        const next = guess.add(x.div(guess)).shr(1)
+        if (next.gte(guess)) { return guess }
+        guess = next
+    }
+}
+
+export function mulQ64 (x: BigNumberish, y: BigNumberish): Fraction {
+    return frac(BigNumber.from(x).mul(y), Q64)
+}
+
+export function divQ64 (x: BigNumberish, y: BigNumberish): Fraction {
+    return frac(BigNumber.from(x).mul(Q64), y)
+}
+
+export function mulQ48 (x: BigNumberish, y: BigNumberish): Fraction {
+    return frac(BigNumber.from(x).mul(y), Q48)
+}
+
+export function recipQ64 (x: BigNumberish): Fraction {
+    return frac(Q128, x)
+}
+
+/* @notice (1+z) = (1+x)*(1+y), as Q16.48 */
+export function compoundStack (x: BigNumberish, y: BigNumberish): Fraction {
+    return frac(Q48.add(x).mul(Q48.add(y)).sub(Q48.mul(Q48)), Q48)
+}
+
+/* @notice val / (1+g) */
+export function compoundShrink (val: BigNumberish, growth: BigNumberish): Fraction {
+    return frac(BigNumber.from(val).mul(Q48), Q48.add(growth))
+}
+
+/* @notice (1+z) = inflated / seed, as Q16.48 */
+export function compoundDivide (inflated: BigNumberish, seed: BigNumberish): Fraction {
+    return frac(BigNumber.from(inflated).sub(seed).mul(Q48), seed)
+}
+
+/* @notice price * (1+g) shifting up, or price / (1+g) shifting down */
+export function compoundPrice (price: BigNumberish, growth: BigNumberish, shiftUp: boolean): Fraction {
+    return shiftUp ? frac(BigNumber.from(price).mul(Q48.add(growth)), Q48) :
+        frac(BigNumber.from(price).mul(Q48), Q48.add(growth))
+}
+
+/* @notice seed * (1+g) */
+export function inflateLiqSeed (seed: BigNumberish, growth: BigNumberish): Fraction {
+    return frac(BigNumber.from(seed).mul(Q48.add(growth)), Q48)
+}
+
+/* @notice liq / (1+g) */
+export function deflateLiqSeed (liq: BigNumberish, growth: BigNumberish): Fraction {
+    return frac(BigNumber.from(liq).mul(Q48), Q48.add(growth))
+}
+
+/* @notice Liquidity weighted average of two mileages. */
+export function blendMileage (mileageX: BigNumberish, liqX: BigNumberish,
+    mileageY: BigNumberish, liqY: BigNumberish): Fraction {
+    return frac(BigNumber.from(mileageX).mul(liqX).add(BigNumber.from(mileageY).mul(liqY)),
+        BigNumber.from(liqX).add(liqY))
+}
+
+/* @notice Base tokens the pool takes in (negative if it pays out) as the price moves
+ *         from price to nextPrice on a curve of constant liquidity: L * (P' - P) */
+export function baseFlow (liq: BigNumberish, price: BigNumberish, nextPrice: BigNumberish): Fraction {
+    return frac(BigNumber.from(liq).mul(BigNumber.from(nextPrice).sub(price)), Q64)
+}
+
+/* @notice Quote tokens the pool takes in (negative if it pays out) as the price moves
+ *         from price to nextPrice: L * (1/P' - 1/P) */
+export function quoteFlow (liq: BigNumberish, price: BigNumberish, nextPrice: BigNumberish): Fraction {
+    return frac(BigNumber.from(liq).mul(Q64).mul(BigNumber.from(price).sub(nextPrice)),
+        BigNumber.from(price).mul(nextPrice))
+}
+
+/* @notice The price after exactly flow tokens are swapped into (isBuy in base, or quote
+ *         for a sell) or out of the curve, with no fees or rounding. Undefined if the
+ *         curve can't pay out that much. */
+export function flowPrice (price: BigNumberish, liq: BigNumberish, flow: BigNumberish,
+    inBase: boolean, isBuy: boolean): Fraction | undefined {
+    const p = BigNumber.from(price)
+    const l = BigNumber.from(liq)
+    if (inBase) {
+        const next = frac(p.mul(l).add(BigNumber.from(flow).mul(Q64).mul(isBuy ? 1 : -1)), l)
+        return next.num.gt(0) ? next : undefined
+    }
+    // 1/P' = 1/P -+ flow/L
+    const den = l.mul(Q64).add(BigNumber.from(flow).mul(p).mul(isBuy ? -1 : 1))
+    return den.gt(0) ? frac(l.mul(Q64).mul(p), den) : undefined
+}
+
+const TICK_PRECISION_BITS = 384
+
+/* @notice sqrt(1.0001^tick) as Q64.64, rounded down. Computed in binary fixed point
+ *         with enough guard bits that the error is far below one unit. */
+export function sqrtRatioAtTick (tick: number): BigNumber {
+    const one = BigNumber.from(1).shl(TICK_PRECISION_BITS)
+    const base = tick >= 0 ? one.mul(10001).div(10000) : one.mul(10000).div(10001)
+    let result = one
+    let power = base
+    let n = Math.abs(tick)
+    while (n > 0) {
+        if (n % 2 === 1) { result = result.mul(power).shr(TICK_PRECISION_BITS) }
+        power = power.mul(power).shr(TICK_PRECISION_BITS)
+        n = Math.floor(n / 2)
+    }
+    return isqrt(result.shl(TICK_PRECISION_BITS)).shr(TICK_PRECISION_BITS - 64)
+}
@@ -0,0 +1,13 @@
+import { expect } from "chai";
+
+/* @notice Awaits a call that must fail, checks its error message contains the
+ *         substring and returns the error for any further assertions. */
+export async function expectRejects (call: Promise<unknown>, substring: string): Promise<Error> {
+    let err: unknown
+    let rejected = false
+    await call.catch(e => { err = e; rejected = true })
+    expect(rejected, `expected a rejection containing "${substring}"`).to.be.true
+    expect(err).to.be.instanceOf(Error)
+    expect((err as Error).message).to.contain(substring)
+    return err as Error
+}
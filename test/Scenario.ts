@@ -0,0 +1,488 @@
+import { TestPool, makeTokenPool, makeEtherPool, ERC20Token, NativeEther, Token } from './FacadePool'
+import "@nomiclabs/hardhat-ethers";
+import { ethers } from 'hardhat';
+import fs from "fs";
+import { BigNumber, ContractTransaction, Signer } from 'ethers';
+import { fromSqrtPrice, toSqrtPrice, ZERO_ADDR } from './FixedPoint';
+import { singleHop, simpleSwapB } from './EncodeSimple';
+import { encodeOrderDirective } from './EncodeOrder';
+import { MockERC20 } from '../typechain/MockERC20';
+import { CrocSwapDex } from '../typechain/CrocSwapDex';
+import { knockoutBits } from '../misc/sdk/commands';
+import { findKnockoutClaims } from '../misc/sdk/knockoutProof';
+import { describeError } from '../misc/sdk/revertDecoder';
+import { chainRpcUrls, lookupChain } from '../misc/libs/chainRegistry';
+import { forkChain } from '../misc/libs/resolution';
+
+/* Declarative pool scenarios, replayed step by step against TestPool. A scenario is a
+ * JSON file (or the same object in TypeScript) with a list of steps, each optionally
+ * followed by the pool state and trader balances expected after it:
+ *
+ *   { "name": "claim knockout", "hotPath": true, "steps": [
+ *       { "op": "initPool", "price": 1.5, "knockoutWidth": 5 },
+ *       { "op": "mint", "liq": 10000, "expect": { "liquidity": 10240000 } },
+ *       { "op": "swap", "isBuy": false, "qty": 100000000, "limitPrice": 1.35 } ] }
+ *
+ * Steps:
+ *   initPool        price, [feeRate, protoTake, tickSize, knockoutWidth]. knockoutWidth is
+ *                   the log2 of the width in ticks of on grid knockouts, mintable in range
+ *   mint, burn      liq in lots of 1024, [lower, upper] for a range or ambient if left out,
+ *                   [from, surplus]
+ *   swap            isBuy, qty, limitPrice, [inBase (default true), from, surplus]. Swaps
+ *                   up to qty, stopping at limitPrice
+ *   knockoutMint,   isBid, lowTick, highTick, qty, [partial, surplus]
+ *   knockoutBurn
+ *   knockoutClaim   isBid, lowTick, highTick, [surplus]. Claims the trader's oldest knocked
+ *                   out tranche, with its proof rebuilt from the cross logs
+ *   collectSurplus  [base, quote]. Withdraws the trader's surplus collateral
+ *
+ * from is "trader" (default) or "other", and surplus settles through surplus collateral.
+ * Expectations are checked after the step: baseFlow and quoteFlow (tokens paid by the
+ * trader, negative if received), liquidity (active, less the burnt initial liquidity),
+ * price (within PRICE_TOLERANCE), priceRoot, tick, surplus.base and surplus.quote (the
+ * trader's surplus collateral) and reverts. Large amounts can be decimal strings.
+ *
+ * By default a scenario runs on fresh mock tokens ("tokens": "erc20" or "eth" for a native
+ * ETH base). With a "fork" section it runs against an existing pool on a fork of a chain
+ * in the registry, trading from impersonated accounts that already hold the tokens:
+ *
+ *   "fork": { "chain": "mainnet", "block": 19000000, "base": "0x...", "quote": "0x...",
+ *             "poolIdx": 420, "trader": "0x...", ["other": "0x...", "dex": "0x...",
+ *             "fromBlock": 18000000] }
+ *
+ * fromBlock is where knockout cross logs are read from for claims. A fork of the chain the
+ * scenario is already running on, with no block, runs against the local chain as is. */
+
+export type ScenarioAmount = number | string
+
+export interface ScenarioExpect {
+    baseFlow?: ScenarioAmount
+    quoteFlow?: ScenarioAmount
+    liquidity?: ScenarioAmount
+    price?: number
+    priceRoot?: ScenarioAmount
+    tick?: number
+    surplus?: { base?: ScenarioAmount, quote?: ScenarioAmount }
+    reverts?: boolean
+}
+
+export type ScenarioFrom = "trader" | "other"
+
+interface ScenarioStepBase {
+    note?: string
+    expect?: ScenarioExpect
+}
+
+export interface InitPoolStep extends ScenarioStepBase {
+    op: "initPool"
+    price: number
+    feeRate?: number
+    protoTake?: number
+    tickSize?: number
+    knockoutWidth?: number
+}
+
+export interface LiquidityStep extends ScenarioStepBase {
+    op: "mint" | "burn"
+    liq: ScenarioAmount
+    lower?: number
+    upper?: number
+    from?: ScenarioFrom
+    surplus?: boolean
+}
+
+export interface SwapStep extends ScenarioStepBase {
+    op: "swap"
+    isBuy: boolean
+    qty: ScenarioAmount
+    limitPrice: number
+    inBase?: boolean
+    from?: ScenarioFrom
+    surplus?: boolean
+}
+
+export interface KnockoutStep extends ScenarioStepBase {
+    op: "knockoutMint" | "knockoutBurn"
+    isBid: boolean
+    lowTick: number
+    highTick: number
+    qty: ScenarioAmount
+    partial?: boolean
+    surplus?: boolean
+}
+
+export interface KnockoutClaimStep extends ScenarioStepBase {
+    op: "knockoutClaim"
+    isBid: boolean
+    lowTick: number
+    highTick: number
+    surplus?: boolean
+}
+
+export interface CollectSurplusStep extends ScenarioStepBase {
+    op: "collectSurplus"
+    base?: ScenarioAmount
+    quote?: ScenarioAmount
+}
+
+export type ScenarioStep = InitPoolStep | LiquidityStep | SwapStep | KnockoutStep |
+    KnockoutClaimStep | CollectSurplusStep
+
+export interface ScenarioFork {
+    chain: string
+    block?: number
+    dex?: string
+    base: string
+    quote: string
+    poolIdx: number
+    trader: string
+    other?: string
+    fromBlock?: number
+}
+
+export interface Scenario {
+    name: string
+    description?: string
+    tokens?: "erc20" | "eth"
+    hotPath?: boolean
+    fork?: ScenarioFork
+    steps: ScenarioStep[]
+}
+
+export interface ScenarioCheck {
+    check: string
+    ok: boolean
+    detail: string
+}
+
+export interface ScenarioStepResult {
+    index: number
+    op: string
+    note?: string
+    ok: boolean
+    txHash?: string
+    checks: ScenarioCheck[]
+}
+
+export interface ScenarioResult {
+    name: string
+    ok: boolean
+    steps: ScenarioStepResult[]
+}
+
+// Relative tolerance for expected prices, since they're given as decimals
+export const PRICE_TOLERANCE = 1e-6
+
+type FieldType = "number" | "amount" | "boolean" | "from"
+
+const STEP_FIELDS: Record<string, { required: Record<string, FieldType>, optional: Record<string, FieldType> }> = {
+    initPool: { required: { price: "number" },
+        optional: { feeRate: "number", protoTake: "number", tickSize: "number", knockoutWidth: "number" } },
+    mint: { required: { liq: "amount" },
+        optional: { lower: "number", upper: "number", from: "from", surplus: "boolean" } },
+    burn: { required: { liq: "amount" },
+        optional: { lower: "number", upper: "number", from: "from", surplus: "boolean" } },
+    swap: { required: { isBuy: "boolean", qty: "amount", limitPrice: "number" },
+        optional: { inBase: "boolean", from: "from", surplus: "boolean" } },
+    knockoutMint: { required: { isBid: "boolean", lowTick: "number", highTick: "number", qty: "amount" },
+        optional: { partial: "boolean", surplus: "boolean" } },
+    knockoutBurn: { required: { isBid: "boolean", lowTick: "number", highTick: "number", qty: "amount" },
+        optional: { partial: "boolean", surplus: "boolean" } },
+    knockoutClaim: { required: { isBid: "boolean", lowTick: "number", highTick: "number" },
+        optional: { surplus: "boolean" } },
+    collectSurplus: { required: {}, optional: { base: "amount", quote: "amount" } },
+}
+
+const EXPECT_FIELDS: Record<string, FieldType> = { baseFlow: "amount", quoteFlow: "amount",
+    liquidity: "amount", price: "number", priceRoot: "amount", tick: "number", reverts: "boolean" }
+
+const FORK_FIELDS: Record<string, string> = { chain: "string", block: "number", dex: "address",
+    base: "address", quote: "address", poolIdx: "number", trader: "address", other: "address",
+    fromBlock: "number" }
+
+export function readScenario (file: string): Scenario {
+    return parseScenario(JSON.parse(fs.readFileSync(file, "utf8")), file)
+}
+
+/* @notice Validates a parsed scenario, so mistakes surface before anything runs. */
+export function parseScenario (raw: any, source: string): Scenario {
+    const fail = (msg: string): never => { throw new Error(`Invalid scenario ${source}: ${msg}`) }
+    if (typeof raw !== "object" || raw === null) { fail("not a JSON object") }
+    checkKeys(raw, ["name", "description", "tokens", "hotPath", "fork", "steps"], "scenario", fail)
+    if (typeof raw.name !== "string") { fail("name must be a string") }
+    if (raw.tokens !== undefined && raw.tokens !== "erc20" && raw.tokens !== "eth") {
+        fail(`tokens must be erc20 or eth, not ${raw.tokens}`)
+    }
+    if (!Array.isArray(raw.steps) || raw.steps.length === 0) { fail("steps must be a non-empty list") }
+
+    if (raw.fork !== undefined) {
+        checkKeys(raw.fork, Object.keys(FORK_FIELDS), "fork", fail)
+        Object.keys(FORK_FIELDS).forEach(k => {
+            const val = raw.fork[k]
+            const required = ["chain", "base", "quote", "poolIdx", "trader"].indexOf(k) >= 0
+            if (val === undefined) {
+                if (required) { fail(`fork.${k} is required`) }
+            } else if (FORK_FIELDS[k] === "address" ? !ethers.utils.isAddress(val) :
+                typeof val !== FORK_FIELDS[k]) {
+                fail(`fork.${k} must be a ${FORK_FIELDS[k]}`)
+            }
+        })
+        if (raw.tokens !== undefined) { fail("tokens can't be set with fork") }
+    }
+
+    raw.steps.forEach((step: any, i: number) => {
+        const where = `step ${i + 1}`
+        const spec = STEP_FIELDS[step?.op]
+        if (!spec) {
+            fail(`${where} has unknown op ${step?.op}. Use ${Object.keys(STEP_FIELDS).join(", ")}`)
+        }
+        checkKeys(step, ["op", "note", "expect"].concat(Object.keys(spec.required),
+            Object.keys(spec.optional)), where, fail)
+        Object.keys(spec.required).forEach(k => {
+            if (step[k] === undefined) { fail(`${where} ${step.op} needs ${k}`) }
+        })
+        Object.keys(step).filter(k => k in spec.required || k in spec.optional).forEach(k =>
+            checkField(step[k], spec.required[k] || spec.optional[k], `${where} ${k}`, fail))
+        if ((step.lower === undefined) !== (step.upper === undefined)) {
+            fail(`${where} needs both lower and upper, or neither for ambient liquidity`)
+        }
+        if (step.op === "collectSurplus" && step.base === undefined && step.quote === undefined) {
+            fail(`${where} collectSurplus needs base or quote`)
+        }
+
+        if (step.expect !== undefined) {
+            checkKeys(step.expect, Object.keys(EXPECT_FIELDS).concat(["surplus"]), `${where} expect`, fail)
+            Object.keys(EXPECT_FIELDS).filter(k => step.expect[k] !== undefined).forEach(k =>
+                checkField(step.expect[k], EXPECT_FIELDS[k], `${where} expect.${k}`, fail))
+            if (step.expect.surplus !== undefined) {
+                checkKeys(step.expect.surplus, ["base", "quote"], `${where} expect.surplus`, fail)
+                Object.keys(step.expect.surplus).forEach(k =>
+                    checkField(step.expect.surplus[k], "amount", `${where} expect.surplus.${k}`, fail))
+            }
+        }
+    })
+    return raw
+}
+
+/* @notice Replays the scenario. Every step runs even if an earlier expectation failed,
+ *         but the run stops at the first step that reverts unexpectedly. Never throws on
+ *         a failed check, so the caller can print the full report. */
+export async function runScenario (scenario: Scenario): Promise<ScenarioResult> {
+    parseScenario(scenario, scenario.name)
+    const test = scenario.fork ? await forkPool(scenario.fork) : await freshPool(scenario)
+    test.useHotPath = scenario.hotPath === true
+
+    let steps: ScenarioStepResult[] = []
+    for (let i = 0; i < scenario.steps.length; ++i) {
+        const step = scenario.steps[i]
+        const result = await runStep(test, step, scenario.fork)
+        steps.push({ index: i + 1, op: step.op, note: step.note, ...result })
+        if (result.checks.some(c => c.check === "reverts" && !c.ok && !step.expect?.reverts)) {
+            break
+        }
+    }
+    return { name: scenario.name, ok: steps.length === scenario.steps.length && steps.every(s => s.ok), steps }
+}
+
+export function printScenarioReport (result: ScenarioResult): boolean {
+    console.log(`Scenario ${result.name}`)
+    result.steps.forEach(s => {
+        console.log(`  Step ${s.index} ${s.op}` + (s.note ? ` (${s.note})` : "") +
+            (s.txHash ? ` in tx ${s.txHash}` : ""))
+        s.checks.forEach(c => console.log(`    ${c.ok ? "PASS" : "FAIL"}  ${c.check}: ${c.detail}`))
+    })
+    console.log(result.ok ? "Scenario passed" : "Scenario FAILED")
+    return result.ok
+}
+
+async function runStep (test: TestPool, step: ScenarioStep, fork?: ScenarioFork):
+    Promise<{ ok: boolean, txHash?: string, checks: ScenarioCheck[] }> {
+    const expected = step.expect || {}
+    await test.snapStart()
+
+    let txHash: string | undefined
+    let checks: ScenarioCheck[] = []
+    try {
+        const tx = await sendStep(test, step, fork)
+        txHash = tx ? (await tx.wait()).transactionHash : undefined
+        if (expected.reverts) {
+            checks.push({ check: "reverts", ok: false, detail: "step succeeded, but was expected to revert" })
+        }
+    } catch (err: any) {
+        const ok = expected.reverts === true
+        checks.push({ check: "reverts", ok, detail: (ok ? "as expected, " : "") + describeError(err) })
+        return { ok, checks }
+    }
+
+    const base = (await test.base).address
+    const quote = (await test.quote).address
+    const query = await test.query
+    const trader = await (await test.trader).getAddress()
+    const compare = (check: string, actual: BigNumber, expect: ScenarioAmount) => {
+        const ok = actual.eq(BigNumber.from(String(expect)))
+        checks.push({ check, ok, detail: ok ? actual.toString() : `${actual.toString()}, expected ${expect}` })
+    }
+
+    const baseFlow = await test.snapBaseFlow()
+    const quoteFlow = await test.snapQuoteFlow()
+    if (expected.baseFlow !== undefined) { compare("baseFlow", baseFlow, expected.baseFlow) }
+    if (expected.quoteFlow !== undefined) { compare("quoteFlow", quoteFlow, expected.quoteFlow) }
+    if (expected.liquidity !== undefined) { compare("liquidity", await test.liquidity(), expected.liquidity) }
+    if (expected.priceRoot !== undefined) { compare("priceRoot", await test.price(), expected.priceRoot) }
+    if (expected.price !== undefined) {
+        const price = fromSqrtPrice(await test.price())
+        const ok = Math.abs(price - expected.price) <= Math.abs(expected.price) * PRICE_TOLERANCE
+        checks.push({ check: "price", ok, detail: ok ? `${price}` : `${price}, expected ${expected.price}` })
+    }
+    if (expected.tick !== undefined) {
+        const tick = await query.queryCurveTick(base, quote, test.poolIdx)
+        checks.push({ check: "tick", ok: tick === expected.tick,
+            detail: tick === expected.tick ? `${tick}` : `${tick}, expected ${expected.tick}` })
+    }
+    if (expected.surplus?.base !== undefined) {
+        compare("surplus.base", await query.querySurplus(trader, base), expected.surplus.base)
+    }
+    if (expected.surplus?.quote !== undefined) {
+        compare("surplus.quote", await query.querySurplus(trader, quote), expected.surplus.quote)
+    }
+    return { ok: checks.every(c => c.ok), txHash, checks }
+}
+
+async function sendStep (test: TestPool, step: ScenarioStep, fork?: ScenarioFork):
+    Promise<ContractTransaction | undefined> {
+    const from = "from" in step && step.from === "other" ? await test.other : await test.trader
+    const surplus = "surplus" in step && step.surplus ? 3 : 0
+
+    if (step.op === "initPool") {
+        const feeRate = step.feeRate !== undefined ? step.feeRate : DEFAULT_FEE_RATE
+        const protoTake = step.protoTake || 0
+        const tickSize = step.tickSize !== undefined ? step.tickSize : 1
+        const tx = await test.initPool(feeRate, protoTake, tickSize, step.price)
+        if (step.knockoutWidth === undefined) { return tx }
+        await tx.wait()
+        return test.testRevisePool(feeRate, protoTake, tickSize, 0,
+            knockoutBits({ placement: "inside", width: 2 ** step.knockoutWidth, onGrid: true }))
+
+    } else if (step.op === "mint") {
+        return step.lower !== undefined && step.upper !== undefined ?
+            test.testMintFrom(from, step.lower, step.upper, BigNumber.from(String(step.liq)), surplus) :
+            test.testMintAmbientFrom(from, BigNumber.from(String(step.liq)), surplus)
+
+    } else if (step.op === "burn") {
+        return step.lower !== undefined && step.upper !== undefined ?
+            test.testBurnFromB(from, step.lower, step.upper, BigNumber.from(String(step.liq)), surplus) :
+            test.testBurnAmbientFrom(from, toNumber(step.liq), surplus)
+
+    } else if (step.op === "swap") {
+        const qty = BigNumber.from(String(step.qty))
+        // TestPool's long path swaps don't take settlement flags, so surplus swaps off the
+        // hot path are sent as an order directive that settles both legs with surplus
+        if (step.surplus && !test.useHotPath) {
+            let directive = singleHop((await test.base).address, (await test.quote).address,
+                simpleSwapB(test.poolIdx, step.isBuy, step.inBase !== false, qty, toSqrtPrice(step.limitPrice)))
+            directive.open.useSurplus = true
+            directive.hops[0].settlement.useSurplus = true
+            return (await test.dex).connect(from).userCmd(test.LONG_PROXY, encodeOrderDirective(directive),
+                test.overrides)
+        }
+        return test.testSwapFromB(from, step.isBuy, step.inBase !== false, qty, toSqrtPrice(step.limitPrice), surplus)
+
+    } else if (step.op === "knockoutMint") {
+        return test.testKnockoutMint(toNumber(step.qty), step.isBid, step.lowTick, step.highTick,
+            step.partial === true, surplus)
+
+    } else if (step.op === "knockoutBurn") {
+        return test.testKnockoutBurn(toNumber(step.qty), step.isBid, step.lowTick, step.highTick,
+            step.partial === true, surplus)
+
+    } else if (step.op === "knockoutClaim") {
+        const loc = { base: (await test.base).address, quote: (await test.quote).address,
+            poolIdx: test.poolIdx, isBid: step.isBid, lowTick: step.lowTick, highTick: step.highTick }
+        const claims = await findKnockoutClaims(ethers.provider, await test.query,
+            await (await test.trader).getAddress(), loc,
+            { dex: (await test.dex).address, fromBlock: fork?.fromBlock })
+        if (claims.length === 0) {
+            throw new Error(`No knocked out tranche to claim at ${step.lowTick}-${step.highTick}`)
+        }
+        return test.testKnockoutClaim(step.isBid, step.lowTick, step.highTick, claims[0].root,
+            claims[0].proof, surplus)
+
+    } else if (step.op === "collectSurplus") {
+        const trader = await test.trader
+        const recv = await trader.getAddress()
+        let tx: ContractTransaction | undefined
+        if (step.base !== undefined) {
+            tx = await test.testCollectSurplus(trader, recv, BigNumber.from(String(step.base)),
+                (await test.base).address, false)
+        }
+        if (step.quote !== undefined) {
+            if (tx) { await tx.wait() }
+            tx = await test.testCollectSurplus(trader, recv, BigNumber.from(String(step.quote)),
+                (await test.quote).address, false)
+        }
+        return tx
+    }
+    throw new Error(`Unknown scenario op ${(step as { op: string }).op}`)
+}
+
+async function freshPool (scenario: Scenario): Promise<TestPool> {
+    return scenario.tokens === "eth" ? makeEtherPool() : makeTokenPool()
+}
+
+async function forkPool (fork: ScenarioFork): Promise<TestPool> {
+    const chain = lookupChain(fork.chain)
+    const local = (await ethers.provider.getNetwork()).chainId === parseInt(chain.chainId, 16)
+    if (!local || fork.block !== undefined) {
+        await forkChain(chainRpcUrls(chain)[0], fork.block)
+    }
+
+    const dex = await ethers.getContractAt("CrocSwapDex", fork.dex || chain.addrs.dex) as CrocSwapDex
+    const token = async (addr: string): Promise<Token> => addr === ZERO_ADDR ? new NativeEther() :
+        new ERC20Token(await ethers.getContractAt("MockERC20", addr) as MockERC20)
+    let test = new TestPool(await token(fork.base), await token(fork.quote), dex)
+    test.poolIdx = fork.poolIdx
+
+    const trader = await impersonate(fork.trader, dex.address, [fork.base, fork.quote])
+    test.trader = Promise.resolve(trader)
+    test.other = fork.other ? impersonate(fork.other, dex.address, [fork.base, fork.quote]) :
+        Promise.reject(new Error("Set fork.other to trade from other"))
+    test.other.catch(() => {})
+    return test
+}
+
+// Impersonates a holder on the fork, with gas money and the dex approved for its tokens
+async function impersonate (addr: string, dex: string, tokens: string[]): Promise<Signer> {
+    await ethers.provider.send("hardhat_impersonateAccount", [addr])
+    await ethers.provider.send("hardhat_setBalance", [addr, FORK_GAS_BALANCE])
+    const signer = await ethers.getSigner(addr)
+    for (const token of tokens.filter(t => t !== ZERO_ADDR)) {
+        const erc20 = new ethers.Contract(token, ["function approve(address, uint256) returns (bool)"], signer)
+        await (await erc20.approve(dex, ethers.constants.MaxUint256)).wait()
+    }
+    return signer
+}
+
+function checkKeys (raw: any, allowed: string[], where: string, fail: (msg: string) => never) {
+    if (typeof raw !== "object" || raw === null) { fail(`${where} must be an object`) }
+    Object.keys(raw).forEach(k => {
+        if (allowed.indexOf(k) < 0) { fail(`${where} has unknown field ${k}`) }
+    })
+}
+
+function checkField (val: any, type: FieldType, where: string, fail: (msg: string) => never) {
+    const ok = type === "number" ? typeof val === "number" :
+        type === "boolean" ? typeof val === "boolean" :
+        type === "from" ? val === "trader" || val === "other" :
+        (typeof val === "number" && Number.isInteger(val)) || (typeof val === "string" && /^-?[0-9]+$/.test(val))
+    if (!ok) {
+        fail(`${where} must be ` + (type === "amount" ? "an integer or decimal string" :
+            type === "from" ? "trader or other" : `a ${type}`))
+    }
+}
+
+function toNumber (amount: ScenarioAmount): number {
+    return BigNumber.from(String(amount)).toNumber()
+}
+
+const DEFAULT_FEE_RATE = 225 * 100
+const FORK_GAS_BALANCE = "0x3635c9adc5dea00000"
@@ -0,0 +1,104 @@
+import { expect } from "chai";
+import "@nomiclabs/hardhat-ethers";
+import { ethers } from 'hardhat';
+import { solidity } from "ethereum-waffle";
+import chai from "chai";
+import path from "path";
+import { Wallet, Signer } from 'ethers';
+import { CrocAddrs } from '../misc/constants/addrs';
+import { readDeployManifest, runDeployManifest } from '../misc/libs/deployManifest';
+import { BytecodeCheck, diffBytecode, verifyCrocAddrs } from '../misc/libs/bytecodeVerify';
+import { LP_PROXY_IDX } from '../misc/sdk/commands';
+import { proxyPathName } from '../misc/sdk/protocolDecoder';
+
+chai.use(solidity);
+
+describe('Bytecode Verify', () => {
+    let accts: Wallet[]
+    let addrs: CrocAddrs
+
+    before("deploy", async () => {
+        accts = (await (ethers.getSigners() as Promise<Signer[]>)) as unknown as Wallet[]
+        const manifest = readDeployManifest(path.join(__dirname, "../misc/manifests/althea-nativedex.json"))
+        const state = await runDeployManifest(manifest, accts[0], {
+            artifactsRoot: path.join(__dirname, "../artifacts/contracts"), log: (_: string) => {} })
+
+        const c = state.contracts
+        const govern = { multisigTreasury: "", multisigOps: "", multisigEmergency: "",
+            timelockTreasury: "", timelockOps: "", timelockEmergency: "" }
+        addrs = { dex: c.CrocSwapDex, cold: c.ColdPath, warm: c.WarmPath, long: c.LongPath,
+            micro: c.MicroPaths, hot: c.HotProxy, knockout: c.KnockoutLiqPath, koCross: c.KnockoutFlagPath,
+            policy: c.CrocPolicy, query: c.CrocQuery, impact: c.CrocImpact, shell: "", policyShell: "",
+            deployer: "", govern }
+    })
+
+    function failed (checks: BytecodeCheck[]): string[] {
+        return checks.filter(c => !c.ok).map(c => c.check)
+    }
+
+    it("verifies deployment", async() => {
+        const checks = await verifyCrocAddrs(addrs, ethers.provider)
+        expect(failed(checks)).to.deep.eq([])
+        expect(checks.length).to.eq(11 + 1 + 7)
+        expect(checks.map(c => c.check)).to.contain("boot BootPath code")
+
+        const query = checks.filter(c => c.check === "query CrocQuery code")[0]
+        // Solc inlines the dex_ immutable at every place it's read
+        expect(query.detail).to.match(/with \d+ immutable references/)
+        expect(query.diff?.immutables.map(imm => imm.value)).to.deep.eq(query.diff?.immutables.map(_ =>
+            ethers.utils.hexZeroPad(addrs.dex, 32).toLowerCase()))
+
+        // Empty addresses are skipped
+        const partial = await verifyCrocAddrs({ ...addrs, impact: "", koCross: "" }, ethers.provider)
+        expect(partial.length).to.eq(9 + 1 + 6)
+    })
+
+    it("diff offsets", async() => {
+        // Runtime body, then CBOR metadata a1616101 and its two byte length
+        const local = "0x6000600260036004" + "a1616101" + "0004"
+        const chain = "0x60ff60026103ff04" + "a1616102" + "0004"
+        const diff = diffBytecode(local, chain, [{ start: 1, length: 1 }])
+        expect(diff.ranges).to.deep.eq([{ start: 4, end: 5 }, { start: 6, end: 7 }])
+        expect(diff.immutables).to.deep.eq([{ start: 1, length: 1, value: "0xff" }])
+        expect(diff.metadataMatch).to.be.false
+
+        const longer = diffBytecode(local, "0x600060026003600460ff" + "a1616101" + "0004")
+        expect(longer.ranges).to.deep.eq([{ start: 8, end: 10 }])
+        expect(longer.metadataMatch).to.be.true
+    })
+
+    it("tampered code", async() => {
+        const original = await ethers.provider.getCode(addrs.cold)
+        let bytes = ethers.utils.arrayify(original)
+        bytes[100] ^= 0xff
+        bytes[bytes.length - 3] ^= 0xff
+        await ethers.provider.send("hardhat_setCode", [addrs.cold, ethers.utils.hexlify(bytes)])
+
+        const checks = await verifyCrocAddrs(addrs, ethers.provider)
+        await ethers.provider.send("hardhat_setCode", [addrs.cold, original])
+        expect(failed(checks)).to.deep.eq(["cold ColdPath code"])
+        const cold = checks.filter(c => c.check === "cold ColdPath code")[0]
+        expect(cold.detail).to.contain("differs from source at bytes 100 ")
+        expect(cold.diff?.ranges).to.deep.eq([{ start: 100, end: 101 }])
+        expect(cold.diff?.metadataMatch).to.be.false
+    })
+
+    it("immutables", async() => {
+        // CrocQuery only accepts a contract that answers acceptCrocDex()
+        const other = await (await ethers.getContractFactory("MockMinion")).deploy()
+        const query = await (await ethers.getContractFactory("CrocQuery")).deploy(other.address)
+        const checks = await verifyCrocAddrs({ ...addrs, query: query.address }, ethers.provider)
+        expect(failed(checks)).to.deep.eq(["query CrocQuery code"])
+        expect(checks.filter(c => !c.ok)[0].detail).to.contain(`expected ${addrs.dex}`)
+    })
+
+    it("proxy slots", async() => {
+        const warm = await (await ethers.getContractFactory("WarmPath")).deploy()
+        const checks = await verifyCrocAddrs({ ...addrs, warm: warm.address }, ethers.provider)
+        expect(failed(checks)).to.deep.eq([`${proxyPathName(LP_PROXY_IDX)} slot ${LP_PROXY_IDX}`])
+        expect(checks.filter(c => !c.ok)[0].detail).to.contain(`points at ${addrs.warm}`)
+
+        const missing = await verifyCrocAddrs({ ...addrs, long: accts[5].address }, ethers.provider)
+        expect(failed(missing)).to.contain("long LongPath code")
+    })
+})
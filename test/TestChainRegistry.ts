@@ -0,0 +1,110 @@
+import { expect } from "chai";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { CHAINS_DIR, chainRpcUrls, chainToken, loadChainRegistry, lookupChain, parseChainConfig,
+    requireAddr } from '../misc/libs/chainRegistry';
+import { initProvider } from '../misc/libs/chain';
+
+describe('Chain Registry', () => {
+    const DEX = "0xAaAaAAAaA24eEeb8d57D431224f73832bC34f688"
+    const OTHER = "0x0b6CD0ECb176cb39Ad99B3A0E4294167a80B68a3"
+
+    function chainFile (overrides: any = {}): any {
+        return { name: "testchain", chainId: "0x99", rpcs: ["http://localhost:9999"], addrs: { dex: DEX },
+            tokens: { eth: "0x0000000000000000000000000000000000000000" }, poolIdxs: [36000],
+            poolParams: { universal: { initLiq: 1 }, stdPoolIdx: 36000, stdPoolParams: {
+                jitThresh: 10, tickSize: 1, feeBps: 25, knockoutOn: true } }, ...overrides }
+    }
+
+    function extraDir (...files: any[]): string {
+        const dir = fs.mkdtempSync(path.join(os.tmpdir(), "chains-"))
+        files.forEach(f => fs.writeFileSync(path.join(dir, `${f.name}.json`), JSON.stringify(f)))
+        return dir
+    }
+
+    it("bundled chains", async() => {
+        const registry = loadChainRegistry({})
+        expect(Object.keys(registry)).to.include.members(["mainnet", "mock", "althea", "althea-local"])
+
+        const mainnet = lookupChain("0x1", registry)
+        expect(mainnet.name).to.eq("mainnet")
+        expect(mainnet.addrs.dex).to.eq(DEX)
+        expect(mainnet.addrs.shell).to.eq("")
+        expect(mainnet.poolIdxs).to.deep.eq([420])
+        expect(chainToken(mainnet, "USDC")).to.eq("0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48")
+        expect(lookupChain("althea", registry).chainId).to.eq("0x3f180")
+        expect(() => lookupChain("goerli", registry)).to.throw("Unknown chain goerli")
+    })
+
+    it("rpc urls", async() => {
+        const mainnet = lookupChain("mainnet", loadChainRegistry({}))
+        expect(chainRpcUrls(mainnet, {})).to.deep.eq(["https://ethereum-rpc.publicnode.com"])
+        expect(chainRpcUrls(mainnet, { INFURA_KEY: "abc" })[0]).to.eq("https://mainnet.infura.io/v3/abc")
+
+        const althea = lookupChain("althea", loadChainRegistry({}))
+        expect(() => chainRpcUrls(althea, {})).to.throw("CROC_ALTHEA_RPC")
+
+        const env = { CROC_ALTHEA_RPC: "http://a:8545, http://b:8545" }
+        expect(chainRpcUrls(lookupChain("althea", loadChainRegistry(env)), env))
+            .to.deep.eq(["http://a:8545", "http://b:8545"])
+    })
+
+    it("env overrides", async() => {
+        const registry = loadChainRegistry({ CROC_ALTHEA_LOCAL_DEX: DEX, CROC_MAINNET_TIMELOCK_OPS: OTHER })
+        expect(registry["althea-local"].addrs.dex).to.eq(DEX)
+        expect(registry.mainnet.addrs.govern.timelockOps).to.eq(OTHER)
+        expect(() => loadChainRegistry({ CROC_MAINNET_KO_CROSS: "0x1234" })).to.throw("CROC_MAINNET_KO_CROSS")
+    })
+
+    it("extra chain dirs", async() => {
+        const registry = loadChainRegistry({ CROC_CHAINS_DIR: extraDir(chainFile(),
+            chainFile({ name: "mock", chainId: "0x7a69", addrs: { dex: OTHER } })) })
+        expect(lookupChain("0x99", registry).addrs.dex).to.eq(DEX)
+        expect(registry.mock.addrs.dex).to.eq(OTHER)
+
+        expect(() => loadChainRegistry({}, [CHAINS_DIR, extraDir(chainFile({ chainId: "0x1" }))]))
+            .to.throw("Chain id 0x1 is configured twice")
+        const misnamed = extraDir(chainFile())
+        fs.renameSync(path.join(misnamed, "testchain.json"), path.join(misnamed, "other.json"))
+        expect(() => loadChainRegistry({}, [misnamed])).to.throw("must be named testchain.json")
+    })
+
+    it("missing fields", async() => {
+        const chain = parseChainConfig(chainFile(), "test")
+        expect(requireAddr(chain, "dex")).to.eq(DEX)
+        expect(() => requireAddr(chain, "query")).to.throw("No query address for chain testchain")
+        expect(() => requireAddr(chain, "multisigOps")).to.throw("CROC_TESTCHAIN_MULTISIG_OPS")
+        expect(() => chainToken(chain, "usdc")).to.throw("Known tokens: eth")
+    })
+
+    it("required addresses", async() => {
+        expect(() => initProvider("althea-local")).to.throw("No dex address for chain althea-local")
+        expect(() => initProvider("mock", ["dex", "query"])).to.throw("No query address for chain mock")
+        expect(initProvider("mock", ["dex", "cold"]).addrs.cold).to.eq(
+            lookupChain("mock").addrs.cold)
+
+        // Deploy scripts run before there's a dex
+        const { addrs, chainId } = initProvider("althea-local", [])
+        expect(chainId).to.eq(lookupChain("althea-local").chainId)
+        expect(addrs.dex).to.eq("")
+    })
+
+    it("validates config", async() => {
+        expect(() => parseChainConfig(chainFile({ chainId: 153 }), "test")).to.throw("chainId")
+        expect(() => parseChainConfig(chainFile({ rpcs: [] }), "test")).to.throw("rpcs")
+        expect(() => parseChainConfig(chainFile({ addrs: { dex: "0x1234" } }), "test"))
+            .to.throw("dex address 0x1234 isn't an address")
+        expect(() => parseChainConfig(chainFile({ addrs: { dexx: DEX } }), "test")).to.throw("unknown field dexx")
+        expect(() => parseChainConfig(chainFile({ addrs: { govern: { multisig: DEX } } }), "test"))
+            .to.throw("unknown field multisig")
+        expect(() => parseChainConfig(chainFile({ poolIdxs: [0] }), "test")).to.throw("poolIdxs")
+        expect(() => parseChainConfig(chainFile({ poolIdxs: [36000, 36000] }), "test")).to.throw("poolIdxs")
+        expect(() => parseChainConfig(chainFile({ poolIdxs: [420, 36000] }), "test"))
+            .to.throw("poolIdxs must start with the standard pool index 36000")
+        expect(parseChainConfig(chainFile({ poolIdxs: [36000, 420] }), "test").poolIdxs).to.deep.eq([36000, 420])
+        expect(() => parseChainConfig(chainFile({ poolParams: { universal: { initLiq: 1 } } }), "test"))
+            .to.throw("poolParams")
+        expect(() => parseChainConfig(chainFile({ tokens: { USDC: DEX } }), "test")).to.throw("token USDC")
+    })
+})
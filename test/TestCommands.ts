@@ -0,0 +1,117 @@
+import { TestPool, makeTokenPool, Token } from './FacadePool'
+import { expect } from "chai";
+import "@nomiclabs/hardhat-ethers";
+import { ethers } from 'hardhat';
+import { toSqrtPrice, MIN_PRICE, MAX_PRICE } from './FixedPoint';
+import { solidity } from "ethereum-waffle";
+import chai from "chai";
+import { BigNumber } from 'ethers';
+import { mintRangeCmd, mintAmbientCmd, burnRangeCmd, swapCmd, poolTemplateCmd, initPoolCmd,
+    mintKnockoutCmd, setTakeRateCmd, initPoolLiqCmd, upgradeProxyCmd, approveRouterCmd,
+    depositSurplusCmd, BOOT_PROXY_IDX, COLD_PROXY_IDX, LP_PROXY_IDX } from '../misc/sdk/commands';
+
+chai.use(solidity);
+
+describe('SDK Commands', () => {
+    let test: TestPool
+    let baseToken: Token
+    let quoteToken: Token
+    const feeRate = 225 * 100
+
+    beforeEach("deploy",  async () => {
+       test = await makeTokenPool()
+       baseToken = await test.base
+       quoteToken = await test.quote
+
+       await test.initPool(feeRate, 0, 1, 1.5)
+       test.useHotPath = true
+    })
+
+    it("matches facade encoding", async() => {
+        let facade = await test.encodeMintPath(-100, 100, 1024*50, MIN_PRICE, MAX_PRICE, 0)
+        let sdk = mintRangeCmd({ base: baseToken.address, quote: quoteToken.address, poolIdx: test.poolIdx,
+            lowTick: -100, highTick: 100, qty: 1024*50, limitLower: MIN_PRICE, limitHigher: MAX_PRICE })
+        expect(sdk.cmd).to.eq(facade)
+        expect(sdk.callpath).to.eq(LP_PROXY_IDX)
+
+        facade = await test.encodeMintKnockout(5000, true, -64, 0, false, 0)
+        sdk = mintKnockoutCmd({ base: baseToken.address, quote: quoteToken.address, poolIdx: test.poolIdx,
+            isBid: true, lowTick: -64, highTick: 0, qty: 5000, insideMid: false })
+        expect(sdk.cmd).to.eq(facade)
+    })
+
+    it("mint and burn", async() => {
+        let mint = mintRangeCmd({ base: baseToken.address, quote: quoteToken.address, poolIdx: test.poolIdx,
+            lowTick: 3000, highTick: 5000, qty: 1024*10000, limitLower: MIN_PRICE, limitHigher: MAX_PRICE })
+        await (await test.dex).connect(await test.trader).userCmd(mint.callpath, mint.cmd)
+        expect(await test.liquidity()).to.eq(1024*10000)
+
+        let burn = burnRangeCmd({ base: baseToken.address, quote: quoteToken.address, poolIdx: test.poolIdx,
+            lowTick: 3000, highTick: 5000, qty: 1024*4000, limitLower: MIN_PRICE, limitHigher: MAX_PRICE })
+        await (await test.dex).connect(await test.trader).userCmd(burn.callpath, burn.cmd)
+        expect(await test.liquidity()).to.eq(1024*6000)
+    })
+
+    it("mint ambient base denom", async() => {
+        let mint = mintAmbientCmd({ base: baseToken.address, quote: quoteToken.address, poolIdx: test.poolIdx,
+            qty: 5000*1024, qtyDenom: "base", limitLower: MIN_PRICE, limitHigher: MAX_PRICE })
+        await test.snapStart()
+        await (await test.dex).connect(await test.trader).userCmd(mint.callpath, mint.cmd)
+        expect(await test.snapBaseOwed()).to.eq(5000*1024)
+    })
+
+    it("swap proxy", async() => {
+        await test.testUpgradeHotProxy((await (await ethers.getContractFactory("HotProxy")).deploy()).address)
+        await test.testMintAmbient(10000)
+
+        let swap = swapCmd({ base: baseToken.address, quote: quoteToken.address, poolIdx: test.poolIdx,
+            isBuy: true, inBaseQty: true, qty: 1000, limitPrice: toSqrtPrice(2.0), minOutput: 0 })
+        await test.snapStart()
+        await (await test.dex).connect(await test.trader).userCmd(swap.callpath, swap.cmd)
+        expect(await test.snapBaseOwed()).to.eq(1000)
+        expect(await test.snapQuoteOwed()).to.lt(0)
+    })
+
+    it("protocol commands", async() => {
+        let templ = poolTemplateCmd({ poolIdx: 36000, feeRate: 500, tickSize: 16, jitThresh: 3,
+            knockoutBits: 0 })
+        await (await test.dex).connect(await test.auth).protocolCmd(templ.callpath, templ.protocolCmd,
+            templ.sudo as boolean)
+        let init = initPoolCmd({ base: baseToken.address, quote: quoteToken.address, poolIdx: 36000,
+            sqrtPrice: toSqrtPrice(2.0) })
+        await (await test.dex).connect(await test.trader).userCmd(init.callpath, init.cmd)
+        expect(await test.priceIdx(36000)).to.eq(toSqrtPrice(2.0))
+
+        let take = setTakeRateCmd(64)
+        await (await test.dex).connect(await test.auth).protocolCmd(take.callpath, take.protocolCmd,
+            take.sudo as boolean)
+        expect(take.callpath).to.eq(COLD_PROXY_IDX)
+    })
+
+    it("range checks", async() => {
+        let pair = { base: baseToken.address, quote: quoteToken.address, poolIdx: test.poolIdx }
+        let limits = { limitLower: MIN_PRICE, limitHigher: MAX_PRICE }
+
+        expect(() => mintRangeCmd({ ...pair, ...limits, lowTick: 100, highTick: -100, qty: 1024 }))
+            .to.throw("must be below upper tick")
+        expect(() => mintRangeCmd({ ...pair, ...limits, lowTick: -100, highTick: 900000, qty: 1024 }))
+            .to.throw("outside of tick range")
+        expect(() => mintRangeCmd({ ...pair, ...limits, lowTick: -100, highTick: 100, qty: 1000 }))
+            .to.throw("multiple of 2048")
+        expect(() => burnRangeCmd({ ...pair, ...limits, lowTick: -100, highTick: 100, qty: 5*1024 }))
+            .to.throw("multiple of 2048")
+        expect(() => mintRangeCmd({ ...pair, ...limits, lowTick: -100, highTick: 100,
+            qty: BigNumber.from(2).pow(128) })).to.throw("out of range for uint128")
+        expect(() => mintAmbientCmd({ ...pair, ...limits, base: quoteToken.address,
+            quote: baseToken.address, qty: 1024 })).to.throw("must sort before quote")
+
+        expect(() => setTakeRateCmd(129)).to.throw("exceeds maximum")
+        expect(() => initPoolLiqCmd(0)).to.throw("Init pool liquidity")
+        expect(() => poolTemplateCmd({ poolIdx: 36000, feeRate: 70000, tickSize: 16, jitThresh: 3,
+            knockoutBits: 0 })).to.throw("out of range for uint16")
+        expect(() => upgradeProxyCmd(baseToken.address, BOOT_PROXY_IDX)).to.throw("boot path")
+        expect(() => approveRouterCmd(baseToken.address, 10, [LP_PROXY_IDX, COLD_PROXY_IDX]))
+            .to.throw("cold path")
+        expect(() => depositSurplusCmd("0x1234", 100, baseToken.address)).to.throw("not a valid address")
+    })
+})
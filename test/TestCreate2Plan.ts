@@ -0,0 +1,133 @@
+import { expect } from "chai";
+import "@nomiclabs/hardhat-ethers";
+import { ethers } from 'hardhat';
+import { solidity } from "ethereum-waffle";
+import chai from "chai";
+import path from "path";
+import { BigNumber, Wallet, Signer } from 'ethers';
+import { DeployManifest, readDeployManifest } from '../misc/libs/deployManifest';
+import { Create2Plan, executeCreate2Plan, findVanitySalt, planCreate2Deploy,
+    verifyCreate2Plan } from '../misc/libs/create2Plan';
+import { AUTHORITY_SLOT, PROXY_PATHS_SLOT, readTemplates } from '../misc/sdk/storageSlots';
+import { COLD_PROXY_IDX } from '../misc/sdk/commands';
+import { CrocRevertError, isCrocRevertError } from '../misc/sdk/revertDecoder';
+import { expectRejects } from './Rejects';
+import { CrocDeployer, CrocSwapDex } from '../typechain';
+
+chai.use(solidity);
+
+describe('Create2 Plan', () => {
+    let accts: Wallet[]
+    let deployer: CrocDeployer
+    let manifest: DeployManifest
+    const artifactsRoot = path.join(__dirname, "../artifacts/contracts")
+    const quiet = { artifactsRoot, log: (_: string) => {} }
+
+    beforeEach("deploy", async () => {
+        accts = (await (ethers.getSigners() as Promise<Signer[]>)) as unknown as Wallet[]
+        const factory = await ethers.getContractFactory("CrocDeployer")
+        deployer = (await factory.deploy(accts[0].address)) as CrocDeployer
+        manifest = readDeployManifest(path.join(__dirname, "../misc/manifests/althea-nativedex.json"))
+    })
+
+    function plan (opts = {}): Create2Plan {
+        return planCreate2Deploy(manifest, deployer.address, { ...quiet, salt: 1234, ...opts })
+    }
+
+    function addr (plan: Create2Plan, name: string): string {
+        return plan.contracts.filter(c => c.name === name)[0].address
+    }
+
+    it("predicts addresses", async() => {
+        const planned = plan()
+        const code = (await ethers.getContractFactory("CrocSwapDex")).bytecode
+        expect(addr(planned, "CrocSwapDex")).to.eq(await deployer.getAddress(code, 1234))
+
+        // Depends only on the deployer, salt and init code
+        expect(plan().contracts).to.deep.eq(planned.contracts)
+        expect(plan({ salt: 1235 }).contracts[0].address).to.not.eq(addr(planned, "CrocSwapDex"))
+
+        // Contracts that take the dex in their constructor are planned against its predicted address
+        const policy = planned.contracts.filter(c => c.name === "CrocPolicy")[0]
+        expect(policy.args[0]).to.eq(addr(planned, "CrocSwapDex"))
+    })
+
+    it("vanity salt", async() => {
+        const planned = plan({ vanity: { CrocSwapDex: "0xcc" } })
+        expect(addr(planned, "CrocSwapDex").toLowerCase().startsWith("0xcc")).to.be.true
+        expect(planned.contracts.filter(c => c.name === "CrocQuery")[0].args[0])
+            .to.eq(addr(planned, "CrocSwapDex"))
+
+        const hash = planned.contracts[0].initCodeHash
+        expect(findVanitySalt(deployer.address, hash, "0xcc").address).to.eq(addr(planned, "CrocSwapDex"))
+        expect(() => findVanitySalt(deployer.address, hash, "0xcccccccc", { maxTries: 10 }))
+            .to.throw("No salt gives")
+        expect(() => findVanitySalt(deployer.address, hash, "0xzz")).to.throw("isn't a hex")
+    })
+
+    it("execute and verify", async() => {
+        manifest.authority = "$CrocPolicy"
+        const planned = plan()
+        expect((await verifyCreate2Plan(planned, ethers.provider)).filter(c => !c.ok).length)
+            .to.eq(planned.contracts.length)
+
+        await executeCreate2Plan(planned, accts[0], quiet)
+        const checks = await verifyCreate2Plan(planned, ethers.provider, artifactsRoot)
+        expect(checks.every(c => c.ok)).to.be.true
+        expect(checks.map(c => c.check)).to.contain("Dex configuration")
+
+        const dex = (await ethers.getContractAt("CrocSwapDex", addr(planned, "CrocSwapDex"))) as CrocSwapDex
+        const cold = await dex.readSlot(PROXY_PATHS_SLOT + COLD_PROXY_IDX)
+        expect(ethers.utils.getAddress(ethers.utils.hexZeroPad(cold.toHexString(), 20)))
+            .to.eq(addr(planned, "ColdPath"))
+        const auth = await dex.readSlot(AUTHORITY_SLOT)
+        expect(ethers.utils.getAddress(ethers.utils.hexZeroPad(auth.toHexString(), 20)))
+            .to.eq(addr(planned, "CrocPolicy"))
+        expect((await readTemplates(dex, [36001]))[0].feeRate).to.eq(5000)
+
+        // Re-running is a no-op
+        const nonce = await accts[0].getTransactionCount()
+        await executeCreate2Plan(planned, accts[0], quiet)
+        expect(await accts[0].getTransactionCount()).to.eq(nonce)
+    })
+
+    it("resumes", async() => {
+        const planned = plan()
+        const partial = { ...planned, contracts: planned.contracts.slice(0, 3) }
+        await executeCreate2Plan({ ...partial, manifest: { ...manifest, proxies: [], templates: [],
+            initLiq: undefined } }, accts[0], quiet)
+
+        await executeCreate2Plan(planned, accts[0], quiet)
+        expect((await verifyCreate2Plan(planned, ethers.provider)).every(c => c.ok)).to.be.true
+    })
+
+    it("decodes step reverts", async() => {
+        // Permissioned template whose oracle, read from the pool index, isn't a contract
+        const poolIdx = BigNumber.from(accts[5].address).shl(96).add(1)
+        manifest.templates = [{ poolIdx, feeRate: 2500, tickSize: 1, jitThresh: 1, knockout: 0,
+            oracleFlags: 1 }]
+        const err = await expectRejects(executeCreate2Plan(plan(), accts[0], quiet),
+            "protocolCmd PoolTemplate (code 110) on ColdPath")
+        expect(isCrocRevertError(err)).to.be.true
+        expect((err as CrocRevertError).reason).to.eq("Oracle")
+    })
+
+    it("detects mismatches", async() => {
+        const planned = plan()
+        await executeCreate2Plan(planned, accts[0], quiet)
+
+        const tampered = JSON.parse(JSON.stringify(planned)) as Create2Plan
+        tampered.contracts[1].initCodeHash = ethers.utils.keccak256("0x1234")
+        tampered.contracts[2].address = accts[5].address
+        tampered.manifest.templates![0].feeRate = 3000
+        const failed = (await verifyCreate2Plan(tampered, ethers.provider)).filter(c => !c.ok)
+        expect(failed.map(c => c.check)).to.deep.eq([planned.contracts[1].name,
+            planned.contracts[2].name, "Dex configuration"])
+
+        // A plan made for another deployer refuses to deploy at the wrong address
+        const fresh = plan({ salt: 99 })
+        const other = (await (await ethers.getContractFactory("CrocDeployer")).deploy(accts[0].address))
+        await expectRejects(executeCreate2Plan({ ...fresh, deployer: other.address }, accts[0], quiet),
+            "not the planned")
+    })
+})
@@ -0,0 +1,175 @@
+import { expect } from "chai";
+import "@nomiclabs/hardhat-ethers";
+import { ethers } from 'hardhat';
+import { solidity } from "ethereum-waffle";
+import chai from "chai";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { Wallet, Signer } from 'ethers';
+import { DeployManifest, DeployState, readDeployManifest, runDeployManifest,
+    validateManifest } from '../misc/libs/deployManifest';
+import { readUnsignedTxs, UnsignedTxSigner } from '../misc/libs/signers';
+import { COLD_PROXY_IDX, FLAG_CROSS_PROXY_IDX, knockoutBits, SAFE_MODE_PROXY_PATH,
+    SWAP_PROXY_IDX, unpackKnockoutBits } from '../misc/sdk/commands';
+import { AUTHORITY_SLOT, POOL_REGISTRY_SLOT, PROXY_PATHS_SLOT, readTemplates } from '../misc/sdk/storageSlots';
+import { CrocSwapDex } from '../typechain';
+import { expectRejects } from './Rejects';
+
+chai.use(solidity);
+
+describe('Deploy Manifest', () => {
+    let accts: Wallet[]
+    let manifest: DeployManifest
+    const artifactsRoot = path.join(__dirname, "../artifacts/contracts")
+    const quiet = { artifactsRoot, log: (_: string) => {} }
+
+    beforeEach("manifest", async () => {
+        accts = (await (ethers.getSigners() as Promise<Signer[]>)) as unknown as Wallet[]
+        manifest = readDeployManifest(path.join(__dirname, "../misc/manifests/althea-nativedex.json"))
+    })
+
+    async function dexAt (state: DeployState): Promise<CrocSwapDex> {
+        return (await ethers.getContractAt("CrocSwapDex", state.contracts.CrocSwapDex)) as CrocSwapDex
+    }
+
+    async function proxyAt (dex: CrocSwapDex, slot: number): Promise<string> {
+        const val = await dex.readSlot(PROXY_PATHS_SLOT + slot)
+        return ethers.utils.getAddress(ethers.utils.hexZeroPad(val.toHexString(), 20))
+    }
+
+    it("deploys manifest", async() => {
+        const state = await runDeployManifest(manifest, accts[0], quiet)
+        const dex = await dexAt(state)
+
+        expect(await proxyAt(dex, COLD_PROXY_IDX)).to.eq(state.contracts.ColdPath)
+        expect(await proxyAt(dex, SWAP_PROXY_IDX)).to.eq(state.contracts.HotProxy)
+        expect(await proxyAt(dex, FLAG_CROSS_PROXY_IDX)).to.eq(state.contracts.KnockoutFlagPath)
+        expect(await proxyAt(dex, SAFE_MODE_PROXY_PATH)).to.eq(state.contracts.SafeModePath)
+        expect((await dex.readSlot(POOL_REGISTRY_SLOT)).mask(128)).to.eq(1)
+
+        const [stable, volatile] = await readTemplates(dex, [36000, 36001])
+        expect(stable.feeRate).to.eq(2500)
+        expect(stable.knockoutBits).to.eq(knockoutBits({ placement: "inside", width: 64 }))
+        expect(volatile.tickSize).to.eq(4)
+        expect(volatile.knockoutBits).to.eq(knockoutBits({ placement: "inside", width: 128 }))
+
+        const policy = await ethers.getContractAt("CrocPolicy", state.contracts.CrocPolicy)
+        expect(await policy.dex_()).to.eq(state.contracts.CrocSwapDex)
+    })
+
+    it("idempotent", async() => {
+        const state = await runDeployManifest(manifest, accts[0], quiet)
+        const nonce = await accts[0].getTransactionCount()
+
+        let logs: string[] = []
+        const again = await runDeployManifest(manifest, accts[0], { artifactsRoot, state,
+            log: msg => logs.push(msg) })
+        expect(again).to.deep.eq(state)
+        expect(await accts[0].getTransactionCount()).to.eq(nonce)
+        expect(logs).to.contain(`CrocSwapDex deployed at Address -  ${state.contracts.CrocSwapDex}`)
+        expect(logs).to.contain("Dex configuration already up to date")
+    })
+
+    it("resumes", async() => {
+        let saved: DeployState = { contracts: {} }
+        const err = await expectRejects(runDeployManifest(manifest, accts[0], { ...quiet, onState: state => {
+            saved = JSON.parse(JSON.stringify(state))
+            if (Object.keys(state.contracts).length === 4) {
+                throw new Error("Interrupted")
+            }
+        }}), "Interrupted")
+        expect(err.message).to.eq("Interrupted")
+
+        // Only the remaining contracts are deployed, then everything's installed
+        const nonce = await accts[0].getTransactionCount()
+        const state = await runDeployManifest(manifest, accts[0], { ...quiet, state: saved })
+        expect(state.contracts.WarmPath).to.eq(saved.contracts.WarmPath)
+        expect(await accts[0].getTransactionCount() - nonce).to.eq(
+            manifest.contracts.length - 4 + manifest.proxies.length + 1 + 2)
+        expect(await proxyAt(await dexAt(state), COLD_PROXY_IDX)).to.eq(saved.contracts.ColdPath)
+
+        // A changed template is the only step left to apply
+        manifest.templates![0].feeRate = 3000
+        await runDeployManifest(manifest, accts[0], { ...quiet, state })
+        expect((await readTemplates(await dexAt(state), [36000]))[0].feeRate).to.eq(3000)
+        expect((await readTemplates(await dexAt(state), [36001]))[0].feeRate).to.eq(5000)
+    })
+
+    it("unsigned export", async() => {
+        const wallet = Wallet.createRandom().connect(ethers.provider)
+        await (await accts[0].sendTransaction({ to: wallet.address, value: ethers.utils.parseEther("10") })).wait()
+        const file = path.join(fs.mkdtempSync(path.join(os.tmpdir(), "manifest-")), "txs.jsonl")
+
+        // Nothing's on chain yet, so the configuration is planned against an empty dex
+        const state = await runDeployManifest(manifest, new UnsignedTxSigner(file, wallet.address,
+            ethers.provider), quiet)
+        expect(await ethers.provider.getCode(state.contracts.CrocSwapDex)).to.eq("0x")
+
+        for (const tx of readUnsignedTxs(file)) {
+            await (await ethers.provider.sendTransaction(await wallet.signTransaction(tx))).wait()
+        }
+        let logs: string[] = []
+        await runDeployManifest(manifest, wallet, { artifactsRoot, state, log: msg => logs.push(msg) })
+        expect(logs).to.contain("Dex configuration already up to date")
+    })
+
+    it("authority handoff", async() => {
+        manifest.authority = "$CrocPolicy"
+        const state = await runDeployManifest(manifest, accts[0], quiet)
+        const dex = await dexAt(state)
+        const auth = await dex.readSlot(AUTHORITY_SLOT)
+        expect(ethers.utils.getAddress(ethers.utils.hexZeroPad(auth.toHexString(), 20)))
+            .to.eq(state.contracts.CrocPolicy)
+
+        // Past the handoff the deployer can't apply changes any more
+        manifest.initLiq = 5
+        const err = await expectRejects(runDeployManifest(manifest, accts[0], { ...quiet, state }),
+            "Dex authority is")
+        expect(err.message).to.contain("Setting initial pool liquidity to 5")
+    })
+
+    it("knockout bits", async() => {
+        expect(knockoutBits({ placement: "inside", width: 64, onGrid: true })).to.eq(0x66)
+        expect(knockoutBits({ placement: "outside", width: 1 })).to.eq(0x10)
+        expect(knockoutBits({ placement: "disabled", width: 1 })).to.eq(0)
+        expect(() => knockoutBits({ placement: "inside", width: 48 })).to.throw("power of two")
+        expect(() => knockoutBits({ placement: "sideways" as any, width: 64 })).to.throw("Unknown knockout")
+        expect(unpackKnockoutBits(0x66)).to.deep.eq({ placement: "inside", width: 64, onGrid: true })
+        expect(unpackKnockoutBits(0x10)).to.deep.eq({ placement: "outside", width: 1, onGrid: false })
+    })
+
+    it("legacy knockout bits", async() => {
+        // The original dex-deployer.ts set both placement bits, which the dex reads as inside
+        const legacy = { ...manifest, templates: manifest.templates!.map((t, i) =>
+            ({ ...t, knockout: [0x36, 0x37][i] })) }
+        const state = await runDeployManifest(legacy, accts[0], quiet)
+        expect((await readTemplates(await dexAt(state), [36000]))[0].knockoutBits).to.eq(0x36)
+        expect(unpackKnockoutBits(0x36)).to.deep.eq({ placement: "inside", width: 64, onGrid: false })
+
+        let logs: string[] = []
+        await runDeployManifest(manifest, accts[0], { artifactsRoot, state, log: msg => logs.push(msg) })
+        expect(logs).to.contain("Dex configuration already up to date")
+    })
+
+    it("pinned address without code", async() => {
+        const pinned = Wallet.createRandom().address
+        manifest.contracts = manifest.contracts.map(c => c.name === "CrocQuery" ? { ...c, address: pinned } : c)
+        await expectRejects(runDeployManifest(manifest, accts[0], quiet),
+            `Pinned CrocQuery address ${pinned} has no code`)
+    })
+
+    it("validates manifest", async() => {
+        const proxies = manifest.proxies
+        expect(() => validateManifest({ ...manifest, proxies: [...proxies,
+            { contract: "ColdPathUpgrade", slot: "cold" }] })).to.throw("installed twice")
+        expect(() => validateManifest({ ...manifest, proxies: [{ contract: "ColdPath", slot: 0 }] }))
+            .to.throw("boot path")
+        expect(() => validateManifest({ ...manifest, proxies: [{ contract: "ColdPath", slot: "lukewarm" as any }] }))
+            .to.throw("Unknown proxy slot")
+        expect(() => validateManifest({ ...manifest, contracts: [...manifest.contracts,
+            { name: "Lens", artifact: "x.json", args: ["$treasury"] }] })).to.throw("isn't a named address")
+        expect(() => validateManifest({ ...manifest, templates: [{ poolIdx: 1, feeRate: 2500,
+            tickSize: 1, jitThresh: 1, knockout: { placement: "inside", width: 3 } }] })).to.throw("power of two")
+    })
+})
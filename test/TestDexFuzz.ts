@@ -0,0 +1,97 @@
+import { expect } from "chai";
+import chai from "chai";
+import "@nomiclabs/hardhat-ethers";
+import { solidity } from "ethereum-waffle";
+import { BigNumber } from 'ethers';
+import { checkDexInvariants, DexAction, DexFuzzEnv, DexInvariant, makeDexFuzzEnv,
+    minimizeDexTrace, parseDexTrace, replayDexTrace } from './DexFuzz';
+import { expectRejects } from './Rejects';
+
+chai.use(solidity);
+
+// Stateful fuzzing of the dex against its global invariants. See DexFuzz.ts for
+// FUZZ_SEED, FUZZ_SEQUENCES, FUZZ_STEPS and FUZZ_TRACE.
+describe('Dex Fuzz', function () {
+    // Every step sends a transaction and re-reads the whole dex state
+    this.timeout(1800000)
+
+    let env: DexFuzzEnv
+
+    // Fails as soon as any user holds surplus collateral, to exercise failure reporting
+    const noSurplus: DexInvariant = async (env) => {
+        let checks = []
+        for (const user of env.users) {
+            for (const token of env.tokens) {
+                const surplus = await env.query.querySurplus(await user.getAddress(), token.address)
+                checks.push({ check: "no surplus", ok: surplus.isZero(), detail: surplus.toString() })
+            }
+        }
+        return checks
+    }
+
+    before("deploy", async () => {
+        env = await makeDexFuzzEnv()
+    })
+
+    it("dex invariants hold", async () => {
+        await checkDexInvariants(env)
+    })
+
+    it("replays a trace", async () => {
+        const trace: DexAction[] = [
+            { op: "mintRange", user: 1, pool: 0, lower: -2000, upper: 8000, qty: "204800000" },
+            { op: "swap", user: 2, pool: 0, isBuy: false, inBase: true, qty: "100000",
+              limitPrice: "65538", surplus: true },
+            { op: "deposit", user: 0, token: 1, qty: "50000" },
+            { op: "burnRange", user: 1, pool: 0, lower: -2000, upper: 8000, qty: "102400000",
+              relayer: 2 },
+            { op: "withdraw", user: 0, token: 1, qty: "70000" }
+        ]
+        const steps = await replayDexTrace(env, trace)
+
+        expect(steps.length).to.eq(5)
+        expect(steps.map(s => s.failed.length)).to.deep.eq([0, 0, 0, 0, 0])
+        expect(steps.map(s => s.reverted === undefined)).to.deep.eq([true, true, true, true, false])
+        await checkDexInvariants(env, { trace })
+    })
+
+    it("minimizes failing traces", async () => {
+        const trace: DexAction[] = [
+            { op: "mintAmbient", user: 0, pool: 1, qty: "1000000" },
+            { op: "swap", user: 1, pool: 1, isBuy: true, inBase: true, qty: "5000",
+              limitPrice: BigNumber.from(2).pow(100).toString() },
+            { op: "deposit", user: 2, token: 0, qty: "100", relayer: 0 },
+            { op: "mintAmbient", user: 1, pool: 2, qty: "1000000" }
+        ]
+
+        const full = await replayDexTrace(env, trace, [noSurplus])
+        expect(full.length).to.eq(3)
+        expect(full[2].failed[0].check).to.eq("no surplus")
+
+        const minimal = await minimizeDexTrace(env, trace, "no surplus", [noSurplus])
+        expect(minimal).to.deep.eq([{ op: "deposit", user: 2, token: 0, qty: "100" }])
+        expect((await replayDexTrace(env, minimal, [noSurplus]))[0].failed[0].check)
+            .to.eq("no surplus")
+    })
+
+    it("reports a replayable trace", async () => {
+        const err = await expectRejects(checkDexInvariants(env,
+            { seed: 42, sequences: 1, steps: 100, invariants: [noSurplus] }), "Dex invariant no surplus failed")
+        expect(err.message).to.contain("replay with FUZZ_SEED=42")
+        const json = err.message.split("FUZZ_TRACE=<file>:\n")[1]
+        const trace = parseDexTrace(JSON.parse(json), "error")
+
+        await expectRejects(checkDexInvariants(env, { trace, invariants: [noSurplus] }),
+            `no surplus failed at step ${trace.length}`)
+    })
+
+    it("parse errors", async () => {
+        const parse = (raw: any) => () => parseDexTrace(raw, "test")
+
+        expect(parse([])).to.throw("non-empty array")
+        expect(parse([{ op: "flip", user: 0 }])).to.throw("action 1 has unknown op flip")
+        expect(parse([{ op: "swap", user: 3 }])).to.throw("user must be an index below 3")
+        expect(parse([{ op: "deposit", user: 0, token: -1 }])).to.throw("token must be")
+        expect(parse([{ op: "swap", user: 1, relayer: 1 }])).to.throw("relayed by its own signer")
+    })
+})
@@ -5,7 +5,7 @@ import "@nomiclabs/hardhat-ethers";
 import { ethers } from 'hardhat';
 import { solidity } from "ethereum-waffle";
 import { toSqrtPrice } from './FixedPoint';
-import { OrderDirective, PassiveDirective, SwapDirective, PoolDirective, ConcentratedDirective, SettlementDirective, HopDirective, encodeOrderDirective, ImproveDirective, ChainingDirective } from './EncodeOrder';
+import { OrderDirective, PassiveDirective, SwapDirective, PoolDirective, ConcentratedDirective, SettlementDirective, HopDirective, encodeOrderDirective, ImproveDirective, ChainingDirective, decodeOrderDirective } from './EncodeOrder';
 import { BigNumber } from 'ethers';
 
 chai.use(solidity);
@@ -222,4 +222,47 @@ describe('Encoding', () => {
         expect(chain.rollExit_).to.equal(cmp.rollExit)
         expect(chain.swapDefer_).to.equal(cmp.swapDefer)
     })
-})
\ No newline at end of file
+
+    it ("decode round trip", async() => {
+        let encoded = ethers.utils.hexlify(encodeOrderDirective(order))
+        let decoded = decodeOrderDirective(encoded)
+        expect(ethers.utils.hexlify(encodeOrderDirective(decoded))).to.equal(encoded)
+
+        let cmp = order.hops[0].pools[1]
+        let pool = decoded.hops[0].pools[1]
+        expect(pool.poolIdx).to.equal(cmp.poolIdx)
+        expect(pool.swap.qty).to.equal(cmp.swap.qty)
+        expect(pool.swap.limitPrice).to.equal(cmp.swap.limitPrice)
+        expect(pool.passive.concentrated[1].lowTick).to.equal(cmp.passive.concentrated[1].lowTick)
+        expect(pool.passive.concentrated[1].highTick).to.equal(cmp.passive.concentrated[1].highTick)
+        expect(pool.chain.rollExit).to.equal(cmp.chain.rollExit)
+        expect(decoded.hops[2].settlement.limitQty).to.equal(order.hops[2].settlement.limitQty)
+        expect(decoded.open.token.toLowerCase()).to.equal(
+            ethers.utils.hexZeroPad(order.open.token, 20).toLowerCase())
+    })
+
+    it ("decode truncated", async() => {
+        let encoded = ethers.utils.arrayify(encodeOrderDirective(order))
+        expect(() => decodeOrderDirective(encoded.slice(0, encoded.length - 32)))
+            .to.throw("Truncated order directive")
+        expect(() => decodeOrderDirective(encoded.slice(0, 100)))
+            .to.throw("Truncated order directive")
+    })
+
+    it ("decode count mismatch", async() => {
+        let encoded = ethers.utils.arrayify(encodeOrderDirective(order))
+        let padded = ethers.utils.concat([encoded, ethers.utils.hexZeroPad("0x00", 32)])
+        expect(() => decodeOrderDirective(padded)).to.throw("Trailing 32 bytes")
+
+        // Hop count sits in the 6th word, after the schema and opening settlement
+        let overCount = encoded.slice()
+        overCount[32*6 - 1] = 4
+        expect(() => decodeOrderDirective(overCount)).to.throw("Truncated order directive")
+    })
+
+    it ("decode unknown schema", async() => {
+        let encoded = ethers.utils.arrayify(encodeOrderDirective(order))
+        encoded[31] = 2
+        expect(() => decodeOrderDirective(encoded)).to.throw("Unknown long-form schema type 2")
+    })
+})
@@ -0,0 +1,124 @@
+import { TestPool, makeTokenPool } from './FacadePool'
+import { expect } from "chai";
+import "@nomiclabs/hardhat-ethers";
+import { ethers } from 'hardhat';
+import { solidity } from "ethereum-waffle";
+import chai from "chai";
+import { Wallet, Signer } from 'ethers';
+import os from "os";
+import path from "path";
+import { CrocPolicy, CrocSwapDex, TimelockAccepts } from '../typechain';
+import { CrocAddrs } from '../misc/constants/addrs';
+import { opsResolution, treasuryResolution } from '../misc/libs/governance';
+import { readResolutionFile } from '../misc/libs/resolution';
+import { simulateResolution, SimulationReport } from '../misc/libs/forkSim';
+import { UpgradeLayoutSources } from '../misc/libs/storageLayout';
+import { authTransferCmd, COLD_PROXY_IDX, CrocProtocolCmd, poolReviseCmd, poolTemplateCmd,
+    setTakeRateCmd, upgradeProxyCmd } from '../misc/sdk/commands';
+
+chai.use(solidity);
+
+describe('Governance Fork Simulation', () => {
+    let test: TestPool
+    let dex: CrocSwapDex
+    let policy: CrocPolicy
+    let timelock: TimelockAccepts
+    let accts: Wallet[]
+    let addrs: CrocAddrs
+
+    const DELAY = 30
+    const COLD_LAYOUT = { current: { contract: "ColdPath" }, proposed: { contract: "ColdPath" } }
+
+    beforeEach("deploy", async () => {
+        test = await makeTokenPool()
+        dex = await test.dex
+        accts = (await (ethers.getSigners() as Promise<Signer[]>)) as unknown as Wallet[]
+        const multisig = accts[4].address
+        const auth = await test.auth
+        await test.initPool(225, 0, 1, 1.0)
+
+        let factory = await ethers.getContractFactory("CrocPolicy");
+        policy = (await factory.deploy(dex.address, await auth.getAddress())) as CrocPolicy;
+        const transfer = authTransferCmd(policy.address)
+        await dex.connect(auth).protocolCmd(transfer.callpath, transfer.protocolCmd, true)
+
+        factory = await ethers.getContractFactory("TimelockAccepts");
+        timelock = (await factory.deploy(DELAY, [multisig], [multisig])) as TimelockAccepts;
+        await policy.connect(auth).transferGovernance(timelock.address, timelock.address, timelock.address)
+
+        const govern = { multisigOps: multisig, multisigTreasury: multisig, multisigEmergency: multisig,
+            timelockOps: timelock.address, timelockTreasury: timelock.address,
+            timelockEmergency: timelock.address }
+        addrs = { dex: dex.address, cold: "", warm: "", long: "", micro: "", hot: "", knockout: "",
+            koCross: "", policy: policy.address, query: "", impact: "", shell: "", policyShell: "",
+            deployer: "", govern }
+    })
+
+    async function simulate (cmd: CrocProtocolCmd, treasury?: boolean,
+        layout?: UpgradeLayoutSources): Promise<SimulationReport> {
+        const outFile = path.join(os.tmpdir(), `resolution-${Date.now()}.json`)
+        const resolve = treasury ? treasuryResolution : opsResolution
+        await resolve(addrs, cmd, DELAY, "Simulated resolution", outFile, layout)
+        return simulateResolution(readResolutionFile(outFile))
+    }
+
+    function changed (report: SimulationReport): string[] {
+        return report.changes.map(c => `${c.path}: ${c.before} -> ${c.after}`)
+    }
+
+    function events (report: SimulationReport): string[] {
+        return report.events.map(e => `${e.contract} ${e.name}`)
+    }
+
+    it("pool template", async() => {
+        let report = await simulate(poolTemplateCmd({ poolIdx: 5000, feeRate: 300, tickSize: 8,
+            jitThresh: 0, knockoutBits: 0 }))
+        expect(report.success).to.be.true
+        expect(changed(report)).to.deep.eq(["templates.5000.schema: 0 -> 1",
+            "templates.5000.feeRate: 0 -> 300", "templates.5000.tickSize: 0 -> 8"])
+        expect(events(report)).to.deep.eq(["policy CrocResolutionOps", "dex SetPoolTemplate"])
+        expect(report.events[1].args.feeRate).to.eq(300)
+    })
+
+    it("pool revise", async() => {
+        const base = (await test.base).address
+        const quote = (await test.quote).address
+        const key = `${base}/${quote}/${test.poolIdx}`
+
+        let report = await simulate(poolReviseCmd({ base, quote, poolIdx: test.poolIdx, feeRate: 500,
+            tickSize: 1, jitThresh: 0, knockoutBits: 0 }))
+        expect(report.success).to.be.true
+        expect(changed(report)).to.deep.eq([`pools.${key}.feeRate: 225 -> 500`])
+        expect(events(report)).to.deep.eq(["policy CrocResolutionOps", "dex PoolRevision"])
+    })
+
+    it("take rate", async() => {
+        let report = await simulate(setTakeRateCmd(64))
+        expect(report.success).to.be.true
+        expect(changed(report)).to.deep.eq(["protocolTakeRate: 0 -> 64"])
+    })
+
+    it("proxy upgrade", async() => {
+        const cold = await (await ethers.getContractFactory("ColdPath")).deploy()
+        const before = ethers.utils.getAddress(ethers.utils.hexZeroPad(
+            (await dex.readSlot(1 + COLD_PROXY_IDX)).toHexString(), 20))
+
+        let report = await simulate(upgradeProxyCmd(cold.address, COLD_PROXY_IDX), true, COLD_LAYOUT)
+        expect(report.success).to.be.true
+        expect(report.changes.length).to.eq(1)
+        expect(report.changes[0].path).to.eq("proxyPaths.ColdPath")
+        expect(report.changes[0].before).to.eq(before)
+        expect(report.changes[0].after).to.eq(cold.address)
+        expect(events(report)).to.deep.eq(["policy CrocResolutionTreasury", "dex UpgradeProxy"])
+    })
+
+    it("reverted", async() => {
+        // Sudo commands can't go through the ops path
+        const cold = await (await ethers.getContractFactory("ColdPath")).deploy()
+        let report = await simulate(upgradeProxyCmd(cold.address, COLD_PROXY_IDX), false, COLD_LAYOUT)
+        expect(report.success).to.be.false
+        expect(report.revertReason).to.not.be.undefined
+        expect(report.changes).to.deep.eq([])
+        expect(report.events).to.deep.eq([])
+    })
+})
@@ -1,4 +1,5 @@
 import { TestPool, makeTokenPool, Token } from './FacadePool'
+import { expectGas } from './GasSnapshot'
 import { expect } from "chai";
 import "@nomiclabs/hardhat-ethers";
 import { ethers } from 'hardhat';
@@ -10,9 +11,6 @@ import { ContractTransaction, BigNumber } from 'ethers';
 
 chai.use(solidity);
 
-// If set to true, every test will fail and therefore print the actual gas spend. 
-const METRIC_PROFILE = false
-
 describe('Gas Benchmarks Coldpath', () => {
     let test: TestPool
     let initTx: Promise<ContractTransaction>
@@ -28,139 +26,127 @@ describe('Gas Benchmarks Coldpath', () => {
        test.useHotPath = false
     })
 
-    async function gasUsed (tx: Promise<ContractTransaction>): Promise<BigNumber> {
-        return tx
-            .then(t => t.wait())
-            .then(t => t.gasUsed)
-    }
-
-    async function expectGas (tx: Promise<ContractTransaction>, limit: number) {
-        let gas = await gasUsed(tx)
-        let comp = METRIC_PROFILE ? 0 : limit
-        expect(gas).to.be.lt(comp)
-    }
-
     it("create pool [@gas-test]", async() => {
-        await expectGas(initTx, 186000)
+        await expectGas(test, initTx)
     })
 
     it("mint in virgin pool [@gas-test]", async() => {
-        await expectGas(test.testMint(-100, 100, 100), 350000)
+        await expectGas(test, test.testMint(-100, 100, 100))
     })
 
     it("mint increase liq [@gas-test]", async() => {
         await test.testMint(-100, 100, 100)
-        await expectGas(test.testMint(-100, 100, 10000), 157000)
+        await expectGas(test, test.testMint(-100, 100, 10000))
     })
 
     it("mint pre-init ticks [@gas-test]", async() => {
         await test.testMint(-100, 100, 100)
-        await expectGas(test.testMintOther(-100, 100, 10000), 188000)
+        await expectGas(test, test.testMintOther(-100, 100, 10000))
     })
 
     it("mint one fresh init [@gas-test]", async() => {
         await test.testMint(-100, 100, 100)
-        await expectGas(test.testMintOther(-100, 200, 10000), 213000)
+        await expectGas(test, test.testMintOther(-100, 200, 10000))
     })
 
     it("mint fresh ticks [@gas-test]", async() => {
         await test.testMint(-100, 100, 100)
-        await expectGas(test.testMintOther(-200, 200, 10000), 239000)
+        await expectGas(test, test.testMintOther(-200, 200, 10000))
     })
 
     it("mint below price [@gas-test]", async() => {
         await test.testMint(-100, 100, 100)
-        await expectGas(test.testMintOther(-300, -200, 10000), 231000)
+        await expectGas(test, test.testMintOther(-300, -200, 10000))
     })
 
     it("mint above price [@gas-test]", async() => {
         await test.testMint(-100, 100, 100)
-        await expectGas(test.testMintOther(200, 300, 100), 231500)
+        await expectGas(test, test.testMintOther(200, 300, 100))
     })
 
     it("burn partial [@gas-test]", async() => {
         await test.testMint(-100, 100, 100)
-        await expectGas(test.testBurn(-100, 100, 50), 179000)
+        await expectGas(test, test.testBurn(-100, 100, 50))
     })
 
     it("burn partial level left [@gas-test]", async() => {
         await test.testMint(-100, 100, 100)
         await test.testMintOther(-100, 100, 100)
-        await expectGas(test.testBurn(-100, 100, 50), 179000)
+        await expectGas(test, test.testBurn(-100, 100, 50))
     })
 
     it("burn full [@gas-test]", async() => {
         await test.testMint(-100, 100, 100)
-        await expectGas(test.testBurn(-100, 100, 100), 164000)
+        await expectGas(test, test.testBurn(-100, 100, 100))
     })
 
     it("burn full level left [@gas-test]", async() => {
         await test.testMint(-100, 100, 100)
         await test.testMintOther(-100, 100, 100)
-        await expectGas(test.testBurn(-100, 100, 100), 174000)
+        await expectGas(test, test.testBurn(-100, 100, 100))
     })
 
     it("burn outside [@gas-test]", async() => {
         await test.testMint(-200, -100, 100)
-        await expectGas(test.testBurn(-200, -100, 100), 148000)
+        await expectGas(test, test.testBurn(-200, -100, 100))
     })
 
     it("burn outside left [@gas-test]", async() => {
         await test.testMint(-200, -100, 100)
         await test.testMintOther(-200, -100, 100)
-        await expectGas(test.testBurn(-200, -100, 100), 155000)
+        await expectGas(test, test.testBurn(-200, -100, 100))
     })
 
     it("burn liq rewards [@gas-test]", async() => {
         await test.testMint(-100, 100, 100000)
         await test.testSwapOther(true, true, 1000, toSqrtPrice(1.1))
-        await expectGas(test.testBurn(-100, 100, 100), 179000)
+        await expectGas(test, test.testBurn(-100, 100, 100))
     })
 
     it("burn liq level left [@gas-test]", async() => {
         await test.testMint(-100, 100, 100)
         await test.testMintOther(-100, 100, 100)
         await test.testSwapOther(true, true, 1000, toSqrtPrice(1.1))
-        await expectGas(test.testBurn(-100, 100, 100), 198000)
+        await expectGas(test, test.testBurn(-100, 100, 100))
     })
 
     it("burn flipped [@gas-test]", async() => {
         await test.testMint(-100, 100, 100)
         await test.testSwapOther(true, true, 1000000, toSqrtPrice(1.1))
-        await expectGas(test.testBurn(-100, 100, 100), 189000)
+        await expectGas(test, test.testBurn(-100, 100, 100))
     })
 
     it("burn flipped level left [@gas-test]", async() => {
         await test.testMint(-100, 100, 100)
         await test.testMintOther(-100, 100, 1000)
         await test.testSwapOther(true, true, 1000000, toSqrtPrice(1.1))
-        await expectGas(test.testBurn(-100, 100, 100), 195000)
+        await expectGas(test, test.testBurn(-100, 100, 100))
     })
 
     it("swap no pre-warm [@gas-test]", async() => {
         await test.testMint(-100, 100, 10000)
-        await expectGas(test.testSwapOther(true, true, 1000, toSqrtPrice(1.1)), 167000)
+        await expectGas(test, test.testSwapOther(true, true, 1000, toSqrtPrice(1.1)))
         expect(await test.liquidity()).to.be.gt(10000*1024)
     })
 
     it("swap small [@gas-test]", async() => {
         await test.testMint(-100, 100, 10000)
         await test.testSwapOther(true, true, 1000, toSqrtPrice(1.1))
-        await expectGas(test.testSwapOther(true, true, 1000, toSqrtPrice(1.1)), 149000)
+        await expectGas(test, test.testSwapOther(true, true, 1000, toSqrtPrice(1.1)))
         expect(await test.liquidity()).to.be.gt(10000*1024)
     })
 
     it("swap tick w/o cross [@gas-test]", async() => {
         await test.testMint(-100, 100, 10000)
         await test.testSwapOther(true, true, 1000, toSqrtPrice(1.0005))
-        await expectGas(test.testSwapOther(true, true, 10000000, toSqrtPrice(1.005)), 149000)
+        await expectGas(test, test.testSwapOther(true, true, 10000000, toSqrtPrice(1.005)))
         expect(await test.liquidity()).to.be.gt(10000*1024)
     })
 
     it("swap bitmap w/o cross [@gas-test]", async() => {
         await test.testMint(-500, 500, 10000)
         await test.testSwapOther(true, true, 1000, toSqrtPrice(1.1))
-        await expectGas(test.testSwapOther(true, true, 10000000, toSqrtPrice(1.04)), 170000)
+        await expectGas(test, test.testSwapOther(true, true, 10000000, toSqrtPrice(1.04)))
         expect(await test.liquidity()).to.be.gt(10000*1024)
     })
 
@@ -168,7 +154,7 @@ describe('Gas Benchmarks Coldpath', () => {
         await test.testMint(-100, 100, 10000)
         await test.testMint(-500, 500, 10000)
         await test.testSwapOther(true, true, 1000, toSqrtPrice(1.1))
-        await expectGas(test.testSwapOther(true, true, 1000000, toSqrtPrice(1.04)), 197000)
+        await expectGas(test, test.testSwapOther(true, true, 1000000, toSqrtPrice(1.04)))
         expect(await test.liquidity()).to.be.lt(10100*1024)
         expect(await test.liquidity()).to.be.gt(10000*1024)
     })
@@ -179,7 +165,7 @@ describe('Gas Benchmarks Coldpath', () => {
         await test.testMint(-500, 500, 10000)
         await test.testSwapOther(true, true, 1000, toSqrtPrice(1.1))
 
-        await expectGas(test.testSwapOther(true, true, 2000000, toSqrtPrice(1.021)), 203000)
+        await expectGas(test, test.testSwapOther(true, true, 2000000, toSqrtPrice(1.021)))
         expect(await test.liquidity()).to.be.lt(10100*1024)
         expect(await test.liquidity()).to.be.gt(10000*1024)
     })
@@ -190,7 +176,7 @@ describe('Gas Benchmarks Coldpath', () => {
         await test.testMint(-500, 500, 10000)
         await test.testSwapOther(true, true, 1000, toSqrtPrice(1.1))
 
-        await expectGas(test.testSwapOther(true, true, 2000000, toSqrtPrice(1.04)), 224000)
+        await expectGas(test, test.testSwapOther(true, true, 2000000, toSqrtPrice(1.04)))
         expect(await test.liquidity()).to.be.lt(10100*1024)
         expect(await test.liquidity()).to.be.gt(10000*1024)
     })
@@ -201,7 +187,7 @@ describe('Gas Benchmarks Coldpath', () => {
         await test.testMint(-500, 500, 10000)
         await test.testSwapOther(true, true, 1000, toSqrtPrice(1.1))
 
-        await expectGas(test.testSwapOther(true, true, 2000000, toSqrtPrice(1.04)), 224000)
+        await expectGas(test, test.testSwapOther(true, true, 2000000, toSqrtPrice(1.04)))
         expect(await test.liquidity()).to.be.lt(10100*1024)
         expect(await test.liquidity()).to.be.gt(10000*1024)
     })
@@ -217,7 +203,7 @@ describe('Gas Benchmarks Coldpath', () => {
         await test.testMint(-500, 500, 1000)
         await test.testSwapOther(true, true, 1000, toSqrtPrice(1.1))
 
-        await expectGas(test.testSwapOther(true, true, 2000000, toSqrtPrice(1.04)), 358000)
+        await expectGas(test, test.testSwapOther(true, true, 2000000, toSqrtPrice(1.04)))
         expect(await test.liquidity()).to.be.lt(1010*1024)
         expect(await test.liquidity()).to.be.gt(1000*1024)
     })
@@ -226,7 +212,7 @@ describe('Gas Benchmarks Coldpath', () => {
         await test.testMint(-10000, 100000, 10000)
         await test.testSwapOther(true, true, 100000000, toSqrtPrice(5.0))
 
-        await expectGas(test.testSwapOther(true, true, 2000000, toSqrtPrice(1050.0)), 180000)
+        await expectGas(test, test.testSwapOther(true, true, 2000000, toSqrtPrice(1050.0)))
         expect(fromSqrtPrice(await test.price())).gt(2.4)
     })
 
@@ -236,7 +222,7 @@ describe('Gas Benchmarks Coldpath', () => {
 
         await test.testMint(-1000, 1000, 10000)
         await test.testSwapOther(true, true, 1000, toSqrtPrice(1.1))
-        await expectGas(test.testSwapSurplus(true, true, 1000, toSqrtPrice(1.1)), 149000)
+        await expectGas(test, test.testSwapSurplus(true, true, 1000, toSqrtPrice(1.1)))
         expect(await test.liquidity()).to.be.gt(10000*1024)
     })
 
@@ -248,7 +234,7 @@ describe('Gas Benchmarks Coldpath', () => {
 
         await test.testMintOther(-1000, 1000, 10000)
         await test.testSwapOther(true, true, 1000, toSqrtPrice(1.1))
-        await expectGas(test.testMint(-1000, 1000, 5000, SURPLUS_FLAG), 188000)
+        await expectGas(test, test.testMint(-1000, 1000, 5000, SURPLUS_FLAG))
     })
 
     it("burn surplus [@gas-test]", async() => {
@@ -258,7 +244,7 @@ describe('Gas Benchmarks Coldpath', () => {
         await test.testMintOther(-1000, 1000, 10000)
         await test.testMint(-1000, 1000, 10000)
         await test.testSwapOther(true, true, 1000, toSqrtPrice(1.1))
-        await expectGas(test.testBurn(-1000, 1000, 5000, SURPLUS_FLAG), 203000)
+        await expectGas(test, test.testBurn(-1000, 1000, 5000, SURPLUS_FLAG))
     })
 
 })
@@ -10,9 +10,6 @@ import { ContractTransaction, BigNumber } from 'ethers';
 
 chai.use(solidity);
 
-// If set to true, every test will fail and therefore print the actual gas spend. 
-const METRIC_PROFILE = false
-
 describe('Gas Benchmarks Compound', () => {
     let test: TestPool
     let initTx: Promise<ContractTransaction>
@@ -28,18 +25,6 @@ describe('Gas Benchmarks Compound', () => {
        test.useHotPath = false
     })
 
-    async function gasUsed (tx: Promise<ContractTransaction>): Promise<BigNumber> {
-        return tx
-            .then(t => t.wait())
-            .then(t => t.gasUsed)
-    }
-
-    async function expectGas (tx: Promise<ContractTransaction>, limit: number) {
-        let gas = await gasUsed(tx)
-        let comp = METRIC_PROFILE ? 0 : limit
-        expect(gas).to.be.lt(comp)
-    }
-
     
 
 })
@@ -1,4 +1,5 @@
 import { TestPool, makeTokenPool, Token } from './FacadePool'
+import { expectGas } from './GasSnapshot'
 import { expect } from "chai";
 import "@nomiclabs/hardhat-ethers";
 import { ethers } from 'hardhat';
@@ -10,9 +11,6 @@ import { ContractTransaction, BigNumber } from 'ethers';
 
 chai.use(solidity);
 
-// If set to true, every test will fail and therefore print the actual gas spend. 
-const METRIC_PROFILE = false
-
 describe('Gas Benchmarks Knockout', () => {
     let test: TestPool
     let initTx: Promise<ContractTransaction>
@@ -30,36 +28,24 @@ describe('Gas Benchmarks Knockout', () => {
        await test.testRevisePool(feeRate, 0, 1, 0, knockoutFlag)
     })
 
-    async function gasUsed (tx: Promise<ContractTransaction>): Promise<BigNumber> {
-        return tx
-            .then(t => t.wait())
-            .then(t => t.gasUsed)
-    }
-
-    async function expectGas (tx: Promise<ContractTransaction>, limit: number) {
-        let gas = await gasUsed(tx)
-        let comp = METRIC_PROFILE ? 0 : limit
-        expect(gas).to.be.lt(comp)
-    }
-
     it("mint knockout", async() => {
         await test.testMint(-10000, 10000, 10000)
         await test.testMint(-100, 100, 10000)
-        await expectGas(test.testKnockoutMint(5000*1024, false, 32, 64, true), 228000)
+        await expectGas(test, test.testKnockoutMint(5000*1024, false, 32, 64, true))
     })
 
     it("mint knockout pre-init pivot", async() => {
         await test.testMint(-10000, 10000, 10000)
         await test.testMint(-100, 100, 10000)
         await test.testKnockoutMint(5000*1024, false, 32, 64, true)
-        await expectGas(test.testKnockoutMint(5000*1024, false, 32, 64, true), 106000)
+        await expectGas(test, test.testKnockoutMint(5000*1024, false, 32, 64, true))
     })
 
     it("swap cross full knockout [@gas-test]", async() => {
         await test.testMint(-10000, 10000, 10000)
         await test.testKnockoutMint(5000*1024, false, 32, 64, true)
         await test.testSwapOther(true, true, 1000, toSqrtPrice(1.1)) // Warm up swap accum
-        await expectGas(test.testSwapOther(true, true, 100000000, toSqrtPrice(1.008)), 164000)
+        await expectGas(test, test.testSwapOther(true, true, 100000000, toSqrtPrice(1.008)))
     })
 
     it("swap cross end of knockout [@gas-test]", async() => {
@@ -67,7 +53,7 @@ describe('Gas Benchmarks Knockout', () => {
         await test.testKnockoutMint(5000*1024, false, 32, 64, true)
         await test.testSwapOther(true, true, 1000, toSqrtPrice(1.1)) // Warm up swap accum
         await test.testSwapOther(true, true, 1000000, toSqrtPrice(1.004)) // Move into range of knockout range
-        await expectGas(test.testSwapOther(true, true, 100000000, toSqrtPrice(1.008)), 150000)
+        await expectGas(test, test.testSwapOther(true, true, 100000000, toSqrtPrice(1.008)))
     })
 
 })
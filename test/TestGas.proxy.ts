@@ -1,4 +1,5 @@
 import { TestPool, makeTokenPool, Token } from './FacadePool'
+import { expectGas } from './GasSnapshot'
 import { expect } from "chai";
 import "@nomiclabs/hardhat-ethers";
 import { ethers } from 'hardhat';
@@ -11,9 +12,6 @@ import { HotProxy } from '../typechain/HotProxy';
 
 chai.use(solidity);
 
-// If set to true, every test will fail and therefore print the actual gas spend. 
-const METRIC_PROFILE = false
-
 describe('Gas Benchmarks Proxy Sidecars', () => {
     let test: TestPool
     let initTx: Promise<ContractTransaction>
@@ -34,22 +32,10 @@ describe('Gas Benchmarks Proxy Sidecars', () => {
        await test.testUpgradeHotProxy(hotProxy.address, false)
     })
 
-    async function gasUsed (tx: Promise<ContractTransaction>): Promise<BigNumber> {
-        return tx
-            .then(t => t.wait())
-            .then(t => t.gasUsed)
-    }
-
-    async function expectGas (tx: Promise<ContractTransaction>, limit: number) {
-        let gas = await gasUsed(tx)
-        let comp = METRIC_PROFILE ? 0 : limit
-        expect(gas).to.be.lt(comp)
-    }
-
     it("swap proxy unused [@gas-test]", async() => {
         await test.testMint(-100, 100, 10000)
         await test.testSwapOther(true, true, 1000, toSqrtPrice(1.1))
-        await expectGas(test.testSwapOther(true, true, 1000, toSqrtPrice(1.1)), 110000)
+        await expectGas(test, test.testSwapOther(true, true, 1000, toSqrtPrice(1.1)))
     })
 
     it("swap proxy optimal - forced [@gas-test]", async() => {
@@ -58,6 +44,6 @@ describe('Gas Benchmarks Proxy Sidecars', () => {
         test.useSwapProxy.optimal = true
         await test.testMint(-100, 100, 10000)
         await test.testSwapOther(true, true, 1000, toSqrtPrice(1.1))
-        await expectGas(test.testSwapOther(true, true, 1000, toSqrtPrice(1.1)), 116000)
+        await expectGas(test, test.testSwapOther(true, true, 1000, toSqrtPrice(1.1)))
     })
 })
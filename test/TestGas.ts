@@ -1,4 +1,5 @@
 import { TestPool, makeTokenPool, Token } from './FacadePool'
+import { expectGas } from './GasSnapshot'
 import { expect } from "chai";
 import "@nomiclabs/hardhat-ethers";
 import { ethers } from 'hardhat';
@@ -10,9 +11,6 @@ import { ContractTransaction, BigNumber } from 'ethers';
 
 chai.use(solidity);
 
-// If set to true, every test will fail and therefore print the actual gas spend. 
-const METRIC_PROFILE = false
-
 describe('Gas Benchmarks', () => {
     let test: TestPool
     let initTx: Promise<ContractTransaction>
@@ -28,109 +26,97 @@ describe('Gas Benchmarks', () => {
        test.useHotPath = true
     })
 
-    async function gasUsed (tx: Promise<ContractTransaction>): Promise<BigNumber> {
-        return tx
-            .then(t => t.wait())
-            .then(t => t.gasUsed)
-    }
-
-    async function expectGas (tx: Promise<ContractTransaction>, limit: number) {
-        let gas = await gasUsed(tx)
-        let comp = METRIC_PROFILE ? 0 : limit
-        expect(gas).to.be.lt(comp)
-    }
-
     it("mint in virgin pool [@gas-test]", async() => {
-        await expectGas(test.testMint(-100, 100, 100), 324000)
+        await expectGas(test, test.testMint(-100, 100, 100))
     })
 
     it("mint increase liq [@gas-test]", async() => {
         await test.testMint(-100, 100, 100)
-        await expectGas(test.testMint(-100, 100, 10000), 131000)
+        await expectGas(test, test.testMint(-100, 100, 10000))
     })
 
     it("mint pre-init ticks [@gas-test]", async() => {
         await test.testMint(-100, 100, 100)
-        await expectGas(test.testMintOther(-100, 100, 10000), 165000)
+        await expectGas(test, test.testMintOther(-100, 100, 10000))
     })
 
     it("mint one fresh init [@gas-test]", async() => {
         await test.testMint(-100, 100, 100)
-        await expectGas(test.testMintOther(-100, 200, 10000), 190000)
+        await expectGas(test, test.testMintOther(-100, 200, 10000))
     })
 
     it("mint fresh ticks [@gas-test]", async() => {
         await test.testMint(-100, 100, 100)
-        await expectGas(test.testMintOther(-200, 200, 10000), 215000)
+        await expectGas(test, test.testMintOther(-200, 200, 10000))
     })
 
     it("mint below price [@gas-test]", async() => {
         await test.testMint(-100, 100, 100)
-        await expectGas(test.testMintOther(-300, -200, 10000), 208000)
+        await expectGas(test, test.testMintOther(-300, -200, 10000))
     })
 
     it("mint above price [@gas-test]", async() => {
         await test.testMint(-100, 100, 100)
-        await expectGas(test.testMintOther(200, 300, 100), 209000)
+        await expectGas(test, test.testMintOther(200, 300, 100))
     })
 
     it("burn partial [@gas-test]", async() => {
         await test.testMint(-100, 100, 100)
-        await expectGas(test.testBurn(-100, 100, 50), 156000)
+        await expectGas(test, test.testBurn(-100, 100, 50))
     })
 
     it("burn partial level left [@gas-test]", async() => {
         await test.testMint(-100, 100, 100)
         await test.testMintOther(-100, 100, 100)
-        await expectGas(test.testBurn(-100, 100, 50), 156000)
+        await expectGas(test, test.testBurn(-100, 100, 50))
     })
 
     it("burn full [@gas-test]", async() => {
         await test.testMint(-100, 100, 100)
-        await expectGas(test.testBurn(-100, 100, 100), 145000)
+        await expectGas(test, test.testBurn(-100, 100, 100))
     })
 
     it("burn full level left [@gas-test]", async() => {
         await test.testMint(-100, 100, 100)
         await test.testMintOther(-100, 100, 100)
-        await expectGas(test.testBurn(-100, 100, 100), 151000)
+        await expectGas(test, test.testBurn(-100, 100, 100))
     })
 
     it("burn outside [@gas-test]", async() => {
         await test.testMint(-200, -100, 100)
-        await expectGas(test.testBurn(-200, -100, 100), 125000)
+        await expectGas(test, test.testBurn(-200, -100, 100))
     })
 
     it("burn outside left [@gas-test]", async() => {
         await test.testMint(-200, -100, 100)
         await test.testMintOther(-200, -100, 100)
-        await expectGas(test.testBurn(-200, -100, 100), 132000)
+        await expectGas(test, test.testBurn(-200, -100, 100))
     })
 
     it("burn liq rewards [@gas-test]", async() => {
         await test.testMint(-100, 100, 100000)
         await test.testSwapOther(true, true, 1000, toSqrtPrice(1.1))
-        await expectGas(test.testBurn(-100, 100, 100), 156000)
+        await expectGas(test, test.testBurn(-100, 100, 100))
     })
 
     it("burn liq level left [@gas-test]", async() => {
         await test.testMint(-100, 100, 100)
         await test.testMintOther(-100, 100, 100)
         await test.testSwapOther(true, true, 1000, toSqrtPrice(1.1))
-        await expectGas(test.testBurn(-100, 100, 100), 175000)
+        await expectGas(test, test.testBurn(-100, 100, 100))
     })
 
     it("burn flipped [@gas-test]", async() => {
         await test.testMint(-100, 100, 100)
         await test.testSwapOther(true, true, 1000000, toSqrtPrice(1.1))
-        await expectGas(test.testBurn(-100, 100, 100), 166000)
+        await expectGas(test, test.testBurn(-100, 100, 100))
     })
 
     it("burn flipped level left [@gas-test]", async() => {
         await test.testMint(-100, 100, 100)
         await test.testMintOther(-100, 100, 1000)
         await test.testSwapOther(true, true, 1000000, toSqrtPrice(1.1))
-        await expectGas(test.testBurn(-100, 100, 100), 172000)
+        await expectGas(test, test.testBurn(-100, 100, 100))
     })
 
     it("harvest fees [@gas-test]", async() => {
@@ -138,33 +124,33 @@ describe('Gas Benchmarks', () => {
         await test.testMintOther(-100, 100, 1000)
         await test.testSwapOther(true, true, 1000000, toSqrtPrice(1.1))
         await test.testSwapOther(false, true, 1000000, toSqrtPrice(1.0))
-        await expectGas(test.testHarvest(-100, 100), 122000)
+        await expectGas(test, test.testHarvest(-100, 100))
     })
 
     it("swap no pre-warm [@gas-test]", async() => {
         await test.testMint(-100, 100, 10000)
-        await expectGas(test.testSwapOther(true, true, 1000, toSqrtPrice(1.1)), 128000)
+        await expectGas(test, test.testSwapOther(true, true, 1000, toSqrtPrice(1.1)))
         expect(await test.liquidity()).to.be.gt(10000*1024)
     })
 
     it("swap small [@gas-test]", async() => {
         await test.testMint(-100, 100, 10000)
         await test.testSwapOther(true, true, 1000, toSqrtPrice(1.1))
-        await expectGas(test.testSwapOther(true, true, 1000, toSqrtPrice(1.1)), 110000)
+        await expectGas(test, test.testSwapOther(true, true, 1000, toSqrtPrice(1.1)))
         expect(await test.liquidity()).to.be.gt(10000*1024)
     })
 
     it("swap tick w/o cross [@gas-test]", async() => {
         await test.testMint(-100, 100, 10000)
         await test.testSwapOther(true, true, 1000, toSqrtPrice(1.0005))
-        await expectGas(test.testSwapOther(true, true, 10000000, toSqrtPrice(1.005)), 112000)
+        await expectGas(test, test.testSwapOther(true, true, 10000000, toSqrtPrice(1.005)))
         expect(await test.liquidity()).to.be.gt(10000*1024)
     })
 
     it("swap bitmap w/o cross [@gas-test]", async() => {
         await test.testMint(-500, 500, 10000)
         await test.testSwapOther(true, true, 1000, toSqrtPrice(1.1))
-        await expectGas(test.testSwapOther(true, true, 10000000, toSqrtPrice(1.04)), 132000)
+        await expectGas(test, test.testSwapOther(true, true, 10000000, toSqrtPrice(1.04)))
         expect(await test.liquidity()).to.be.gt(10000*1024)
     })
 
@@ -172,7 +158,7 @@ describe('Gas Benchmarks', () => {
         await test.testMint(-100, 100, 10000)
         await test.testMint(-500, 500, 10000)
         await test.testSwapOther(true, true, 1000, toSqrtPrice(1.1))
-        await expectGas(test.testSwapOther(true, true, 1000000, toSqrtPrice(1.04)), 159000)
+        await expectGas(test, test.testSwapOther(true, true, 1000000, toSqrtPrice(1.04)))
         expect(await test.liquidity()).to.be.lt(10100*1024)
         expect(await test.liquidity()).to.be.gt(10000*1024)
     })
@@ -183,7 +169,7 @@ describe('Gas Benchmarks', () => {
         await test.testMint(-500, 500, 10000)
         await test.testSwapOther(true, true, 1000, toSqrtPrice(1.1))
 
-        await expectGas(test.testSwapOther(true, true, 2000000, toSqrtPrice(1.021)), 165000)
+        await expectGas(test, test.testSwapOther(true, true, 2000000, toSqrtPrice(1.021)))
         expect(await test.liquidity()).to.be.lt(10100*1024)
         expect(await test.liquidity()).to.be.gt(10000*1024)
     })
@@ -194,7 +180,7 @@ describe('Gas Benchmarks', () => {
         await test.testMint(-500, 500, 10000)
         await test.testSwapOther(true, true, 1000, toSqrtPrice(1.1))
 
-        await expectGas(test.testSwapOther(true, true, 2000000, toSqrtPrice(1.04)), 185000)
+        await expectGas(test, test.testSwapOther(true, true, 2000000, toSqrtPrice(1.04)))
         expect(await test.liquidity()).to.be.lt(10100*1024)
         expect(await test.liquidity()).to.be.gt(10000*1024)
     })
@@ -205,7 +191,7 @@ describe('Gas Benchmarks', () => {
         await test.testMint(-500, 500, 10000)
         await test.testSwapOther(true, true, 1000, toSqrtPrice(1.1))
 
-        await expectGas(test.testSwapOther(true, true, 2000000, toSqrtPrice(1.04)), 185000)
+        await expectGas(test, test.testSwapOther(true, true, 2000000, toSqrtPrice(1.04)))
         expect(await test.liquidity()).to.be.lt(10100*1024)
         expect(await test.liquidity()).to.be.gt(10000*1024)
     })
@@ -221,7 +207,7 @@ describe('Gas Benchmarks', () => {
         await test.testMint(-500, 500, 1000)
         await test.testSwapOther(true, true, 1000, toSqrtPrice(1.1))
 
-        await expectGas(test.testSwapOther(true, true, 2000000, toSqrtPrice(1.04)), 320000)
+        await expectGas(test, test.testSwapOther(true, true, 2000000, toSqrtPrice(1.04)))
         expect(await test.liquidity()).to.be.lt(1010*1024)
         expect(await test.liquidity()).to.be.gt(1000*1024)
     })
@@ -230,7 +216,7 @@ describe('Gas Benchmarks', () => {
         await test.testMint(-10000, 100000, 10000)
         await test.testSwapOther(true, true, 100000000, toSqrtPrice(5.0))
 
-        await expectGas(test.testSwapOther(true, true, 2000000, toSqrtPrice(1050.0)), 142000)
+        await expectGas(test, test.testSwapOther(true, true, 2000000, toSqrtPrice(1050.0)))
         expect(fromSqrtPrice(await test.price())).gt(2.4)
     })
 
@@ -242,7 +228,7 @@ describe('Gas Benchmarks', () => {
 
         await test.testMint(-1000, 1000, 10000)
         await test.testSwapOther(true, true, 1000, toSqrtPrice(1.1))
-        await expectGas(test.testSwapSurplus(true, true, 1000, toSqrtPrice(1.1)), 84000)
+        await expectGas(test, test.testSwapSurplus(true, true, 1000, toSqrtPrice(1.1)))
         expect(await test.liquidity()).to.be.gt(10000*1024)
     })
 
@@ -252,7 +238,7 @@ describe('Gas Benchmarks', () => {
 
         await test.testMintOther(-1000, 1000, 10000)
         await test.testSwapOther(true, true, 1000, toSqrtPrice(1.1))
-        await expectGas(test.testMint(-1000, 1000, 5000, SURPLUS_FLAGS), 150000)
+        await expectGas(test, test.testMint(-1000, 1000, 5000, SURPLUS_FLAGS))
     })
 
     it("burn surplus [@gas-test]", async() => {
@@ -262,7 +248,7 @@ describe('Gas Benchmarks', () => {
         await test.testMintOther(-1000, 1000, 10000)
         await test.testMint(-1000, 1000, 10000)
         await test.testSwapOther(true, true, 1000, toSqrtPrice(1.1))
-        await expectGas(test.testBurn(-1000, 1000, 5000, SURPLUS_FLAGS), 159000)
+        await expectGas(test, test.testBurn(-1000, 1000, 5000, SURPLUS_FLAGS))
     })
 
 })
@@ -0,0 +1,85 @@
+import { expect } from "chai";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { ethers } from 'ethers';
+import { callpathDeltas, checkGas, GasBaseline, readGasBaseline, txCallpath, updateGasBaseline,
+    writeGasBaseline } from '../misc/libs/gasBaseline';
+import { LP_PROXY_IDX } from '../misc/sdk/commands';
+
+describe('Gas Baseline', () => {
+    const baseline: GasBaseline = { tolerancePct: 1, scenarios: {
+        "mint": { gas: 100000, callpath: "userCmd WarmPath" },
+        "swap": { gas: 50000, callpath: "swap" },
+        "noisy": { gas: 10000, tolerancePct: 5 },
+    } }
+
+    it("within tolerance", async() => {
+        const check = checkGas(baseline, { scenario: "mint", gas: 100900, callpath: "userCmd WarmPath" })
+        expect(check.ok).to.be.true
+        expect(check.detail).to.eq("100900 gas vs baseline 100000 (+900, +0.90%)")
+    })
+
+    it("regression", async() => {
+        const check = checkGas(baseline, { scenario: "mint", gas: 101500, callpath: "userCmd WarmPath" })
+        expect(check.ok).to.be.false
+        expect(check.detail).to.contain("exceeds the 1% tolerance")
+
+        expect(checkGas(baseline, { scenario: "mint", gas: 101500, callpath: "" }, 2).ok).to.be.true
+        expect(checkGas(baseline, { scenario: "noisy", gas: 10400, callpath: "" }).ok).to.be.true
+        expect(checkGas(baseline, { scenario: "noisy", gas: 10600, callpath: "" }).ok).to.be.false
+    })
+
+    it("improvement and missing", async() => {
+        const lower = checkGas(baseline, { scenario: "swap", gas: 45000, callpath: "swap" })
+        expect(lower.ok).to.be.true
+        expect(lower.detail).to.contain("-5000, -10.00%), baseline can be lowered")
+
+        const missing = checkGas(baseline, { scenario: "burn", gas: 1, callpath: "swap" })
+        expect(missing.ok).to.be.false
+        expect(missing.detail).to.contain("isn't in the baseline")
+    })
+
+    it("callpath deltas", async() => {
+        const checks = [
+            checkGas(baseline, { scenario: "mint", gas: 100500, callpath: "userCmd WarmPath" }),
+            checkGas(baseline, { scenario: "noisy", gas: 10100, callpath: "userCmd WarmPath" }),
+            checkGas(baseline, { scenario: "swap", gas: 49000, callpath: "swap" }),
+            checkGas(baseline, { scenario: "burn", gas: 1, callpath: "swap" }),
+        ]
+        const deltas = callpathDeltas(checks)
+        expect(deltas.map(d => [d.callpath, d.scenarios, d.baseline, d.measured])).to.deep.eq([
+            ["swap", 1, 50000, 49000], ["userCmd WarmPath", 2, 110000, 110600]])
+        expect(deltas[0].worst).to.be.undefined
+        expect(deltas[1].worst?.check).to.eq("mint")
+    })
+
+    it("tx callpaths", async() => {
+        const dex = new ethers.utils.Interface(["function userCmd(uint16 callpath, bytes cmd)",
+            "function protocolCmd(uint16 callpath, bytes cmd, bool sudo)"])
+        expect(txCallpath({ data: dex.encodeFunctionData("userCmd", [LP_PROXY_IDX, "0x"]) }))
+            .to.eq("userCmd WarmPath")
+        expect(txCallpath({ data: dex.encodeFunctionData("protocolCmd", [LP_PROXY_IDX, "0x", true]) }))
+            .to.eq("protocolCmd WarmPath")
+        expect(txCallpath({ data: "0x12345678" })).to.eq("other")
+    })
+
+    it("update and round trip", async() => {
+        const updated = updateGasBaseline(baseline, [{ scenario: "swap", gas: 48000, callpath: "swap" },
+            { scenario: "burn", gas: 70000, callpath: "userCmd WarmPath" }])
+        expect(updated.scenarios.swap.gas).to.eq(48000)
+        expect(updated.scenarios.burn).to.deep.eq({ gas: 70000, callpath: "userCmd WarmPath" })
+        expect(updated.scenarios.mint).to.deep.eq(baseline.scenarios.mint)
+        expect(updated.scenarios.noisy.tolerancePct).to.eq(5)
+        expect(baseline.scenarios.swap.gas).to.eq(50000)
+
+        const file = path.join(fs.mkdtempSync(path.join(os.tmpdir(), "gas-")), "baseline.json")
+        writeGasBaseline(file, updated)
+        expect(readGasBaseline(file)).to.deep.eq(updated)
+        expect(Object.keys(readGasBaseline(file).scenarios)).to.deep.eq(["burn", "mint", "noisy", "swap"])
+
+        expect(readGasBaseline(file + ".missing").scenarios).to.deep.eq({})
+        fs.writeFileSync(file, JSON.stringify({ tolerancePct: 1, scenarios: { mint: {} } }))
+        expect(() => readGasBaseline(file)).to.throw("no gas for mint")
+    })
+})
@@ -0,0 +1,167 @@
+import { TestPool, makeTokenPool, Token, POOL_IDX } from './FacadePool'
+import { expect } from "chai";
+import "@nomiclabs/hardhat-ethers";
+import { ethers, artifacts, network } from 'hardhat';
+import { solidity } from "ethereum-waffle";
+import chai from "chai";
+import { CrocQuery } from '../typechain';
+import { MAX_PRICE, MIN_PRICE } from './FixedPoint';
+import { CROC_EVENTS_IFACE } from '../misc/sdk/events';
+import { sidePocketCmd } from '../misc/sdk/commands';
+import { CrocIndexer, MemoryCheckpointStore, ambientKeyOf, knockoutKeyOf, poolKeyOf,
+    queryCurveReader, rangeKeyOf, surplusKeyOf } from '../misc/sdk/indexer';
+
+chai.use(solidity);
+
+describe('Event Indexer', () => {
+    let test: TestPool
+    let baseToken: Token
+    let quoteToken: Token
+    let query: CrocQuery
+    let trader: string
+    let poolKey: string
+    let startBlock: number
+    const feeRate = 225 * 100
+
+    beforeEach("deploy",  async () => {
+       startBlock = await ethers.provider.getBlockNumber()
+       test = await makeTokenPool()
+       baseToken = await test.base
+       quoteToken = await test.quote
+
+       await test.initPool(feeRate, 0, 1, 1.5)
+       test.useHotPath = true
+
+       query = await test.query
+       trader = await (await test.trader).getAddress()
+       poolKey = poolKeyOf(baseToken.address, quoteToken.address, POOL_IDX)
+
+       const knockoutFlag = 64 + 32 + 5 // Enabled, on grid, 32-ticks wide
+       await test.testRevisePool(feeRate, 0, 1, 0, knockoutFlag)
+    })
+
+    async function makeIndexer (store?: MemoryCheckpointStore): Promise<CrocIndexer> {
+        return new CrocIndexer(ethers.provider, { dex: (await test.dex).address, startBlock,
+            batchSize: 3, confirmations: 4, store, curveReader: queryCurveReader(query) })
+    }
+
+    it("event abi", async() => {
+        let artifact = await artifacts.readArtifact("CrocEvents")
+        let compiled = new ethers.utils.Interface(artifact.abi)
+        for (let name of Object.keys(compiled.events)) {
+            expect(CROC_EVENTS_IFACE.getEventTopic(name)).to.eq(compiled.getEventTopic(name))
+        }
+        expect(Object.keys(CROC_EVENTS_IFACE.events).length).to.eq(Object.keys(compiled.events).length)
+    })
+
+    it("pools and positions", async() => {
+        await test.testMintAmbient(10000)
+        await test.testMint(3000, 5000, 10000)
+        await test.testBurn(3000, 5000, 4000)
+        await test.testSwap(true, true, 10000, MAX_PRICE)
+        await test.testSwap(false, false, 5000, MIN_PRICE)
+        await test.testKnockoutMint(1000, true, 3200, 3200+32, false)
+
+        let indexer = await makeIndexer()
+        expect(await indexer.sync()).to.eq(await ethers.provider.getBlockNumber())
+
+        let pool = indexer.state.pools[poolKey]
+        expect(pool.feeRate).to.eq(feeRate)
+        expect(pool.tickSize).to.eq(1)
+        expect(pool.knockoutBits).to.eq(64 + 32 + 5)
+        expect(pool.swapCount).to.eq(2)
+
+        let range = indexer.state.ranges[rangeKeyOf(trader, poolKey, 3000, 5000)]
+        let onChain = await query.queryRangePosition(trader, baseToken.address, quoteToken.address,
+            POOL_IDX, 3000, 5000)
+        expect(range.liq).to.eq(onChain.liq)
+        expect(range.liq).to.eq(6000*1024)
+
+        expect(indexer.state.ambients[ambientKeyOf(trader, poolKey)].liq).to.eq(10000*1024)
+        expect(indexer.state.knockouts[knockoutKeyOf(trader, poolKey, true, 3200, 3232)].liq)
+            .to.eq(516*1024)
+
+        let curve = indexer.curve(baseToken.address, quoteToken.address, POOL_IDX)
+        expect(curve?.block).to.eq(indexer.block)
+        expect(curve?.curve.priceRoot).to.eq(await test.price())
+    })
+
+    it("surplus", async() => {
+        await test.testCollectSurplus(await test.trader, trader, -100000, baseToken.address, false)
+        await test.testCollectSurplus(await test.trader, trader, 40000, baseToken.address, false)
+
+        let indexer = await makeIndexer()
+        await indexer.sync()
+        expect(indexer.state.surplus[surplusKeyOf(trader, baseToken.address)])
+            .to.eq(await query.querySurplus(trader, baseToken.address))
+        expect(indexer.state.surplus[surplusKeyOf(trader, baseToken.address)]).to.eq(60000)
+    })
+
+    it("surplus side pocket", async() => {
+        await test.testCollectSurplus(await test.trader, trader, -100000, baseToken.address, false)
+        const dex = (await test.dex).connect(await test.trader)
+        let cmd = sidePocketCmd(0, 5, 30000, baseToken.address)
+        await dex.userCmd(cmd.callpath, cmd.cmd)
+        cmd = sidePocketCmd(5, 0, 10000, baseToken.address)
+        await dex.userCmd(cmd.callpath, cmd.cmd)
+
+        let indexer = await makeIndexer()
+        await indexer.sync()
+        expect(indexer.state.surplus[surplusKeyOf(trader, baseToken.address)])
+            .to.eq(await query.querySurplus(trader, baseToken.address))
+        expect(indexer.state.surplus[surplusKeyOf(trader, baseToken.address)]).to.eq(80000)
+    })
+
+    it("checkpoint resume", async() => {
+        let store = new MemoryCheckpointStore()
+        let indexer = await makeIndexer(store)
+        await test.testMintAmbient(10000)
+        await indexer.sync()
+
+        await test.testMintAmbient(5000)
+        let resumed = await makeIndexer(store)
+        await resumed.sync()
+        expect(resumed.block).to.eq(await ethers.provider.getBlockNumber())
+        expect(resumed.state.ambients[ambientKeyOf(trader, poolKey)].liq).to.eq(15000*1024)
+        expect(resumed.state.pools[poolKey].feeRate).to.eq(feeRate)
+    })
+
+    it("zero confirmations", async() => {
+        // Everything up to the head is final straight away
+        let store = new MemoryCheckpointStore()
+        let indexer = new CrocIndexer(ethers.provider, { dex: (await test.dex).address, startBlock,
+            confirmations: 0, store })
+        await test.testMintAmbient(10000)
+        const head = await indexer.sync()
+        const checkpoint = JSON.parse(await store.load() as string)
+        expect(checkpoint.finalized.block).to.eq(head)
+        expect(checkpoint.journal).to.deep.eq([])
+
+        const dex = (await test.dex).address
+        expect(() => new CrocIndexer(ethers.provider, { dex, batchSize: 0 }))
+            .to.throw("Invalid log batch size 0")
+    })
+
+    it("reorg", async() => {
+        let indexer = await makeIndexer()
+        let snap = await network.provider.send("evm_snapshot", [])
+
+        await test.testMint(3000, 5000, 10000)
+        await indexer.sync()
+        expect(indexer.state.ranges[rangeKeyOf(trader, poolKey, 3000, 5000)].liq).to.eq(10000*1024)
+
+        // Replace the mint with a different one on a longer fork
+        await network.provider.send("evm_revert", [snap])
+        await test.testMint(3000, 5000, 2000)
+        await test.testMintAmbient(1000)
+        await test.testMintAmbient(1000)
+        await indexer.sync()
+
+        expect(indexer.block).to.eq(await ethers.provider.getBlockNumber())
+        expect(indexer.state.ranges[rangeKeyOf(trader, poolKey, 3000, 5000)].liq).to.eq(2000*1024)
+        expect(indexer.state.pools[poolKey].rangeLiq).to.eq(2000*1024)
+        expect(indexer.state.ambients[ambientKeyOf(trader, poolKey)].liq).to.eq(2000*1024)
+        expect(indexer.curve(baseToken.address, quoteToken.address, POOL_IDX)?.curve.priceRoot)
+            .to.eq(await test.price())
+    })
+})
@@ -0,0 +1,132 @@
+import { TestPool, makeTokenPool } from './FacadePool'
+import { expect } from "chai";
+import "@nomiclabs/hardhat-ethers";
+import { ethers } from 'hardhat';
+import { toSqrtPrice } from './FixedPoint';
+import { solidity } from "ethereum-waffle";
+import chai from "chai";
+import { CrocQuery } from '../typechain';
+import { fetchKnockoutCrosses, findKnockoutClaims, KnockoutLocation, KnockoutMerkleState,
+    rebuildKnockoutChain, verifyKnockoutProof } from '../misc/sdk/knockoutProof';
+import { expectRejects } from './Rejects';
+
+chai.use(solidity);
+
+describe('Knockout Merkle Proof', () => {
+    let test: TestPool
+    let query: CrocQuery
+    let loc: KnockoutLocation
+    let owner: string
+    let merkles: KnockoutMerkleState[]
+    let mintedLots: string[]
+    let startBlock: number
+    const feeRate = 225 * 100
+
+    beforeEach("deploy", async () => {
+        test = await makeTokenPool()
+        query = await test.query
+        owner = await (await test.trader).getAddress()
+
+        await test.initPool(feeRate, 0, 1, 1.5)
+        test.useHotPath = true;
+
+        const knockoutFlag = 64 + 32 + 5 // Enabled, on grid, 32-ticks wide
+        await test.testRevisePool(feeRate, 0, 1, 0, knockoutFlag)
+        await test.testMintAmbient(10000)
+
+        loc = { base: (await test.base).address, quote: (await test.quote).address,
+            poolIdx: test.poolIdx, isBid: true, lowTick: 3200, highTick: 3200+32 }
+        startBlock = await ethers.provider.getBlockNumber()
+
+        // Three tranches at the same pivot, each minted and then knocked out
+        merkles = []
+        mintedLots = []
+        for (let i = 0; i < 3; ++i) {
+            await test.testKnockoutMint(5000*1024, true, 3200, 3200+32, true)
+            // Minted by token qty, so the lots are whatever the dex credited the tranche
+            const pivot = await query.queryKnockoutPivot(loc.base, loc.quote, loc.poolIdx, true, 3200)
+            const pos = await query.queryKnockoutPos(owner, loc.base, loc.quote, loc.poolIdx,
+                pivot.pivot, true, 3200, 3200+32)
+            mintedLots.push(pos.lots.toString())
+            await test.testSwap(false, true, 100000000, toSqrtPrice(1.35)) // Below knockout
+            await test.testSwap(true, true, 100000000, toSqrtPrice(1.5))
+
+            const merkle = await query.queryKnockoutMerkle(loc.base, loc.quote, loc.poolIdx, true, 3200)
+            merkles.push({ root: merkle.root, pivotTime: merkle.pivot, feeMileage: merkle.fee })
+        }
+    })
+
+    it("rebuild chain", async() => {
+        const crosses = await fetchKnockoutCrosses(ethers.provider, loc,
+            { dex: (await test.dex).address, fromBlock: startBlock })
+        expect(crosses.length).to.eq(3)
+        // An explicit zero isn't replaced by the default
+        await expectRejects(fetchKnockoutCrosses(ethers.provider, loc,
+            { dex: (await test.dex).address, batchSize: 0 }), "Invalid log batch size 0")
+
+        const chain = rebuildKnockoutChain(crosses)
+        chain.forEach((state, i) => {
+            expect(state.root).to.eq(merkles[i].root)
+            expect(state.pivotTime).to.eq(merkles[i].pivotTime)
+            expect(state.feeMileage).to.eq(merkles[i].feeMileage)
+        })
+    })
+
+    it("find claims", async() => {
+        const claims = await findKnockoutClaims(ethers.provider, query, owner, loc,
+            { dex: (await test.dex).address })
+        expect(claims.map(c => c.pivotTime)).to.deep.eq(merkles.map(m => m.pivotTime))
+        expect(claims.map(c => c.proof.length)).to.deep.eq([2, 1, 0])
+        expect(claims[0].root).to.eq(merkles[0].root)
+        expect(claims.map(c => c.lots.toString())).to.deep.eq(mintedLots)
+        mintedLots.forEach(lots => expect(Number(lots)).to.gt(0))
+        claims.forEach(c => expect(verifyKnockoutProof(merkles[2], c)).to.be.true)
+
+        const other = await (await ethers.getSigners())[5].getAddress()
+        expect(await findKnockoutClaims(ethers.provider, query, other, loc,
+            { dex: (await test.dex).address })).to.deep.eq([])
+    })
+
+    it("claim with proof", async() => {
+        let claims = await findKnockoutClaims(ethers.provider, query, owner, loc,
+            { dex: (await test.dex).address })
+
+        await test.testKnockoutClaim(true, 3200, 3200+32, claims[0].root, claims[0].proof)
+        expect(await test.snapBaseFlow()).to.lt(0) // Claim from rewards
+        expect(await test.snapQuoteFlow()).to.lt(0)
+
+        claims = await findKnockoutClaims(ethers.provider, query, owner, loc,
+            { dex: (await test.dex).address })
+        expect(claims.map(c => c.pivotTime)).to.deep.eq([merkles[1].pivotTime, merkles[2].pivotTime])
+
+        // Most recent tranche needs no proof
+        await test.testKnockoutClaim(true, 3200, 3200+32, claims[1].root, claims[1].proof)
+        await test.testKnockoutClaim(true, 3200, 3200+32, claims[0].root, claims[0].proof)
+        expect(await findKnockoutClaims(ethers.provider, query, owner, loc,
+            { dex: (await test.dex).address })).to.deep.eq([])
+    })
+
+    it("bad proof", async() => {
+        const claims = await findKnockoutClaims(ethers.provider, query, owner, loc,
+            { dex: (await test.dex).address })
+        const badProof = claims[0].proof.map((p, i) => i === 0 ? p.add(1) : p)
+        expect(verifyKnockoutProof(merkles[2], { ...claims[0], proof: badProof })).to.be.false
+        await expect(test.testKnockoutClaim(true, 3200, 3200+32, claims[0].root, badProof)).to.be.reverted
+    })
+
+    it("missing logs", async() => {
+        const crosses = await fetchKnockoutCrosses(ethers.provider, loc,
+            { dex: (await test.dex).address, fromBlock: startBlock })
+        await expectRejects(findKnockoutClaims(ethers.provider, query, owner, loc,
+            { dex: (await test.dex).address, fromBlock: crosses[0].blockNumber + 1 }),
+            "doesn't match on-chain root")
+    })
+
+    it("other pivots", async() => {
+        const ask = { ...loc, isBid: false, lowTick: 3200-32, highTick: 3200 }
+        expect(await fetchKnockoutCrosses(ethers.provider, ask,
+            { dex: (await test.dex).address })).to.deep.eq([])
+        expect(await findKnockoutClaims(ethers.provider, query, owner, ask,
+            { dex: (await test.dex).address })).to.deep.eq([])
+    })
+})
@@ -0,0 +1,167 @@
+import { TestPool, makeTokenPool, Token, POOL_IDX } from './FacadePool'
+import { expect } from "chai";
+import "@nomiclabs/hardhat-ethers";
+import { toSqrtPrice } from './FixedPoint';
+import { solidity } from "ethereum-waffle";
+import chai from "chai";
+import { BigNumber } from 'ethers';
+import { CrocQuery } from '../typechain';
+import { CurveState } from '../misc/sdk/curve';
+import { concLiqToTokens, maxAmbientLiq, maxRangeLiq, mintAmbientFlows, mintRangeFlows,
+    burnRangeFlows, previewAmbientMintQty, previewRangeMintQty, seedsToTokens, sizeRangeLiq,
+    TokenAmounts } from '../misc/sdk/liquidity';
+
+chai.use(solidity);
+
+describe('Liquidity Calculator', () => {
+    let test: TestPool
+    let baseToken: Token
+    let quoteToken: Token
+    const feeRate = 225 * 100
+    let trader: string
+    let query: CrocQuery
+
+    beforeEach("deploy",  async () => {
+       test = await makeTokenPool()
+       baseToken = await test.base
+       quoteToken = await test.quote
+
+       await test.initPool(feeRate, 0, 1, 1.5)
+       test.useHotPath = true
+
+       query = await test.query
+       trader = await (await test.trader).getAddress()
+
+       const knockoutFlag = 64 + 32 + 5 // Enabled, on grid, 32-ticks wide
+       await test.testRevisePool(feeRate, 0, 1, 0, knockoutFlag)
+    })
+
+    async function curve(): Promise<CurveState> {
+        let c = await query.queryCurve(baseToken.address, quoteToken.address, POOL_IDX)
+        return { priceRoot: c.priceRoot_, ambientSeeds: c.ambientSeeds_, concLiq: c.concLiq_,
+            seedDeflator: BigNumber.from(c.seedDeflator_), concGrowth: BigNumber.from(c.concGrowth_) }
+    }
+
+    async function expectOwed (flows: TokenAmounts) {
+        expect(await test.snapBaseOwed()).to.eq(flows.baseQty)
+        expect(await test.snapQuoteOwed()).to.eq(flows.quoteQty)
+    }
+
+    async function expectPaid (flows: TokenAmounts) {
+        expect(await test.snapBaseOwed()).to.eq(flows.baseQty.mul(-1))
+        expect(await test.snapQuoteOwed()).to.eq(flows.quoteQty.mul(-1))
+    }
+
+    it("range mint flows", async() => {
+        let flows = mintRangeFlows(await curve(), 3000, 5000, 10000*1024)
+        await test.testMint(3000, 5000, 10000)
+        await expectOwed(flows)
+
+        flows = mintRangeFlows(await curve(), 0, 3000, 10000*1024)
+        await test.testMint(0, 3000, 10000)
+        await expectOwed(flows)
+        expect(flows.quoteQty).to.eq(0)
+
+        flows = mintRangeFlows(await curve(), 5000, 6000, 10000*1024)
+        await test.testMint(5000, 6000, 10000)
+        await expectOwed(flows)
+        expect(flows.baseQty).to.eq(0)
+    })
+
+    it("range burn flows", async() => {
+        await test.testMint(3000, 5000, 10000)
+        let flows = burnRangeFlows(await curve(), 3000, 5000, 4000*1024)
+        await test.testBurn(3000, 5000, 4000)
+        await expectPaid(flows)
+    })
+
+    it("ambient mint flows", async() => {
+        await test.testMintAmbient(10000)
+        await test.testSwap(true, true, 100000, toSqrtPrice(2.0))
+        await test.testSwap(false, true, 100000, toSqrtPrice(1.0))
+
+        let c = await curve()
+        expect(c.seedDeflator).to.gt(0)
+        let flows = mintAmbientFlows(c, 5000*1024)
+        await test.testMintAmbient(5000)
+        await expectOwed(flows)
+    })
+
+    it("position tokens", async() => {
+        await test.testMintAmbient(10000)
+        await test.testMint(3000, 5000, 10000)
+        let c = await curve()
+
+        let range = await query.queryRangeTokens(trader,
+            baseToken.address, quoteToken.address, POOL_IDX, 3000, 5000)
+        let tokens = concLiqToTokens(c.priceRoot, 3000, 5000, range.liq)
+        expect(tokens.baseQty).to.eq(range.baseQty)
+        expect(tokens.quoteQty).to.eq(range.quoteQty)
+
+        let pos = await query.queryAmbientPosition(trader, baseToken.address, quoteToken.address, POOL_IDX)
+        let amb = await query.queryAmbientTokens(trader, baseToken.address, quoteToken.address, POOL_IDX)
+        let seeded = seedsToTokens(c, pos.seeds)
+        expect(seeded.liq).to.eq(amb.liq)
+        expect(seeded.baseQty).to.eq(amb.baseQty)
+        expect(seeded.quoteQty).to.eq(amb.quoteQty)
+    })
+
+    it("range mint by qty", async() => {
+        test.liqQty = true
+
+        test.liqBase = true
+        let preview = previewRangeMintQty(await curve(), 3000, 5000, 1000*1024, true)
+        await test.testMint(3000, 5000, 1000)
+        await expectOwed(preview)
+        expect(preview.baseQty).to.eq(1000*1024)
+        expect(preview.liq.mod(2048)).to.eq(0)
+
+        test.liqBase = false
+        preview = previewRangeMintQty(await curve(), 3000, 5000, 1000*1024, false)
+        await test.testMint(3000, 5000, 1000)
+        await expectOwed(preview)
+        expect(preview.quoteQty).to.eq(1000*1024)
+    })
+
+    it("ambient mint by qty", async() => {
+        test.liqQty = true
+        test.liqBase = false
+        await test.testMintAmbient(10000)
+
+        test.liqBase = true
+        let preview = previewAmbientMintQty(await curve(), 1000*1024, true)
+        await test.testMintAmbient(1000)
+        await expectOwed(preview)
+    })
+
+    it("knockout mint by qty", async() => {
+        let preview = previewRangeMintQty(await curve(), 3200, 3200+32, 1000, true)
+        await test.testKnockoutMint(1000, true, 3200, 3200+32, false)
+        expect(preview.liq).to.eq(516 * 1024)
+        await expectOwed(preview)
+    })
+
+    it("max liquidity for budget", async() => {
+        let max = maxRangeLiq(await curve(), 3000, 5000, 1000000, 400000)
+        expect(max.baseQty).to.lte(1000000)
+        expect(max.quoteQty).to.lte(400000)
+        let over = mintRangeFlows(await curve(), 3000, 5000, max.liq.add(2048))
+        expect(over.baseQty.gt(1000000) || over.quoteQty.gt(400000)).to.be.true
+
+        await test.testMint(3000, 5000, max.liq.div(1024))
+        await expectOwed(max)
+
+        let amb = maxAmbientLiq(await curve(), 500000, 1000000)
+        expect(amb.baseQty).to.lte(500000)
+        expect(amb.quoteQty).to.lte(1000000)
+        expect(amb.baseQty).to.gt(499000)
+    })
+
+    it("validation", async() => {
+        let c = await curve()
+        expect(() => mintRangeFlows(c, 3000, 5000, 1024)).to.throw("FD")
+        expect(() => mintRangeFlows(c, 5000, 3000, 2048)).to.throw("Invalid tick range")
+        expect(() => sizeRangeLiq(c, 5000, 6000, 1000, true, true)).to.throw("no base tokens")
+        expect(() => sizeRangeLiq(c, 0, 3000, 1000, true, false)).to.throw("no quote tokens")
+    })
+})
@@ -0,0 +1,281 @@
+import { TestCurveMath } from '../typechain/TestCurveMath';
+import { TestCompoundMath } from '../typechain/TestCompoundMath';
+import { TestLiquidityMath } from '../typechain/TestLiquidityMath';
+import { TestTickMath } from '../typechain/TestTickMath';
+import { expect } from "chai";
+import chai from "chai";
+import "@nomiclabs/hardhat-ethers";
+import { ethers } from 'hardhat';
+import { solidity } from "ethereum-waffle";
+import { BigNumber } from 'ethers';
+import { MIN_PRICE, MAX_PRICE, MIN_TICK, MAX_TICK } from './FixedPoint';
+import { assume, boolArb, checkProperty, intArb, makeRng, recordArb, uintArb } from './PropertyFuzz';
+import * as ref from './ReferenceMath';
+import { cmpFrac, ceilFrac, floorFrac, frac, Fraction, fracToString, MAX_U128, MAX_U64, Q48 } from './ReferenceMath';
+import { expectRejects } from './Rejects';
+
+chai.use(solidity);
+
+// Property-based checks of the Test*.sol math wrappers against the exact reference model
+// in ReferenceMath.ts. See PropertyFuzz.ts for FUZZ_RUNS and FUZZ_SEED.
+describe('Math Fuzz', () => {
+    let curve: TestCurveMath
+    let comp: TestCompoundMath
+    let liq: TestLiquidityMath
+    let tick: TestTickMath
+
+    const U64 = uintArb(0, MAX_U64)
+    const U128 = uintArb(0, MAX_U128)
+    const PRICE = uintArb(MIN_PRICE, MAX_PRICE)
+    const LIQ = uintArb(1, BigNumber.from(2).pow(100))
+    const FLOW = uintArb(1, BigNumber.from(2).pow(110))
+    const INT128_BOUND = BigNumber.from(2).pow(127)
+    // Wrappers for limit flows cap the swap quantity at this
+    const LIMIT_SWAP_QTY = 1000000
+
+    before("deploy", async () => {
+        curve = (await (await ethers.getContractFactory("TestCurveMath")).deploy()) as TestCurveMath
+        comp = (await (await ethers.getContractFactory("TestCompoundMath")).deploy()) as TestCompoundMath
+        liq = (await (await ethers.getContractFactory("TestLiquidityMath")).deploy()) as TestLiquidityMath
+        tick = (await (await ethers.getContractFactory("TestTickMath")).deploy()) as TestTickMath
+    })
+
+    function expectFloor (actual: BigNumber, exact: Fraction, what: string) {
+        expect(actual.toString(), `${what} should be floor(${fracToString(exact)})`)
+            .to.eq(floorFrac(exact).toString())
+    }
+
+    // Exact value is within [actual - below, actual + above]
+    function expectWithin (actual: BigNumber, exact: Fraction, below: number, above: number, what: string) {
+        const msg = `${what} ${actual} vs exact ${fracToString(exact)}`
+        expect(cmpFrac(exact, frac(actual.sub(below))) >= 0, msg).to.be.true
+        expect(cmpFrac(exact, frac(actual.add(above))) <= 0, msg).to.be.true
+    }
+
+    function inPriceRange (price: Fraction | undefined): boolean {
+        return price !== undefined && cmpFrac(price, frac(MIN_PRICE.add(2))) >= 0 &&
+            cmpFrac(price, frac(MAX_PRICE.sub(2))) <= 0
+    }
+
+    // Rolls a fixed flow on a curve with no ambient growth, see TestCurveMath.testRoll()
+    async function roll (price: BigNumber, liquidity: BigNumber, flow: BigNumber, isBuy: boolean, inBase: boolean) {
+        const exactPrice = ref.flowPrice(price, liquidity, flow, inBase, isBuy)
+        assume(inPriceRange(exactPrice))
+        const counter = inBase ? ref.quoteFlow(liquidity, price, floorFrac(exactPrice as Fraction)) :
+            ref.baseFlow(liquidity, price, floorFrac(exactPrice as Fraction))
+        assume(ceilFrac(counter).abs().lt(INT128_BOUND.div(2)))
+
+        // Rolls that revert (e.g. overflowing the counter side at extreme prices) can't
+        // leak value, so they're outside these properties
+        const result = await curve.testRoll(flow, price, liquidity, isBuy, inBase).catch(() => undefined)
+        assume(result !== undefined)
+        // A raw roll can land against the swap direction when the flow is below the price
+        // precision. SwapCurve.assertPriceDirection() reverts those swaps, so they never settle.
+        assume(isBuy ? result.rollPrice.gte(price) : result.rollPrice.lte(price))
+        return { rollPrice: result.rollPrice, qtyLeft: result.qtyLeft, paidBase: result.paidBase,
+            paidQuote: result.paidQuote, paidFlow: inBase ? result.paidBase : result.paidQuote,
+            paidCounter: inBase ? result.paidQuote : result.paidBase }
+    }
+
+    it("fixed point rounds down exactly", async () => {
+        await checkProperty("fixed point", recordArb({ x: U128, y: uintArb(1, MAX_U128), z: U64,
+            r: uintArb(2, MAX_U128) }), async ({ x, y, z, r }) => {
+            expectFloor(await comp.testMulQ64(x, y), ref.mulQ64(x, y), "mulQ64")
+            expectFloor(await comp.testDivQ64(x, y), ref.divQ64(x, y), "divQ64")
+            expectFloor(await comp.testMulQ48(x, z), ref.mulQ48(x, z), "mulQ48")
+            expectFloor(await comp.testRecipQ64(r), ref.recipQ64(r), "recipQ64")
+        })
+    })
+
+    it("compound growth rounds down", async () => {
+        await checkProperty("compound growth", recordArb({ x: U64, y: U64, val: U64, seed: U128,
+            growth: U64 }), async ({ x, y, val, seed, growth }) => {
+            const stack = await comp.testStack(x, y)
+            if (floorFrac(ref.compoundStack(x, y)).gte(MAX_U64)) {
+                expect(stack).to.eq(MAX_U64)
+            } else {
+                expectFloor(stack, ref.compoundStack(x, y), "compoundStack")
+            }
+            expectFloor(await comp.testShrink(val, growth), ref.compoundShrink(val, growth), "compoundShrink")
+
+            const inflated = await comp.testInflate(seed, growth)
+            if (floorFrac(ref.inflateLiqSeed(seed, growth)).gt(MAX_U128)) {
+                expect(inflated).to.eq(MAX_U128)
+            } else {
+                expectFloor(inflated, ref.inflateLiqSeed(seed, growth), "inflateLiqSeed")
+                // Deflating what was inflated never creates liquidity
+                expect(await comp.testDeflate(inflated, growth)).to.lte(seed)
+            }
+            expectFloor(await comp.testDeflate(seed, growth), ref.deflateLiqSeed(seed, growth), "deflateLiqSeed")
+        })
+    })
+
+    it("compound divide rounds down", async () => {
+        await checkProperty("compound divide", recordArb({ seed: uintArb(1, MAX_U128), extra: U128 }),
+            async ({ seed, extra }) => {
+            assume(seed.add(extra).lte(MAX_U128))
+            const divide = await comp.testDivide(seed.add(extra), seed)
+            const exact = ref.compoundDivide(seed.add(extra), seed)
+            if (floorFrac(exact).gte(Q48)) {
+                expect(divide).to.eq(Q48)
+            } else {
+                expectFloor(divide, exact, "compoundDivide")
+            }
+        })
+    })
+
+    it("compound price rounds in the shift direction", async () => {
+        await checkProperty("compound price", recordArb({ price: PRICE, growth: U64, up: boolArb() }),
+            async ({ price, growth, up }) => {
+            const exact = ref.compoundPrice(price, growth, up)
+            assume(floorFrac(exact).lt(MAX_U128))
+            const shifted = await comp.testPrice(price, growth, up)
+            if (up) {
+                // Strictly above, by at most one unit
+                expect(cmpFrac(frac(shifted), exact), `${shifted} above ${fracToString(exact)}`).to.eq(1)
+                expect(shifted).to.lte(floorFrac(exact).add(1))
+            } else {
+                expectFloor(shifted, exact, "compoundPrice down")
+            }
+        })
+    })
+
+    it("approx sqrt is within a unit and monotonic", async () => {
+        const GROWTH = uintArb(0, Q48.sub(1))
+        await checkProperty("approx sqrt", recordArb({ x: GROWTH, dx: GROWTH }), async ({ x, dx }) => {
+            const root = await comp.testApproxSqrt(x)
+            // (1 + root - 1)^2 <= 1 + x. Truncating the quadratic term of the expansion can put
+            // the result just above the real root, but never by a full unit.
+            expect(Q48.add(root).sub(1).pow(2).lte(Q48.mul(Q48.add(x))), `sqrt(1+${x}) ${root}`).to.be.true
+
+            const larger = x.add(dx).gt(Q48.sub(1)) ? Q48.sub(1) : x.add(dx)
+            expect(await comp.testApproxSqrt(larger)).to.gte(root)
+        })
+    })
+
+    it("blend mileage rounds up by at most 2", async () => {
+        const MILEAGE = uintArb(0, BigNumber.from(2).pow(63))
+        const WEIGHT = uintArb(0, BigNumber.from(2).pow(126))
+        await checkProperty("blend mileage", recordArb({ mileageX: MILEAGE, liqX: WEIGHT,
+            mileageY: MILEAGE, liqY: WEIGHT }), async ({ mileageX, liqX, mileageY, liqY }) => {
+            assume(!liqX.add(liqY).isZero())
+            const blend = await liq.testBlendMileage(mileageX, liqX, mileageY, liqY)
+            expectWithin(blend, ref.blendMileage(mileageX, liqX, mileageY, liqY), 2, 0, "blendMileage")
+        })
+    })
+
+    it("tick ratios match the reference", async () => {
+        await checkProperty("tick ratio", recordArb({ t: intArb(MIN_TICK, MAX_TICK - 1) }), async ({ t }) => {
+            const ratio = await tick.testRatio(t)
+            const next = await tick.testRatio(t + 1)
+            // Rounds up from the Q128.128 product, plus the precision lost inverting it for
+            // positive ticks, which stays well under 2^-64 relative
+            const exact = ref.sqrtRatioAtTick(t)
+            expect(ratio, `ratio at tick ${t}`).to.gte(exact)
+            expect(ratio, `ratio at tick ${t}`).to.lte(exact.add(exact.shr(64)).add(1))
+
+            expect(next).to.gt(ratio)
+            expect(await tick.testTick(ratio)).to.eq(t)
+            expect(await tick.testTick(next.sub(1))).to.eq(t)
+        })
+    })
+
+    it("price ticks bracket the price", async () => {
+        await checkProperty("price tick", recordArb({ price: PRICE }), async ({ price }) => {
+            const t = await tick.testTick(price)
+            expect(await tick.testRatio(t)).to.lte(price)
+            if (t < MAX_TICK) {
+                expect(await tick.testRatio(t + 1)).to.gt(price)
+            }
+        })
+    })
+
+    it("limit flows round down", async () => {
+        await checkProperty("limit flows", recordArb({ price: PRICE, limitPrice: PRICE,
+            liquidity: uintArb(1, BigNumber.from(2).pow(48)) }), async ({ price, limitPrice, liquidity }) => {
+            const base = ref.baseFlow(liquidity, price, limitPrice)
+            const quote = ref.quoteFlow(liquidity, price, limitPrice)
+            assume(floorFrac(quote).abs().lt(MAX_U128) && floorFrac(base).abs().lt(MAX_U128))
+
+            const capped = (f: Fraction) => {
+                const magn = floorFrac(frac(f.num.abs(), f.den))
+                return magn.gt(LIMIT_SWAP_QTY) ? BigNumber.from(LIMIT_SWAP_QTY) : magn
+            }
+            expect(await curve.testLimitBase(price, limitPrice, liquidity)).to.eq(capped(base))
+            // Quote flows may round down by up to 2 wei
+            const limitQuote = await curve.testLimitQuote(price, limitPrice, liquidity)
+            expect(limitQuote).to.lte(capped(quote))
+            expect(limitQuote).to.gte(capped(quote).sub(2))
+        })
+    })
+
+    it("swaps round toward the pool", async () => {
+        await checkProperty("swap rounding", recordArb({ price: PRICE, liquidity: LIQ, flow: FLOW,
+            isBuy: boolArb(), inBase: boolArb() }), async ({ price, liquidity, flow, isBuy, inBase }) => {
+            const result = await roll(price, liquidity, flow, isBuy, inBase)
+            const nextPrice = result.rollPrice
+
+            // The fixed side is exactly the flow, and is fully spent
+            expect(result.paidFlow).to.eq(inBase === isBuy ? flow : flow.mul(-1))
+            expect(result.qtyLeft).to.eq(0)
+
+            // Whatever price the curve lands at, the trader pays at least what the curve
+            // takes in and receives at most what it pays out, in both tokens
+            const baseExact = ref.baseFlow(liquidity, price, nextPrice)
+            const quoteExact = ref.quoteFlow(liquidity, price, nextPrice)
+            expect(cmpFrac(frac(result.paidBase), baseExact),
+                `paid base ${result.paidBase} vs curve ${fracToString(baseExact)}`).to.gte(0)
+            expect(cmpFrac(frac(result.paidQuote), quoteExact),
+                `paid quote ${result.paidQuote} vs curve ${fracToString(quoteExact)}`).to.gte(0)
+        })
+    })
+
+    it("swap round trip leaks no value", async () => {
+        await checkProperty("swap round trip", recordArb({ price: PRICE, liquidity: LIQ, flow: FLOW,
+            isBuy: boolArb(), inBase: boolArb() }), async ({ price, liquidity, flow, isBuy, inBase }) => {
+            const there = await roll(price, liquidity, flow, isBuy, inBase)
+            // Rounding toward the pool can leave the trader owing dust on the counter side too,
+            // in which case there's nothing to unwind
+            assume(inBase === isBuy ? there.paidCounter.lt(0) : there.paidCounter.gt(0))
+
+            // Unwind the counter side exactly, in the other direction
+            const back = await roll(there.rollPrice, liquidity, there.paidCounter.abs(), !isBuy, !inBase)
+            expect(back.paidFlow.add(there.paidCounter)).to.eq(0)
+            expect(there.paidFlow.add(back.paidCounter),
+                `paid ${there.paidFlow} then ${back.paidCounter} in the flow token`).to.gte(0)
+        })
+    })
+
+    it("swaps are monotonic in quantity", async () => {
+        await checkProperty("swap monotonic", recordArb({ price: PRICE, liquidity: LIQ, flow: FLOW,
+            extra: FLOW, isBuy: boolArb(), inBase: boolArb() }),
+            async ({ price, liquidity, flow, extra, isBuy, inBase }) => {
+            const small = await roll(price, liquidity, flow, isBuy, inBase)
+            const large = await roll(price, liquidity, flow.add(extra), isBuy, inBase)
+
+            // Paying more in gets more out, and taking more out costs more
+            if (inBase === isBuy) {
+                expect(large.paidCounter).to.lte(small.paidCounter)
+            } else {
+                expect(large.paidCounter).to.gte(small.paidCounter)
+            }
+            if (isBuy) {
+                expect(large.rollPrice).to.gte(small.rollPrice)
+            } else {
+                expect(large.rollPrice).to.lte(small.rollPrice)
+            }
+        })
+    })
+
+    it("shrinks counterexamples", async () => {
+        const err = await expectRejects(checkProperty("shrink", recordArb({ x: U128, flag: boolArb() }),
+            async ({ x }) => { expect(x).to.lt(1000) }, { seed: 1, runs: 1000 }), 'Counterexample')
+        expect(err.message).to.contain('{"x":"1000","flag":false}')
+        expect(err.message).to.contain("FUZZ_SEED=1")
+
+        // Same seed, same cases
+        const draw = (seed: number) => { const rng = makeRng(seed); return [rng.next(), rng.next()] }
+        expect(draw(7)).to.deep.eq(draw(7))
+        expect(draw(7)).to.not.deep.eq(draw(8))
+    })
+})
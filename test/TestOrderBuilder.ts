@@ -0,0 +1,154 @@
+import { TestPool, makeTokenSeq } from './FacadePool'
+import { expect } from "chai";
+import "@nomiclabs/hardhat-ethers";
+import { toSqrtPrice, maxSqrtPrice, minSqrtPrice } from './FixedPoint';
+import { solidity } from "ethereum-waffle";
+import chai from "chai";
+import { BigNumber } from 'ethers';
+import { OrderBuilder, ROLL_DEBIT_TYPE } from '../misc/sdk/orderBuilder';
+
+chai.use(solidity);
+
+describe('Order Builder', () => {
+    let test: TestPool
+    let test2: TestPool
+    let route: string[]
+    const feeRate = 0
+
+    beforeEach("deploy",  async () => {
+        let tests = await makeTokenSeq()
+        test = tests[0]
+        test2 = tests[1]
+
+        await test.initPool(feeRate, 0, 1, 1.5)
+        await test2.initPool(feeRate, 0, 1, 0.5)
+        await test.testMintAmbient(10000)
+        await test2.testMintAmbient(20000)
+
+        route = [(await test.base).address, (await test.quote).address, (await test2.quote).address]
+    })
+
+    it("two pairs", async() => {
+        let order = new OrderBuilder(route, test.poolIdx)
+            .swap(0, { qty: 10000, fixedOutput: true })
+            .swap(1)
+            .build()
+
+        expect(order.open.token).to.eq(route[0])
+        expect(order.hops[0].settlement.token).to.eq(route[1])
+        expect(order.hops[1].settlement.token).to.eq(route[2])
+
+        let swap = order.hops[0].pools[0].swap
+        expect(swap.isBuy).to.be.true
+        expect(swap.inBaseQty).to.be.false
+        expect(swap.limitPrice).to.eq(maxSqrtPrice())
+
+        let roll = order.hops[1].pools[0].swap
+        expect(roll.isBuy).to.be.true
+        expect(roll.inBaseQty).to.be.true
+        expect(roll.rollType).to.eq(ROLL_DEBIT_TYPE)
+        expect(roll.qty).to.eq(0)
+
+        await test2.snapStart()
+        await test.testOrder(order)
+
+        expect(await test.snapBaseOwed()).to.equal(15021)
+        expect(await test.snapQuoteOwed()).to.equal(0)
+        expect(await test2.snapBaseOwed()).to.equal(0)
+        expect(await test2.snapQuoteOwed()).to.equal(-19982)
+    })
+
+    it("mint -> swap", async() => {
+        let order = new OrderBuilder(route, test.poolIdx)
+            .mintAmbient(0, 10000)
+            .swap(1)
+            .build()
+
+        let roll = order.hops[1].pools[0].swap
+        expect(roll.isBuy).to.be.false
+        expect(roll.inBaseQty).to.be.true
+        expect(roll.limitPrice).to.eq(minSqrtPrice())
+
+        await test2.snapStart()
+        await test.testOrder(order)
+
+        expect(await test.price()).to.be.eq(toSqrtPrice(1.5))
+        expect(await test.snapBaseOwed()).to.equal(12251)
+        expect(await test.snapQuoteOwed()).to.equal(0)
+        expect(await test2.snapBaseOwed()).to.equal(0)
+        expect(await test2.snapQuoteOwed()).to.equal(16349)
+    })
+
+    it("reverse route", async() => {
+        let order = new OrderBuilder([...route].reverse(), test.poolIdx)
+            .swapRoute(10000)
+            .build()
+
+        let swap = order.hops[0].pools[0].swap
+        expect(swap.isBuy).to.be.false
+        expect(swap.inBaseQty).to.be.false
+
+        let roll = order.hops[1].pools[0].swap
+        expect(roll.isBuy).to.be.false
+        expect(roll.inBaseQty).to.be.false
+
+        await test2.snapStart()
+        await test.testOrder(order)
+
+        expect(await test2.snapQuoteOwed()).to.equal(10000)
+        expect(await test2.snapBaseOwed()).to.equal(0)
+        expect(await test.snapQuoteOwed()).to.equal(0)
+        expect(await test.snapBaseOwed()).to.lt(0)
+    })
+
+    it("min output", async() => {
+        let order = new OrderBuilder(route, test.poolIdx)
+            .swapRoute(10000, { minOutput: BigNumber.from(1000000) })
+            .build()
+        expect(order.hops[1].settlement.limitQty).to.eq(-1000000)
+        await expect(test.testOrder(order)).to.be.reverted
+
+        order = new OrderBuilder(route, test.poolIdx)
+            .swapRoute(10000, { minOutput: 1000 })
+            .build()
+        await test.testOrder(order)
+    })
+
+    it("chaining flags", async() => {
+        let order = new OrderBuilder(route, test.poolIdx)
+            .mintAmbient(0, 10000)
+            .swap(0, { afterLiquidity: true, neutralizeExit: true, offsetSurplus: true })
+            .swap(1, { qty: 1000 })
+            .build()
+
+        let pool = order.hops[0].pools[0]
+        expect(pool.chain.rollExit).to.be.true
+        expect(pool.chain.swapDefer).to.be.true
+        expect(pool.chain.offsetSurplus).to.be.true
+
+        // Buys back the quote debit from the mint
+        expect(pool.swap.isBuy).to.be.true
+        expect(pool.swap.inBaseQty).to.be.false
+
+        // Exit token is both debited by the mint and credited by the swap, so the next hop
+        // can't infer which direction to roll
+        expect(() => new OrderBuilder(route, test.poolIdx).mintAmbient(0, 10000)
+            .swap(0, { afterLiquidity: true, neutralizeExit: true }).swap(1).build())
+            .to.throw("mixed debit and credit")
+    })
+
+    it("validation", async() => {
+        expect(() => new OrderBuilder([route[0]], test.poolIdx)).to.throw("at least two tokens")
+        expect(() => new OrderBuilder([route[0], route[0]], test.poolIdx)).to.throw("same token")
+        expect(() => new OrderBuilder([route[0], "0x1234"], test.poolIdx)).to.throw("not a valid address")
+
+        let builder = new OrderBuilder(route, test.poolIdx)
+        expect(() => builder.swap(2)).to.throw("outside of route")
+        expect(() => builder.mintRange(0, -100, 100, 1000)).to.throw("multiple of 2048")
+        expect(() => builder.burnRange(0, -100, 100, 5*1024)).to.throw("multiple of 2048")
+        expect(() => builder.swap(0, { neutralizeExit: true, qty: 100 })).to.throw("rolling swaps")
+        expect(() => builder.swap(0).build()).to.throw("no prior flow")
+        expect(() => new OrderBuilder(route, test.poolIdx).swap(0, { qty: 100 }).build())
+            .to.throw("has no actions")
+    })
+})
@@ -1,4 +1,5 @@
 import { TestPool, makeTokenPool, Token } from './FacadePool'
+import { expectGas } from './GasSnapshot'
 import { expect } from "chai";
 import "@nomiclabs/hardhat-ethers";
 import { ethers } from 'hardhat';
@@ -140,9 +141,7 @@ describe('Pool Rebalance', () => {
         await test.testMint(-500, -200, 1000);
 
         let order = makeRebalOrder()
-        let tx = await test.testOrder(order);
-
-        expect((await tx.wait()).gasUsed).to.lt(379000)
+        await expectGas(test, test.testOrder(order))
     })
   
     function makeRebalOrderTwo(): OrderDirective {
@@ -239,8 +238,6 @@ describe('Pool Rebalance', () => {
         await test.testMint(-500, -300, 1000);
 
         let order = makeRebalOrderTwo()
-        let tx = await test.testOrder(order);
-
-        expect((await tx.wait()).gasUsed).to.lt(358000)
+        await expectGas(test, test.testOrder(order))
     })
 })
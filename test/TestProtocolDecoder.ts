@@ -0,0 +1,173 @@
+import { expect } from "chai";
+import "@nomiclabs/hardhat-ethers";
+import { ethers } from 'hardhat';
+import { solidity } from "ethereum-waffle";
+import chai from "chai";
+import { BigNumber } from 'ethers';
+import { authTransferCmd, collectTreasuryCmd, CrocProtocolCmd, disableTemplateCmd, hotOpenCmd,
+    initPoolLiqCmd, offGridCmd, poolReviseCmd, poolTemplateCmd, relayerTakeRateCmd,
+    resyncTakeRateCmd, safeModeCmd, setTakeRateCmd, setTreasuryCmd, upgradeProxyCmd } from '../misc/sdk/commands';
+import { CROC_POLICY_ABI, decodePolicyCall, decodeProtocolCmd, DecodedProtocolCmd,
+    formatPolicyCall } from '../misc/sdk/protocolDecoder';
+
+chai.use(solidity);
+
+describe('Protocol Command Decoder', () => {
+    const base = "0x0000000000000000000000000000000000000000"
+    const quote = "0x5FbDB2315678afecb367f032d93F642f64180aa3"
+    const dex = "0xAaAaAAAaA24eEeb8d57D431224f73832bC34f688"
+
+    function decode (cmd: CrocProtocolCmd): DecodedProtocolCmd {
+        return decodeProtocolCmd(cmd.callpath, cmd.protocolCmd)
+    }
+
+    function values (cmd: DecodedProtocolCmd): string[] {
+        return cmd.fields.map(f => f.value)
+    }
+
+    function note (cmd: DecodedProtocolCmd, name: string): string | undefined {
+        return cmd.fields.filter(f => f.name === name)[0].note
+    }
+
+    it("sudo commands", async() => {
+        let cmd = decode(authTransferCmd(dex))
+        expect(cmd.command).to.eq("AuthorityTransfer")
+        expect(cmd.sudo).to.be.true
+        expect(values(cmd)).to.deep.eq([dex])
+
+        cmd = decode(upgradeProxyCmd(quote, 3))
+        expect(cmd.command).to.eq("UpgradeProxy")
+        expect(cmd.proxyPath).to.eq("BootPath")
+        expect(values(cmd)).to.deep.eq([quote, "3"])
+        expect(note(cmd, "proxyIdx")).to.eq("ColdPath")
+
+        cmd = decode(hotOpenCmd(false))
+        expect(cmd.command).to.eq("HotPathOpen")
+        expect(values(cmd)).to.deep.eq(["false"])
+
+        cmd = decode(safeModeCmd(true))
+        expect(cmd.command).to.eq("SafeMode")
+        expect(cmd.proxyPath).to.eq("ColdPath")
+        cmd = decode(safeModeCmd(false))
+        expect(cmd.proxyPath).to.eq("SafeModePath")
+        expect(cmd.known).to.be.true
+        expect(values(cmd)).to.deep.eq(["false"])
+
+        cmd = decode(collectTreasuryCmd(base))
+        expect(cmd.command).to.eq("CollectTreasury")
+        expect(note(cmd, "token")).to.eq("native ETH")
+
+        cmd = decode(setTreasuryCmd(quote))
+        expect(cmd.command).to.eq("SetTreasury")
+        expect(values(cmd)).to.deep.eq([quote])
+    })
+
+    it("pool commands", async() => {
+        let cmd = decode(disableTemplateCmd(420))
+        expect(cmd.command).to.eq("DisableTemplate")
+        expect(cmd.sudo).to.be.false
+        expect(values(cmd)).to.deep.eq(["420"])
+
+        cmd = decode(poolTemplateCmd({ poolIdx: 420, feeRate: 2500, tickSize: 16, jitThresh: 3,
+            knockoutBits: 64 + 32 + 5, oracleFlags: 1 }))
+        expect(cmd.command).to.eq("PoolTemplate")
+        expect(values(cmd)).to.deep.eq(["420", "2500", "16", "3", "101", "1"])
+        expect(note(cmd, "feeRate")).to.eq("0.25% swap fee")
+        expect(note(cmd, "jitThresh")).to.eq("range orders must live at least 30 seconds")
+        expect(note(cmd, "knockoutBits")).to.eq("knockout enabled, 32 ticks wide, mintable in range, on grid")
+        expect(note(cmd, "oracleFlags")).to.eq("permissioned, oracle checked on every call")
+
+        cmd = decode(poolReviseCmd({ base, quote, poolIdx: 36000, feeRate: 500, tickSize: 4,
+            jitThresh: 0, knockoutBits: 0 }))
+        expect(cmd.command).to.eq("PoolRevise")
+        expect(values(cmd)).to.deep.eq([base, quote, "36000", "500", "4", "0", "0"])
+        expect(note(cmd, "knockoutBits")).to.eq("knockout liquidity disabled")
+
+        cmd = decode(initPoolLiqCmd(1024))
+        expect(cmd.command).to.eq("InitPoolLiq")
+        expect(values(cmd)).to.deep.eq(["1024"])
+
+        cmd = decode(offGridCmd(quote, BigNumber.from(10).pow(20), 8))
+        expect(cmd.command).to.eq("OffGridPriceImprove")
+        expect(values(cmd)).to.deep.eq([quote, "100000000000000000000", "8"])
+    })
+
+    it("take rates", async() => {
+        let cmd = decode(setTakeRateCmd(64))
+        expect(cmd.command).to.eq("SetTakeRate")
+        expect(note(cmd, "takeRate")).to.eq("25.00% of fees as protocol take on new pools")
+
+        cmd = decode(relayerTakeRateCmd(128))
+        expect(cmd.command).to.eq("SetRelayerTakeRate")
+        expect(values(cmd)).to.deep.eq(["128"])
+
+        cmd = decode(resyncTakeRateCmd({ base, quote, poolIdx: 420 }))
+        expect(cmd.command).to.eq("ResyncTakeRate")
+        expect(values(cmd)).to.deep.eq([base, quote, "420"])
+    })
+
+    it("unknown and malformed", async() => {
+        let abi = new ethers.utils.AbiCoder()
+        let cmd = decodeProtocolCmd(3, abi.encode(["uint8", "uint256"], [77, 5]))
+        expect(cmd.known).to.be.false
+        expect(cmd.command).to.eq("Unknown command 77")
+        expect(values(cmd)[0]).to.eq(ethers.utils.hexZeroPad("0x05", 32))
+
+        // Valid code on a callpath that doesn't handle it
+        let take = setTakeRateCmd(64)
+        cmd = decodeProtocolCmd(0, take.protocolCmd)
+        expect(cmd.known).to.be.false
+        expect(cmd.command).to.eq("SetTakeRate")
+
+        expect(() => decodeProtocolCmd(3, abi.encode(["uint8"], [114]))).to.throw("Malformed SetTakeRate")
+        expect(() => decodeProtocolCmd(3, "0x1234")).to.throw("32-byte words")
+    })
+
+    it("policy abi", async() => {
+        let compiled = (await ethers.getContractFactory("CrocPolicy")).interface
+        let sdk = new ethers.utils.Interface(CROC_POLICY_ABI)
+        Object.keys(sdk.functions).forEach(sig => {
+            expect(compiled.getSighash(sig)).to.eq(sdk.getSighash(sig))
+        })
+    })
+
+    it("policy calls", async() => {
+        let policy = (await ethers.getContractFactory("CrocPolicy")).interface
+        let templ = poolTemplateCmd({ poolIdx: 420, feeRate: 2500, tickSize: 16, jitThresh: 3,
+            knockoutBits: 0 })
+
+        let call = decodePolicyCall(policy.encodeFunctionData("opsResolution",
+            [dex, templ.callpath, templ.protocolCmd]))
+        expect(call.method).to.eq("opsResolution")
+        expect(call.fields.map(f => f.value)).to.deep.eq([dex, "3", "false"])
+        expect(call.protocolCmds.map(c => c.command)).to.deep.eq(["PoolTemplate"])
+
+        let auth = authTransferCmd(quote)
+        call = decodePolicyCall(policy.encodeFunctionData("treasuryResolution",
+            [dex, auth.callpath, auth.protocolCmd, true]))
+        expect(call.fields.map(f => f.value)).to.deep.eq([dex, "3", "true"])
+        expect(call.protocolCmds.map(c => c.command)).to.deep.eq(["AuthorityTransfer"])
+
+        call = decodePolicyCall(policy.encodeFunctionData("emergencyHalt", [dex, "Oracle exploit"]))
+        expect(call.fields.map(f => f.value)).to.deep.eq([dex, "Oracle exploit"])
+        expect(call.protocolCmds.map(c => c.command)).to.deep.eq(["HotPathOpen", "SafeMode"])
+
+        let flags = ethers.utils.hexZeroPad(BigNumber.from(1).shl(110).or(BigNumber.from(1).shl(114))
+            .toHexString(), 32)
+        call = decodePolicyCall(policy.encodeFunctionData("setPolicy",
+            [quote, 3, { cmdFlags_: flags, mandateTime_: 0, expiryOffset_: 1800000000 }]))
+        expect(call.method).to.eq("setPolicy")
+        expect(call.fields.map(f => f.value)).to.deep.eq([quote, "3", flags, "0", "1800000000"])
+        expect(call.fields[2].note).to.eq("allows 110 PoolTemplate, 114 SetTakeRate")
+        expect(call.fields[3].note).to.eq("no mandate")
+
+        call = decodePolicyCall(policy.encodeFunctionData("forcePolicy",
+            [quote, 3, { cmdFlags_: ethers.constants.HashZero, mandateTime_: 0, expiryOffset_: 0 }]))
+        expect(call.method).to.eq("forcePolicy")
+        expect(call.fields[2].note).to.eq("revokes all commands")
+        expect(formatPolicyCall(call)[0]).to.eq("CrocPolicy.forcePolicy()")
+
+        expect(() => decodePolicyCall(policy.encodeFunctionData("acceptsCrocAuthority", [])))
+            .to.throw("isn't a known CrocPolicy method")
+    })
+})
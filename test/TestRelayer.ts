@@ -0,0 +1,141 @@
+import { TestPool, makeTokenPool, Token } from './FacadePool'
+import { expect } from "chai";
+import "@nomiclabs/hardhat-ethers";
+import { ethers } from 'hardhat';
+import { solidity } from "ethereum-waffle";
+import chai from "chai";
+import { Wallet, Signer } from 'ethers';
+import { CrocSwapDex } from '../typechain';
+import { disburseSurplusCmd, resetNonceCmd } from '../misc/sdk/commands';
+import { CrocRelayerClient, decodeRelayConds, estimateRelayerTip, queryRelayerTakeRate,
+    queryRelayNonce, recoverRelayerSigner, RelayQueue, TIP_RECV_SENDER } from '../misc/sdk/relayer';
+
+chai.use(solidity);
+
+describe('Relayer Client', () => {
+    let test: TestPool
+    let dex: CrocSwapDex
+    let baseToken: Token
+    let accts: Wallet[]
+    let other: string
+    let client: CrocRelayerClient
+    let queue: RelayQueue
+    const feeRate = 225 * 100
+    const SALT = "0x0f"
+
+    beforeEach("deploy", async () => {
+        test = await makeTokenPool()
+        baseToken = await test.base
+        dex = await test.dex
+        accts = (await (ethers.getSigners() as Promise<Signer[]>)) as unknown as Wallet[]
+        other = await (await test.other).getAddress()
+
+        await test.initPool(feeRate, 0, 1, 1.5)
+        await test.collectSurplus(accts[0].address, -100000, -2500000)
+
+        client = new CrocRelayerClient(accts[0], dex, { dex: dex.address, chainId: 31337, salt: SALT })
+        queue = new RelayQueue(dex.connect(accts[1]))
+    })
+
+    async function blockTime(): Promise<number> {
+        return (await ethers.provider.getBlock("latest")).timestamp
+    }
+
+    function disburse (value: number) {
+        return disburseSurplusCmd(other, value, baseToken.address)
+    }
+
+    it("sign and relay", async() => {
+        const initBal = await baseToken.balanceOf(other)
+        const call = await client.sign(disburse(5000), { deadline: await blockTime() + 1000 })
+        expect(recoverRelayerSigner(call, 31337, dex.address)).to.eq(accts[0].address)
+
+        queue.enqueue(call)
+        const results = await queue.flush()
+        expect(results.map(r => r.status)).to.deep.eq(["submitted"])
+        expect(results[0].receipt?.from).to.eq(accts[1].address)
+        expect((await baseToken.balanceOf(other)).sub(initBal)).to.eq(5000)
+        expect(queue.pending.length).to.eq(0)
+    })
+
+    it("nonce tracking", async() => {
+        const deadline = await blockTime() + 1000
+        const first = await client.sign(disburse(5000), { deadline })
+        const second = await client.sign(disburse(15000), { deadline })
+        const otherSalt = await client.sign(disburse(1000), { deadline, salt: "0x10" })
+        expect(decodeRelayConds(first.conds).nonce).to.eq(0)
+        expect(decodeRelayConds(second.conds).nonce).to.eq(1)
+        expect(decodeRelayConds(otherSalt.conds).nonce).to.eq(0)
+
+        // Submitted in nonce order regardless of queue order
+        queue.enqueue(second)
+        queue.enqueue(first)
+        const results = await queue.flush()
+        expect(results.map(r => r.status)).to.deep.eq(["submitted", "submitted"])
+        expect(await queryRelayNonce(dex, accts[0].address, ethers.utils.hexZeroPad(SALT, 32))).to.eq(2)
+
+        const fresh = new CrocRelayerClient(accts[0], dex, { dex: dex.address, chainId: 31337, salt: SALT })
+        expect(await fresh.nextNonce()).to.eq(2)
+        expect(await fresh.nextNonce("0x10")).to.eq(0)
+    })
+
+    it("nonce resync", async() => {
+        expect(await client.nextNonce()).to.eq(0)
+        const reset = resetNonceCmd(ethers.utils.hexZeroPad(SALT, 32), 100)
+        await dex.connect(accts[0]).userCmd(reset.callpath, reset.cmd)
+
+        expect(await client.nextNonce()).to.eq(0)
+        client.resyncNonce()
+        expect(await client.nextNonce()).to.eq(100)
+
+        queue.enqueue(await client.sign(disburse(5000), { deadline: await blockTime() + 1000 }))
+        expect((await queue.flush()).map(r => r.status)).to.deep.eq(["submitted"])
+    })
+
+    it("relayer tip", async() => {
+        const query = await test.query
+        const tip = estimateRelayerTip({ gasLimit: 200000, gasPrice: 1,
+            relayerTakeRate: await queryRelayerTakeRate(dex), toToken: wei => wei.div(10) })
+        expect(tip).to.eq(24000)
+
+        const initSurplus = await query.querySurplus(accts[1].address, baseToken.address)
+        queue.enqueue(await client.sign(disburse(5000), { deadline: await blockTime() + 1000,
+            tip: { token: baseToken.address, amount: tip, recv: TIP_RECV_SENDER } }))
+        await queue.flush()
+        expect((await query.querySurplus(accts[1].address, baseToken.address)).sub(initSurplus)).to.eq(24000)
+    })
+
+    it("tip protocol take", async() => {
+        // Gross up so the relayer nets the full estimate after a 25% take
+        expect(estimateRelayerTip({ gasLimit: 100000, gasPrice: 10, relayerTakeRate: 64,
+            marginBps: 0 })).to.eq(1333334)
+    })
+
+    it("queue holds and expires", async() => {
+        const now = await blockTime()
+        const early = await client.sign(disburse(5000), { deadline: now + 5000, alive: now + 1000 })
+        const behind = await client.sign(disburse(5000), { deadline: now + 5000 })
+        const expired = await client.sign(disburse(5000), { deadline: now, salt: "0x10" })
+
+        queue.enqueue(early)
+        queue.enqueue(behind)
+        queue.enqueue(expired)
+        let results = await queue.flush()
+        expect(results.map(r => r.status)).to.deep.eq(["expired"])
+        expect(queue.pending.length).to.eq(2)
+
+        await ethers.provider.send("evm_increaseTime", [1000])
+        await ethers.provider.send("evm_mine", [])
+        results = await queue.flush()
+        expect(results.map(r => r.status)).to.deep.eq(["submitted", "submitted"])
+        expect(queue.pending.length).to.eq(0)
+    })
+
+    it("failed simulation", async() => {
+        queue.enqueue(await client.sign(disburse(5000), { deadline: await blockTime() + 1000, nonce: 50 }))
+        const results = await queue.flush()
+        expect(results.map(r => r.status)).to.deep.eq(["failed"])
+        expect(results[0].error).to.not.be.undefined
+        expect(queue.pending.length).to.eq(0)
+    })
+})
@@ -0,0 +1,171 @@
+import { TestPool, makeTokenPool, Token } from './FacadePool'
+import { expect } from "chai";
+import "@nomiclabs/hardhat-ethers";
+import { ethers } from 'hardhat';
+import { solidity } from "ethereum-waffle";
+import chai from "chai";
+import http from "http";
+import { BigNumber, Wallet, Signer } from 'ethers';
+import { CrocSwapDex } from '../typechain';
+import { disburseSurplusCmd } from '../misc/sdk/commands';
+import { CrocRelayerClient, RelayerCallOpts, SignedRelayerCall, TIP_RECV_SENDER } from '../misc/sdk/relayer';
+import { RelayerMempool } from '../misc/sdk/relayerMempool';
+import { RelayerServer, startRelayerServer } from '../misc/libs/relayerServer';
+
+chai.use(solidity);
+
+describe('Relayer Daemon', () => {
+    let test: TestPool
+    let dex: CrocSwapDex
+    let baseToken: Token
+    let accts: Wallet[]
+    let other: string
+    let client: CrocRelayerClient
+    let mempool: RelayerMempool
+    let relayer: RelayerServer
+    const feeRate = 225 * 100
+
+    beforeEach("deploy", async () => {
+        test = await makeTokenPool()
+        baseToken = await test.base
+        dex = await test.dex
+        accts = (await (ethers.getSigners() as Promise<Signer[]>)) as unknown as Wallet[]
+        other = await (await test.other).getAddress()
+
+        await test.initPool(feeRate, 0, 1, 1.5)
+        await test.collectSurplus(accts[0].address, -100000, -2500000)
+
+        client = new CrocRelayerClient(accts[0], dex, { dex: dex.address, chainId: 31337 })
+        mempool = new RelayerMempool(dex.connect(accts[1]), { chainId: 31337,
+            relayer: accts[1].address, tipValue: tip => BigNumber.from(tip.amount) })
+        relayer = await startRelayerServer(mempool, { port: 0, host: "127.0.0.1" })
+    })
+
+    afterEach("stop", async () => {
+        await relayer.stop()
+    })
+
+    function request (method: string, body?: any): Promise<{ status: number, body: any }> {
+        return new Promise((resolve, reject) => {
+            const req = http.request({ host: "127.0.0.1", port: relayer.port, path: "/calls", method,
+                headers: { "Content-Type": "application/json" } }, res => {
+                let data = ""
+                res.on("data", chunk => data += chunk)
+                res.on("end", () => resolve({ status: res.statusCode as number, body: JSON.parse(data) }))
+            })
+            req.on("error", reject)
+            req.end(body !== undefined ? JSON.stringify(body) : undefined)
+        })
+    }
+
+    async function sign (value: number, tip: number, opts: RelayerCallOpts = {}): Promise<SignedRelayerCall> {
+        const now = (await ethers.provider.getBlock("latest")).timestamp
+        return client.sign(disburseSurplusCmd(other, value, baseToken.address), { deadline: now + 1000,
+            tip: { token: baseToken.address, amount: tip, recv: TIP_RECV_SENDER }, ...opts })
+    }
+
+    it("post and relay", async() => {
+        const initBal = await baseToken.balanceOf(other)
+        const resp = await request("POST", await sign(5000, 100))
+        expect(resp.status).to.eq(200)
+        expect(resp.body.signer).to.eq(accts[0].address)
+        expect(resp.body.tipValue).to.eq("100")
+
+        const list = await request("GET")
+        expect(list.body.map((e: any) => e.id)).to.deep.eq([resp.body.id])
+
+        const results = await mempool.process()
+        expect(results.map(r => r.status)).to.deep.eq(["submitted"])
+        expect((await baseToken.balanceOf(other)).sub(initBal)).to.eq(5000)
+        expect((await request("GET")).body).to.deep.eq([])
+    })
+
+    it("tip order", async() => {
+        // Independent nonce tracks, so the higher tip goes first
+        await request("POST", await sign(1000, 10, { salt: "0x01" }))
+        await request("POST", await sign(2000, 300, { salt: "0x02" }))
+        await request("POST", await sign(3000, 20, { salt: "0x03" }))
+        expect((await request("GET")).body.map((e: any) => e.tipValue)).to.deep.eq(["300", "20", "10"])
+
+        const results = await mempool.process()
+        expect(results.map(r => r.entry.tipValue.toNumber())).to.deep.eq([300, 20, 10])
+        expect(results.map(r => r.status)).to.deep.eq(["submitted", "submitted", "submitted"])
+    })
+
+    it("nonce chain", async() => {
+        // The second call waits on the first, even though it pays more
+        await request("POST", await sign(1000, 10))
+        await request("POST", await sign(2000, 500))
+        const results = await mempool.process()
+        expect(results.map(r => r.entry.conds.nonce)).to.deep.eq([0, 1])
+    })
+
+    it("replace by tip", async() => {
+        const low = await sign(1000, 10, { nonce: 0 })
+        const high = await sign(1000, 50, { nonce: 0 })
+        expect((await request("POST", low)).status).to.eq(200)
+        expect((await request("POST", low)).body.error).to.contain("already queued")
+        expect((await request("POST", await sign(1000, 5, { nonce: 0 }))).body.error).to.contain("higher tip")
+
+        expect((await request("POST", high)).status).to.eq(200)
+        expect((await request("GET")).body.map((e: any) => e.tipValue)).to.deep.eq(["50"])
+    })
+
+    it("concurrent adds", async() => {
+        // Both pass the checks that need a chain read before either is queued
+        const call = await sign(1000, 10, { nonce: 0 })
+        const resps = await Promise.all([request("POST", call), request("POST", call)])
+        expect(resps.map(r => r.status)).to.deep.eq([200, 400])
+        expect(resps[1].body.error).to.contain("already queued")
+
+        const rivals = await Promise.all([sign(1000, 20, { nonce: 1 }), sign(1000, 30, { nonce: 1 })])
+        await Promise.all(rivals.map(c => request("POST", c)))
+        expect((await request("GET")).body.map((e: any) => e.tipValue)).to.deep.eq(["30", "10"])
+    })
+
+    it("body too large", async() => {
+        const resp = await request("POST", { pad: "0".repeat(100 * 1024) })
+        expect(resp.status).to.eq(413)
+        expect(resp.body.error).to.contain("over 65536 bytes")
+        expect((await request("GET")).status).to.eq(200)
+    })
+
+    it("rejects", async() => {
+        const now = (await ethers.provider.getBlock("latest")).timestamp
+
+        let resp = await request("POST", await sign(1000, 10, { deadline: now, nonce: 0 }))
+        expect(resp.body.error).to.contain("expired")
+
+        resp = await request("POST", await sign(1000, 10, { relayer: accts[2].address, nonce: 0 }))
+        expect(resp.body.error).to.contain("requires relayer")
+
+        // Disburses more than the surplus balance
+        resp = await request("POST", await sign(10000000, 10, { nonce: 0 }))
+        expect(resp.status).to.eq(400)
+        expect(resp.body.error).to.contain("reverts")
+
+        const forged = { ...(await sign(1000, 10, { nonce: 0 })), signer: accts[3].address }
+        expect((await request("POST", forged)).body.error).to.contain("not " + accts[3].address)
+
+        resp = await request("POST", { callpath: 3, cmd: "0x12" })
+        expect(resp.body.error).to.contain("Malformed")
+        expect((await request("GET")).body).to.deep.eq([])
+    })
+
+    it("drops expired and stale", async() => {
+        const now = (await ethers.provider.getBlock("latest")).timestamp
+        await request("POST", await sign(1000, 10, { deadline: now + 100, alive: now + 50, salt: "0x01" }))
+        const stale = await sign(1000, 10, { salt: "0x02" })
+        await request("POST", stale)
+
+        // Relayed by someone else before this relayer gets to it
+        await dex.connect(accts[2]).userCmdRelayer(stale.callpath, stale.cmd, stale.conds, stale.tip,
+            stale.signature)
+        await ethers.provider.send("evm_increaseTime", [200])
+        await ethers.provider.send("evm_mine", [])
+
+        const results = await mempool.process()
+        expect(results.map(r => r.status).sort()).to.deep.eq(["expired", "stale"])
+        expect(mempool.entries).to.deep.eq([])
+    })
+})
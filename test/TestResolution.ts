@@ -0,0 +1,141 @@
+import { TestPool, makeTokenPool } from './FacadePool'
+import { expect } from "chai";
+import "@nomiclabs/hardhat-ethers";
+import { ethers } from 'hardhat';
+import { solidity } from "ethereum-waffle";
+import chai from "chai";
+import { Wallet, Signer } from 'ethers';
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { CrocPolicy, CrocSwapDex, TimelockAccepts } from '../typechain';
+import { CrocAddrs } from '../misc/constants/addrs';
+import { opsResolution } from '../misc/libs/governance';
+import { readResolutionFile, replayResolution, ResolutionCheck, ResolutionFile, signOffResolution,
+    verifyResolution } from '../misc/libs/resolution';
+import { authTransferCmd, poolTemplateCmd } from '../misc/sdk/commands';
+import { expectRejects } from './Rejects';
+
+chai.use(solidity);
+
+describe('Governance Resolution File', () => {
+    let test: TestPool
+    let dex: CrocSwapDex
+    let policy: CrocPolicy
+    let timelock: TimelockAccepts
+    let accts: Wallet[]
+    let multisig: string
+    let addrs: CrocAddrs
+    let file: ResolutionFile
+
+    const DELAY = 30
+
+    beforeEach("deploy", async () => {
+        test = await makeTokenPool()
+        dex = await test.dex
+        accts = (await (ethers.getSigners() as Promise<Signer[]>)) as unknown as Wallet[]
+        multisig = accts[4].address
+        const auth = await test.auth
+
+        let factory = await ethers.getContractFactory("CrocPolicy");
+        policy = (await factory.deploy(dex.address, await auth.getAddress())) as CrocPolicy;
+        const transfer = authTransferCmd(policy.address)
+        await dex.connect(auth).protocolCmd(transfer.callpath, transfer.protocolCmd, true)
+
+        factory = await ethers.getContractFactory("TimelockAccepts");
+        timelock = (await factory.deploy(DELAY, [multisig], [multisig])) as TimelockAccepts;
+        await policy.connect(auth).transferGovernance(timelock.address, timelock.address, timelock.address)
+
+        const govern = { multisigOps: multisig, multisigTreasury: multisig, multisigEmergency: multisig,
+            timelockOps: timelock.address, timelockTreasury: timelock.address,
+            timelockEmergency: timelock.address }
+        addrs = { dex: dex.address, cold: "", warm: "", long: "", micro: "", hot: "", knockout: "",
+            koCross: "", policy: policy.address, query: "", impact: "", shell: "", policyShell: "",
+            deployer: "", govern }
+
+        const outFile = path.join(os.tmpdir(), `resolution-${Date.now()}.json`)
+        await opsResolution(addrs, poolTemplateCmd({ poolIdx: 5000, feeRate: 300, tickSize: 8,
+            jitThresh: 0, knockoutBits: 0 }), DELAY, "Add 5000 pool template", outFile)
+        file = readResolutionFile(outFile)
+    })
+
+    function failed (checks: ResolutionCheck[]): string[] {
+        return checks.filter(c => !c.ok).map(c => c.check)
+    }
+
+    function status (checks: ResolutionCheck[]): string {
+        return checks.filter(c => c.check === "operation status")[0].detail
+    }
+
+    it("file contents", async() => {
+        expect(file.description).to.eq("Add 5000 pool template")
+        expect(file.resolutionType).to.eq("ops")
+        expect(file.chainId).to.eq((await ethers.provider.getNetwork()).chainId)
+        expect(file.decoded.proxyPath).to.eq("ColdPath")
+        expect(file.decoded.command).to.eq("PoolTemplate")
+        expect(file.decoded.code).to.eq(110)
+        expect(file.decoded.fields.map(f => f.value)).to.deep.eq(["5000", "300", "8", "0", "0", "0"])
+        expect(file.timelock.delay).to.eq(DELAY)
+        expect(file.timelock.operationId).to.eq(await timelock.hashOperation(policy.address, 0,
+            file.policyCalldata, file.timelock.predecessor, file.timelock.salt))
+        expect(file.signoffs.length).to.eq(0)
+    })
+
+    it("verify", async() => {
+        let checks = await verifyResolution(file, ethers.provider)
+        expect(failed(checks)).to.deep.eq([])
+        expect(status(checks)).to.eq("unscheduled")
+    })
+
+    it("sign off", async() => {
+        file = await signOffResolution(file, accts[5])
+        file = await signOffResolution(file, accts[6])
+        expect(file.signoffs.map(s => s.signer)).to.deep.eq([accts[5].address, accts[6].address])
+        expect(failed(await verifyResolution(file, ethers.provider))).to.deep.eq([])
+        await expectRejects(signOffResolution(file, accts[5]), "already signed off")
+    })
+
+    it("old resolution files", async() => {
+        expect(file.version).to.eq(2)
+        const outFile = path.join(os.tmpdir(), `resolution-v1-${Date.now()}.json`)
+        fs.writeFileSync(outFile, JSON.stringify({ ...file, version: 1 }))
+        expect(() => readResolutionFile(outFile)).to.throw("predates the current decoded command format")
+    })
+
+    it("tampered file", async() => {
+        file = await signOffResolution(file, accts[5])
+        let tampered = { ...file, timelock: { ...file.timelock, delay: 1 } }
+        expect(failed(await verifyResolution(tampered, ethers.provider))).to.deep.eq(
+            ["schedule calldata", `sign-off ${accts[5].address}`, "timelock delay"])
+    })
+
+    it("wrong authority", async() => {
+        let factory = await ethers.getContractFactory("TimelockAccepts");
+        let other = (await factory.deploy(DELAY, [multisig], [multisig])) as TimelockAccepts;
+        const wrongLock = { ...file.timelock, timelockAddr: other.address }
+        let checks = await verifyResolution({ ...file, timelock: wrongLock }, ethers.provider)
+        expect(failed(checks)).to.deep.eq(["policy authority"])
+    })
+
+    it("replay", async() => {
+        let result = await replayResolution(file)
+        expect(result.scheduleReceipt).to.not.be.undefined
+        expect(result.events.map(e => e.name)).to.deep.eq(["SetPoolTemplate"])
+
+        let templ = await (await test.query).queryPoolTemplate(5000)
+        expect(templ.feeRate_).to.eq(300)
+        expect(templ.tickSize_).to.eq(8)
+
+        expect(status(await verifyResolution(file, ethers.provider))).to.eq("done")
+        await expectRejects(replayResolution(file), "already been executed")
+    })
+
+    it("replay scheduled", async() => {
+        await accts[4].sendTransaction({ to: timelock.address, data: file.timelock.scheduleCalldata })
+        expect(status(await verifyResolution(file, ethers.provider))).to.match(/^pending until/)
+
+        let result = await replayResolution(file)
+        expect(result.scheduleReceipt).to.be.undefined
+        expect(result.events.map(e => e.name)).to.deep.eq(["SetPoolTemplate"])
+    })
+})
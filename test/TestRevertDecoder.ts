@@ -0,0 +1,188 @@
+import { TestPool, makeTokenPool } from './FacadePool'
+import { expect } from "chai";
+import "@nomiclabs/hardhat-ethers";
+import { ethers } from 'hardhat';
+import { solidity } from "ethereum-waffle";
+import chai from "chai";
+import fs from "fs";
+import path from "path";
+import { BigNumber } from 'ethers';
+import { claimKnockoutCmd, COLD_PROXY_IDX, depositSurplusCmd, mintKnockoutCmd, mintRangeCmd,
+    MULTICALL_PROXY_IDX, swapCmd } from '../misc/sdk/commands';
+import { decodeUserCmd, formatUserCmd } from '../misc/sdk/userCmdDecoder';
+import { CROC_ERROR_MESSAGES, CrocRevertError, decodeRevert, describeError, describeRevertReason,
+    extractRevertReason, isCrocRevertError } from '../misc/sdk/revertDecoder';
+import { expectRejects } from './Rejects';
+
+chai.use(solidity);
+
+// The last string literal in every require() and revert() call under contracts/
+function contractRevertStrings (dir: string): string[] {
+    let found: string[] = []
+    fs.readdirSync(dir).forEach(name => {
+        const file = path.join(dir, name)
+        if (fs.statSync(file).isDirectory()) {
+            found = found.concat(contractRevertStrings(file))
+        } else if (name.endsWith(".sol")) {
+            const src = fs.readFileSync(file, "utf8").replace(/\/\/[^\n]*/g, "")
+            const calls = /\b(require|revert)\s*\(/g
+            let match: RegExpExecArray | null
+            while ((match = calls.exec(src)) !== null) {
+                const literal = callArgs(src, calls.lastIndex).trim().match(/"([^"]*)"$/)
+                if (literal !== null) { found.push(literal[1]) }
+            }
+        }
+    })
+    return found
+}
+
+// Text up to the parenthesis that closes the call, skipping string literals
+function callArgs (src: string, start: number): string {
+    let depth = 1
+    let i = start
+    while (depth > 0 && i < src.length) {
+        if (src[i] === '"') {
+            i = src.indexOf('"', i + 1)
+        } else if (src[i] === '(') {
+            depth += 1
+        } else if (src[i] === ')') {
+            depth -= 1
+        }
+        i += 1
+    }
+    return src.slice(start, i - 1)
+}
+
+describe('Revert Decoder', () => {
+    const base = "0x0000000000000000000000000000000000000000"
+    const quote = "0x5FbDB2315678afecb367f032d93F642f64180aa3"
+    const recv = "0xAaAaAAAaA24eEeb8d57D431224f73832bC34f688"
+
+    it("covers every contract revert string", async() => {
+        const strings = contractRevertStrings(path.join(__dirname, "../contracts"))
+        expect(strings.length).to.be.gt(100)
+        const missing = strings.filter(s => CROC_ERROR_MESSAGES[s] === undefined)
+        expect(missing.filter((s, i) => missing.indexOf(s) === i)).to.deep.eq([])
+    })
+
+    it("extracts reasons", async() => {
+        const errorData = ethers.utils.hexConcat(["0x08c379a0",
+            new ethers.utils.AbiCoder().encode(["string"], ["TF"])])
+        const panicData = ethers.utils.hexConcat(["0x4e487b71",
+            new ethers.utils.AbiCoder().encode(["uint256"], [0x12])])
+
+        expect(extractRevertReason(new Error(
+            "VM Exception while processing transaction: reverted with reason string 'K'"))).to.eq("K")
+        expect(extractRevertReason({ message: "cannot estimate gas",
+            error: { message: "execution reverted: SL" } })).to.eq("SL")
+        expect(extractRevertReason({ error: { data: errorData } })).to.eq("TF")
+        expect(extractRevertReason({ error: { error: { data: { data: panicData } } } })).to.eq("Panic(0x12)")
+        expect(extractRevertReason({ code: "CALL_EXCEPTION", errorName: "Error", errorArgs: ["D"] })).to.eq("D")
+        expect(extractRevertReason(new Error("VM Exception while processing transaction: " +
+            "reverted with panic code 0x11 (Arithmetic operation underflowed or overflowed)"))).to.eq("Panic(0x11)")
+        expect(extractRevertReason(new Error("Transaction reverted without a reason string"))).to.eq("")
+        expect(extractRevertReason(new Error("nonce too low"))).to.be.undefined
+        expect(extractRevertReason(undefined)).to.be.undefined
+    })
+
+    it("describes reasons", async() => {
+        expect(describeRevertReason("K")).to.eq("Settle flow below required qty")
+        expect(describeRevertReason("Sudo")).to.eq("Command requires sudo privilege")
+        expect(describeRevertReason("Panic(0x11)")).to.eq("Arithmetic overflow or underflow")
+        expect(describeRevertReason("")).to.eq("Reverted without a reason string")
+        expect(describeRevertReason("Some other reason")).to.eq("Some other reason")
+
+        expect(describeError(new Error("execution reverted: SL"), 1))
+            .to.eq('reverted on HotProxy with "SL": Swap output exceeds slippage')
+        expect(describeError(new Error("nonce too low"))).to.eq("nonce too low")
+    })
+
+    it("decodes user commands", async() => {
+        let cmd = decodeUserCmd(1, swapCmd({ base, quote, poolIdx: 36000, isBuy: true, inBaseQty: false,
+            qty: 5000, limitPrice: BigNumber.from(2).pow(64), minOutput: 0, reserveFlags: 2 }).cmd)
+        expect(cmd.command).to.eq("Swap")
+        expect(cmd.code).to.be.undefined
+        expect(cmd.fields.map(f => f.value)).to.deep.eq(
+            [base, quote, "36000", "true", "false", "5000", "0", BigNumber.from(2).pow(64).toString(), "0", "2"])
+        expect(cmd.fields[7].note).to.eq("price 1.00000")
+        expect(cmd.fields[9].note).to.eq("settles quote with surplus collateral")
+
+        const mint = mintRangeCmd({ base, quote, poolIdx: 36000, lowTick: -100, highTick: 100, qty: 2048,
+            limitLower: 0, limitHigher: 0 })
+        cmd = decodeUserCmd(mint.callpath, mint.cmd)
+        expect(cmd.proxyPath).to.eq("WarmPath")
+        expect(cmd.command).to.eq("MintRangeLiq")
+        expect(cmd.fields.filter(f => f.name === "lowTick")[0].value).to.eq("-100")
+
+        const knockout = mintKnockoutCmd({ base, quote, poolIdx: 36000, lowTick: 0, highTick: 64,
+            isBid: true, qty: 5000, insideMid: false })
+        cmd = decodeUserCmd(knockout.callpath, knockout.cmd)
+        expect(cmd.command).to.eq("MintKnockout")
+        expect(cmd.fields.slice(-2).map(f => f.name + "=" + f.value)).to.deep.eq(["qty=5000", "insideMid=false"])
+
+        const claim = claimKnockoutCmd({ base, quote, poolIdx: 36000, lowTick: 0, highTick: 64,
+            isBid: true, root: 7, proof: [1, 2] })
+        cmd = decodeUserCmd(claim.callpath, claim.cmd)
+        expect(cmd.fields.slice(-1)[0].value).to.eq("[1, 2]")
+
+        const deposit = depositSurplusCmd(recv, 100, base)
+        expect(formatUserCmd(decodeUserCmd(deposit.callpath, deposit.cmd))).to.deep.eq([
+            "userCmd DepositSurplus (code 73) on ColdPath",
+            `  recv (address): ${recv}`,
+            "  value (uint128): 100",
+            `  token (address): ${base} -- native ETH`])
+    })
+
+    it("unknown user commands", async() => {
+        const abi = new ethers.utils.AbiCoder()
+        let cmd = decodeUserCmd(COLD_PROXY_IDX, abi.encode(["uint8", "uint256"], [99, 5]))
+        expect(cmd.known).to.be.false
+        expect(cmd.command).to.eq("Unknown command 99")
+        expect(cmd.fields[0].value).to.eq(ethers.utils.hexZeroPad("0x05", 32))
+
+        cmd = decodeUserCmd(MULTICALL_PROXY_IDX, abi.encode(["uint8"], [2]))
+        expect(cmd.known).to.be.false
+        expect(cmd.proxyPath).to.eq("Multicall")
+
+        expect(() => decodeUserCmd(COLD_PROXY_IDX, abi.encode(["uint8"], [73])))
+            .to.throw("Malformed DepositSurplus command")
+    })
+
+    it("wraps reverts", async() => {
+        const cmd = depositSurplusCmd(recv, 100, base)
+        const cause = new Error("VM Exception while processing transaction: reverted with reason string 'EC'")
+        const err = decodeRevert(cause, { method: "userCmd", callpath: cmd.callpath, cmd: cmd.cmd })
+
+        expect(isCrocRevertError(err)).to.be.true
+        expect(err?.reason).to.eq("EC")
+        expect(err?.proxyPath).to.eq("ColdPath")
+        expect(err?.command?.command).to.eq("DepositSurplus")
+        expect(err?.cause).to.eq(cause)
+        const lines = (err as CrocRevertError).message.split("\n")
+        expect(lines[0]).to.eq('userCmd() on ColdPath reverted with "EC": Insufficient ether sent')
+        expect(lines[1]).to.eq("  userCmd DepositSurplus (code 73) on ColdPath")
+        expect(lines[lines.length - 1]).to.eq("  " + cause.message)
+
+        expect(decodeRevert(err, { method: "protocolCmd" })).to.eq(err)
+        expect(decodeRevert(new Error("nonce too low"), { method: "userCmd" })).to.be.undefined
+    })
+
+    it("translates dex reverts", async() => {
+        const test: TestPool = await makeTokenPool()
+        await test.initPool(225 * 100, 0, 1, 1.5)
+        const trader = await test.trader
+        const token = (await test.base).address
+
+        const err = await expectRejects(test.testDisburse(trader, recv, 1000000, token),
+            'reverted with "SC": Insufficient surplus collateral')
+        expect(isCrocRevertError(err)).to.be.true
+        const revert = err as CrocRevertError
+        expect(revert.reason).to.eq("SC")
+        expect(revert.method).to.eq("userCmd")
+        expect(revert.callpath).to.eq(COLD_PROXY_IDX)
+        expect(revert.command?.command).to.eq("DisburseSurplus")
+        expect(revert.message).to.contain(`recv (address): ${recv}`)
+
+        await expect(test.testDisburse(trader, recv, 1000000, token)).to.be.reverted
+    })
+})
@@ -0,0 +1,110 @@
+import { ERC20Token, makeTokenPool } from './FacadePool'
+import { expect } from "chai";
+import "@nomiclabs/hardhat-ethers";
+import { BigNumber, Wallet } from 'ethers';
+import fs from "fs";
+import path from "path";
+import { LiquidityStep, parseScenario, readScenario, runScenario, Scenario, ScenarioStep } from './Scenario';
+
+describe('Scenarios', () => {
+    const DIR = path.join(__dirname, "scenarios")
+
+    fs.readdirSync(DIR).filter(f => f.endsWith(".json")).sort().forEach(file => {
+        const scenario = readScenario(path.join(DIR, file))
+        if (scenario.fork) { return }
+
+        it(`replay ${file}`, async() => {
+            const result = await runScenario(scenario)
+            const failed = result.steps.reduce((acc: string[], s) => acc.concat(s.checks
+                .filter(c => !c.ok).map(c => `step ${s.index} ${s.op} ${c.check}: ${c.detail}`)), [])
+            expect(failed).to.deep.eq([])
+            expect(result.ok).to.be.true
+        })
+    })
+
+    it("failed expectations", async() => {
+        const result = await runScenario({ name: "fails", steps: [
+            { op: "initPool", price: 1.5 },
+            { op: "mint", liq: 10000, expect: { liquidity: 10000, baseFlow: "1" } },
+            { op: "mint", liq: 1000, expect: { reverts: true } },
+            { op: "burn", liq: 11000, expect: { liquidity: 0 } },
+        ] })
+
+        expect(result.ok).to.be.false
+        expect(result.steps.map(s => s.ok)).to.deep.eq([true, false, false, true])
+        expect(result.steps[1].checks.map(c => c.check)).to.deep.eq(["baseFlow", "liquidity"])
+        expect(result.steps[1].checks[1].detail).to.eq("10240000, expected 10000")
+    })
+
+    it("stops on unexpected revert", async() => {
+        const result = await runScenario({ name: "reverts", steps: [
+            { op: "initPool", price: 1.5 },
+            { op: "burn", liq: 10000, lower: 3000, upper: 5000 },
+            { op: "mint", liq: 10000 },
+        ] })
+
+        expect(result.ok).to.be.false
+        expect(result.steps.length).to.eq(2)
+        expect(result.steps[1].checks[0].check).to.eq("reverts")
+    })
+
+    it("surplus", async() => {
+        // The base bought is credited to surplus collateral rather than the wallet. The
+        // trader has no quote collateral, so the quote is still paid from the wallet.
+        const steps: ScenarioStep[] = [
+            { op: "initPool", price: 1.5 },
+            { op: "mint", liq: 10000 },
+            { op: "swap", isBuy: false, qty: 10000, limitPrice: 1.0, surplus: true,
+              expect: { baseFlow: 0, quoteFlow: 6826, surplus: { base: 10000, quote: 0 } } },
+            { op: "collectSurplus", base: 10000, expect: { baseFlow: -10000, surplus: { base: 0 } } },
+        ]
+        expect((await runScenario({ name: "surplus", steps })).ok).to.be.true
+        expect((await runScenario({ name: "surplus hot path", hotPath: true, steps })).ok).to.be.true
+    })
+
+    it("fork of the local chain", async() => {
+        // An existing pool, traded from an account that already holds the tokens
+        const pool = await makeTokenPool()
+        await pool.initPool(225 * 100, 0, 1, 1.5)
+        await pool.testMintAmbient(10000)
+        const base = await pool.base as ERC20Token
+        const quote = await pool.quote as ERC20Token
+        const holder = Wallet.createRandom().address
+        await base.contract.deposit(holder, 1000000)
+        await quote.contract.deposit(holder, 1000000)
+
+        const result = await runScenario({ name: "local fork", fork: { chain: "mock",
+            dex: (await pool.dex).address, base: base.address, quote: quote.address,
+            poolIdx: BigNumber.from(pool.poolIdx).toNumber(), trader: holder }, steps: [
+            { op: "swap", isBuy: true, qty: 10000, limitPrice: 2.0, expect: { baseFlow: 10000 } },
+            { op: "mint", liq: 10, lower: 3200, upper: 5000 }
+        ] })
+        expect(result.steps.map(s => s.checks.filter(c => !c.ok))).to.deep.eq([[], []])
+        expect(result.ok).to.be.true
+        expect(await base.balanceOf(holder)).to.be.lt(1000000 - 10000)
+        expect(await quote.balanceOf(holder)).to.be.gt(1000000)
+    })
+
+    it("parse errors", async() => {
+        const parse = (raw: any) => () => parseScenario(raw, "test")
+        const steps = [{ op: "initPool", price: 1.5 }]
+
+        expect(parse({ steps })).to.throw("name must be a string")
+        expect(parse({ name: "x", steps: [] })).to.throw("non-empty")
+        expect(parse({ name: "x", steps, color: "red" })).to.throw("unknown field color")
+        expect(parse({ name: "x", steps: [{ op: "flip" }] })).to.throw("unknown op flip")
+        expect(parse({ name: "x", steps: [{ op: "initPool" }] })).to.throw("initPool needs price")
+        expect(parse({ name: "x", steps: [{ op: "mint", liq: 1.5 }] })).to.throw("liq must be an integer")
+        expect(parse({ name: "x", steps: [{ op: "mint", liq: 1, lower: 10 }] })).to.throw("both lower and upper")
+        expect(parse({ name: "x", steps: [{ op: "swap", isBuy: true, qty: 1, limitPrice: 1, from: "bob" }] }))
+            .to.throw("trader or other")
+        expect(parse({ name: "x", steps: [{ op: "initPool", price: 1, expect: { tvl: 1 } }] }))
+            .to.throw("step 1 expect has unknown field tvl")
+        expect(parse({ name: "x", steps: [{ op: "collectSurplus" }] })).to.throw("needs base or quote")
+        expect(parse({ name: "x", steps, fork: { chain: "mainnet" } })).to.throw("fork.base is required")
+
+        const scenario: Scenario = parseScenario({ name: "x", steps: [{ op: "mint", liq: "1000000000000000000000",
+            lower: -100, upper: 100, expect: { surplus: { quote: "-5" } } }] }, "test")
+        expect((scenario.steps[0] as LiquidityStep).liq).to.eq("1000000000000000000000")
+    })
+})
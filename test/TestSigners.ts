@@ -0,0 +1,170 @@
+import { expect } from "chai";
+import "@nomiclabs/hardhat-ethers";
+import { ethers } from 'hardhat';
+import fs from "fs";
+import http from "http";
+import { AddressInfo } from "net";
+import os from "os";
+import path from "path";
+import { BigNumber, Wallet } from 'ethers';
+import { openSigner, readUnsignedTxs, RemoteRpcSigner, signerFromArgs, UnsignedTxSigner } from '../misc/libs/signers';
+import { expectRejects } from './Rejects';
+
+describe('Signers', () => {
+    const KEY = "0x59c6995e998f97a5a0044966f0945389dc9e86dae88c7a8412f4603b6b78690d"
+    let dir: string
+
+    beforeEach("tmp dir", async () => {
+        dir = fs.mkdtempSync(path.join(os.tmpdir(), "signers-"))
+    })
+
+    async function fundedWallet(): Promise<Wallet> {
+        const wallet = Wallet.createRandom().connect(ethers.provider)
+        await ethers.provider.send("hardhat_setBalance", [wallet.address, "0xde0b6b3a7640000"])
+        return wallet
+    }
+
+    // Stand-in for a remote signer like Clef, holding one key. Tamper rewrites the transaction
+    // before it's signed
+    function remoteSigner (wallet: Wallet, tamper: (tx: any) => any = tx => tx): Promise<http.Server> {
+        const server = http.createServer((req, res) => {
+            let body = ""
+            req.on("data", chunk => body += chunk)
+            req.on("end", async () => {
+                const call = JSON.parse(body)
+                let result: any
+                if (call.method === "eth_accounts") {
+                    result = [wallet.address.toLowerCase()]
+                } else if (call.method === "personal_sign") {
+                    result = await wallet.signMessage(ethers.utils.arrayify(call.params[0]))
+                } else if (call.method === "eth_signTransaction") {
+                    const tx = call.params[0]
+                    let unsigned: any = { to: tx.to, data: tx.data, value: tx.value,
+                        nonce: BigNumber.from(tx.nonce).toNumber(), gasLimit: tx.gas,
+                        chainId: BigNumber.from(tx.chainId).toNumber() }
+                    if (tx.type) { unsigned.type = Number(tx.type) }
+                    if (tx.gasPrice) { unsigned.gasPrice = tx.gasPrice }
+                    if (tx.maxFeePerGas) { unsigned.maxFeePerGas = tx.maxFeePerGas }
+                    if (tx.maxPriorityFeePerGas) { unsigned.maxPriorityFeePerGas = tx.maxPriorityFeePerGas }
+                    result = { raw: await wallet.signTransaction(tamper(unsigned)), tx }
+                }
+                res.end(JSON.stringify({ jsonrpc: "2.0", id: call.id, result }))
+            })
+        })
+        return new Promise(resolve => server.listen(0, "127.0.0.1", () => resolve(server)))
+    }
+
+    function url (server: http.Server): string {
+        return `http://127.0.0.1:${(server.address() as AddressInfo).port}`
+    }
+
+    it("env key", async() => {
+        const signer = openSigner({}, ethers.provider, { WALLET_KEY: KEY })
+        expect(await signer.getAddress()).to.eq(new Wallet(KEY).address)
+        expect(signer.provider).to.eq(ethers.provider)
+
+        expect(() => openSigner({}, undefined, {})).to.throw("WALLET_KEY")
+        expect(() => openSigner({ signer: KEY }, undefined, {})).to.throw("Raw private keys")
+        expect(() => openSigner({ signer: KEY.slice(2) }, undefined, {})).to.throw("Raw private keys")
+        expect(() => openSigner({ signer: "trezor" }, undefined, {})).to.throw("Unknown signer trezor")
+    })
+
+    it("keystore", async() => {
+        const wallet = new Wallet(KEY)
+        const file = path.join(dir, "key.json")
+        fs.writeFileSync(file, await wallet.encrypt("hunter2", { scrypt: { N: 1024 } }))
+
+        const signer = signerFromArgs({ signer: `keystore:${file}` }, ethers.provider, { KEYSTORE_PASSWORD: "hunter2" })
+        expect(await signer.getAddress()).to.eq(wallet.address)
+        expect(signer.provider).to.eq(ethers.provider)
+
+        const passwordFile = path.join(dir, "password")
+        fs.writeFileSync(passwordFile, "hunter2\n")
+        expect(await signerFromArgs({ signer: `keystore:${file}`, "keystore-password-file": passwordFile },
+            undefined, {}).getAddress()).to.eq(wallet.address)
+
+        expect(() => openSigner({ signer: `keystore:${file}` }, undefined, {})).to.throw("KEYSTORE_PASSWORD")
+        expect(() => openSigner({ signer: `keystore:${file}` }, undefined, { KEYSTORE_PASSWORD: "wrong" }))
+            .to.throw("invalid password")
+    })
+
+    it("remote rpc", async() => {
+        const wallet = await fundedWallet()
+        const server = await remoteSigner(wallet)
+        try {
+            const signer = openSigner({ signer: `rpc:${url(server)}` }, ethers.provider, {})
+            expect(signer).to.be.instanceOf(RemoteRpcSigner)
+            expect(await signer.getAddress()).to.eq(wallet.address)
+
+            const to = Wallet.createRandom().address
+            const receipt = await (await signer.sendTransaction({ to, value: 1000 })).wait()
+            expect(receipt.from).to.eq(wallet.address)
+            expect(await ethers.provider.getBalance(to)).to.eq(1000)
+
+            const sig = await signer.signMessage("hello")
+            expect(ethers.utils.verifyMessage("hello", sig)).to.eq(wallet.address)
+        } finally {
+            server.close()
+        }
+    })
+
+    it("remote rpc tampered", async() => {
+        const wallet = await fundedWallet()
+        const tampers: [string, (tx: any) => any][] = [
+            ["data", tx => ({ ...tx, data: "0x1234" })],
+            ["value", tx => ({ ...tx, value: 1 })],
+            ["nonce", tx => ({ ...tx, nonce: tx.nonce + 1 })],
+            ["chainId", tx => ({ ...tx, chainId: 1 })],
+            ["gasLimit", tx => ({ ...tx, gasLimit: BigNumber.from(tx.gasLimit).add(1) })]]
+
+        for (const [field, tamper] of tampers) {
+            const server = await remoteSigner(wallet, tamper)
+            try {
+                const signer = new RemoteRpcSigner(url(server), wallet.address, ethers.provider)
+                await expectRejects(signer.sendTransaction({ to: wallet.address, data: "0xabcd" }),
+                    `different transaction than requested: ${field} differs`)
+            } finally {
+                server.close()
+            }
+        }
+    })
+
+    it("unsigned export", async() => {
+        const wallet = await fundedWallet()
+        const file = path.join(dir, "txs.jsonl")
+        const signer = openSigner({ signer: `unsigned:${file}`, address: wallet.address }, ethers.provider, {})
+        expect(signer).to.be.instanceOf(UnsignedTxSigner)
+        expect(() => openSigner({ signer: `unsigned:${file}` }, ethers.provider, {})).to.throw("--signer-address")
+
+        const to = Wallet.createRandom().address
+        const first = await signer.sendTransaction({ to, value: 1000 })
+        await signer.sendTransaction({ to, value: 2000 })
+        expect(first.nonce).to.eq(0)
+
+        // Scripts carry on past an exported transaction, but nothing's mined
+        const receipt = await first.wait()
+        expect(receipt.transactionHash).to.eq(first.hash)
+        expect(receipt.status).to.be.undefined
+        expect(receipt.confirmations).to.eq(0)
+        expect(await ethers.provider.getBalance(to)).to.eq(0)
+
+        const deploy = await (await ethers.getContractFactory("MockERC20")).connect(signer).deploy()
+        expect((await deploy.deployed()).address).to.eq(
+            ethers.utils.getContractAddress({ from: wallet.address, nonce: 2 }))
+        expect(await ethers.provider.getCode(deploy.address)).to.eq("0x")
+
+        const txs = readUnsignedTxs(file)
+        expect(txs.map(t => t.nonce)).to.deep.eq([0, 1, 2])
+        expect(txs.map(t => BigNumber.from(t.value).toNumber())).to.deep.eq([1000, 2000, 0])
+        expect(JSON.parse(fs.readFileSync(file, "utf8").split("\n")[0]).from).to.eq(wallet.address.toLowerCase())
+
+        // Sign offline and broadcast
+        for (const tx of txs) {
+            await (await ethers.provider.sendTransaction(await wallet.signTransaction(tx))).wait()
+        }
+        expect(await ethers.provider.getBalance(to)).to.eq(3000)
+        expect(await ethers.provider.getCode(deploy.address)).to.not.eq("0x")
+
+        await expectRejects(signer.signMessage("hello"), "can't sign messages")
+    })
+})
@@ -0,0 +1,104 @@
+import { expect } from "chai";
+import "@nomiclabs/hardhat-ethers";
+import { artifacts, ethers } from 'hardhat';
+import { solidity } from "ethereum-waffle";
+import chai from "chai";
+import { Wallet, Signer } from 'ethers';
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { CrocAddrs } from '../misc/constants/addrs';
+import { treasuryResolution } from '../misc/libs/governance';
+import { checkUpgradeLayout, compareStorageLayouts, readStorageLayout, requireUpgradeLayout,
+    StorageVar } from '../misc/libs/storageLayout';
+import { COLD_PROXY_IDX, poolTemplateCmd, upgradeProxyCmd } from '../misc/sdk/commands';
+import { AUTHORITY_SLOT, CURVE_MAP_SLOT, PROXY_PATHS_SLOT } from '../misc/sdk/storageSlots';
+import { expectRejects } from './Rejects';
+
+chai.use(solidity);
+
+describe('Storage Layout', () => {
+    let accts: Wallet[]
+    let cold: StorageVar[]
+    const sources = { current: { contract: "ColdPath" }, proposed: { contract: "ColdPathUpgrade" } }
+
+    beforeEach("layout", async () => {
+        accts = (await (ethers.getSigners() as Promise<Signer[]>)) as unknown as Wallet[]
+        cold = await readStorageLayout({ contract: "ColdPath" })
+    })
+
+    function find (layout: StorageVar[], label: string): StorageVar {
+        return layout.filter(v => v.label === label)[0]
+    }
+
+    it("reads layout", async() => {
+        expect(find(cold, "proxyPaths_").slot).to.eq(PROXY_PATHS_SLOT)
+        expect(find(cold, "authority_").slot).to.eq(AUTHORITY_SLOT)
+        expect(find(cold, "curves_").slot).to.eq(CURVE_MAP_SLOT)
+        expect(find(cold, "curves_").type).to.contain("struct CurveMath.CurveState")
+        expect(find(cold, "curves_").contract).to.match(/:StorageLayout$/)
+    })
+
+    it("compatible upgrade", async() => {
+        const check = await checkUpgradeLayout(upgradeProxyCmd(accts[1].address, COLD_PROXY_IDX), sources)
+        expect(check.proxy).to.eq(accts[1].address)
+        expect(check.proxyPath).to.eq("ColdPath")
+        expect(check.conflicts).to.deep.eq([])
+        expect(check.appended).to.deep.eq([])
+
+        await expectRejects(checkUpgradeLayout(poolTemplateCmd({ poolIdx: 5000, feeRate: 300,
+            tickSize: 8, jitThresh: 0, knockoutBits: 0 }), sources), "isn't a proxy upgrade")
+    })
+
+    it("detects conflicts", async() => {
+        const proposed = cold
+            .filter(v => v.label !== "lockHolder_")
+            .map(v => v.label === "curves_" ? { ...v, slot: v.slot + 1 } :
+                v.label === "authority_" ? { ...v, type: "uint160" } : v)
+            .concat([{ label: "extra_", contract: "contracts/callpaths/ColdPath.sol:ColdPath",
+                slot: 0, offset: 0, numberOfBytes: 32, type: "uint256" }])
+
+        const { conflicts, appended } = compareStorageLayouts(cold, proposed)
+        expect(appended).to.deep.eq(["extra_"])
+        expect(conflicts.map(c => `${c.kind} ${c.label}`)).to.include.members(["removed lockHolder_",
+            "shifted curves_", "retyped authority_", "overlap extra_", "outside extra_"])
+    })
+
+    it("archived build info", async() => {
+        const buildInfo = JSON.parse(JSON.stringify(await artifacts.getBuildInfo(
+            "contracts/callpaths/ColdPath.sol:ColdPath")))
+        const storage = buildInfo.output.contracts["contracts/callpaths/ColdPath.sol"].ColdPath
+            .storageLayout.storage
+        storage.filter((v: any) => v.label === "curves_")[0].slot = "70000"
+        const file = path.join(os.tmpdir(), `build-info-${Date.now()}.json`)
+        fs.writeFileSync(file, JSON.stringify(buildInfo))
+
+        const archived = await readStorageLayout({ contract: "ColdPath", buildInfo: file })
+        expect(find(archived, "curves_").slot).to.eq(70000)
+        const check = await checkUpgradeLayout(upgradeProxyCmd(accts[1].address, COLD_PROXY_IDX),
+            { ...sources, current: { contract: "ColdPath", buildInfo: file } })
+        expect(check.conflicts.map(c => `${c.kind} ${c.label}`)).to.deep.eq(["shifted curves_"])
+
+        await expectRejects(readStorageLayout({ contract: "NoSuchPath", buildInfo: file }), "No contract")
+    })
+
+    it("refuses resolution", async() => {
+        const govern = { multisigOps: accts[4].address, multisigTreasury: accts[4].address,
+            multisigEmergency: accts[4].address, timelockOps: accts[5].address,
+            timelockTreasury: accts[5].address, timelockEmergency: accts[5].address }
+        const addrs: CrocAddrs = { dex: accts[6].address, cold: "", warm: "", long: "", micro: "",
+            hot: "", knockout: "", koCross: "", policy: accts[7].address, query: "", impact: "",
+            shell: "", policyShell: "", deployer: "", govern }
+        const upgrade = upgradeProxyCmd(accts[1].address, COLD_PROXY_IDX)
+
+        await expectRejects(treasuryResolution(addrs, upgrade, 30, "Upgrade cold path"),
+            "need the current and proposed")
+        await expectRejects(treasuryResolution(addrs, upgrade, 30, "Upgrade cold path", undefined,
+            { ...sources, proposed: { contract: "MockERC20" } }), "conflicts with ColdPath")
+
+        // Other commands don't need a layout check
+        await requireUpgradeLayout(poolTemplateCmd({ poolIdx: 5000, feeRate: 300, tickSize: 8,
+            jitThresh: 0, knockoutBits: 0 }))
+        await requireUpgradeLayout(upgrade, sources)
+    })
+})
@@ -0,0 +1,135 @@
+import { TestPool, makeTokenPool, Token } from './FacadePool'
+import { expect } from "chai";
+import "@nomiclabs/hardhat-ethers";
+import { ethers } from 'hardhat';
+import { solidity } from "ethereum-waffle";
+import chai from "chai";
+import { Wallet, Signer } from 'ethers';
+import { CrocQuery, CrocSwapDex } from '../typechain';
+import { approveRouterCmd, COLD_PROXY_IDX, LP_PROXY_IDX, resetNonceCmd, SWAP_PROXY_IDX } from '../misc/sdk/commands';
+import { readAgentApprovals, readAmbientPositions, readCurves, readLevels, readNonces,
+    readPoolSpecs, readRangePositions, readSurplus, readTemplates, slotAddress, storageAtReader,
+    AUTHORITY_SLOT, PROXY_PATHS_SLOT } from '../misc/sdk/storageSlots';
+import { SlotReader } from '../misc/sdk/swapSimulator';
+
+chai.use(solidity);
+
+describe('Storage Slots', () => {
+    let test: TestPool
+    let dex: CrocSwapDex
+    let query: CrocQuery
+    let baseToken: Token
+    let quoteToken: Token
+    let accts: Wallet[]
+    let pool: { base: string, quote: string, poolIdx: number }
+    const feeRate = 225 * 100
+
+    beforeEach("deploy", async () => {
+        test = await makeTokenPool()
+        baseToken = await test.base
+        quoteToken = await test.quote
+        dex = await test.dex
+        query = await test.query
+        accts = (await (ethers.getSigners() as Promise<Signer[]>)) as unknown as Wallet[]
+        pool = { base: baseToken.address, quote: quoteToken.address, poolIdx: test.poolIdx as number }
+
+        await test.initPool(feeRate, 0, 1, 1.5)
+        await test.testMint(-100, 100, 1000)
+        await test.testMintAmbient(5000)
+        await test.collectSurplus(accts[0].address, -100000, -2500000)
+    })
+
+    // The same checks have to pass reading through the dex and through eth_getStorageAt
+    const readers: [string, () => SlotReader][] = [
+        ["readSlot", () => dex],
+        ["eth_getStorageAt", () => storageAtReader(ethers.provider, dex.address)]
+    ]
+
+    readers.forEach(([name, reader]) => {
+        it(`curves and specs ${name}`, async() => {
+            const [curve] = await readCurves(reader(), [pool])
+            const expected = await query.queryCurve(pool.base, pool.quote, pool.poolIdx)
+            expect(curve.priceRoot).to.eq(expected.priceRoot_)
+            expect(curve.ambientSeeds).to.eq(expected.ambientSeeds_)
+            expect(curve.concLiq).to.eq(expected.concLiq_)
+            expect(curve.seedDeflator).to.eq(expected.seedDeflator_)
+            expect(curve.concGrowth).to.eq(expected.concGrowth_)
+
+            const [templ] = await readTemplates(reader(), [pool.poolIdx])
+            const [specs] = await readPoolSpecs(reader(), [pool])
+            expect(templ.schema).to.eq(1)
+            expect(templ.feeRate).to.eq(feeRate)
+            expect(specs.feeRate).to.eq((await query.queryPoolParams(pool.base, pool.quote, pool.poolIdx)).feeRate_)
+            expect(specs.tickSize).to.eq(1)
+        })
+
+        it(`positions ${name}`, async() => {
+            const owner = accts[0].address
+            const [range] = await readRangePositions(reader(), [{ ...pool, owner, lowerTick: -100, upperTick: 100 }])
+            const expRange = await query.queryRangePosition(owner, pool.base, pool.quote, pool.poolIdx, -100, 100)
+            expect(range.liquidity).to.eq(expRange.liq)
+            expect(range.liquidity).to.eq(1000 * 1024)
+            expect(range.feeMileage).to.eq(expRange.fee)
+            expect(range.timestamp).to.eq(expRange.timestamp)
+            expect(range.atomic).to.eq(expRange.atomic)
+
+            const [amb] = await readAmbientPositions(reader(), [{ ...pool, owner }])
+            const expAmb = await query.queryAmbientPosition(owner, pool.base, pool.quote, pool.poolIdx)
+            expect(amb.seeds).to.eq(expAmb.seeds)
+            expect(amb.timestamp).to.eq(expAmb.timestamp)
+
+            const [lower, upper] = await readLevels(reader(), [{ ...pool, tick: -100 }, { ...pool, tick: 100 }])
+            expect(lower.bidLots).to.eq((await query.queryLevel(pool.base, pool.quote, pool.poolIdx, -100)).bidLots)
+            expect(upper.askLots).to.eq((await query.queryLevel(pool.base, pool.quote, pool.poolIdx, 100)).askLots)
+        })
+
+        it(`balances ${name}`, async() => {
+            const owner = accts[0].address
+            const surplus = await readSurplus(reader(), [{ owner, token: baseToken.address },
+                { owner, token: quoteToken.address }, { owner: accts[1].address, token: baseToken.address }])
+            expect(surplus[0]).to.eq(await query.querySurplus(owner, baseToken.address))
+            expect(surplus[0]).to.eq(100000)
+            expect(surplus[1]).to.eq(2500000)
+            expect(surplus[2]).to.eq(0)
+        })
+    })
+
+    it("router approvals", async() => {
+        const owner = accts[0].address
+        const router = accts[2].address
+        const approve = approveRouterCmd(router, 25, [SWAP_PROXY_IDX, LP_PROXY_IDX])
+        await dex.connect(accts[0]).userCmd(approve.callpath, approve.cmd)
+
+        const locs = [{ owner, agent: router, callpath: SWAP_PROXY_IDX },
+            { owner, agent: router, callpath: LP_PROXY_IDX },
+            { owner, agent: router, callpath: test.KNOCKOUT_PROXY },
+            { owner: accts[1].address, agent: router, callpath: SWAP_PROXY_IDX }]
+        expect(await readAgentApprovals(dex, locs)).to.deep.eq([25, 25, 0, 0])
+        expect(await readAgentApprovals(storageAtReader(ethers.provider, dex.address), locs))
+            .to.deep.eq([25, 25, 0, 0])
+    })
+
+    it("nonces", async() => {
+        const owner = accts[0].address
+        const reset = resetNonceCmd(ethers.utils.hexZeroPad("0x0f", 32), 42)
+        await dex.connect(accts[0]).userCmd(reset.callpath, reset.cmd)
+
+        const locs = [{ owner, salt: "0x0f" }, { owner, salt: "0x10" }]
+        expect(await readNonces(dex, locs)).to.deep.eq([42, 0])
+    })
+
+    it("slot addresses", async() => {
+        expect(slotAddress(await dex.readSlot(AUTHORITY_SLOT))).to.eq(await dex.authority())
+        const cold = slotAddress(await dex.readSlot(PROXY_PATHS_SLOT + COLD_PROXY_IDX))
+        expect(await ethers.provider.getCode(cold)).to.not.eq("0x")
+    })
+
+    it("pinned block", async() => {
+        const block = await ethers.provider.getBlockNumber()
+        await test.collectSurplus(accts[0].address, -5000, 0)
+
+        const loc = [{ owner: accts[0].address, token: baseToken.address }]
+        expect((await readSurplus(storageAtReader(ethers.provider, dex.address, block), loc))[0]).to.eq(100000)
+        expect((await readSurplus(storageAtReader(ethers.provider, dex.address), loc))[0]).to.eq(105000)
+    })
+})
@@ -0,0 +1,146 @@
+import { TestPool, makeTokenPool, Token, POOL_IDX } from './FacadePool'
+import { expect } from "chai";
+import "@nomiclabs/hardhat-ethers";
+import { ethers } from 'hardhat';
+import { MAX_PRICE, MIN_PRICE } from './FixedPoint';
+import { solidity } from "ethereum-waffle";
+import chai from "chai";
+import { BigNumber, BigNumberish } from 'ethers';
+import { CrocImpact } from '../typechain';
+import { PoolSnapshot, loadPoolSnapshot, simulateSwap } from '../misc/sdk/swapSimulator';
+
+chai.use(solidity);
+
+describe('Swap Simulator', () => {
+    let pool: TestPool
+    let test: CrocImpact
+    let baseToken: Token
+    let quoteToken: Token
+    const feeRate = 225 * 100
+
+    beforeEach("deploy",  async () => {
+       pool = await makeTokenPool()
+       baseToken = await pool.base
+       quoteToken = await pool.quote
+
+       pool.useHotPath = true
+       pool.liqQty = true
+       await pool.initPool(feeRate, 0, 1, 1.5)
+
+       let factory = await ethers.getContractFactory("CrocImpact")
+       test = await factory.deploy((await pool.dex).address) as CrocImpact
+    })
+
+    async function snapshot(): Promise<PoolSnapshot> {
+        return loadPoolSnapshot(await pool.dex, await pool.query,
+            baseToken.address, quoteToken.address, POOL_IDX)
+    }
+
+    async function checkImpact (qty: BigNumberish, isBuy: boolean, inBaseQty: boolean,
+        poolTip: number = 0) {
+        let limitPrice = isBuy ? MAX_PRICE : MIN_PRICE
+        let snap = await snapshot()
+        let sim = simulateSwap(snap, { isBuy, inBaseQty, qty, limitPrice, poolTip })
+        let slip = await test.calcImpact(baseToken.address, quoteToken.address, POOL_IDX,
+            isBuy, inBaseQty, qty, poolTip, limitPrice)
+
+        expect(sim.baseFlow).to.eq(slip.baseFlow)
+        expect(sim.quoteFlow).to.eq(slip.quoteFlow)
+        expect(sim.finalPrice).to.eq(slip.finalPrice)
+
+        if (poolTip === 0) {
+            await pool.testSwapB(isBuy, inBaseQty, BigNumber.from(qty), limitPrice)
+            expect(await pool.snapBaseFlow()).to.eq(sim.baseFlow)
+            expect(await pool.snapQuoteFlow()).to.eq(sim.quoteFlow)
+            expect(await pool.price()).to.eq(sim.finalPrice)
+            expect((await snapshot()).curve.concLiq).to.eq(sim.curve.concLiq)
+        }
+    }
+
+    it("load snapshot", async() => {
+        await pool.testMintAmbient(50000)
+        await pool.testMint(-300, 600, 5000)
+        await pool.testMint(4000, 4090, 5000)
+
+        let snap = await snapshot()
+        expect(snap.feeRate).to.eq(feeRate)
+        expect(snap.curve.priceRoot).to.eq(await pool.price())
+        expect(snap.levels.map(l => l.tick)).to.deep.eq([-300, 600, 4000, 4090])
+        expect(snap.levels[0].bidLots).to.gt(0)
+        expect(snap.levels[0].askLots).to.eq(0)
+        expect(snap.levels[1].bidLots).to.eq(0)
+        expect(snap.levels[1].askLots).to.eq(snap.levels[0].bidLots)
+    })
+
+    it("small buy", async() => {
+        await pool.testMintAmbient(50000)
+        await checkImpact(10000, true, true)
+    })
+
+    it("small sell", async() => {
+        await pool.testMintAmbient(50000)
+        await checkImpact(10000, false, true)
+    })
+
+    it("buy denom", async() => {
+        await pool.testMintAmbient(50000)
+        await checkImpact(10000, true, false)
+    })
+
+    it("sell denom", async() => {
+        await pool.testMintAmbient(50000)
+        await checkImpact(10000, false, false)
+    })
+
+    it("large swap", async() => {
+        await pool.testMintAmbient(50000)
+        await checkImpact(100000000, true, true)
+    })
+
+    it("bump ticks", async() => {
+        await pool.testMintAmbient(50000)
+        await pool.testMint(4000, 4090, 5000)
+        await pool.testMint(1500, 2000, 5000)
+        await checkImpact(28000000, false, true)
+    })
+
+    it("terminus border", async() => {
+        await pool.testMintAmbient(10000)
+        await pool.testMint(-300, 600, 50000)
+        await pool.testMint(-1500, 3000, 20000)
+        await checkImpact(100000000, false, false)
+    })
+
+    it("protocol take", async() => {
+        await pool.testRevisePool(feeRate, 128, 1)
+        await pool.testMintAmbient(50000)
+        await pool.testMint(3000, 5000, 10000)
+
+        let snap = await snapshot()
+        expect(snap.protocolTake).to.eq(128)
+        let sim = simulateSwap(snap, { isBuy: true, inBaseQty: false, qty: 5000000,
+            limitPrice: MAX_PRICE })
+        expect(sim.baseProto.add(sim.quoteProto)).to.gt(0)
+        await checkImpact(5000000, true, false)
+    })
+
+    it("pool tip", async() => {
+        await pool.testMintAmbient(50000)
+        await checkImpact(10000, true, true, 100 * 100)
+    })
+
+    it("limit price", async() => {
+        await pool.testMintAmbient(50000)
+        await pool.testMint(3000, 5000, 10000)
+        let snap = await snapshot()
+        let limitPrice = snap.curve.priceRoot.mul(11).div(10)
+
+        let sim = simulateSwap(snap, { isBuy: true, inBaseQty: true, qty: 100000000, limitPrice })
+        let slip = await test.calcImpact(baseToken.address, quoteToken.address, POOL_IDX,
+            true, true, 100000000, 0, limitPrice)
+        expect(sim.baseFlow).to.eq(slip.baseFlow)
+        expect(sim.quoteFlow).to.eq(slip.quoteFlow)
+        expect(sim.finalPrice).to.eq(slip.finalPrice)
+        expect(sim.finalPrice).to.lte(limitPrice)
+    })
+})
@@ -4,7 +4,9 @@ import chai from "chai";
 import "@nomiclabs/hardhat-ethers";
 import { ethers } from 'hardhat';
 import { solidity } from "ethereum-waffle";
-import { toFixedGrowth, toSqrtPrice, fromSqrtPrice } from './FixedPoint';
+import { toFixedGrowth, toSqrtPrice, fromSqrtPrice, MIN_TICK, MAX_TICK } from './FixedPoint';
+import { getSqrtRatioAtTick, getTickAtSqrtRatio, priceToTick, priceRangeToTicks,
+    floorToGrid, ceilToGrid, isOnGrid } from '../misc/sdk/tickMath';
 
 chai.use(solidity);
 
@@ -75,4 +77,61 @@ describe('Tick Math', () => {
         expect(math.testRatio((await math.minTick() - 1))).to.be.reverted
         expect(math.testRatio((await math.maxTick() + 1))).to.be.reverted
     })
-})
\ No newline at end of file
+
+    it("sdk matches contract", async() => {
+        let ticks = [0, 1, -1, 2, -2, 4055, -25000, 25000, 65535, -65536, 300001, -400001,
+            await math.minTick(), await math.maxTick(), await math.minTick() + 1, await math.maxTick() - 1]
+        for (let tick of ticks) {
+            let ratio = await math.testRatio(tick)
+            expect(getSqrtRatioAtTick(tick)).to.eq(ratio)
+            // The max tick's ratio is the exclusive upper bound of the price range
+            if (tick === await math.maxTick()) { continue }
+            expect(getTickAtSqrtRatio(ratio)).to.eq(tick)
+            expect(getTickAtSqrtRatio(ratio.add(1))).to.eq(await math.testTick(ratio.add(1)))
+            if (tick > await math.minTick()) {
+                expect(getTickAtSqrtRatio(ratio.sub(1))).to.eq(await math.testTick(ratio.sub(1)))
+            }
+        }
+
+        for (let price of [0.08209526, 1.0, 1.5, 12.18097, 1e-12, 1e12]) {
+            expect(getTickAtSqrtRatio(toSqrtPrice(price))).to.eq(await math.testTick(toSqrtPrice(price)))
+        }
+    })
+
+    it("sdk bounds", async() => {
+        expect(() => getSqrtRatioAtTick(MIN_TICK - 1)).to.throw("outside of tick range")
+        expect(() => getSqrtRatioAtTick(MAX_TICK + 1)).to.throw("outside of tick range")
+        expect(() => getTickAtSqrtRatio(65537)).to.throw("outside of price range")
+        expect(() => getTickAtSqrtRatio(getSqrtRatioAtTick(MAX_TICK))).to.throw("outside of price range")
+    })
+
+    it("price to tick", async() => {
+        expect(priceToTick(1)).to.eq(0)
+        expect(priceToTick("1.0001")).to.eq(1)
+        expect(priceToTick("1.00009999")).to.eq(0)
+        expect(priceToTick("0.99990001")).to.eq(-1)
+        expect(priceToTick("0.9999")).to.eq(-2)
+        expect(priceToTick(0.08209526)).to.eq(-25000)
+        expect(priceToTick("1.2e+1")).to.eq(priceToTick(12))
+        expect(() => priceToTick(0)).to.throw("must be positive")
+        expect(() => priceToTick("abc")).to.throw("not a valid decimal")
+    })
+
+    it("grid snapping", async() => {
+        expect(floorToGrid(-5, 4)).to.eq(-8)
+        expect(ceilToGrid(-5, 4)).to.eq(-4)
+        expect(floorToGrid(5, 4)).to.eq(4)
+        expect(ceilToGrid(8, 4)).to.eq(8)
+        expect(floorToGrid(MIN_TICK, 64)).to.eq(-665408)
+        expect(ceilToGrid(MAX_TICK, 64)).to.eq(831808)
+        expect(isOnGrid(-64, 128, 64)).to.be.true
+        expect(isOnGrid(-63, 128, 64)).to.be.false
+        expect(() => floorToGrid(0, 0)).to.throw("Tick size")
+
+        expect(priceRangeToTicks(1, 2, 64)).to.deep.eq({ lowerTick: 0, upperTick: 6976 })
+        expect(priceRangeToTicks("1.0001", "1.0001", 1)).to.deep.eq({ lowerTick: 1, upperTick: 2 })
+        expect(priceRangeToTicks("1", "1.00020001", 2)).to.deep.eq({ lowerTick: 0, upperTick: 2 })
+        expect(priceRangeToTicks("1", "1.0003", 2)).to.deep.eq({ lowerTick: 0, upperTick: 4 })
+        expect(() => priceRangeToTicks(2, 1, 1)).to.throw("above upper price")
+    })
+})